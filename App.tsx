@@ -1,14 +1,42 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { marked } from 'marked';
-import JSZip from 'jszip';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import saveAs from 'file-saver';
-import { AppStep, StepStatus, WpConfig, HistoryItem, OutputLanguage } from './types';
-import { executeStep1, executeStep2, executeStep3, executeStep4, generateBlogImage, resetSession } from './services/geminiService';
-import { getHistory, saveHistoryItem, deleteHistoryItem } from './services/storageService';
+import { AppStep, StepStatus, BrandProfile, WpConfig, WpPostStatus, WpPublishOptions, HistoryItem, OutputLanguage, StepData, QueueItem, QueueRunState, PromptContext, PromptStep, PromptTemplate, Ideation, Article, ReviewGate, SectionAction, SiteLink, InternalLink, PreflightEntry, KeywordCluster, ClusterRef, CitationMode, ImageSettings, AspectRatio, ImageProviderId, StockPhoto, TextSettings, TextProviderId, WxrExportSettings } from './types';
+import { getTemplateVersion, rewriteSection, translateArticle } from './services/geminiService';
+import { SchedulerSettings, DEFAULT_SCHEDULER_SETTINGS, configureScheduler, getSchedulerStats, recordJobDuration, estimateRemainingMs } from './services/scheduler';
+import { getResumeStage, getItemKeyword, REVIEW_GATES, REVIEW_GATE_LABELS, runKeywordPipeline as runPipeline } from './services/pipelineService';
+import { ideationToMarkdown, parseIdeation, tryParseIdeation } from './services/ideationService';
+import { parseArticle, articleToMarkdown, getArticleImages, hasBlockingIssues, formatIssues, getSectionMarkdown, replaceSection, imageAssetRef, imageAssetId } from './services/articleService';
+import { encodeImage, DEFAULT_IMAGE_SETTINGS, ASPECT_RATIOS, canEncode } from './services/imageAssetService';
+import { DEFAULT_PROFILES, findProfile, getDefaultProfile, getItemProfile } from './services/profileService';
+import { getProfiles, saveProfile, deleteProfile, getSetting, saveSetting, getHistory, getHistoryItem, saveHistoryItem, deleteHistoryItem, createHistoryId, getWpConfig, saveWpConfig, getQueue, saveQueueItem, saveQueueItems, deleteQueueItems, getQueueRunState, saveQueueRunState, getTemplates, saveTemplate, resetTemplate, getSiteLinks, saveSiteLinks, saveImageAsset, getImageAssets, deleteUnusedImageAssets, getStockPhotos, saveStockPhotos, deleteStockPhotos } from './services/storageService';
+import { auditHistoryItem } from './services/seoAuditService';
+import { checkFacts, factCheckHistoryItem, formatRedFlags } from './services/factCheckService';
+import { buildStructuredData, StructuredData } from './services/schemaService';
+import { relinkHistoryItem, setLinkTarget, removeInternalLink } from './services/linkingService';
+import { LANGUAGES, getLanguage, languageLabel } from './services/languages';
+import { checkDuplicates, hasOverlaps, planPreflight, PreflightPlan } from './services/duplicateService';
+import { clusterKeywords, clusterQueuePlan } from './services/clusterService';
+import { prepareTranslation, finishTranslation, getTranslationGroup, getTranslations, getHreflangAlternates, HreflangAlternate } from './services/translationService';
+import { publishArticle, isWpConfigured } from './services/wordpressService';
+import { buildCleanHtml, buildPackageZip, buildWxr, buildWxrExport, buildWxrZip, postTags, DEFAULT_WXR_SETTINGS, WxrAuthor, WxrPost } from './services/exportService';
+import { IMAGE_PROVIDERS, getImageProvider, resolveImageProvider } from './services/imageProviderService';
+import { DEFAULT_TEXT_SETTINGS, TEXT_PROVIDER_LABELS, addUsage, createTextProvider, formatUsage } from './services/textProviderService';
 import { StepIndicator } from './components/StepIndicator';
 import { ResultViewer } from './components/ResultViewer';
 import { HistorySidebar } from './components/HistorySidebar';
-import { Loader2, Send, Settings, ArrowRight, Check, History, List, X, Languages, Download, Copy, FileText, Package, Code, Sparkles, FileCode, Tag } from 'lucide-react';
+import { WpSettingsModal } from './components/WpSettingsModal';
+import { QueuePanel } from './components/QueuePanel';
+import { ProfileManager } from './components/ProfileManager';
+import { PromptTemplateEditor } from './components/PromptTemplateEditor';
+import { ArticleIssues } from './components/ArticleIssues';
+import { ReviewPanel } from './components/ReviewPanel';
+import { SiteLinksModal } from './components/SiteLinksModal';
+import { StockLibraryModal } from './components/StockLibraryModal';
+import { PreflightModal } from './components/PreflightModal';
+import { ClusterPlanner } from './components/ClusterPlanner';
+import { InternalLinksReport } from './components/InternalLinksReport';
+import { WxrExportModal } from './components/WxrExportModal';
+import { Loader2, Send, Settings, ArrowRight, Check, History, List, X, Languages, Download, Copy, FileText, Package, Code, Sparkles, FileCode, Tag, Globe, UploadCloud, Pause, UserCircle, Network } from 'lucide-react';
 
 const App: React.FC = () => {
   // State
@@ -18,15 +46,44 @@ const App: React.FC = () => {
   const [language, setLanguage] = useState<OutputLanguage>('vi'); // Language selection
   const [categoryInput, setCategoryInput] = useState('Marathon'); // Category input
 
-  const [queue, setQueue] = useState<string[]>([]); // Processing queue
-  const [completedCount, setCompletedCount] = useState(0);
-  const [totalCount, setTotalCount] = useState(0);
+  // Brand profiles (persona used to build the prompts)
+  const [profiles, setProfiles] = useState<BrandProfile[]>(DEFAULT_PROFILES);
+  const [selectedProfileId, setSelectedProfileId] = useState(DEFAULT_PROFILES[0].id);
+  const [showProfiles, setShowProfiles] = useState(false);
+
+  // Prompt templates (one per step and language, versioned)
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [showTemplates, setShowTemplates] = useState(false);
+
+  // Existing site pages offered as internal link targets (besides history)
+  const [siteLinks, setSiteLinks] = useState<SiteLink[]>([]);
+  const [showSiteLinks, setShowSiteLinks] = useState(false);
+  const [stockPhotos, setStockPhotos] = useState<StockPhoto[]>([]);
+  const [showStockLibrary, setShowStockLibrary] = useState(false);
+
+  // Bulk queue (persisted in IndexedDB, mirrored here for rendering)
+  const [queueItems, setQueueItems] = useState<QueueItem[]>([]);
+  const [queueRunState, setQueueRunState] = useState<QueueRunState>('idle');
+  const runStateRef = useRef<QueueRunState>('idle'); // Read by the worker loop (state would be stale)
+  const workerActiveRef = useRef(false);
+  const claimedIdsRef = useRef<Set<string>>(new Set()); // Queue items picked by a worker
+  const focusJobRef = useRef<string | null>(null); // Job whose steps are shown live
+  const [jobMessages, setJobMessages] = useState<Record<string, string>>({}); // Progress per running job
+  const [schedulerSettings, setSchedulerSettings] = useState<SchedulerSettings>(DEFAULT_SCHEDULER_SETTINGS);
+  const [schedulerStats, setSchedulerStats] = useState(getSchedulerStats());
+  const [imageSettings, setImageSettings] = useState<ImageSettings>(DEFAULT_IMAGE_SETTINGS);
+  const [textSettings, setTextSettings] = useState<TextSettings>(DEFAULT_TEXT_SETTINGS);
+  const [avifSupported, setAvifSupported] = useState(true);
+  const totalCount = queueItems.length;
+  const completedCount = queueItems.filter(i => i.status === 'done' || i.status === 'failed' || i.status === 'skipped').length;
+  const failedCount = queueItems.filter(i => i.status === 'failed').length;
   const [currentKeyword, setCurrentKeyword] = useState(''); // Currently processing keyword
   
   const [statusMessage, setStatusMessage] = useState('');
   
   // Results
   const [ideationResult, setIdeationResult] = useState(''); 
+  const [ideationData, setIdeationData] = useState<Ideation | null>(null); // Structured Step 2 (tables)
   const [outlineResult, setOutlineResult] = useState(''); 
   const [articleResult, setArticleResult] = useState(''); 
 
@@ -34,10 +91,27 @@ const App: React.FC = () => {
   const [history, setHistory] = useState<HistoryItem[]>([]);
   const [showHistory, setShowHistory] = useState(false);
   const [viewingHistoryItem, setViewingHistoryItem] = useState<HistoryItem | null>(null);
+  // Batch waiting for the duplicate check, with the cluster of each keyword when planned from clusters
+  const [preflight, setPreflight] = useState<{ entries: PreflightEntry[]; clusters?: Record<string, ClusterRef> } | null>(null);
+  const [clusterDraft, setClusterDraft] = useState<KeywordCluster[] | null>(null); // Proposed clusters being edited
+  const [translatingTo, setTranslatingTo] = useState<OutputLanguage | null>(null); // Language of the running translation
 
   // Export State
   const [isZipping, setIsZipping] = useState(false);
   const [copyCleanSuccess, setCopyCleanSuccess] = useState(false);
+  const [wxrSettings, setWxrSettings] = useState<WxrExportSettings>(DEFAULT_WXR_SETTINGS);
+  const [wxrSelection, setWxrSelection] = useState<string[] | null>(null); // History ids checked in the open WXR dialog
+
+  // WordPress Publish State
+  const [wpConfig, setWpConfig] = useState<WpConfig | null>(null);
+  const [showWpSettings, setShowWpSettings] = useState(false);
+  const [autoPublish, setAutoPublish] = useState(false);
+  const [reviewGates, setReviewGates] = useState<ReviewGate[]>([]); // Review mode for new batches
+  const [batchImageProvider, setBatchImageProvider] = useState<ImageProviderId | ''>(''); // '' = the profile's
+  const [wpStatus, setWpStatus] = useState<WpPostStatus>('draft');
+  const [wpScheduleAt, setWpScheduleAt] = useState('');
+  const [citationMode, setCitationMode] = useState<CitationMode>('footnotes'); // Sources in exports and WP posts
+  const [isPublishing, setIsPublishing] = useState(false);
 
   // Scroll ref
   const bottomRef = useRef<HTMLDivElement>(null);
@@ -48,12 +122,71 @@ const App: React.FC = () => {
   // Load History on Mount
   useEffect(() => {
     const loadData = async () => {
-        const loadedHistory = await getHistory();
+        let loadedHistory = await getHistory();
+
+        // Nothing is running on mount, so "in progress" items were interrupted by a reload/close.
+        // Mark them failed so they can be resumed from their last saved step.
+        for (const item of loadedHistory.filter(h => h.status === 'in_progress')) {
+            loadedHistory = await saveHistoryItem({
+                ...item,
+                status: 'failed',
+                failedStage: getResumeStage(item.steps) || undefined,
+                error: 'Interrupted (page was closed or reloaded)'
+            });
+        }
         setHistory(loadedHistory);
+        setWpConfig(await getWpConfig());
+
+        const loadedProfiles = await getProfiles();
+        setProfiles(loadedProfiles);
+        const savedProfileId = await getSetting<string>('selectedProfileId');
+        const activeProfile = findProfile(loadedProfiles, savedProfileId || undefined);
+        setSelectedProfileId(activeProfile.id);
+        setLanguage(activeProfile.language);
+        setCategoryInput(activeProfile.defaultCategory);
+        setTemplates(await getTemplates());
+        setSiteLinks(await getSiteLinks());
+        setStockPhotos(await getStockPhotos());
+
+        setCitationMode((await getSetting<CitationMode>('citationMode')) || 'footnotes');
+
+        setImageSettings(await loadImageSettings());
+        setTextSettings(await loadTextSettings());
+        setWxrSettings({ ...DEFAULT_WXR_SETTINGS, ...(await getSetting<WxrExportSettings>('wxrExport')) });
+        setAvifSupported(await canEncode('avif'));
+
+        const savedScheduler = await getSetting<SchedulerSettings>('schedulerSettings');
+        if (savedScheduler) {
+            setSchedulerSettings(savedScheduler);
+            configureScheduler(savedScheduler);
+        }
+
+        // Restore the bulk queue. A "running" item was interrupted: put it back to pending,
+        // it will resume from its saved history item.
+        const items = await getQueue();
+        const interrupted = items
+            .filter(i => i.status === 'running')
+            .map(i => ({ ...i, status: 'pending' as const }));
+        setQueueItems(interrupted.length > 0 ? await saveQueueItems(interrupted) : items);
+
+        const savedRunState = await getQueueRunState();
+        runStateRef.current = savedRunState;
+        setQueueRunState(savedRunState);
+        if (savedRunState === 'running') {
+            setStatusMessage("Resuming queue after reload...");
+            runQueue();
+        }
     };
     loadData();
   }, []);
 
+  // Refresh rate-limit stats / ETA while a batch is running
+  useEffect(() => {
+    if (status !== StepStatus.LOADING) return;
+    const timer = setInterval(() => setSchedulerStats(getSchedulerStats()), 1000);
+    return () => clearInterval(timer);
+  }, [status]);
+
   useEffect(() => {
     if (status !== StepStatus.IDLE && bottomRef.current) {
       setTimeout(() => {
@@ -63,174 +196,514 @@ const App: React.FC = () => {
   }, [ideationResult, outlineResult, articleResult, status, statusMessage]);
 
   // --- Bulk Processing Logic ---
+  // The queue lives in IndexedDB; React state is only a mirror for rendering.
 
-  const handleStartBulk = async () => {
-    const keywords = bulkInput
+  const reportJob = (jobId: string, message: string) => {
+    setJobMessages(prev => ({ ...prev, [jobId]: message }));
+  };
+
+  const endJob = (jobId: string) => {
+    setJobMessages(prev => {
+      const next = { ...prev };
+      delete next[jobId];
+      return next;
+    });
+    if (focusJobRef.current === jobId) focusJobRef.current = null;
+  };
+
+  const handleSchedulerSettingsChange = async (patch: Partial<SchedulerSettings>) => {
+    const next = { ...schedulerSettings, ...patch };
+    setSchedulerSettings(next);
+    configureScheduler(next);
+    await saveSetting('schedulerSettings', next);
+  };
+
+  // Saved image settings over the defaults (settings saved by older versions miss newer fields)
+  const loadImageSettings = async (): Promise<ImageSettings> =>
+    ({ ...DEFAULT_IMAGE_SETTINGS, ...(await getSetting<ImageSettings>('imageSettings')) });
+
+  const handleImageSettingsChange = async (patch: Partial<ImageSettings>) => {
+    const next = { ...imageSettings, ...patch };
+    setImageSettings(next);
+    await saveSetting('imageSettings', next);
+  };
+
+  const loadTextSettings = async (): Promise<TextSettings> => {
+    const saved = await getSetting<TextSettings>('textSettings');
+    return { ...DEFAULT_TEXT_SETTINGS, ...saved, openai: { ...DEFAULT_TEXT_SETTINGS.openai, ...saved?.openai } };
+  };
+
+  const handleTextSettingsChange = async (patch: Partial<TextSettings>) => {
+    const next = { ...textSettings, ...patch };
+    setTextSettings(next);
+    await saveSetting('textSettings', next);
+  };
+
+  const handleWxrSettingsChange = async (patch: Partial<WxrExportSettings>) => {
+    const next = { ...wxrSettings, ...patch };
+    setWxrSettings(next);
+    await saveSetting('wxrExport', next);
+  };
+
+  const refreshQueue = async () => {
+    const items = await getQueue();
+    setQueueItems(items);
+    return items;
+  };
+
+  const setRunState = async (state: QueueRunState) => {
+    runStateRef.current = state;
+    setQueueRunState(state);
+    await saveQueueRunState(state);
+  };
+
+  const getBulkKeywords = () =>
+    bulkInput
       .split('\n')
       .map(k => k.trim())
       .filter(k => k.length > 0);
 
+  const handleStartBulk = async () => {
+    const keywords = getBulkKeywords();
     if (keywords.length === 0) return;
+    await runPreflight(keywords);
+  };
 
-    setQueue(keywords);
-    setTotalCount(keywords.length);
-    setCompletedCount(0);
-    setStatus(StepStatus.LOADING);
-    
-    // Start processing the first keyword, capture current language
-    processNextKeyword(keywords, language);
+  // Pre-flight: repeated or cannibalizing keywords are resolved before any quota is spent
+  const runPreflight = async (keywords: string[], clusters?: Record<string, ClusterRef>) => {
+    const entries = checkDuplicates(keywords, {
+      language,
+      history: await getHistory(),
+      queue: await getQueue(),
+      groups: clusters && keywords.map(k => clusters[k]?.id),
+    });
+    if (hasOverlaps(entries)) {
+      setPreflight({ entries, clusters });
+      return;
+    }
+    await enqueueKeywords(planPreflight(entries), clusters);
   };
 
-  const processNextKeyword = async (remainingQueue: string[], selectedLang: OutputLanguage) => {
-    if (remainingQueue.length === 0) {
-      setStatus(StepStatus.COMPLETE);
-      setStatusMessage("All keywords processed successfully!");
-      setCurrentKeyword('');
+  const handleConfirmPreflight = async (entries: PreflightEntry[]) => {
+    const clusters = preflight?.clusters;
+    setPreflight(null);
+    await enqueueKeywords(planPreflight(entries), clusters);
+  };
+
+  // --- KEYWORD CLUSTERS ---
+
+  const handlePlanClusters = () => {
+    const keywords = getBulkKeywords();
+    if (keywords.length === 0) return;
+    setClusterDraft(clusterKeywords(keywords));
+  };
+
+  // Pillars are queued before their supporting articles; the duplicate check still runs against queue and history
+  const handleConfirmClusters = async (clusters: KeywordCluster[]) => {
+    setClusterDraft(null);
+    const plan = clusterQueuePlan(clusters);
+    const refs: Record<string, ClusterRef> = {};
+    plan.forEach(p => {
+      if (p.cluster) refs[p.keyword] = p.cluster;
+    });
+    await runPreflight(plan.map(p => p.keyword), refs);
+  };
+
+  const enqueueKeywords = async (plan: PreflightPlan, clusters?: Record<string, ClusterRef>) => {
+    // Capture publish settings now, the queue must not depend on later UI changes
+    const publishOpts: WpPublishOptions | null = autoPublish && isWpConfigured(wpConfig)
+      ? { status: wpStatus, category: categoryInput, scheduledAt: wpScheduleAt, citations: citationMode }
+      : null;
+
+    // Append to the existing queue (keywords from an unfinished batch stay in place)
+    const existing = await getQueue();
+    let nextOrder = existing.reduce((max, i) => Math.max(max, i.order), 0) + 1;
+    const newItems: QueueItem[] = plan.keywords.map(({ keyword, mergedKeywords }) => ({
+      id: createHistoryId(),
+      keyword,
+      language,
+      category: categoryInput,
+      profileId: selectedProfileId,
+      status: 'pending',
+      order: nextOrder++,
+      addedAt: Date.now(),
+      publish: publishOpts,
+      reviewGates,
+      mergedKeywords: mergedKeywords.length ? mergedKeywords : undefined,
+      cluster: clusters?.[keyword],
+      imageProvider: batchImageProvider || undefined
+    }));
+    // Keywords merged into queue items that have not started yet
+    const mergedItems = plan.queueMerges.flatMap(({ queueId, keywords }) => {
+      const item = existing.find(i => i.id === queueId);
+      return item ? [{ ...item, mergedKeywords: [...(item.mergedKeywords || []), ...keywords] }] : [];
+    });
+
+    setQueueItems(await saveQueueItems([...newItems, ...mergedItems]));
+    setBulkInput('');
+    if (newItems.length === 0) return;
+    await setRunState('running');
+    runQueue();
+  };
+
+  /**
+   * Queue runner: starts `concurrency` workers, each picking the first unclaimed pending
+   * item (in user-defined order) until the queue is empty or the run state changes.
+   * Pacing between requests is left to the scheduler, there are no fixed sleeps here.
+   */
+  const runQueue = async () => {
+    if (workerActiveRef.current) return;
+    workerActiveRef.current = true;
+    setStatus(StepStatus.LOADING);
+
+    const settings = (await getSetting<SchedulerSettings>('schedulerSettings')) || DEFAULT_SCHEDULER_SETTINGS;
+    configureScheduler(settings);
+
+    const worker = async () => {
+      while (runStateRef.current === 'running') {
+        const items = await refreshQueue();
+        // Claim synchronously after the await so two workers never pick the same item
+        const next = items.find(i => i.status === 'pending' && !claimedIdsRef.current.has(i.id));
+        if (!next) break;
+
+        claimedIdsRef.current.add(next.id);
+        try {
+          await processQueueItem(next);
+        } finally {
+          claimedIdsRef.current.delete(next.id);
+        }
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: Math.max(1, settings.concurrency) }, () => worker()));
+    } finally {
+      workerActiveRef.current = false;
+    }
+
+    const items = await refreshQueue();
+    setCurrentKeyword('');
+    if (runStateRef.current === 'paused') {
+      setStatusMessage("Queue paused.");
       return;
     }
+    if (!items.some(i => i.status === 'pending')) {
+      await setRunState('idle');
+      setStatus(StepStatus.COMPLETE);
+      const inReview = items.filter(i => i.status === 'review').length;
+      setStatusMessage(inReview > 0 ? `${inReview} keyword(s) waiting for review.` : "All keywords processed successfully!");
+    }
+  };
 
-    const keyword = remainingQueue[0];
-    const nextQueue = remainingQueue.slice(1);
-    
-    setCurrentKeyword(keyword);
-    setQueue(nextQueue);
-    setCompletedCount(prev => totalCount - remainingQueue.length);
-    
-    // Reset UI for new keyword
-    setCurrentStep(AppStep.INPUT);
-    setIdeationResult('');
-    setOutlineResult('');
-    setArticleResult('');
-    resetSession();
+  const processQueueItem = async (queueItem: QueueItem) => {
+    const keyword = queueItem.keyword;
+
+    // A retried / interrupted item continues from its saved history item
+    const existingHistory = queueItem.historyId ? await getHistoryItem(queueItem.historyId) : null;
+    const startItem: HistoryItem = existingHistory || {
+      id: queueItem.historyId || createHistoryId(),
+      keyword,
+      content: '',
+      timestamp: Date.now(),
+      language: queueItem.language,
+      profile: findProfile(await getProfiles(), queueItem.profileId, queueItem.language),
+      status: 'in_progress',
+      steps: {},
+      mergedKeywords: queueItem.mergedKeywords,
+      cluster: queueItem.cluster,
+      imageProvider: queueItem.imageProvider
+    };
+    // Gates come from the queue item (editable until the job starts), approvals from the history item
+    startItem.review = { gates: queueItem.reviewGates || [], approved: startItem.review?.approved || [] };
+
+    let current: QueueItem = { ...queueItem, status: 'running', historyId: startItem.id, error: undefined };
+    setQueueItems(await saveQueueItem(current));
+    const jobId = startItem.id;
+    const startedAt = Date.now();
 
     try {
-      const langLabel = selectedLang === 'vi' ? 'VI' : 'EN';
-
-      // --- Step 1 ---
-      setStatusMessage(`[${keyword}][${langLabel}] Researching data (Step 1/4)...`);
-      await executeStep1(keyword, selectedLang);
-
-      // --- Step 2 ---
-      setStatusMessage(`[${keyword}][${langLabel}] Generating Ideation (Step 2/4)...`);
-      const ideation = await executeStep2(keyword, selectedLang);
-      setIdeationResult(ideation);
-      setCurrentStep(AppStep.IDEATION);
-
-      // --- Step 3 ---
-      setStatusMessage(`[${keyword}][${langLabel}] Creating Outline (Step 3/4)...`);
-      const outline = await executeStep3(selectedLang);
-      setOutlineResult(outline);
-      setCurrentStep(AppStep.OUTLINE);
-
-      // --- Step 4 ---
-      setStatusMessage(`[${keyword}][${langLabel}] Writing Article (Step 4/4)...`);
-      const rawArticle = await executeStep4(keyword, selectedLang);
-      setArticleResult(rawArticle);
-      setCurrentStep(AppStep.WRITING);
-
-      // --- Images ---
-      setStatusMessage(`[${keyword}] Generating Images (Vietnamese Context)...`);
-      
-      // Regex handles both [FEATURED_IMAGE_PROMPT: ...] and [IMAGE_PROMPT: ...]
-      const imageRegex = /\[(?:FEATURED_IMAGE_PROMPT|IMAGE_PROMPT|HÌNH ẢNH):\s*(.*?)\]/gi;
-      let finalArticle = rawArticle;
-      const matches = [...rawArticle.matchAll(imageRegex)];
-      
-      if (matches.length > 0) {
-        let processedCount = 0;
-        for (const m of matches) {
-            const fullTag = m[0];
-            const prompt = m[1];
-            const isFeatured = fullTag.includes('FEATURED_IMAGE_PROMPT');
-            
-            setStatusMessage(`[${keyword}] Image ${processedCount + 1}/${matches.length} ${isFeatured ? '(Thumbnail)' : ''}...`);
-            
-            const base64Image = await generateBlogImage(prompt);
-            
-            if (base64Image) {
-                // If it's featured, we mark it specifically in Markdown with a special Alt Text
-                // so we can identify it during export.
-                const markdownImage = isFeatured 
-                    ? `\n![FEATURED_IMAGE](${base64Image})\n`
-                    : `\n\n![${prompt}](${base64Image})\n`;
-                
-                finalArticle = finalArticle.replace(fullTag, markdownImage);
-            } else {
-                finalArticle = finalArticle.replace(fullTag, ``);
-            }
-            setArticleResult(finalArticle);
-            processedCount++;
+      const finishedItem = await runKeywordPipeline(startItem, () => runStateRef.current === 'idle');
+
+      // --- Review mode: the job stops here and continues once an editor approves ---
+      if (finishedItem.status === 'awaiting_review') {
+        current = { ...current, status: 'review' };
+        setStatusMessage(`[${keyword}] Waiting for review: ${REVIEW_GATE_LABELS[finishedItem.awaitingReview!]}.`);
+        setQueueItems(await saveQueueItem(current));
+        return;
+      }
 
-            // RATE LIMIT PROTECTION: Add 6s delay between image requests
-            if (processedCount < matches.length) {
-              await new Promise(r => setTimeout(r, 6000));
+      // --- Publish (optional) ---
+      if (queueItem.publish) {
+        const config = await getWpConfig();
+        if (isWpConfigured(config)) {
+          if (focusJobRef.current === jobId) setCurrentStep(AppStep.PUBLISH);
+          const article = parseArticle(finishedItem.content, finishedItem.keyword);
+          const facts = factCheckHistoryItem(finishedItem);
+          if (hasBlockingIssues(article)) {
+            // Malformed output is never published unattended; it stays in history for review
+            console.warn(`[${keyword}] Not published:\n${formatIssues(article.issues)}`);
+            setStatusMessage(`[${keyword}] Not published to WordPress: the article has problems (see history).`);
+          } else if (facts && facts.redFlags > 0) {
+            // Neither are unbacked figures: an editor verifies them, then publishes from history
+            console.warn(`[${keyword}] Not published:\n${formatRedFlags(facts)}`);
+            setStatusMessage(`[${keyword}] Not published to WordPress: ${facts.redFlags} claim(s) not backed by the research (see Facts).`);
+          } else {
+            try {
+              const published = await publishItem(finishedItem, config, queueItem.publish, (msg) => reportJob(jobId, `[${keyword}] WordPress: ${msg}`));
+              setStatusMessage(`[${keyword}] Published to WordPress (${published.item.wpLink})${published.missingMeta.length ? ', without the SEO meta (see README)' : ''}`);
+            } catch (publishError) {
+              // Publishing failures must not lose the article, it stays in history for a manual retry
+              console.error("WordPress publish failed:", publishError);
+              setStatusMessage(`[${keyword}] WordPress publish failed, article kept in history.`);
             }
+          }
         }
       }
 
-      // --- Save to History ---
-      const newItem: HistoryItem = {
-        id: "", // Service will assign unique ID
-        keyword: keyword,
-        content: finalArticle,
-        timestamp: Date.now(),
-        language: selectedLang
-      };
-      
-      console.log("Saving article to DB...");
-      const updatedHistory = await saveHistoryItem(newItem);
-      setHistory(updatedHistory);
+      current = { ...current, status: 'done', finishedAt: Date.now() };
+      recordJobDuration(Date.now() - startedAt);
+    } catch (error) {
+      // runKeywordPipeline already saved the partial results as a failed history item
+      const cancelled = runStateRef.current === 'idle';
+      current = { ...current, status: cancelled ? 'skipped' : 'failed', error: String(error), finishedAt: Date.now() };
+      setStatusMessage(cancelled ? `Cancelled "${keyword}".` : `Error with "${keyword}". Moving to next...`);
+    } finally {
+      endJob(jobId);
+    }
 
-      // --- Trigger Next ---
-      setCompletedCount(prev => prev + 1);
-      
-      // Small delay between articles to avoid rate limits abruptly
-      setStatusMessage(`[${keyword}] Finished! Starting next in 3s...`);
-      await new Promise(r => setTimeout(r, 3000));
-      
-      processNextKeyword(nextQueue, selectedLang);
+    setQueueItems(await saveQueueItem(current));
+  };
 
-    } catch (error) {
-      console.error(error);
-      const errorItem: HistoryItem = {
-        id: "",
-        keyword: keyword + " (FAILED)",
-        content: `Error processing: ${error}`,
-        timestamp: Date.now(),
-        language: selectedLang
-      };
-      const updatedHistory = await saveHistoryItem(errorItem);
-      setHistory(updatedHistory);
-      
-      setStatusMessage(`Error with "${keyword}". Moving to next...`);
-      await new Promise(r => setTimeout(r, 2000));
-      processNextKeyword(nextQueue, selectedLang);
+  // --- Queue Controls ---
+
+  const handlePauseQueue = async () => {
+    // The running keyword finishes, then the worker stops
+    await setRunState('paused');
+    setStatusMessage("Pausing after the current keyword...");
+  };
+
+  const handleResumeQueue = async () => {
+    await setRunState('running');
+    runQueue();
+  };
+
+  const handleCancelQueue = async () => {
+    if (!confirm("Cancel the batch? All pending keywords will be skipped.")) return;
+    await setRunState('idle');
+    const items = await getQueue();
+    const skipped = items
+      .filter(i => i.status === 'pending')
+      .map(i => ({ ...i, status: 'skipped' as const, finishedAt: Date.now() }));
+    setQueueItems(await saveQueueItems(skipped));
+    if (!workerActiveRef.current) setStatus(StepStatus.COMPLETE);
+  };
+
+  const handleMoveQueueItem = async (id: string, direction: -1 | 1) => {
+    const items = await getQueue();
+    const index = items.findIndex(i => i.id === id);
+    const target = items[index + direction];
+    if (index < 0 || !target) return;
+    // Swap order values of the two neighbours
+    const moved = { ...items[index], order: target.order };
+    const swapped = { ...target, order: items[index].order };
+    setQueueItems(await saveQueueItems([moved, swapped]));
+  };
+
+  const handleRetryQueueItem = async (id: string) => {
+    const item = (await getQueue()).find(i => i.id === id);
+    if (!item) return;
+    setQueueItems(await saveQueueItem({ ...item, status: 'pending', error: undefined, finishedAt: undefined }));
+    if (runStateRef.current === 'idle') {
+      await setRunState('running');
+      runQueue();
+    }
+  };
+
+  const handleSkipQueueItem = async (id: string) => {
+    const item = (await getQueue()).find(i => i.id === id);
+    if (!item || (item.status !== 'pending' && item.status !== 'review')) return;
+    setQueueItems(await saveQueueItem({ ...item, status: 'skipped', finishedAt: Date.now() }));
+  };
+
+  const handleRemoveQueueItem = async (id: string) => {
+    setQueueItems(await deleteQueueItems([id]));
+  };
+
+  const handleClearFinishedQueue = async () => {
+    const finished = queueItems.filter(i => i.status === 'done' || i.status === 'skipped').map(i => i.id);
+    setQueueItems(await deleteQueueItems(finished));
+  };
+
+  // Per-keyword review mode (applies when the keyword starts or resumes)
+  const handleSetQueueReview = async (id: string, gates: ReviewGate[]) => {
+    const item = (await getQueue()).find(i => i.id === id);
+    if (!item || item.status === 'running') return;
+    setQueueItems(await saveQueueItem({ ...item, reviewGates: gates }));
+  };
+
+  /**
+   * Saves the editor's version of DDD1 / OL1 into the stored steps and re-queues the keyword.
+   * The resumed job rebuilds its chat from the stored steps, so Step 3/4 see the edited text.
+   * Throws (shown in the review panel) when edited ideation JSON is invalid.
+   */
+  const handleApproveReview = async (queueId: string, editedText: string) => {
+    const queueItem = (await getQueue()).find(i => i.id === queueId);
+    const historyItem = queueItem?.historyId ? await getHistoryItem(queueItem.historyId) : null;
+    if (!queueItem || !historyItem?.awaitingReview) return;
+
+    const gate = historyItem.awaitingReview;
+    const steps: StepData = { ...(historyItem.steps || {}) };
+    let ideation = historyItem.ideation;
+    if (gate === 'ideation') {
+      ideation = parseIdeation(editedText);
+      steps.step2_ideation = JSON.stringify(ideation, null, 2);
+    } else {
+      steps.step3_outline = editedText.trim();
+    }
+
+    const review = historyItem.review || { gates: [gate], approved: [] };
+    setHistory(await saveHistoryItem({
+      ...historyItem,
+      steps,
+      ideation,
+      review: { ...review, approved: [...review.approved, gate] }
+    }));
+    setQueueItems(await saveQueueItem({ ...queueItem, status: 'pending' }));
+
+    if (runStateRef.current === 'idle') {
+      await setRunState('running');
+      runQueue();
+    }
+  };
+
+  const handleOpenQueueResult = async (historyId: string) => {
+    const item = await getHistoryItem(historyId);
+    if (item) setViewingHistoryItem(item);
+  };
+
+  /**
+   * A finished cluster article is linked from the cluster pages written before it (the pillar
+   * usually comes first and could not link to supporting articles that did not exist yet).
+   * Best effort: a failure here never fails the job.
+   */
+  const relinkClusterSiblings = async (finished: HistoryItem) => {
+    try {
+      const history = await getHistory();
+      const storedLinks = await getSiteLinks();
+      const siblings = history.filter(h =>
+        h.id !== finished.id && h.cluster?.id === finished.cluster?.id && h.status === 'complete' && h.content
+      );
+      for (const sibling of siblings) {
+        const relinked = relinkHistoryItem(sibling, history, storedLinks);
+        if (relinked.content === sibling.content) continue; // Nothing new to link
+        const updated = { ...sibling, ...relinked };
+        setHistory(await saveHistoryItem(updated));
+        setViewingHistoryItem(current => (current?.id === updated.id ? updated : current));
+      }
+    } catch (e) {
+      console.error("Cluster relinking failed", e);
+    }
+  };
+
+  // Runs the pipeline (pipelineService) with the current settings; the "focused" job drives the
+  // live step viewers below the progress bar, parallel jobs only report progress
+  const runKeywordPipeline = async (startItem: HistoryItem, shouldStop?: () => boolean): Promise<HistoryItem> => {
+    if (!focusJobRef.current) focusJobRef.current = startItem.id;
+    const item = await runPipeline(startItem, {
+      textProvider: createTextProvider(await loadTextSettings()),
+      imageSettings: await loadImageSettings(),
+      shouldStop,
+      onProgress: message => reportJob(startItem.id, message),
+      onSaved: setHistory,
+      onView: (current, step) => {
+        if (focusJobRef.current !== current.id) return;
+        const steps = current.steps || {};
+        setCurrentKeyword(current.keyword);
+        setCurrentStep(step);
+        setIdeationResult(steps.step2_ideation || '');
+        setIdeationData(current.ideation || tryParseIdeation(steps.step2_ideation) || null);
+        setOutlineResult(steps.step3_outline || '');
+        setArticleResult(steps.step4_article ? current.content : '');
+      },
+    });
+    if (item.status === 'complete' && item.cluster) await relinkClusterSiblings(item);
+    return item;
+  };
+
+  // --- RESUME FAILED ITEM ---
+  // Resuming goes through the queue so it shares the worker (and never runs in parallel with a batch)
+  const handleResumeHistory = async (failedItem: HistoryItem) => {
+    const items = await getQueue();
+    if (items.some(i => i.historyId === failedItem.id && (i.status === 'pending' || i.status === 'running'))) {
+      alert("This keyword is already queued.");
+      return;
+    }
+
+    const existing = items.find(i => i.historyId === failedItem.id);
+    const queueItem: QueueItem = existing
+      ? { ...existing, status: 'pending', error: undefined, finishedAt: undefined }
+      : {
+          id: createHistoryId(),
+          keyword: getItemKeyword(failedItem),
+          language: failedItem.language || 'vi',
+          category: categoryInput,
+          profileId: failedItem.profile?.id,
+          status: 'pending',
+          order: items.reduce((max, i) => Math.max(max, i.order), 0) + 1,
+          addedAt: Date.now(),
+          historyId: failedItem.id,
+          publish: null
+        };
+
+    setShowHistory(false);
+    setViewingHistoryItem(null);
+    setQueueItems(await saveQueueItem(queueItem));
+    if (runStateRef.current !== 'running') {
+      await setRunState('running');
+      runQueue();
     }
   };
 
   // --- REGENERATE IMAGE LOGIC ---
-  const handleRegenerateImage = async (oldSrc: string, altText: string) => {
+  const handleRegenerateImage = async (oldSrc: string) => {
       // Find the current content (either live or viewing history)
       const currentContent = viewingHistoryItem ? viewingHistoryItem.content : articleResult;
       
-      // FIX: If it's the FEATURED IMAGE, the altText is just "FEATURED_IMAGE", which creates garbage images.
-      // We must use the keyword or title to regenerate a proper thumbnail.
-      let promptToUse = altText;
       const targetKeyword = viewingHistoryItem ? viewingHistoryItem.keyword : currentKeyword;
+      const targetItem = viewingHistoryItem || history.find(h => h.keyword === currentKeyword);
+      const targetLang = targetItem?.language || 'vi';
+      const ctx: PromptContext = {
+        keyword: targetKeyword,
+        language: targetLang,
+        profile: targetItem?.profile || getDefaultProfile(targetLang),
+        templates: await getTemplates(),
+      };
 
-      if (altText === 'FEATURED_IMAGE') {
-          promptToUse = `Photography of ${targetKeyword}, cinematic lighting, 8k, realistic, highly detailed, relevant to the topic of ${targetKeyword}.`;
-      } else {
-          // Add some noise to normal prompts to ensure variation
-          promptToUse = `${altText} (Variation ${Math.floor(Math.random() * 100)})`;
-      }
+      // The prompt the image was generated from is kept on the stored image; older images only
+      // have their alt text, and older featured images not even that, so the keyword is used
+      const image = getArticleImages(parseArticle(currentContent, targetKeyword)).find(i => i.src === oldSrc);
+      const isFeatured = !!image?.featured;
+      const oldAssetId = imageAssetId(oldSrc);
+      const [stored] = oldAssetId ? await getImageAssets([oldAssetId]) : [];
+      const basePrompt = stored?.prompt || (isFeatured
+        ? `Photography of ${targetKeyword}, cinematic lighting, 8k, realistic, highly detailed, relevant to the topic of ${targetKeyword}.`
+        : image?.alt || targetKeyword);
+      // Add some noise to the prompt to ensure variation
+      const promptToUse = `${basePrompt} (Variation ${Math.floor(Math.random() * 100)})`;
 
       // Generate new image
-      const newBase64 = await generateBlogImage(promptToUse);
+      const raw = await resolveImageProvider({ imageProvider: targetItem?.imageProvider, profile: ctx.profile }).generate({
+        prompt: promptToUse,
+        alt: image?.alt || '',
+        aspectRatio: isFeatured ? imageSettings.featuredAspect : imageSettings.bodyAspect,
+        ctx
+      });
+      const generated = raw && await encodeImage(raw, imageSettings, isFeatured);
+      const assetId = generated && targetItem && await saveImageAsset({ ...generated, articleId: targetItem.id, mime: generated.blob.type, prompt: basePrompt, alt: image?.alt || '' });
       
-      if (newBase64) {
+      if (assetId) {
           // Replace in content string
-          const newContent = currentContent.replace(oldSrc, newBase64);
+          const newContent = currentContent.replace(oldSrc, imageAssetRef(assetId));
           
           if (viewingHistoryItem) {
               const updatedItem = { ...viewingHistoryItem, content: newContent };
@@ -246,11 +719,224 @@ const App: React.FC = () => {
                   setHistory(updatedHistory);
               }
           }
+          // The old image stays while a section revision or a translation still shows it
+          if (oldAssetId) await deleteUnusedImageAssets([oldAssetId]);
       } else {
           alert("Could not regenerate image. Please try again.");
       }
   };
 
+  // Alt text and caption edited in the preview; every exporter reads them from the Markdown
+  const handleEditImage = async (src: string, alt: string, caption: string) => {
+      const item = getTargetHistoryItem();
+      if (!item) {
+        alert("Article is not saved to history yet.");
+        return;
+      }
+      const article = parseArticle(item.content, item.keyword);
+      const image = getArticleImages(article).find(i => i.src === src);
+      if (!image) return;
+      image.alt = alt.trim();
+      image.caption = caption.trim() || undefined;
+      await saveArticleEdit(item, { content: articleToMarkdown(article) });
+  };
+
+  // --- SECTION REWRITE LOGIC ---
+
+  // History item behind the article on screen (history viewer or the live result)
+  const getTargetHistoryItem = (): HistoryItem | undefined =>
+    viewingHistoryItem || history.find(h => h.keyword === currentKeyword);
+
+  const saveArticleEdit = async (item: HistoryItem, patch: Partial<HistoryItem>) => {
+    const updatedItem = { ...item, ...patch };
+    if (viewingHistoryItem?.id === item.id) setViewingHistoryItem(updatedItem);
+    else setArticleResult(updatedItem.content);
+    setHistory(await saveHistoryItem(updatedItem));
+  };
+
+  const handleSectionAction = async (heading: string, action: SectionAction, instructions?: string) => {
+      const item = getTargetHistoryItem();
+      if (!item) {
+        alert("Article is not saved to history yet.");
+        return;
+      }
+      const language = item.language || 'vi';
+      const article = parseArticle(item.content, item.keyword);
+      const previous = getSectionMarkdown(article, heading);
+      if (previous === null) {
+        alert(`Section "${heading}" was not found in the saved article.`);
+        return;
+      }
+
+      try {
+        const ctx: PromptContext = {
+          keyword: item.keyword,
+          language,
+          profile: item.profile || getDefaultProfile(language),
+          templates: await getTemplates(),
+          steps: item.steps,
+        };
+        const rewritten = await rewriteSection(createTextProvider(textSettings), ctx, getSectionMarkdown(article, heading, false)!, action, instructions);
+        const newHeading = replaceSection(article, heading, rewritten.text, true);
+
+        await saveArticleEdit(item, {
+          content: articleToMarkdown(article),
+          usage: addUsage(item.usage, rewritten.usage),
+          // Capped: every revision is a full copy of the section
+          sectionRevisions: [{ heading: newHeading, previous, action, createdAt: Date.now() }, ...(item.sectionRevisions || [])].slice(0, 20),
+        });
+      } catch (e) {
+        console.error("Section rewrite failed", e);
+        alert(`Could not rewrite the section: ${e instanceof Error ? e.message : String(e)}`);
+      }
+  };
+
+  // Puts back the text a section had before its latest rewrite
+  const handleRevertSection = async (heading: string) => {
+      const item = getTargetHistoryItem();
+      const revision = item?.sectionRevisions?.find(r => r.heading === heading);
+      if (!item || !revision) return;
+
+      try {
+        const article = parseArticle(item.content, item.keyword);
+        replaceSection(article, heading, revision.previous, false);
+        await saveArticleEdit(item, {
+          content: articleToMarkdown(article),
+          sectionRevisions: item.sectionRevisions!.filter(r => r !== revision),
+        });
+      } catch (e) {
+        console.error("Section revert failed", e);
+        alert(`Could not revert the section: ${e instanceof Error ? e.message : String(e)}`);
+      }
+  };
+
+  // --- INTERNAL LINK REPORT ---
+
+  const handleImportStockPhotos = async (photos: Omit<StockPhoto, 'id' | 'addedAt'>[]) => {
+    setStockPhotos(await saveStockPhotos(photos));
+  };
+
+  const handleDeleteStockPhotos = async (ids: string[]) => {
+    setStockPhotos(await deleteStockPhotos(ids));
+  };
+
+  const handleSaveSiteLinks = async (links: SiteLink[]) => {
+    setSiteLinks(links);
+    await saveSiteLinks(links);
+  };
+
+  const updateLink = async (linkId: string, edit: (item: HistoryItem, link: InternalLink) => Partial<HistoryItem>) => {
+      const item = getTargetHistoryItem();
+      const link = item?.internalLinks?.find(l => l.id === linkId);
+      if (!item || !link) return;
+      try {
+        await saveArticleEdit(item, edit(item, link));
+      } catch (e) {
+        alert(e instanceof Error ? e.message : String(e));
+      }
+  };
+
+  const handleChangeLinkTarget = (linkId: string, url: string) =>
+    updateLink(linkId, (item, link) => {
+      const target = link.candidates.find(c => c.url === url)!;
+      const result = setLinkTarget(item.content, link, target, item.language || 'vi');
+      return { content: result.content, internalLinks: item.internalLinks!.map(l => (l.id === linkId ? result.link : l)) };
+    });
+
+  const handleApproveLink = (linkId: string) =>
+    updateLink(linkId, item => ({
+      internalLinks: item.internalLinks!.map(l => (l.id === linkId ? { ...l, status: 'approved' as const } : l)),
+    }));
+
+  const handleRemoveLink = (linkId: string) =>
+    updateLink(linkId, (item, link) => ({
+      content: removeInternalLink(item.content, link),
+      internalLinks: item.internalLinks!.filter(l => l.id !== linkId),
+    }));
+
+  // Resolves markers still in the text and adds links to articles written since; existing links stay
+  const handleRerunLinks = async () => {
+      const item = getTargetHistoryItem();
+      if (!item) return;
+      try {
+        await saveArticleEdit(item, relinkHistoryItem(item, await getHistory(), siteLinks));
+      } catch (e) {
+        console.error("Internal linking failed", e);
+        alert(`Could not update internal links: ${e instanceof Error ? e.message : String(e)}`);
+      }
+  };
+
+  // An editor checked the claim elsewhere: it stops blocking export / publish (and can be flagged again)
+  const handleToggleClaimVerified = async (claimId: string) => {
+    const item = getTargetHistoryItem();
+    if (!item) return;
+    const verified = item.verifiedClaims || [];
+    await saveArticleEdit(item, {
+      verifiedClaims: verified.includes(claimId) ? verified.filter(id => id !== claimId) : [...verified, claimId],
+    });
+  };
+
+  const linkReportProps = {
+    onChangeTarget: handleChangeLinkTarget,
+    onApprove: handleApproveLink,
+    onRemove: handleRemoveLink,
+    onRerun: handleRerunLinks,
+  };
+
+  // --- TRANSLATION ---
+
+  /**
+   * Translates the history item into another language as a new, linked history item
+   * (localized keyword, meta, slug and alt text; same images). Both share a translation
+   * group so exports can emit hreflang alternates.
+   */
+  const handleTranslateHistory = async (item: HistoryItem, targetLang: OutputLanguage) => {
+      const sourceLang = item.language || 'vi';
+      const existing = getTranslations(history, item).find(t => (t.language || 'vi') === targetLang);
+      if (existing && !confirm(`A ${getLanguage(targetLang).name} version already exists ("${existing.keyword}"). Translate again?`)) return;
+
+      // Same site in the target language when such a profile exists
+      const sourceProfile = item.profile || getDefaultProfile(sourceLang);
+      const profile = profiles.find(p => p.language === targetLang && p.websiteUrl === sourceProfile.websiteUrl)
+        || { ...sourceProfile, language: targetLang };
+
+      setTranslatingTo(targetLang);
+      try {
+        const article = parseArticle(item.content, item.keyword);
+        const input = prepareTranslation(article);
+        const ctx: PromptContext = { keyword: item.keyword, language: targetLang, profile, templates: await getTemplates() };
+        const provider = createTextProvider(textSettings);
+        const translation = await translateArticle(provider, ctx, input.markdown, sourceLang);
+        const result = finishTranslation(translation.text, input, { keyword: item.keyword, slug: article.meta.slug }, targetLang);
+
+        const translationGroup = getTranslationGroup(item);
+        if (!item.translationGroup) await saveHistoryItem({ ...item, translationGroup });
+        const translated: HistoryItem = {
+          id: createHistoryId(),
+          keyword: result.keyword,
+          content: result.content,
+          timestamp: Date.now(),
+          language: targetLang,
+          profile,
+          status: 'complete',
+          steps: { ...item.steps, step4_article: result.content, images_done: true },
+          templateVersions: { translate: getTemplateVersion(ctx, 'translate') },
+          textModel: { provider: provider.id, model: provider.model },
+          usage: translation.usage,
+          translationGroup,
+          translatedFrom: item.id,
+        };
+        setHistory(await saveHistoryItem(translated));
+        setViewingHistoryItem(translated);
+        if (result.lostImages > 0) alert(`${result.lostImages} image(s) were dropped by the translation. Regenerate them in the new article if needed.`);
+      } catch (e) {
+        console.error("Translation failed", e);
+        alert(`Could not translate the article: ${e instanceof Error ? e.message : String(e)}`);
+      } finally {
+        setTranslatingTo(null);
+      }
+  };
+
   // History Handlers
   const handleDeleteHistory = async (id: string) => {
     const updated = await deleteHistoryItem(id);
@@ -263,56 +949,177 @@ const App: React.FC = () => {
     setShowHistory(false);
   };
 
+  // --- BRAND PROFILES ---
+
+  const handleSelectProfile = async (id: string) => {
+    const profile = findProfile(profiles, id, language);
+    setSelectedProfileId(profile.id);
+    setLanguage(profile.language);
+    setCategoryInput(profile.defaultCategory);
+    await saveSetting('selectedProfileId', profile.id);
+  };
+
+  const handleSaveProfile = async (profile: BrandProfile) => {
+    setProfiles(await saveProfile(profile));
+    if (profile.id === selectedProfileId) {
+      setLanguage(profile.language);
+      setCategoryInput(profile.defaultCategory);
+    }
+  };
+
+  const handleDeleteProfile = async (id: string) => {
+    const remaining = await deleteProfile(id);
+    setProfiles(remaining);
+    if (id === selectedProfileId) await handleSelectProfile(remaining[0].id);
+  };
+
+  // --- PROMPT TEMPLATES ---
+
+  const handleSaveTemplate = async (step: PromptStep, lang: OutputLanguage, body: string) => {
+    setTemplates(await saveTemplate(step, lang, body));
+  };
+
+  const handleResetTemplate = async (step: PromptStep, lang: OutputLanguage) => {
+    setTemplates(await resetTemplate(step, lang));
+  };
+
+  // --- WORDPRESS PUBLISH ---
+
+  const handleSaveWpConfig = async (config: WpConfig) => {
+    setWpConfig(config);
+    await saveWpConfig(config);
+  };
+
+  // Publishes a history item and stores the resulting post ID / link on it;
+  // also returns the SEO meta keys the site dropped
+  const publishItem = async (
+    item: HistoryItem,
+    config: WpConfig,
+    options: WpPublishOptions,
+    onProgress?: (message: string) => void
+  ): Promise<{ item: HistoryItem; missingMeta: string[] }> => {
+    const article = parseArticle(item.content, item.keyword);
+    const result = await publishArticle(config, article, options, onProgress);
+
+    const publishedItem: HistoryItem = {
+      ...item,
+      wpPostId: result.postId,
+      wpLink: result.link,
+      publishedAt: Date.now()
+    };
+    const updatedHistory = await saveHistoryItem(publishedItem);
+    setHistory(updatedHistory);
+    if (result.missingMeta.length) console.warn(`[WordPress] Post #${result.postId}: SEO meta not saved (${result.missingMeta.join(', ')}). Install wordpress/seo-meta-rest.php on the site.`);
+    return { item: publishedItem, missingMeta: result.missingMeta };
+  };
+
+  const handlePublishToWp = async () => {
+    if (!isWpConfigured(wpConfig)) {
+      setShowWpSettings(true);
+      return;
+    }
+    const item = viewingHistoryItem || history.find(h => h.keyword === currentKeyword);
+    if (!item) {
+      alert("Article is not saved to history yet.");
+      return;
+    }
+    if (item.wpPostId && !confirm(`Already published as post #${item.wpPostId}. Publish again as a new post?`)) return;
+    if (!confirmArticleIssues(parseArticle(item.content, item.keyword), item)) return;
+
+    setIsPublishing(true);
+    try {
+      const published = await publishItem(item, wpConfig, { status: wpStatus, category: categoryInput, scheduledAt: wpScheduleAt, citations: citationMode });
+      if (viewingHistoryItem) setViewingHistoryItem(published.item);
+      alert(`Published to WordPress: ${published.item.wpLink}${published.missingMeta.length
+        ? `\n\nThe site did not save the Yoast/RankMath meta (${published.missingMeta.join(', ')}). Copy wordpress/seo-meta-rest.php to wp-content/mu-plugins/ on the site, then publish again.`
+        : ''}`);
+    } catch (e) {
+      console.error("WordPress publish failed", e);
+      alert(`Failed to publish: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
   // --- EXPORT LOGIC ---
 
-  const parseArticleData = (markdownContent: string, keyword: string) => {
-    // Extract Meta Data
-    const titleMatch = markdownContent.match(/Meta Title:\s*(.*)/);
-    const descMatch = markdownContent.match(/Meta Description:\s*(.*)/);
-    const slugMatch = markdownContent.match(/Slug:\s*(.*)/);
-
-    const title = titleMatch ? titleMatch[1].trim() : keyword;
-    const metaDesc = descMatch ? descMatch[1].trim() : '';
-    const slug = slugMatch ? slugMatch[1].trim() : keyword.toLowerCase().replace(/[^a-z0-9]+/g, '-');
-
-    // Clean Content
-    const metaBlockRegex = /========== META DATA ==========\n([\s\S]*?)=============================/;
-    let cleanBody = markdownContent.replace(metaBlockRegex, "").trim();
-    cleanBody = cleanBody
-        .replace(/========== NỘI DUNG BÀI VIẾT ==========/, "")
-        .replace(/========== KẾT THÚC BÀI VIẾT ==========/, "")
-        // Remove Labels specifically
-        .replace(/\[INTRO\]/gi, "")
-        .replace(/\[BODY\]/gi, "")
-        .replace(/\[CONCLUSION\]/gi, "")
-        .replace(/\*\*INTRO\*\*/gi, "")
-        .replace(/\[(?:FEATURED_IMAGE_PROMPT|IMAGE_PROMPT|HÌNH ẢNH):.*?\]/g, "")
-        .trim();
-    
-    return { title, metaDesc, slug, cleanBody };
+  const handleChangeCitationMode = async (mode: CitationMode) => {
+    setCitationMode(mode);
+    await saveSetting('citationMode', mode);
   };
 
-  const handleCopyCleanHtml = async () => {
+  // Malformed model output (see articleService issues) needs an explicit OK before it leaves the app,
+  // and so do figures the research contradicts (or records it does not back) unless an editor verified them
+  const confirmArticleIssues = (article: Article, item = getTargetHistoryItem()): boolean => {
+    if (hasBlockingIssues(article) && !confirm(`The article has problems:\n\n${formatIssues(article.issues)}\n\nExport anyway?`)) return false;
+    const research = item?.steps?.step1_research;
+    if (!research) return true;
+    const facts = checkFacts(article, research, item.verifiedClaims, item.sources);
+    if (facts.redFlags === 0) return true;
+    return confirm(`${facts.redFlags} claim(s) are not backed by the research:\n\n${formatRedFlags(facts)}\n\nMark them verified in the "Facts" tab once checked. Continue anyway?`);
+  };
+
+  // Other language versions of the article on screen (empty when it was never translated)
+  const getAlternates = (): HreflangAlternate[] => {
+    const item = getTargetHistoryItem();
+    return item ? getHreflangAlternates(history, item) : [];
+  };
+
+  // Article shown in the result area (history item or the live job)
+  const getCurrentArticle = (): Article => {
     const rawContent = viewingHistoryItem ? viewingHistoryItem.content : articleResult;
     const keyword = viewingHistoryItem ? viewingHistoryItem.keyword : currentKeyword;
-    const { cleanBody } = parseArticleData(rawContent, keyword);
-    
-    // Convert to HTML first using marked
-    let html = await marked.parse(cleanBody);
-
-    // Replace Base64 images with Placeholders using Regex on HTML
-    let imgIndex = 1;
-    html = html.replace(/<img[^>]*src=["']data:[^"']*["'][^>]*alt=["']([^"']*)["'][^>]*>/gi, (match, alt) => {
-         const isFeatured = alt === 'FEATURED_IMAGE';
-         const label = isFeatured ? 'FEATURED IMAGE (Thumbnail)' : `IMAGE ${imgIndex}`;
-         
-         const placeholder = `<div style="background-color: ${isFeatured ? '#fff7ed' : '#f8fafc'}; border: 2px dashed ${isFeatured ? '#f97316' : '#cbd5e1'}; padding: 20px; text-align: center; margin: 20px 0; border-radius: 8px;">
-            <p style="font-weight: bold; color: ${isFeatured ? '#c2410c' : '#1e40af'}; margin-bottom: 5px;">[CHÈN ẢNH: ${label}]</p>
-            <p style="color: #64748b; font-size: 0.9em; font-style: italic;">Alt Text: ${alt}</p>
-         </div>`;
-         if (!isFeatured) imgIndex++;
-         return placeholder;
+    return parseArticle(rawContent, keyword);
+  };
+
+  // Profile of the article on screen: the one it was written with, else the selected one
+  const getTargetProfile = (): BrandProfile => {
+    const item = getTargetHistoryItem();
+    return item?.profile || findProfile(profiles, selectedProfileId, item?.language || language);
+  };
+
+  // JSON-LD of an article without any prompt: the callers decide what to do with the issues
+  const buildItemStructuredData = (article: Article, item: HistoryItem | undefined, profile: BrandProfile, category: string, imageUrl?: string) => {
+    const website = profile.websiteUrl.trim().replace(/\/+$/, '');
+    const featuredSrc = article.featuredImage?.src;
+    return buildStructuredData({
+      article,
+      keyword: item?.keyword || currentKeyword,
+      language: item?.language || language,
+      profile,
+      category,
+      ideation: item?.ideation,
+      url: item?.wpLink || (website ? `${website}/${article.meta.slug}/` : undefined),
+      imageUrl: imageUrl || (featuredSrc?.startsWith('http') ? featuredSrc : undefined),
+      datePublished: item?.publishedAt || item?.timestamp || Date.now(),
+      dateModified: item?.timestamp,
     });
+  };
+
+  /**
+   * JSON-LD (Article, FAQPage, HowTo, BreadcrumbList) for the article on screen.
+   * Schemas missing a required field are left out; returns null when the user cancels.
+   */
+  const getStructuredData = (article: Article, imageUrl?: string): StructuredData | null => {
+    const item = getTargetHistoryItem();
+    const profile = getTargetProfile();
+    const data = buildItemStructuredData(article, item, profile, categoryInput.trim() || profile.defaultCategory, imageUrl);
+
+    const errors = data.issues.filter(i => i.severity === 'error');
+    if (errors.length > 0 && !confirm(`Structured data problems (these schemas are left out):\n\n${formatIssues(errors)}\n\nExport anyway?`)) {
+      return null;
+    }
+    data.issues.filter(i => i.severity === 'warning').forEach(i => console.warn(`JSON-LD ${i.message}`));
+    return data;
+  };
+
+  const handleCopyCleanHtml = async () => {
+    const article = getCurrentArticle();
+    if (!confirmArticleIssues(article)) return;
+    const structuredData = getStructuredData(article);
+    if (!structuredData) return;
+
+    const html = await buildCleanHtml(article, { citations: citationMode, structuredData, alternates: getAlternates() });
 
     try {
         await navigator.clipboard.writeText(html);
@@ -324,75 +1131,17 @@ const App: React.FC = () => {
     }
   };
 
-  // Helper to compress specific Base64 string if it's too large (for existing history items)
-  const compressIfNeeded = async (base64Str: string): Promise<string> => {
-      if (base64Str.startsWith('data:image/jpeg') && base64Str.length < 500000) return base64Str;
-      return new Promise((resolve) => {
-        const img = new Image();
-        img.src = base64Str;
-        img.onload = () => {
-            const canvas = document.createElement('canvas');
-            let width = img.width;
-            let height = img.height;
-            const MAX_WIDTH = 1024;
-            if (width > MAX_WIDTH) {
-                height = Math.round((height * MAX_WIDTH) / width);
-                width = MAX_WIDTH;
-            }
-            canvas.width = width;
-            canvas.height = height;
-            const ctx = canvas.getContext('2d');
-            if (ctx) {
-                ctx.fillStyle = '#FFFFFF';
-                ctx.fillRect(0, 0, width, height);
-                ctx.drawImage(img, 0, 0, width, height);
-                resolve(canvas.toDataURL('image/jpeg', 0.6));
-            } else {
-                resolve(base64Str);
-            }
-        };
-        img.onerror = () => resolve(base64Str);
-      });
-  };
-
   // Fix: Implemented handleDownloadPackage to solve missing name error
   const handleDownloadPackage = async () => {
     setIsZipping(true);
     try {
-      const rawContent = viewingHistoryItem ? viewingHistoryItem.content : articleResult;
-      const keyword = viewingHistoryItem ? viewingHistoryItem.keyword : currentKeyword;
-      const { slug, cleanBody } = parseArticleData(rawContent, keyword);
-
-      const zip = new JSZip();
-      const imgFolder = zip.folder("images");
-
-      const imageRegex = /!\[(.*?)\]\((data:image\/.*?;base64,.*?)\)/g;
-      const matches = [...cleanBody.matchAll(imageRegex)];
-      let processedContent = cleanBody;
-
-      for (let i = 0; i < matches.length; i++) {
-        const match = matches[i];
-        const fullTag = match[0];
-        const altText = match[1];
-        const base64Data = match[2];
-
-        let ext = 'jpg';
-        if (base64Data.includes('image/png')) ext = 'png';
-        if (base64Data.includes('image/webp')) ext = 'webp';
-
-        const filename = `image-${i + 1}.${ext}`;
-        const base64Content = base64Data.split(',')[1];
-
-        imgFolder?.file(filename, base64Content, { base64: true });
-        
-        // Update markdown to point to local images
-        processedContent = processedContent.split(fullTag).join(`![${altText}](images/${filename})`);
-      }
-
-      zip.file(`${slug}.md`, processedContent);
-
+      const article = getCurrentArticle();
+      if (!confirmArticleIssues(article)) return;
+      const structuredData = getStructuredData(article);
+      if (!structuredData) return;
+      const zip = await buildPackageZip(article, { citations: citationMode, structuredData, alternates: getAlternates() });
       const blob = await zip.generateAsync({ type: "blob" });
-      saveAs(blob, `${slug}-package.zip`);
+      saveAs(blob, `${article.meta.slug}-package.zip`);
     } catch (e) {
       console.error("Failed to zip", e);
       alert("Failed to download package.");
@@ -401,152 +1150,35 @@ const App: React.FC = () => {
     }
   };
 
+  // WordPress login the posts of a profile are attributed to (set in the WXR export dialog)
+  const getWxrAuthor = (profile: BrandProfile): WxrAuthor => ({
+    login: wxrSettings.authors[profile.id]?.trim() || 'admin',
+    displayName: profile.brandName,
+  });
+
   const handleDownloadWxrXml = async () => {
     setIsZipping(true);
     try {
-        const rawContent = viewingHistoryItem ? viewingHistoryItem.content : articleResult;
-        const keyword = viewingHistoryItem ? viewingHistoryItem.keyword : currentKeyword;
-        const { title, metaDesc, slug, cleanBody } = parseArticleData(rawContent, keyword);
-        const safeCategory = categoryInput.trim() || 'General';
-        
-        // --- 1. PREPARE DATA ---
-        const postId = Math.floor(Math.random() * 100000) + 1000;
-        const postDate = new Date().toISOString().replace('T', ' ').split('.')[0];
-        
-        const imageRegex = /!\[(.*?)\]\((data:image\/.*?;base64,.*?)\)/g;
-        const matches = [...cleanBody.matchAll(imageRegex)];
-
-        // We will store attachments to append to XML later
-        let attachmentItemsXml = '';
-        let featuredImageId = '';
-        
-        // --- 2. PROCESS IMAGES FOR XML ---
-        let optimizedBody = cleanBody;
-
-        for (let i = 0; i < matches.length; i++) {
-            const match = matches[i];
-            const fullTag = match[0];
-            const altText = match[1];
-            const base64 = match[2];
-            
-            const compressedBase64 = await compressIfNeeded(base64);
-            const attachmentId = postId + i + 1; 
-            
-            // Check if this is the FEATURED IMAGE based on specific Alt tag
-            const isFeatured = altText === 'FEATURED_IMAGE';
-            
-            if (isFeatured) {
-                featuredImageId = attachmentId.toString();
-                // REMOVE Featured Image from the body content (standard WP practice)
-                optimizedBody = optimizedBody.split(fullTag).join('');
-            } else {
-                // Normal Image -> Convert to HTML Figure
-                const htmlFigure = `
-<!-- wp:image {"id":${attachmentId}} -->
-<figure class="wp-block-image"><img src="${compressedBase64}" alt="${altText}" class="wp-image-${attachmentId}"/><figcaption>${altText}</figcaption></figure>
-<!-- /wp:image -->`;
-                optimizedBody = optimizedBody.split(fullTag).join(htmlFigure);
-            }
-
-            // Create Attachment Item XML (Common for both types)
-            attachmentItemsXml += `
-    <item>
-		<title><![CDATA[${altText}]]></title>
-		<link></link>
-		<pubDate>${new Date().toUTCString()}</pubDate>
-		<dc:creator><![CDATA[admin]]></dc:creator>
-		<guid isPermaLink="false"></guid>
-		<description></description>
-		<content:encoded><![CDATA[${compressedBase64}]]></content:encoded>
-		<excerpt:encoded><![CDATA[${altText}]]></excerpt:encoded>
-		<wp:post_id>${attachmentId}</wp:post_id>
-		<wp:post_date>${postDate}</wp:post_date>
-		<wp:comment_status>open</wp:comment_status>
-		<wp:ping_status>open</wp:ping_status>
-		<wp:post_name><![CDATA[image-${attachmentId}]]></wp:post_name>
-		<wp:status>inherit</wp:status>
-		<wp:post_parent>${postId}</wp:post_parent>
-		<wp:menu_order>0</wp:menu_order>
-		<wp:post_type>attachment</wp:post_type>
-		<wp:post_password></wp:post_password>
-		<wp:is_sticky>0</wp:is_sticky>
-		<wp:attachment_url><![CDATA[image-${attachmentId}.jpg]]></wp:attachment_url>
-		<wp:postmeta>
-			<wp:meta_key>_wp_attached_file</wp:meta_key>
-			<wp:meta_value><![CDATA[${new Date().getFullYear()}/${new Date().getMonth()+1}/image-${attachmentId}.jpg]]></wp:meta_value>
-		</wp:postmeta>
-        <wp:postmeta>
-            <wp:meta_key>_wp_attachment_image_alt</wp:meta_key>
-            <wp:meta_value><![CDATA[${altText}]]></wp:meta_value>
-        </wp:postmeta>
-	</item>`;
-        }
-
-        const htmlContent = await marked.parse(optimizedBody);
-
-        const xmlContent = `<?xml version="1.0" encoding="UTF-8" ?>
-<rss version="2.0"
-	xmlns:excerpt="http://wordpress.org/export/1.2/excerpt/"
-	xmlns:content="http://purl.org/rss/1.0/modules/content/"
-	xmlns:wfw="http://wellformedweb.org/CommentAPI/"
-	xmlns:dc="http://purl.org/dc/elements/1.1/"
-	xmlns:wp="http://wordpress.org/export/1.2/"
->
-<channel>
-	<title>BestMarathon Export</title>
-	<pubDate>${new Date().toUTCString()}</pubDate>
-	<language>vi</language>
-	<wp:wxr_version>1.2</wp:wxr_version>
-	<item>
-		<title><![CDATA[${title}]]></title>
-		<link></link>
-		<pubDate>${new Date().toUTCString()}</pubDate>
-		<dc:creator><![CDATA[admin]]></dc:creator>
-		<guid isPermaLink="false"></guid>
-		<description></description>
-		<content:encoded><![CDATA[${htmlContent}]]></content:encoded>
-		<excerpt:encoded><![CDATA[]]></excerpt:encoded>
-		<wp:post_id>${postId}</wp:post_id>
-		<wp:post_date>${postDate}</wp:post_date>
-		<wp:comment_status>open</wp:comment_status>
-		<wp:ping_status>open</wp:ping_status>
-		<wp:post_name><![CDATA[${slug}]]></wp:post_name>
-		<wp:status>draft</wp:status>
-		<wp:post_parent>0</wp:post_parent>
-		<wp:menu_order>0</wp:menu_order>
-		<wp:post_type>post</wp:post_type>
-		<wp:post_password></wp:post_password>
-		<wp:is_sticky>0</wp:is_sticky>
-        <category domain="category" nicename="${safeCategory.toLowerCase().replace(/\s+/g, '-')}"><![CDATA[${safeCategory}]]></category>
-        ${featuredImageId ? `
-        <wp:postmeta>
-            <wp:meta_key>_thumbnail_id</wp:meta_key>
-            <wp:meta_value><![CDATA[${featuredImageId}]]></wp:meta_value>
-        </wp:postmeta>` : ''}
-        <!-- SEO METADATA -->
-        <wp:postmeta>
-            <wp:meta_key>_yoast_wpseo_title</wp:meta_key>
-            <wp:meta_value><![CDATA[${title}]]></wp:meta_value>
-        </wp:postmeta>
-        <wp:postmeta>
-            <wp:meta_key>_yoast_wpseo_metadesc</wp:meta_key>
-            <wp:meta_value><![CDATA[${metaDesc}]]></wp:meta_value>
-        </wp:postmeta>
-        <wp:postmeta>
-            <wp:meta_key>rank_math_title</wp:meta_key>
-            <wp:meta_value><![CDATA[${title}]]></wp:meta_value>
-        </wp:postmeta>
-        <wp:postmeta>
-            <wp:meta_key>rank_math_description</wp:meta_key>
-            <wp:meta_value><![CDATA[${metaDesc}]]></wp:meta_value>
-        </wp:postmeta>
-	</item>
-    ${attachmentItemsXml}
-</channel>
-</rss>`;
+        const article = getCurrentArticle();
+        if (!confirmArticleIssues(article)) return;
+        const structuredData = getStructuredData(article);
+        if (!structuredData) return;
+        const item = getTargetHistoryItem();
+        const profile = getTargetProfile();
+        const author = getWxrAuthor(profile);
+        const xmlContent = await buildWxr({
+          article,
+          citations: citationMode,
+          structuredData,
+          alternates: getAlternates(),
+          category: categoryInput.trim() || profile.defaultCategory,
+          tags: item && wxrSettings.tags ? postTags(item) : [],
+          author: author.login,
+          language: item?.language || language,
+        }, { siteTitle: profile.brandName, siteUrl: profile.websiteUrl, authors: [author] });
 
         const blob = new Blob([xmlContent], { type: "text/xml;charset=utf-8" });
-        saveAs(blob, `${slug || 'article'}.xml`);
+        saveAs(blob, `${article.meta.slug || 'article'}.xml`);
 
     } catch (e) {
         console.error("XML Export Error", e);
@@ -556,10 +1188,93 @@ const App: React.FC = () => {
     }
   };
 
-  const renderLoading = () => (
-    <div className="flex flex-col items-center justify-center p-8 text-slate-500 animate-pulse bg-white rounded-xl border border-blue-100 shadow-sm mb-8">
-      <Loader2 className="w-10 h-10 animate-spin mb-4 text-orange-500" />
-      <p className="text-lg font-medium text-slate-800">{statusMessage}</p>
+  // Every selected history item in one WXR file (several in a ZIP above the size limit)
+  const handleExportWxr = async (ids: string[]) => {
+    setIsZipping(true);
+    try {
+      const entries = history.filter(h => ids.includes(h.id)).map(item => ({
+        item,
+        profile: getItemProfile(item, profiles),
+        article: parseArticle(item.content, item.keyword),
+      }));
+      if (entries.length === 0) return;
+
+      // Same guard as a single export (confirmArticleIssues), asked once for the whole selection
+      const problems = entries.flatMap(({ item, article }) => {
+        const research = item.steps?.step1_research;
+        const facts = research ? checkFacts(article, research, item.verifiedClaims, item.sources) : undefined;
+        return [
+          ...(hasBlockingIssues(article) ? [`${item.keyword}:\n${formatIssues(article.issues)}`] : []),
+          ...(facts && facts.redFlags > 0 ? [`${item.keyword}: ${facts.redFlags} claim(s) not backed by the research\n${formatRedFlags(facts)}`] : []),
+        ];
+      });
+      if (problems.length > 0 && !confirm(`Some articles have problems:\n\n${problems.join('\n\n')}\n\nMark checked claims verified in the "Facts" tab. Export anyway?`)) return;
+
+      const posts: WxrPost[] = entries.map(({ item, profile, article }) => {
+        const category = wxrSettings.category.trim() || profile.defaultCategory;
+        // No prompt per article: schemas missing a required field are left out, as for a single export
+        const structuredData = buildItemStructuredData(article, item, profile, category);
+        structuredData.issues.forEach(i => console.warn(`JSON-LD [${item.keyword}] ${i.message}`));
+        return {
+          article,
+          citations: citationMode,
+          structuredData,
+          alternates: getHreflangAlternates(history, item),
+          language: item.language || 'vi',
+          category,
+          tags: wxrSettings.tags ? postTags(item) : [],
+          author: getWxrAuthor(profile).login,
+        };
+      });
+      const authors = [...new Map(entries.map(e => getWxrAuthor(e.profile)).map(a => [a.login, a])).values()];
+      const site = findProfile(profiles, selectedProfileId, language);
+
+      const files = await buildWxrExport(posts, {
+        siteTitle: site.brandName,
+        siteUrl: site.websiteUrl,
+        authors,
+        maxBytes: wxrSettings.maxFileMb * 1024 * 1024,
+      });
+      const baseName = `wordpress-export-${new Date().toISOString().split('T')[0]}`;
+      if (files.length === 1) {
+        saveAs(new Blob([files[0].xml], { type: "text/xml;charset=utf-8" }), `${baseName}.xml`);
+      } else {
+        saveAs(await buildWxrZip(files, baseName).generateAsync({ type: "blob" }), `${baseName}.zip`);
+      }
+      setWxrSelection(null);
+    } catch (e) {
+      console.error("WXR Export Error", e);
+      alert("Failed to create the WordPress export.");
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const formatDuration = (ms: number) => {
+    const minutes = Math.round(ms / 60000);
+    return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  };
+
+  const renderLoading = () => {
+    const runningJobs = Object.entries(jobMessages);
+    const eta = estimateRemainingMs(totalCount - completedCount, schedulerSettings.concurrency);
+    const { text, image } = schedulerStats;
+    const backoff = Math.max(text.backoffRemainingMs, image.backoffRemainingMs);
+
+    return (
+    <div className="flex flex-col items-center justify-center p-8 text-slate-500 bg-white rounded-xl border border-blue-100 shadow-sm mb-8">
+      {queueRunState === 'paused'
+        ? <Pause className="w-10 h-10 mb-4 text-amber-500" />
+        : <Loader2 className="w-10 h-10 animate-spin mb-4 text-orange-500" />}
+      {runningJobs.length > 0 ? (
+        <ul className="space-y-1 text-center">
+          {runningJobs.map(([jobId, message]) => (
+            <li key={jobId} className="text-lg font-medium text-slate-800">{message}</li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-lg font-medium text-slate-800">{statusMessage}</p>
+      )}
       <div className="w-full max-w-md bg-slate-100 rounded-full h-2.5 mt-4 overflow-hidden">
         <div 
           className="h-2.5 rounded-full transition-all duration-500" 
@@ -569,17 +1284,63 @@ const App: React.FC = () => {
           }}
         ></div>
       </div>
-      <p className="text-xs mt-2 text-slate-500">Processed {completedCount} of {totalCount} keywords</p>
+      <p className="text-xs mt-2 text-slate-500">
+        Processed {completedCount} of {totalCount} keywords
+        {eta !== null && completedCount < totalCount && <> · ~{formatDuration(eta)} remaining</>}
+      </p>
+      <p className="text-xs mt-1 text-slate-400">
+        Text {text.usedLastMinute}/{text.rpm} rpm · Images {image.usedLastMinute}/{image.rpm} rpm
+        {text.quotaErrors + image.quotaErrors > 0 && <> · {text.quotaErrors + image.quotaErrors} quota errors</>}
+        {backoff > 0 && <span className="text-amber-600 font-semibold"> · Backing off {Math.ceil(backoff / 1000)}s</span>}
+      </p>
     </div>
-  );
+    );
+  };
   
+  // On-page SEO audits of the article on screen (history viewer / finished live result)
+  const liveHistoryItem = status === StepStatus.COMPLETE ? history.find(h => h.keyword === currentKeyword) : undefined;
+  const liveAudit = useMemo(() => (liveHistoryItem ? auditHistoryItem(liveHistoryItem) : undefined), [liveHistoryItem]);
+  const viewingAudit = useMemo(() => (viewingHistoryItem ? auditHistoryItem(viewingHistoryItem) : undefined), [viewingHistoryItem]);
+  // Fact checks against the Step 1 research, same two places
+  const liveFactCheck = useMemo(() => (liveHistoryItem ? factCheckHistoryItem(liveHistoryItem) : undefined), [liveHistoryItem]);
+  const viewingFactCheck = useMemo(() => (viewingHistoryItem ? factCheckHistoryItem(viewingHistoryItem) : undefined), [viewingHistoryItem]);
+  const viewingTranslations = useMemo(
+    () => (viewingHistoryItem ? getTranslations(history, viewingHistoryItem) : []),
+    [history, viewingHistoryItem]
+  );
+
   // New "Manual Export" Component
   const ExportActions = () => (
       <div className="flex flex-col space-y-3 items-end">
          
-         <div className="text-sm text-slate-500 mb-2 font-medium">Export Options:</div>
+         <div className="flex items-center gap-3 text-sm text-slate-500 mb-2 font-medium">
+             <span>Export Options:</span>
+             <label className="flex items-center gap-2 font-normal" title="How grounding sources appear in every export and WordPress post">
+                 Citations
+                 <select
+                    value={citationMode}
+                    onChange={(e) => handleChangeCitationMode(e.target.value as CitationMode)}
+                    className="bg-white border border-slate-200 rounded-lg py-1 px-2 text-slate-700 focus:outline-none focus:ring-2 focus:ring-orange-200"
+                 >
+                    <option value="footnotes">Footnotes + sources</option>
+                    <option value="references">Sources list only</option>
+                    <option value="none">None</option>
+                 </select>
+             </label>
+         </div>
 
          <div className="flex flex-wrap gap-3 justify-end">
+             {/* Option 4: Direct publish via REST API */}
+             <button 
+                onClick={handlePublishToWp}
+                disabled={isPublishing}
+                className="flex items-center space-x-2 bg-blue-50 hover:bg-blue-100 text-blue-800 border border-blue-200 px-4 py-3 rounded-lg font-bold shadow-sm transition-all active:scale-95 disabled:opacity-50"
+                title={isWpConfigured(wpConfig) ? `Publish to ${wpConfig.url} (${wpStatus})` : "Configure WordPress connection first"}
+             >
+                {isPublishing ? <Loader2 size={20} className="animate-spin"/> : <UploadCloud size={20} />}
+                <span>Publish to WP</span>
+             </button>
+
              {/* Option 3: XML Import (NEW) */}
              <button 
                 onClick={handleDownloadWxrXml}
@@ -597,7 +1358,7 @@ const App: React.FC = () => {
                 disabled={isZipping}
                 className="flex items-center space-x-2 text-white px-5 py-3 rounded-lg font-bold shadow-md transition-all active:scale-95 disabled:opacity-70 disabled:grayscale"
                 style={{ background: GOLD_GRADIENT }}
-                title="Download ZIP with separate named images (image-1.png, etc)"
+                title="Download ZIP with images named after the slug (<slug>.webp, <slug>-1.webp, -480w sizes, -og social crop)"
              >
                 {isZipping ? <Loader2 size={20} className="animate-spin" /> : <Package size={20} />}
                 <span>Download All (.zip)</span>
@@ -607,7 +1368,7 @@ const App: React.FC = () => {
              <button 
                 onClick={handleCopyCleanHtml}
                 className="flex items-center space-x-2 bg-slate-50 hover:bg-slate-100 text-slate-700 border border-slate-200 px-4 py-3 rounded-lg font-bold shadow-sm transition-all active:scale-95"
-                title="Copy HTML code without huge base64 strings."
+                title="Copy HTML code with image placeholders."
              >
                 {copyCleanSuccess ? <Check size={20} className="text-green-600"/> : <Code size={20} />}
              </button>
@@ -635,6 +1396,72 @@ const App: React.FC = () => {
         history={history}
         onSelect={handleSelectHistory}
         onDelete={handleDeleteHistory}
+        onResume={handleResumeHistory}
+        onExportWxr={() => setWxrSelection(history.filter(h => (h.status || 'complete') === 'complete').map(h => h.id))}
+      />
+
+      <WxrExportModal
+        isOpen={wxrSelection !== null}
+        onClose={() => setWxrSelection(null)}
+        history={history}
+        profiles={profiles}
+        initialSelection={wxrSelection || []}
+        batchIds={queueItems.filter(i => i.historyId).map(i => i.historyId!)}
+        settings={wxrSettings}
+        onSettingsChange={handleWxrSettingsChange}
+        onExport={handleExportWxr}
+        isExporting={isZipping}
+      />
+
+      <ProfileManager
+        isOpen={showProfiles}
+        onClose={() => setShowProfiles(false)}
+        profiles={profiles}
+        onSave={handleSaveProfile}
+        onDelete={handleDeleteProfile}
+      />
+
+      <PromptTemplateEditor
+        isOpen={showTemplates}
+        onClose={() => setShowTemplates(false)}
+        templates={templates}
+        initialLanguage={language}
+        onSave={handleSaveTemplate}
+        onReset={handleResetTemplate}
+      />
+
+      <PreflightModal
+        entries={preflight?.entries || null}
+        onClose={() => setPreflight(null)}
+        onConfirm={handleConfirmPreflight}
+      />
+
+      <ClusterPlanner
+        clusters={clusterDraft}
+        onClose={() => setClusterDraft(null)}
+        onConfirm={handleConfirmClusters}
+      />
+
+      <SiteLinksModal
+        isOpen={showSiteLinks}
+        onClose={() => setShowSiteLinks(false)}
+        links={siteLinks}
+        onSave={handleSaveSiteLinks}
+      />
+
+      <StockLibraryModal
+        isOpen={showStockLibrary}
+        onClose={() => setShowStockLibrary(false)}
+        photos={stockPhotos}
+        onImport={handleImportStockPhotos}
+        onDelete={handleDeleteStockPhotos}
+      />
+
+      <WpSettingsModal
+        isOpen={showWpSettings}
+        onClose={() => setShowWpSettings(false)}
+        config={wpConfig}
+        onSave={handleSaveWpConfig}
       />
 
       {viewingHistoryItem && (
@@ -649,17 +1476,92 @@ const App: React.FC = () => {
                 </button>
                 <div className="flex flex-col items-end">
                    <div className="flex items-center space-x-2 mb-2">
-                      <span className="text-xs font-bold text-slate-400 uppercase">{viewingHistoryItem.language || 'vi'}</span>
+                      <span className="text-xs font-bold text-slate-400">{languageLabel(viewingHistoryItem.language || 'vi')}</span>
+                      {viewingHistoryItem.profile && (
+                        <span className="text-xs font-medium text-slate-500 bg-slate-200 px-2 py-0.5 rounded-full">{viewingHistoryItem.profile.name}</span>
+                      )}
+                      {viewingHistoryItem.templateVersions && (
+                        <span
+                          className="text-xs font-mono text-slate-400"
+                          title="Prompt template version used for each step"
+                        >
+                          {Object.entries(viewingHistoryItem.templateVersions).map(([step, version]) => `${step} v${version}`).join(' · ')}
+                        </span>
+                      )}
+                      {viewingHistoryItem.textModel && (
+                        <span
+                          className="text-xs font-mono text-slate-400"
+                          title={viewingHistoryItem.usage ? formatUsage(viewingHistoryItem.usage) : 'Text model'}
+                        >
+                          {viewingHistoryItem.textModel.model}
+                        </span>
+                      )}
                       <span className="text-sm text-slate-500">Saved on {new Date(viewingHistoryItem.timestamp).toLocaleDateString()}</span>
+                      {viewingHistoryItem.wpLink && (
+                        <a href={viewingHistoryItem.wpLink} target="_blank" rel="noreferrer" className="text-sm text-blue-600 hover:underline">
+                          WP #{viewingHistoryItem.wpPostId}
+                        </a>
+                      )}
                    </div>
+                   {(!viewingHistoryItem.status || viewingHistoryItem.status === 'complete') && (
+                     <div className="flex items-center space-x-2 mb-2">
+                        {viewingTranslations.length > 1 && viewingTranslations.map(t => (
+                          <button
+                            key={t.id}
+                            onClick={() => setViewingHistoryItem(t)}
+                            disabled={t.id === viewingHistoryItem.id}
+                            className="text-xs font-medium px-2 py-1 rounded-lg border border-slate-200 bg-white text-slate-600 hover:border-orange-300 disabled:bg-orange-50 disabled:text-orange-700 disabled:border-orange-200"
+                            title={t.keyword}
+                          >
+                            {languageLabel(t.language || 'vi')}
+                          </button>
+                        ))}
+                        <div className="relative">
+                          <select
+                            value=""
+                            disabled={!!translatingTo}
+                            onChange={e => e.target.value && handleTranslateHistory(viewingHistoryItem, e.target.value)}
+                            className="appearance-none text-xs font-medium bg-white border border-slate-200 text-slate-600 py-1 pl-7 pr-3 rounded-lg cursor-pointer hover:border-orange-300 disabled:opacity-60"
+                          >
+                            <option value="">{translatingTo ? `Translating to ${getLanguage(translatingTo).name}...` : 'Translate to...'}</option>
+                            {LANGUAGES.filter(l => l.code !== (viewingHistoryItem.language || 'vi')).map(l => (
+                              <option key={l.code} value={l.code}>{languageLabel(l.code)}</option>
+                            ))}
+                          </select>
+                          <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-2 text-slate-400">
+                            {translatingTo ? <Loader2 size={12} className="animate-spin" /> : <Languages size={12} />}
+                          </div>
+                        </div>
+                     </div>
+                   )}
                    <ExportActions />
                 </div>
              </div>
+             {viewingHistoryItem.ideation && (
+               <div className="mb-6">
+                 <ResultViewer
+                   title={`Ideation (${viewingHistoryItem.keyword})`}
+                   content={ideationToMarkdown(viewingHistoryItem.ideation)}
+                   ideation={viewingHistoryItem.ideation}
+                   isCollapsible={true}
+                   defaultOpen={false}
+                 />
+               </div>
+             )}
+             <ArticleIssues content={viewingHistoryItem.content} keyword={viewingHistoryItem.keyword} />
+             <InternalLinksReport links={viewingHistoryItem.internalLinks || []} {...linkReportProps} />
              <ResultViewer 
                title={`[LOG] ${viewingHistoryItem.keyword}`} 
                content={viewingHistoryItem.content} 
                isCollapsible={false}
                onRegenerateImage={handleRegenerateImage}
+               onEditImage={handleEditImage}
+               onSectionAction={handleSectionAction}
+               onRevertSection={handleRevertSection}
+               revertableHeadings={viewingHistoryItem.sectionRevisions?.map(r => r.heading)}
+               audit={viewingAudit}
+               factCheck={viewingFactCheck}
+               onToggleClaimVerified={handleToggleClaimVerified}
              />
           </div>
         </div>
@@ -679,6 +1581,14 @@ const App: React.FC = () => {
           </div>
           
           <div className="flex items-center space-x-2">
+            <button 
+              onClick={() => setShowWpSettings(true)}
+              className="flex items-center px-4 py-2 text-slate-600 hover:bg-orange-50 hover:text-orange-700 rounded-full transition-all border border-transparent hover:border-orange-100 font-medium text-sm group"
+              title="WordPress connection"
+            >
+              <Globe size={18} className={`mr-2 group-hover:text-orange-500 ${isWpConfigured(wpConfig) ? 'text-green-600' : ''}`} />
+              <span>WordPress</span>
+            </button>
             <button 
               onClick={() => setShowHistory(true)}
               className="flex items-center px-4 py-2 text-slate-600 hover:bg-orange-50 hover:text-orange-700 rounded-full transition-all border border-transparent hover:border-orange-100 font-medium text-sm group"
@@ -734,6 +1644,65 @@ const App: React.FC = () => {
                        </div>
                     </div>
                     
+                    {/* BRAND PROFILE */}
+                    <div className="flex items-center gap-3">
+                      <div className="relative flex-1">
+                        <select
+                          value={selectedProfileId}
+                          onChange={(e) => handleSelectProfile(e.target.value)}
+                          className="w-full appearance-none bg-white border border-slate-200 text-slate-700 py-3 px-5 pl-10 rounded-xl leading-tight focus:outline-none focus:ring-2 focus:ring-orange-200 focus:border-orange-400 shadow-sm font-medium cursor-pointer hover:border-orange-300 transition-colors"
+                        >
+                          {profiles.map(p => (
+                            <option key={p.id} value={p.id}>{p.name} — {p.brandName} ({p.websiteUrl})</option>
+                          ))}
+                        </select>
+                        <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center px-3 text-slate-400">
+                          <UserCircle size={18} />
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => setShowProfiles(true)}
+                        className="px-4 py-3 text-sm font-medium text-slate-600 bg-white border border-slate-200 rounded-xl hover:border-orange-300 hover:text-orange-700 shadow-sm"
+                      >
+                        Manage Profiles
+                      </button>
+                      <button
+                        onClick={() => setShowTemplates(true)}
+                        className="px-4 py-3 text-sm font-medium text-slate-600 bg-white border border-slate-200 rounded-xl hover:border-orange-300 hover:text-orange-700 shadow-sm"
+                      >
+                        Prompt Templates
+                      </button>
+                      <button
+                        onClick={() => setShowSiteLinks(true)}
+                        className="px-4 py-3 text-sm font-medium text-slate-600 bg-white border border-slate-200 rounded-xl hover:border-orange-300 hover:text-orange-700 shadow-sm"
+                        title="Existing site pages used as internal link targets"
+                      >
+                        Site Links{siteLinks.length > 0 && ` (${siteLinks.length})`}
+                      </button>
+                    </div>
+
+                    {/* IMAGE SOURCE (per batch) */}
+                    <div className="flex items-center gap-3 text-sm text-slate-600">
+                      <span className="font-medium">Image source:</span>
+                      <select
+                        value={batchImageProvider}
+                        onChange={(e) => setBatchImageProvider(e.target.value as ImageProviderId | '')}
+                        className="bg-white border border-slate-200 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-orange-200"
+                      >
+                        <option value="">Profile default ({getImageProvider(profiles.find(p => p.id === selectedProfileId)?.imageProvider).label})</option>
+                        {IMAGE_PROVIDERS.map(p => (
+                          <option key={p.id} value={p.id}>{p.label}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => setShowStockLibrary(true)}
+                        className="text-orange-600 font-semibold hover:underline"
+                        title="Your own licensed photos, picked by tag"
+                      >
+                        Stock library ({stockPhotos.length})
+                      </button>
+                    </div>
+
                     <div className="flex flex-col md:flex-row items-stretch gap-4 pt-2">
                        {/* CATEGORY INPUT */}
                        <div className="w-full md:w-1/4">
@@ -758,8 +1727,7 @@ const App: React.FC = () => {
                              onChange={(e) => setLanguage(e.target.value as OutputLanguage)}
                              className="w-full h-full appearance-none bg-white border border-slate-200 text-slate-700 py-3.5 px-5 pr-10 rounded-xl leading-tight focus:outline-none focus:ring-2 focus:ring-orange-200 focus:border-orange-400 shadow-sm font-medium cursor-pointer hover:border-orange-300 transition-colors"
                            >
-                             <option value="vi">🇻🇳 Tiếng Việt</option>
-                             <option value="en">🇬🇧 English</option>
+                             {LANGUAGES.map(l => <option key={l.code} value={l.code}>{languageLabel(l.code)}</option>)}
                            </select>
                            <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-4 text-slate-400">
                              <Languages size={18} />
@@ -767,6 +1735,16 @@ const App: React.FC = () => {
                          </div>
                       </div>
 
+                      <button
+                        onClick={handlePlanClusters}
+                        disabled={!bulkInput.trim()}
+                        className="w-full md:w-auto flex items-center justify-center px-5 py-4 bg-white border border-slate-200 text-slate-700 font-bold rounded-xl shadow-sm hover:border-orange-300 hover:text-orange-600 disabled:opacity-60 transition-colors"
+                        title="Group the keywords into pillar / supporting article clusters before queueing"
+                      >
+                        <Network className="mr-2" size={20} />
+                        Plan Clusters
+                      </button>
+
                       <button
                         onClick={handleStartBulk}
                         disabled={!bulkInput.trim()}
@@ -780,6 +1758,180 @@ const App: React.FC = () => {
                         Start Automation
                       </button>
                     </div>
+
+                    {/* WORDPRESS PUBLISH OPTIONS */}
+                    <div className="flex flex-wrap items-center gap-4 text-sm text-slate-600 bg-slate-50 border border-slate-200 rounded-xl px-5 py-3">
+                      <label className="flex items-center space-x-2 cursor-pointer font-medium">
+                        <input
+                          type="checkbox"
+                          checked={autoPublish}
+                          onChange={(e) => setAutoPublish(e.target.checked)}
+                          disabled={!isWpConfigured(wpConfig)}
+                          className="accent-orange-500 w-4 h-4"
+                        />
+                        <span>Auto-publish to WordPress</span>
+                      </label>
+                      <select
+                        value={wpStatus}
+                        onChange={(e) => setWpStatus(e.target.value as WpPostStatus)}
+                        className="bg-white border border-slate-200 rounded-lg py-1.5 px-3 focus:outline-none focus:ring-2 focus:ring-orange-200"
+                      >
+                        <option value="draft">Draft</option>
+                        <option value="publish">Publish now</option>
+                        <option value="future">Schedule</option>
+                      </select>
+                      {wpStatus === 'future' && (
+                        <input
+                          type="datetime-local"
+                          value={wpScheduleAt}
+                          onChange={(e) => setWpScheduleAt(e.target.value)}
+                          className="bg-white border border-slate-200 rounded-lg py-1.5 px-3 focus:outline-none focus:ring-2 focus:ring-orange-200"
+                        />
+                      )}
+                      {!isWpConfigured(wpConfig) && (
+                        <button onClick={() => setShowWpSettings(true)} className="text-orange-600 font-semibold hover:underline">
+                          Connect WordPress...
+                        </button>
+                      )}
+                    </div>
+
+                    {/* REVIEW MODE */}
+                    <div className="flex flex-wrap items-center gap-4 text-sm text-slate-600 bg-slate-50 border border-slate-200 rounded-xl px-5 py-3">
+                      <span className="font-medium">Review mode — pause for editing after:</span>
+                      {REVIEW_GATES.map(gate => (
+                        <label key={gate} className="flex items-center space-x-2 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={reviewGates.includes(gate)}
+                            onChange={(e) => setReviewGates(e.target.checked ? [...reviewGates, gate] : reviewGates.filter(g => g !== gate))}
+                            className="accent-orange-500 w-4 h-4"
+                          />
+                          <span>{REVIEW_GATE_LABELS[gate]}</span>
+                        </label>
+                      ))}
+                    </div>
+
+                    {/* THROUGHPUT (SCHEDULER) */}
+                    <div className="flex flex-wrap items-center gap-4 text-sm text-slate-600 bg-slate-50 border border-slate-200 rounded-xl px-5 py-3">
+                      <span className="font-medium">Throughput:</span>
+                      {([
+                        ['concurrency', 'Parallel keywords', 1, 5],
+                        ['textRpm', 'Text req/min', 1, 60],
+                        ['imageRpm', 'Image req/min', 1, 60],
+                      ] as [keyof SchedulerSettings, string, number, number][]).map(([key, label, min, max]) => (
+                        <label key={key} className="flex items-center space-x-2">
+                          <span>{label}</span>
+                          <input
+                            type="number"
+                            min={min}
+                            max={max}
+                            value={schedulerSettings[key]}
+                            onChange={(e) => handleSchedulerSettingsChange({ [key]: Math.min(max, Math.max(min, Number(e.target.value) || min)) })}
+                            className="w-16 bg-white border border-slate-200 rounded-lg py-1 px-2 focus:outline-none focus:ring-2 focus:ring-orange-200"
+                          />
+                        </label>
+                      ))}
+                    </div>
+
+                    {/* TEXT MODEL (provider of Steps 1-4, rewrites and translations) */}
+                    <div className="flex flex-wrap items-center gap-4 text-sm text-slate-600 bg-slate-50 border border-slate-200 rounded-xl px-5 py-3">
+                      <span className="font-medium">Text model:</span>
+                      <select
+                        value={textSettings.provider}
+                        onChange={(e) => handleTextSettingsChange({ provider: e.target.value as TextProviderId })}
+                        className="bg-white border border-slate-200 rounded-lg py-1 px-2 focus:outline-none focus:ring-2 focus:ring-orange-200"
+                      >
+                        {(Object.keys(TEXT_PROVIDER_LABELS) as TextProviderId[]).map(id => (
+                          <option key={id} value={id}>{TEXT_PROVIDER_LABELS[id]}</option>
+                        ))}
+                      </select>
+                      {textSettings.provider === 'openai' && ([
+                        ['baseUrl', 'Base URL', 'w-64', 'text'],
+                        ['model', 'Model', 'w-40', 'text'],
+                        ['apiKey', 'API key', 'w-40', 'password'],
+                      ] as [keyof TextSettings['openai'], string, string, string][]).map(([key, label, width, type]) => (
+                        <label key={key} className="flex items-center space-x-2">
+                          <span>{label}</span>
+                          <input
+                            type={type}
+                            value={textSettings.openai[key]}
+                            onChange={(e) => handleTextSettingsChange({ openai: { ...textSettings.openai, [key]: e.target.value } })}
+                            placeholder={key === 'apiKey' ? 'Empty for local servers' : undefined}
+                            className={`${width} bg-white border border-slate-200 rounded-lg py-1 px-2 focus:outline-none focus:ring-2 focus:ring-orange-200`}
+                          />
+                        </label>
+                      ))}
+                      {textSettings.provider !== 'gemini' && (
+                        <span className="text-xs text-slate-400">No Google Search grounding: sources and footnotes stay empty.</span>
+                      )}
+                    </div>
+
+                    {/* IMAGES (encoding of generated images) */}
+                    <div className="flex flex-wrap items-center gap-4 text-sm text-slate-600 bg-slate-50 border border-slate-200 rounded-xl px-5 py-3">
+                      <span className="font-medium">Images:</span>
+                      <label className="flex items-center space-x-2">
+                        <span>Format</span>
+                        <select
+                          value={imageSettings.format}
+                          onChange={(e) => handleImageSettingsChange({ format: e.target.value as ImageSettings['format'] })}
+                          className="bg-white border border-slate-200 rounded-lg py-1 px-2 focus:outline-none focus:ring-2 focus:ring-orange-200"
+                        >
+                          <option value="jpeg">JPEG</option>
+                          <option value="webp">WebP</option>
+                          <option value="avif" disabled={!avifSupported}>AVIF{avifSupported ? '' : ' (not supported by this browser)'}</option>
+                        </select>
+                      </label>
+                      <label className="flex items-center space-x-2">
+                        <span>Quality</span>
+                        <input
+                          type="number"
+                          min={30}
+                          max={95}
+                          step={5}
+                          value={Math.round(imageSettings.quality * 100)}
+                          onChange={(e) => handleImageSettingsChange({ quality: Math.min(95, Math.max(30, Number(e.target.value) || 60)) / 100 })}
+                          className="w-16 bg-white border border-slate-200 rounded-lg py-1 px-2 focus:outline-none focus:ring-2 focus:ring-orange-200"
+                        />
+                      </label>
+                      <label className="flex items-center space-x-2" title="srcset widths in px, the largest is the main image">
+                        <span>Widths</span>
+                        <input
+                          key={imageSettings.widths.join(',')}
+                          defaultValue={imageSettings.widths.join(', ')}
+                          onBlur={(e) => {
+                            const widths = [...new Set(e.target.value.split(/[,\s]+/).map(Number).filter(w => w >= 160 && w <= 4096))].sort((a, b) => a - b);
+                            handleImageSettingsChange({ widths: widths.length ? widths : DEFAULT_IMAGE_SETTINGS.widths });
+                          }}
+                          className="w-36 bg-white border border-slate-200 rounded-lg py-1 px-2 focus:outline-none focus:ring-2 focus:ring-orange-200"
+                        />
+                      </label>
+                      <label className="flex items-center space-x-2">
+                        <span>Max KB</span>
+                        <input
+                          type="number"
+                          min={20}
+                          max={2000}
+                          value={imageSettings.maxKb}
+                          onChange={(e) => handleImageSettingsChange({ maxKb: Math.min(2000, Math.max(20, Number(e.target.value) || 20)) })}
+                          className="w-20 bg-white border border-slate-200 rounded-lg py-1 px-2 focus:outline-none focus:ring-2 focus:ring-orange-200"
+                        />
+                      </label>
+                      {([
+                        ['featuredAspect', 'Featured ratio'],
+                        ['bodyAspect', 'Body ratio'],
+                      ] as ['featuredAspect' | 'bodyAspect', string][]).map(([key, label]) => (
+                        <label key={key} className="flex items-center space-x-2">
+                          <span>{label}</span>
+                          <select
+                            value={imageSettings[key]}
+                            onChange={(e) => handleImageSettingsChange({ [key]: e.target.value as AspectRatio })}
+                            className="bg-white border border-slate-200 rounded-lg py-1 px-2 focus:outline-none focus:ring-2 focus:ring-orange-200"
+                          >
+                            {ASPECT_RATIOS.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+                          </select>
+                        </label>
+                      ))}
+                    </div>
                   </div>
                 </div>
               </div>
@@ -795,7 +1947,9 @@ const App: React.FC = () => {
                  <Check size={40} />
                </div>
                <h2 className="text-3xl font-bold text-slate-800 mb-3">All Tasks Completed!</h2>
-               <p className="text-slate-500 mb-8 max-w-md mx-auto">Processed {totalCount} keywords successfully. All articles have been saved to the history log.</p>
+               <p className="text-slate-500 mb-8 max-w-md mx-auto">
+                 Processed {completedCount} of {totalCount} keywords{failedCount > 0 ? ` (${failedCount} failed, retry them from the queue below)` : ' successfully'}. All articles have been saved to the history log.
+               </p>
                <div className="flex justify-center space-x-4">
                   <button 
                     onClick={() => setShowHistory(true)}
@@ -804,14 +1958,14 @@ const App: React.FC = () => {
                     View History
                   </button>
                   <button 
-                    onClick={() => {
+                    onClick={async () => {
                        setStatus(StepStatus.IDLE);
                        setBulkInput('');
                        setIdeationResult('');
+                       setIdeationData(null);
                        setOutlineResult('');
                        setArticleResult('');
-                       setCompletedCount(0);
-                       setTotalCount(0);
+                       await handleClearFinishedQueue();
                     }} 
                     className="text-white px-8 py-3 rounded-xl font-bold transition-all shadow-md hover:shadow-lg"
                     style={{ background: GOLD_GRADIENT }}
@@ -822,13 +1976,39 @@ const App: React.FC = () => {
             </div>
           )}
 
+          {queueItems.some(i => i.status === 'review') && (
+            <ReviewPanel
+              items={queueItems.filter(i => i.status === 'review')}
+              history={history}
+              onApprove={handleApproveReview}
+              onSkip={handleSkipQueueItem}
+            />
+          )}
+
+          <QueuePanel
+            items={queueItems}
+            runState={queueRunState}
+            onPause={handlePauseQueue}
+            onResume={handleResumeQueue}
+            onCancel={handleCancelQueue}
+            onMove={handleMoveQueueItem}
+            onRetry={handleRetryQueueItem}
+            onSkip={handleSkipQueueItem}
+            onRemove={handleRemoveQueueItem}
+            onClearFinished={handleClearFinishedQueue}
+            onOpenResult={handleOpenQueueResult}
+            onSetReview={handleSetQueueReview}
+            onExportWxr={setWxrSelection}
+          />
+
           {(status === StepStatus.LOADING || status === StepStatus.COMPLETE) && (
             <>
               {ideationResult && (
                 <section className="animate-in fade-in slide-in-from-bottom-4 duration-500">
                     <ResultViewer 
                       title={`Step 2: Ideation (${currentKeyword})`} 
-                      content={ideationResult} 
+                      content={ideationData ? ideationToMarkdown(ideationData) : ideationResult} 
+                      ideation={ideationData || undefined}
                       isCollapsible={true}
                       defaultOpen={false}
                     />
@@ -848,12 +2028,21 @@ const App: React.FC = () => {
 
               {articleResult && (
                 <section className="animate-in fade-in slide-in-from-bottom-4 duration-500 delay-200 space-y-6">
+                    {status === StepStatus.COMPLETE && <ArticleIssues content={articleResult} keyword={currentKeyword} />}
+                    {liveHistoryItem && <InternalLinksReport links={liveHistoryItem.internalLinks || []} {...linkReportProps} />}
                     <ResultViewer 
                       title={`Step 4: Writing (${currentKeyword})`} 
                       content={articleResult} 
                       isCollapsible={true}
                       defaultOpen={true}
                       onRegenerateImage={handleRegenerateImage}
+                      onEditImage={handleEditImage}
+                      onSectionAction={status === StepStatus.COMPLETE ? handleSectionAction : undefined}
+                      onRevertSection={handleRevertSection}
+                      revertableHeadings={history.find(h => h.keyword === currentKeyword)?.sectionRevisions?.map(r => r.heading)}
+                      audit={liveAudit}
+                      factCheck={liveFactCheck}
+                      onToggleClaimVerified={handleToggleClaimVerified}
                     />
 
                     <div className="bg-white border border-slate-200 rounded-xl p-6 shadow-sm flex items-center justify-between">
@@ -0,0 +1,34 @@
+import React, { useMemo } from 'react';
+import { parseArticle } from '../services/articleService';
+import { AlertTriangle, XCircle } from 'lucide-react';
+
+interface Props {
+  content: string;
+  keyword: string;
+}
+
+// Problems found while parsing the Step 4 output (missing meta, no H2, leftover markers...)
+export const ArticleIssues: React.FC<Props> = ({ content, keyword }) => {
+  const issues = useMemo(() => (content ? parseArticle(content, keyword).issues : []), [content, keyword]);
+
+  if (issues.length === 0) return null;
+  const hasErrors = issues.some(i => i.severity === 'error');
+
+  return (
+    <div className={`mb-4 rounded-xl border px-5 py-3 text-sm ${hasErrors ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'}`}>
+      <p className={`font-bold mb-1 ${hasErrors ? 'text-red-700' : 'text-amber-700'}`}>
+        {hasErrors ? 'Article output is malformed — export and publish will ask for confirmation' : 'Article output warnings'}
+      </p>
+      <ul className="space-y-0.5">
+        {issues.map((issue, i) => (
+          <li key={i} className="flex items-start gap-2 text-slate-700">
+            {issue.severity === 'error'
+              ? <XCircle size={14} className="text-red-500 mt-0.5 shrink-0" />
+              : <AlertTriangle size={14} className="text-amber-500 mt-0.5 shrink-0" />}
+            {issue.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
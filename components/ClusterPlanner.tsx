@@ -0,0 +1,133 @@
+import React, { useState, useEffect } from 'react';
+import { KeywordCluster, SearchIntentType } from '../types';
+import { moveKeyword, removeKeyword, setPillar } from '../services/clusterService';
+import { X, Network, Crown, Trash2 } from 'lucide-react';
+
+interface Props {
+  clusters: KeywordCluster[] | null; // Open while set
+  onClose: () => void;
+  onConfirm: (clusters: KeywordCluster[]) => void;
+}
+
+const INTENT_STYLES: Record<SearchIntentType, string> = {
+  informational: 'bg-blue-100 text-blue-700',
+  commercial: 'bg-purple-100 text-purple-700',
+  transactional: 'bg-green-100 text-green-700',
+  navigational: 'bg-slate-200 text-slate-700',
+};
+
+const NEW_CLUSTER = '__new__';
+
+// Proposed pillar / supporting clusters of a raw keyword list, editable before queueing
+export const ClusterPlanner: React.FC<Props> = ({ clusters, onClose, onConfirm }) => {
+  const [draft, setDraft] = useState<KeywordCluster[]>([]);
+
+  useEffect(() => {
+    if (clusters) setDraft(clusters);
+  }, [clusters]);
+
+  if (!clusters) return null;
+
+  const articleCount = draft.reduce((sum, c) => sum + 1 + c.supporting.length, 0);
+  const grouped = draft.filter(c => c.supporting.length > 0);
+  const standalone = draft.filter(c => c.supporting.length === 0);
+
+  const renderMoveSelect = (keyword: string, from: string) => (
+    <select
+      value=""
+      onChange={e => e.target.value && setDraft(moveKeyword(draft, keyword, e.target.value === NEW_CLUSTER ? null : e.target.value))}
+      className="text-xs bg-white border border-slate-200 rounded-md py-0.5 px-1 text-slate-500 max-w-[9rem]"
+      title="Move to another cluster"
+    >
+      <option value="">Move to...</option>
+      {draft.filter(c => c.id !== from).map(c => <option key={c.id} value={c.id}>{c.pillar}</option>)}
+      <option value={NEW_CLUSTER}>New cluster</option>
+    </select>
+  );
+
+  const renderKeyword = (cluster: KeywordCluster, keyword: string) => (
+    <li key={keyword} className="flex items-center gap-2 py-1">
+      <span className="flex-1 text-sm text-slate-700 truncate">{keyword}</span>
+      {cluster.pillar !== keyword && (
+        <button
+          onClick={() => setDraft(draft.map(c => (c.id === cluster.id ? setPillar(c, keyword) : c)))}
+          className="p-1 text-slate-300 hover:text-amber-500"
+          title="Make pillar"
+        >
+          <Crown size={14} />
+        </button>
+      )}
+      {renderMoveSelect(keyword, cluster.id)}
+      <button onClick={() => setDraft(removeKeyword(draft, keyword))} className="p-1 text-slate-300 hover:text-red-500" title="Remove keyword">
+        <Trash2 size={14} />
+      </button>
+    </li>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-200 flex items-center justify-between bg-slate-50">
+          <h2 className="font-bold text-lg text-slate-800 flex items-center">
+            <Network size={20} className="mr-2 text-blue-600" />
+            Keyword Clusters ({grouped.length} clusters, {standalone.length} standalone)
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors">
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <p className="text-sm text-slate-600">
+            Each cluster gets one <b>pillar</b> article (broad overview) and <b>supporting</b> articles (one subtopic each).
+            Supporting articles link to their pillar and the pillar links to all of them. Pillars are queued first.
+          </p>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            {grouped.map(cluster => (
+              <div key={cluster.id} className="border border-slate-200 rounded-xl p-3">
+                <div className="flex items-center gap-2 mb-2">
+                  <Crown size={16} className="text-amber-500 shrink-0" />
+                  <span className="flex-1 font-bold text-slate-800 truncate" title="Pillar article">{cluster.pillar}</span>
+                  <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded-full ${INTENT_STYLES[cluster.intent]}`}>{cluster.intent}</span>
+                  {renderMoveSelect(cluster.pillar, cluster.id)}
+                </div>
+                <ul className="pl-6 divide-y divide-slate-100">
+                  {cluster.supporting.map(keyword => renderKeyword(cluster, keyword))}
+                </ul>
+              </div>
+            ))}
+          </div>
+
+          {standalone.length > 0 && (
+            <div className="border border-dashed border-slate-300 rounded-xl p-3">
+              <p className="text-xs font-bold text-slate-500 uppercase mb-1">Standalone articles (no cluster)</p>
+              <ul className="divide-y divide-slate-100">
+                {standalone.map(cluster => renderKeyword(cluster, cluster.pillar))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-200 flex items-center justify-between bg-slate-50">
+          <span className="text-xs text-slate-500">{articleCount} article(s) to queue</span>
+          <div className="flex space-x-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-100"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onConfirm(draft)}
+              disabled={articleCount === 0}
+              className="px-4 py-2 text-sm font-bold text-white bg-orange-500 rounded-lg hover:bg-orange-600 disabled:opacity-50"
+            >
+              Queue articles
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
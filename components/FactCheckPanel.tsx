@@ -0,0 +1,68 @@
+import React from 'react';
+import { ClaimStatus, FactCheck, FactClaim } from '../types';
+import { CheckCircle2, AlertTriangle, XCircle, ShieldCheck } from 'lucide-react';
+
+const STATUS_LABELS: Record<ClaimStatus, string> = {
+  supported: 'In the research',
+  unsupported: 'Not in the research',
+  contradicted: 'Contradicts the research',
+};
+
+export const claimIcon = (claim: FactClaim, size = 16) => {
+  if (claim.verified || claim.status === 'supported') return <CheckCircle2 size={size} className="text-green-500 shrink-0" />;
+  return claim.redFlag
+    ? <XCircle size={size} className="text-red-500 shrink-0" />
+    : <AlertTriangle size={size} className="text-amber-500 shrink-0" />;
+};
+
+// One line per claim with figures, red flags first; editors mark claims they checked themselves
+export const FactCheckPanel: React.FC<{ check: FactCheck; onToggleVerified?: (claimId: string) => void }> = ({ check, onToggleVerified }) => {
+  const rank = (c: FactClaim) => (c.verified ? 3 : c.redFlag ? 0 : c.status === 'supported' ? 2 : 1);
+  const claims = [...check.claims].sort((a, b) => rank(a) - rank(b));
+  const unsupported = check.claims.filter(c => c.status !== 'supported' && !c.verified).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-4">
+        <div className={`text-3xl font-extrabold px-4 py-2 rounded-xl ${check.redFlags > 0 ? 'bg-red-100 text-red-700' : unsupported > 0 ? 'bg-amber-100 text-amber-700' : 'bg-green-100 text-green-700'}`}>
+          {check.redFlags}
+        </div>
+        <div className="text-sm text-slate-600">
+          <p className="font-bold text-slate-800">Red flags (export and publish ask for confirmation)</p>
+          <p>{check.claims.length} claims with figures · {unsupported} not backed by the Step 1 research</p>
+        </div>
+      </div>
+      {claims.length === 0 ? (
+        <p className="text-sm text-slate-500">No figures to check in this article.</p>
+      ) : (
+        <ul className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+          {claims.map(claim => (
+            <li key={claim.id} className="flex items-start gap-3 px-4 py-2.5">
+              {claimIcon(claim)}
+              <div className="flex-1 text-sm min-w-0">
+                <p className="text-slate-800">{claim.text}</p>
+                <p className="text-xs text-slate-500">
+                  {claim.verified ? 'Verified by an editor' : STATUS_LABELS[claim.status]}
+                  {claim.missing.length > 0 && <> · missing: {claim.missing.join(', ')}</>}
+                  {claim.section && <> · {claim.section}</>}
+                </p>
+                {claim.evidence && claim.status !== 'supported' && (
+                  <p className="mt-1 text-xs text-slate-500 italic border-l-2 border-slate-200 pl-2">Research: {claim.evidence}</p>
+                )}
+              </div>
+              {onToggleVerified && claim.status !== 'supported' && (
+                <button
+                  onClick={() => onToggleVerified(claim.id)}
+                  className="flex items-center gap-1 text-xs px-2 py-1 rounded-md bg-white border border-slate-200 text-slate-600 hover:text-green-700 hover:border-green-300 shrink-0"
+                  title={claim.verified ? 'Flag this claim again' : 'I checked this claim against a reliable source'}
+                >
+                  <ShieldCheck size={12} /> {claim.verified ? 'Unverify' : 'Mark verified'}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,9 @@
-import React from 'react';
+import React, { useRef } from 'react';
 import { HistoryItem } from '../types';
-import { X, Trash2, FileText, Clock, ExternalLink } from 'lucide-react';
+import { isFailedItem, getResumeStage, STAGE_LABELS, REVIEW_GATE_LABELS } from '../services/pipelineService';
+import { auditHistoryItem } from '../services/seoAuditService';
+import { SeoScoreBadge } from './SeoAuditPanel';
+import { X, Trash2, FileText, Clock, ExternalLink, RotateCcw, AlertTriangle, Loader2, PenLine, FileDown } from 'lucide-react';
 
 interface Props {
   isOpen: boolean;
@@ -8,9 +11,21 @@ interface Props {
   history: HistoryItem[];
   onSelect: (item: HistoryItem) => void;
   onDelete: (id: string) => void;
+  onResume?: (item: HistoryItem) => void;
+  onExportWxr?: () => void; // Opens the multi-article WordPress export
 }
 
-export const HistorySidebar: React.FC<Props> = ({ isOpen, onClose, history, onSelect, onDelete }) => {
+export const HistorySidebar: React.FC<Props> = ({ isOpen, onClose, history, onSelect, onDelete, onResume, onExportWxr }) => {
+  // SEO scores by item id, recomputed only when the content or status changes (history updates on every pipeline step)
+  const scoresRef = useRef(new Map<string, { content: string; status?: string; score?: number }>());
+  const getScore = (item: HistoryItem) => {
+    const cached = scoresRef.current.get(item.id);
+    if (cached && cached.content === item.content && cached.status === item.status) return cached.score;
+    const score = auditHistoryItem(item)?.score;
+    scoresRef.current.set(item.id, { content: item.content, status: item.status, score });
+    return score;
+  };
+
   return (
     <>
       {/* Overlay */}
@@ -28,9 +43,21 @@ export const HistorySidebar: React.FC<Props> = ({ isOpen, onClose, history, onSe
             <Clock size={20} className="mr-2 text-blue-600" />
             Article History (Log)
           </h2>
-          <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors">
-            <X size={20} className="text-slate-500" />
-          </button>
+          <div className="flex items-center">
+            {onExportWxr && (
+              <button
+                onClick={onExportWxr}
+                disabled={history.length === 0}
+                className="p-2 hover:bg-slate-200 rounded-full transition-colors disabled:opacity-30"
+                title="Export articles to WordPress (WXR)"
+              >
+                <FileDown size={18} className="text-slate-500" />
+              </button>
+            )}
+            <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors">
+              <X size={20} className="text-slate-500" />
+            </button>
+          </div>
         </div>
 
         <div className="flex-1 overflow-y-auto p-4 space-y-3">
@@ -40,13 +67,37 @@ export const HistorySidebar: React.FC<Props> = ({ isOpen, onClose, history, onSe
               <p className="text-sm mt-2">Generated articles will appear here.</p>
             </div>
           ) : (
-            history.map((item) => (
-              <div key={item.id} className="bg-white border border-slate-200 rounded-xl p-3 hover:shadow-md transition-shadow group relative">
+            history.map((item) => {
+              const failed = isFailedItem(item);
+              const resumeStage = failed ? getResumeStage(item.steps) : null;
+              const score = isOpen ? getScore(item) : undefined;
+
+              return (
+              <div key={item.id} className={`bg-white border rounded-xl p-3 hover:shadow-md transition-shadow group relative ${failed ? 'border-red-200' : 'border-slate-200'}`}>
                 <div className="pr-8">
-                  <h3 className="font-semibold text-slate-800 text-sm line-clamp-2 mb-1">{item.keyword}</h3>
+                  <div className="flex items-start justify-between gap-2 mb-1">
+                    <h3 className="font-semibold text-slate-800 text-sm line-clamp-2">{item.keyword}</h3>
+                    {score !== undefined && <SeoScoreBadge score={score} />}
+                  </div>
                   <p className="text-xs text-slate-400">
                     {new Date(item.timestamp).toLocaleString()}
                   </p>
+                  {failed && (
+                    <p className="text-xs text-red-600 mt-1 flex items-start" title={item.error}>
+                      <AlertTriangle size={12} className="mr-1 mt-0.5 shrink-0" />
+                      <span>Failed{item.failedStage ? ` at ${STAGE_LABELS[item.failedStage]}` : ''}</span>
+                    </p>
+                  )}
+                  {item.status === 'in_progress' && (
+                    <p className="text-xs text-orange-600 mt-1 flex items-center">
+                      <Loader2 size={12} className="mr-1 animate-spin" /> In progress
+                    </p>
+                  )}
+                  {item.status === 'awaiting_review' && (
+                    <p className="text-xs text-blue-600 mt-1 flex items-center">
+                      <PenLine size={12} className="mr-1" /> Waiting for review{item.awaitingReview ? `: ${REVIEW_GATE_LABELS[item.awaitingReview]}` : ''}
+                    </p>
+                  )}
                 </div>
                 
                 <div className="flex items-center mt-3 space-x-2">
@@ -56,6 +107,15 @@ export const HistorySidebar: React.FC<Props> = ({ isOpen, onClose, history, onSe
                    >
                      <ExternalLink size={12} className="mr-1" /> View Full
                    </button>
+                   {failed && onResume && (
+                     <button 
+                      onClick={() => onResume(item)}
+                      className="flex-1 flex items-center justify-center text-xs font-medium bg-orange-50 text-orange-700 py-1.5 rounded-lg hover:bg-orange-100 transition-colors"
+                      title={resumeStage ? `Restart from ${STAGE_LABELS[resumeStage]}` : 'Finish remaining steps'}
+                     >
+                       <RotateCcw size={12} className="mr-1" /> Resume
+                     </button>
+                   )}
                    <button 
                     onClick={(e) => { e.stopPropagation(); onDelete(item.id); }}
                     className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
@@ -65,7 +125,8 @@ export const HistorySidebar: React.FC<Props> = ({ isOpen, onClose, history, onSe
                    </button>
                 </div>
               </div>
-            ))
+              );
+            })
           )}
         </div>
       </div>
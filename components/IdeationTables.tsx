@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Ideation } from '../types';
+import { ArrowUp, ArrowDown, ArrowUpDown } from 'lucide-react';
+
+interface Column<T> {
+  key: keyof T;
+  label: string;
+}
+
+interface SortableTableProps<T> {
+  title: string;
+  rows: T[];
+  columns: Column<T>[];
+  defaultSort?: keyof T;
+}
+
+const SortableTable = <T extends Record<string, string | number>>({ title, rows, columns, defaultSort }: SortableTableProps<T>) => {
+  const [sortKey, setSortKey] = useState<keyof T | null>(defaultSort || null);
+  const [direction, setDirection] = useState<1 | -1>(1);
+
+  const handleSort = (key: keyof T) => {
+    if (key === sortKey) {
+      setDirection(direction === 1 ? -1 : 1);
+    } else {
+      setSortKey(key);
+      setDirection(1);
+    }
+  };
+
+  const sorted = sortKey === null ? rows : [...rows].sort((a, b) => {
+    const x = a[sortKey];
+    const y = b[sortKey];
+    const result = typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y));
+    return result * direction;
+  });
+
+  return (
+    <div>
+      <h4 className="text-sm font-bold text-slate-700 mb-2">
+        {title} <span className="font-normal text-slate-400">({rows.length})</span>
+      </h4>
+      {rows.length === 0 ? (
+        <p className="text-sm text-slate-400 italic">None</p>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border border-slate-200">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-100">
+              <tr>
+                {columns.map(col => (
+                  <th
+                    key={String(col.key)}
+                    onClick={() => handleSort(col.key)}
+                    className="px-3 py-2 text-left font-semibold text-slate-600 cursor-pointer select-none hover:bg-slate-200"
+                  >
+                    <span className="inline-flex items-center gap-1">
+                      {col.label}
+                      {sortKey === col.key
+                        ? (direction === 1 ? <ArrowUp size={12} /> : <ArrowDown size={12} />)
+                        : <ArrowUpDown size={12} className="text-slate-300" />}
+                    </span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map((row, i) => (
+                <tr key={i} className="border-t border-slate-100 even:bg-slate-50">
+                  {columns.map(col => (
+                    <td key={String(col.key)} className="px-3 py-1.5 text-slate-700">{row[col.key]}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Step 2 (DDD1) rendered as sortable tables, one per section of the ideation
+export const IdeationTables: React.FC<{ ideation: Ideation }> = ({ ideation }) => (
+  <div className="space-y-8">
+    <div className="grid md:grid-cols-2 gap-6">
+      <SortableTable
+        title="Keywords"
+        rows={ideation.keywords}
+        columns={[{ key: 'keyword', label: 'Keyword' }, { key: 'type', label: 'Type' }]}
+        defaultSort="type"
+      />
+      <SortableTable
+        title="Entities"
+        rows={ideation.entities}
+        columns={[{ key: 'priority', label: '#' }, { key: 'name', label: 'Entity' }, { key: 'role', label: 'Role' }]}
+        defaultSort="priority"
+      />
+    </div>
+    <div className="grid md:grid-cols-2 gap-6">
+      <SortableTable
+        title="Search Intents"
+        rows={ideation.searchIntents}
+        columns={[{ key: 'priority', label: '#' }, { key: 'intent', label: 'Intent' }, { key: 'type', label: 'Type' }]}
+        defaultSort="priority"
+      />
+      <SortableTable
+        title="People Also Ask"
+        rows={ideation.questions.map(question => ({ question }))}
+        columns={[{ key: 'question', label: 'Question' }]}
+      />
+    </div>
+    <SortableTable
+      title="EAV (Entity - Attribute - Value)"
+      rows={ideation.eav}
+      columns={[{ key: 'entity', label: 'Entity' }, { key: 'attribute', label: 'Attribute' }, { key: 'value', label: 'Value' }]}
+    />
+    <SortableTable
+      title="ERE (Entity - Relation - Entity)"
+      rows={ideation.ere}
+      columns={[{ key: 'entity', label: 'Entity' }, { key: 'relation', label: 'Relation' }, { key: 'target', label: 'Entity' }]}
+    />
+    <SortableTable
+      title="Semantic Triples (Subject - Predicate - Object)"
+      rows={ideation.triples}
+      columns={[{ key: 'subject', label: 'Subject' }, { key: 'predicate', label: 'Predicate' }, { key: 'object', label: 'Object' }]}
+    />
+  </div>
+);
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { InternalLink, InternalLinkStatus } from '../types';
+import { Link2, Check, Trash2, RefreshCw, Loader2 } from 'lucide-react';
+
+interface Props {
+  links: InternalLink[];
+  onChangeTarget: (linkId: string, url: string) => Promise<void>;
+  onApprove: (linkId: string) => Promise<void>;
+  onRemove: (linkId: string) => Promise<void>;
+  onRerun: () => Promise<void>;
+}
+
+const STATUS_STYLES: Record<InternalLinkStatus, string> = {
+  suggested: 'bg-blue-100 text-blue-700',
+  approved: 'bg-green-100 text-green-700',
+  unresolved: 'bg-amber-100 text-amber-700',
+};
+
+const KIND_LABELS: Record<InternalLink['kind'], string> = {
+  marker: 'Marker',
+  entity: 'Entity',
+  cluster: 'Cluster',
+};
+
+// Per-article link report: every internal link (or unresolved marker) with its target and alternatives
+export const InternalLinksReport: React.FC<Props> = ({ links, onChangeTarget, onApprove, onRemove, onRerun }) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const run = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    try {
+      await action();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const resolved = links.filter(l => l.status !== 'unresolved').length;
+
+  return (
+    <div className="mb-4 bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="bg-slate-50 px-5 py-3 flex items-center justify-between border-b border-slate-200">
+        <div className="flex items-center space-x-2">
+          <Link2 size={16} className="text-blue-600" />
+          <h4 className="font-bold text-slate-800 text-sm">Internal Links</h4>
+          <span className="text-xs text-slate-500">{resolved} linked · {links.length - resolved} unresolved</span>
+        </div>
+        <button
+          onClick={() => run('rerun', onRerun)}
+          disabled={!!busyId}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-200 rounded-lg hover:border-blue-300 hover:text-blue-700 disabled:opacity-50"
+          title="Resolve remaining markers and look for new link opportunities"
+        >
+          {busyId === 'rerun' ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />} Re-run
+        </button>
+      </div>
+
+      {links.length === 0 ? (
+        <p className="px-5 py-3 text-sm text-slate-400 italic">No internal links. Import site links or write more articles, then re-run.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-slate-500 text-xs uppercase">
+              <tr>
+                <th className="px-4 py-2 text-left font-semibold">Status</th>
+                <th className="px-4 py-2 text-left font-semibold">Anchor</th>
+                <th className="px-4 py-2 text-left font-semibold">Target</th>
+                <th className="px-4 py-2 text-right font-semibold">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {links.map(link => (
+                <tr key={link.id} className="border-t border-slate-100 align-top">
+                  <td className="px-4 py-2">
+                    <span className={`text-xs font-bold px-2 py-0.5 rounded-full ${STATUS_STYLES[link.status]}`}>{link.status}</span>
+                  </td>
+                  <td className="px-4 py-2">
+                    <p className="font-medium text-slate-800">{link.anchor || <span className="italic text-slate-400">"See also" link</span>}</p>
+                    <p className="text-xs text-slate-400">
+                      {KIND_LABELS[link.kind]}{link.section ? ` · ${link.section}` : ' · Intro'}
+                    </p>
+                  </td>
+                  <td className="px-4 py-2">
+                    <select
+                      value={link.target?.url || ''}
+                      onChange={e => e.target.value && run(link.id, () => onChangeTarget(link.id, e.target.value))}
+                      disabled={!!busyId || link.candidates.length === 0}
+                      className="w-full max-w-xs bg-white border border-slate-200 rounded-lg py-1 px-2 text-xs focus:outline-none focus:ring-2 focus:ring-blue-200"
+                    >
+                      {!link.target && <option value="">{link.candidates.length ? 'Choose a target...' : 'No matching article'}</option>}
+                      {link.candidates.map(c => (
+                        <option key={c.url} value={c.url}>
+                          {c.title} ({Math.round(c.score * 100)}%{c.source === 'site' ? ', site' : ''})
+                        </option>
+                      ))}
+                    </select>
+                    {link.target && <p className="text-xs text-slate-400 mt-1 break-all">{link.target.url}</p>}
+                  </td>
+                  <td className="px-4 py-2">
+                    <div className="flex justify-end gap-1">
+                      {busyId === link.id ? (
+                        <Loader2 size={16} className="animate-spin text-blue-600" />
+                      ) : (
+                        <>
+                          {link.status === 'suggested' && (
+                            <button onClick={() => run(link.id, () => onApprove(link.id))} disabled={!!busyId} className="p-1.5 text-slate-400 hover:text-green-600 hover:bg-green-50 rounded" title="Approve">
+                              <Check size={14} />
+                            </button>
+                          )}
+                          <button onClick={() => run(link.id, () => onRemove(link.id))} disabled={!!busyId} className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded" title={link.target ? 'Remove link (keep anchor text)' : 'Remove marker'}>
+                            <Trash2 size={14} />
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
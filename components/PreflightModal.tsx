@@ -0,0 +1,115 @@
+import React, { useState, useEffect } from 'react';
+import { KeywordOverlap, PreflightAction, PreflightEntry } from '../types';
+import { X, Copy, AlertTriangle } from 'lucide-react';
+
+interface Props {
+  entries: PreflightEntry[] | null; // Open while set
+  onClose: () => void;
+  onConfirm: (entries: PreflightEntry[]) => void;
+}
+
+const SOURCE_LABELS: Record<KeywordOverlap['source'], string> = {
+  batch: 'this batch',
+  queue: 'queue',
+  history: 'history',
+};
+
+const ACTION_LABELS: Record<PreflightAction, string> = {
+  skip: 'Skip',
+  merge: 'Merge',
+  force: 'Generate anyway',
+};
+
+// Duplicate / cannibalization pre-flight of a new batch: one row per flagged keyword
+export const PreflightModal: React.FC<Props> = ({ entries, onClose, onConfirm }) => {
+  const [draft, setDraft] = useState<PreflightEntry[]>([]);
+
+  useEffect(() => {
+    if (entries) setDraft(entries);
+  }, [entries]);
+
+  if (!entries) return null;
+
+  const setAction = (index: number, action: PreflightAction) =>
+    setDraft(draft.map((e, i) => (i === index ? { ...e, action } : e)));
+
+  const flagged = draft.map((entry, index) => ({ entry, index })).filter(({ entry }) => entry.overlaps.length > 0);
+  const toGenerate = draft.filter(e => e.action === 'force').length;
+  const toMerge = draft.filter(e => e.action === 'merge').length;
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-200 flex items-center justify-between bg-slate-50">
+          <h2 className="font-bold text-lg text-slate-800 flex items-center">
+            <Copy size={20} className="mr-2 text-amber-600" />
+            Possible duplicates ({flagged.length} of {draft.length} keywords)
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors">
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-3 overflow-y-auto">
+          <p className="text-sm text-slate-600">
+            These keywords repeat each other or an existing article. <b>Merge</b> folds a keyword into the matched
+            keyword of this batch or queue (it is covered as a related keyword), <b>Skip</b> drops it.
+          </p>
+          {flagged.map(({ entry, index }) => {
+            const canMerge = entry.overlaps.some(o => o.mergeable);
+            const top = entry.overlaps[0];
+            return (
+              <div key={index} className="border border-slate-200 rounded-xl p-3">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex items-center min-w-0">
+                    <AlertTriangle size={16} className={`mr-2 shrink-0 ${top.kind === 'duplicate' ? 'text-red-500' : 'text-amber-500'}`} />
+                    <span className="font-semibold text-slate-800 truncate">{entry.keyword}</span>
+                    <span className={`ml-2 text-xs font-bold uppercase px-2 py-0.5 rounded-full ${top.kind === 'duplicate' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'}`}>
+                      {top.kind}
+                    </span>
+                  </div>
+                  <select
+                    value={entry.action}
+                    onChange={e => setAction(index, e.target.value as PreflightAction)}
+                    className="text-sm bg-white border border-slate-200 rounded-lg py-1.5 px-3 focus:outline-none focus:ring-2 focus:ring-orange-200"
+                  >
+                    {(['skip', 'merge', 'force'] as PreflightAction[]).map(action => (
+                      <option key={action} value={action} disabled={action === 'merge' && !canMerge}>{ACTION_LABELS[action]}</option>
+                    ))}
+                  </select>
+                </div>
+                <ul className="mt-2 space-y-1 text-xs text-slate-500">
+                  {entry.overlaps.slice(0, 3).map((o, i) => (
+                    <li key={i}>
+                      {o.reason} — "<span className="text-slate-700">{o.keyword}</span>" in {SOURCE_LABELS[o.source]}
+                      {o.title && <> ({o.title})</>} · {Math.round(o.score * 100)}%
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-4 border-t border-slate-200 flex items-center justify-between bg-slate-50">
+          <span className="text-xs text-slate-500">{toGenerate} to generate · {toMerge} merged</span>
+          <div className="flex space-x-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-100"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onConfirm(draft)}
+              disabled={toGenerate + toMerge === 0}
+              className="px-4 py-2 text-sm font-bold text-white bg-orange-500 rounded-lg hover:bg-orange-600 disabled:opacity-50"
+            >
+              Queue keywords
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,161 @@
+import React, { useState, useEffect } from 'react';
+import { BrandProfile, ImageProviderId, OutputLanguage } from '../types';
+import { createEmptyProfile } from '../services/profileService';
+import { LANGUAGES, languageLabel } from '../services/languages';
+import { DEFAULT_IMAGE_PROVIDER, IMAGE_PROVIDERS } from '../services/imageProviderService';
+import { X, UserCircle, Plus, Trash2, Save } from 'lucide-react';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  profiles: BrandProfile[];
+  onSave: (profile: BrandProfile) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+// Editable fields, in display order
+const FIELDS: { key: keyof BrandProfile; label: string; multiline?: boolean; placeholder?: string }[] = [
+  { key: 'name', label: 'Profile name', placeholder: 'Running (VI)' },
+  { key: 'brandName', label: 'Brand name', placeholder: "Vietnam's Best Marathon" },
+  { key: 'websiteUrl', label: 'Website URL', placeholder: 'https://bestmarathon.vn' },
+  { key: 'niche', label: 'Niche / Industry', placeholder: 'Chạy bộ, Marathon, Dinh dưỡng thể thao' },
+  { key: 'audience', label: 'Target audience', placeholder: 'Runner Việt Nam (từ beginner đến elite)' },
+  { key: 'voiceRules', label: 'Voice & tone rules', multiline: true },
+  { key: 'imageStyle', label: 'Image style (appended to every image prompt)', multiline: true },
+  { key: 'defaultCategory', label: 'Default category', placeholder: 'Marathon' },
+];
+
+export const ProfileManager: React.FC<Props> = ({ isOpen, onClose, profiles, onSave, onDelete }) => {
+  const [draft, setDraft] = useState<BrandProfile | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen && !draft && profiles.length > 0) setDraft(profiles[0]);
+  }, [isOpen, profiles, draft]);
+
+  if (!isOpen) return null;
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.name.trim() || !draft.brandName.trim()) {
+      alert("Profile name and brand name are required.");
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!draft || !confirm(`Delete profile "${draft.name}"?`)) return;
+    await onDelete(draft.id);
+    setDraft(null);
+  };
+
+  const inputClass = "w-full bg-white border border-slate-200 text-slate-700 py-2 px-3 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-200 focus:border-orange-400 text-sm";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] overflow-hidden flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-200 flex items-center justify-between bg-slate-50">
+          <h2 className="font-bold text-lg text-slate-800 flex items-center">
+            <UserCircle size={20} className="mr-2 text-blue-600" />
+            Brand Profiles
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors">
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 overflow-hidden">
+          {/* Profile list */}
+          <div className="w-56 border-r border-slate-200 overflow-y-auto p-3 space-y-1 bg-slate-50/50">
+            {profiles.map(p => (
+              <button
+                key={p.id}
+                onClick={() => setDraft(p)}
+                className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${draft?.id === p.id ? 'bg-orange-100 text-orange-800 font-semibold' : 'text-slate-600 hover:bg-slate-100'}`}
+              >
+                {p.name}
+                <span className="block text-xs text-slate-400 uppercase">{p.language}</span>
+              </button>
+            ))}
+            <button
+              onClick={() => setDraft(createEmptyProfile())}
+              className="w-full flex items-center justify-center px-3 py-2 rounded-lg text-sm text-blue-600 hover:bg-blue-50 font-medium"
+            >
+              <Plus size={14} className="mr-1" /> New profile
+            </button>
+          </div>
+
+          {/* Editor */}
+          {draft && (
+            <div className="flex-1 overflow-y-auto p-6 space-y-4">
+              {FIELDS.map(field => (
+                <div key={field.key}>
+                  <label className="block text-xs font-bold text-slate-500 uppercase mb-1">{field.label}</label>
+                  {field.multiline ? (
+                    <textarea
+                      value={draft[field.key] as string}
+                      onChange={e => setDraft({ ...draft, [field.key]: e.target.value })}
+                      rows={3}
+                      className={inputClass}
+                    />
+                  ) : (
+                    <input
+                      type="text"
+                      value={draft[field.key] as string}
+                      onChange={e => setDraft({ ...draft, [field.key]: e.target.value })}
+                      placeholder={field.placeholder}
+                      className={inputClass}
+                    />
+                  )}
+                </div>
+              ))}
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Language</label>
+                <select
+                  value={draft.language}
+                  onChange={e => setDraft({ ...draft, language: e.target.value as OutputLanguage })}
+                  className={inputClass}
+                >
+                  {LANGUAGES.map(l => <option key={l.code} value={l.code}>{languageLabel(l.code)}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Image Source</label>
+                <select
+                  value={draft.imageProvider || DEFAULT_IMAGE_PROVIDER}
+                  onChange={e => setDraft({ ...draft, imageProvider: e.target.value as ImageProviderId })}
+                  className={inputClass}
+                >
+                  {IMAGE_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                </select>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-200 flex justify-between bg-slate-50">
+          <button
+            onClick={handleDelete}
+            disabled={!draft || !profiles.some(p => p.id === draft.id)}
+            className="flex items-center px-4 py-2 text-sm font-medium text-red-600 bg-white border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-40"
+          >
+            <Trash2 size={14} className="mr-1" /> Delete
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!draft || isSaving}
+            className="flex items-center px-4 py-2 text-sm font-bold text-white bg-orange-500 rounded-lg hover:bg-orange-600 disabled:opacity-50"
+          >
+            <Save size={14} className="mr-1" /> Save profile
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
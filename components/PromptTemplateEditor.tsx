@@ -0,0 +1,181 @@
+import React, { useState, useEffect } from 'react';
+import { OutputLanguage, PromptStep, PromptTemplate } from '../types';
+import { PROMPT_STEPS, PROMPT_STEP_LABELS, TEMPLATE_VARIABLES, getDefaultTemplate } from '../services/promptTemplates';
+import { LANGUAGES, languageLabel } from '../services/languages';
+import { X, FileCode, Save, RotateCcw, History } from 'lucide-react';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  templates: PromptTemplate[];
+  initialLanguage: OutputLanguage;
+  onSave: (step: PromptStep, language: OutputLanguage, body: string) => Promise<void>;
+  onReset: (step: PromptStep, language: OutputLanguage) => Promise<void>;
+}
+
+export const PromptTemplateEditor: React.FC<Props> = ({ isOpen, onClose, templates, initialLanguage, onSave, onReset }) => {
+  const [step, setStep] = useState<PromptStep>('research');
+  const [language, setLanguage] = useState<OutputLanguage>(initialLanguage);
+  const [draft, setDraft] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const template = templates.find(t => t.step === step && t.language === language) || getDefaultTemplate(step, language);
+
+  // Load the stored body whenever the selection (or the stored version) changes
+  useEffect(() => {
+    setDraft(template.body);
+  }, [template.id, template.version]);
+
+  useEffect(() => {
+    if (isOpen) setLanguage(initialLanguage);
+  }, [isOpen, initialLanguage]);
+
+  if (!isOpen) return null;
+
+  const isDirty = draft !== template.body;
+  const isDefault = template.body === getDefaultTemplate(step, language).body;
+
+  const confirmDiscard = () => !isDirty || confirm("Discard unsaved changes to this template?");
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    try {
+      await action();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!draft.trim()) {
+      alert("Template cannot be empty.");
+      return;
+    }
+    run(() => onSave(step, language, draft));
+  };
+
+  const handleReset = () => {
+    if (!confirm("Restore the built-in template? The current version stays in the version list.")) return;
+    run(() => onReset(step, language));
+  };
+
+  const inputClass = "bg-white border border-slate-200 text-slate-700 py-2 px-3 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-200 focus:border-orange-400 text-sm";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-6xl max-h-[90vh] overflow-hidden flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-200 flex items-center justify-between bg-slate-50">
+          <h2 className="font-bold text-lg text-slate-800 flex items-center">
+            <FileCode size={20} className="mr-2 text-blue-600" />
+            Prompt Templates
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors">
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+
+        <div className="px-6 py-3 border-b border-slate-200 flex flex-wrap items-center gap-3">
+          <select
+            value={step}
+            onChange={e => confirmDiscard() && setStep(e.target.value as PromptStep)}
+            className={inputClass}
+          >
+            {PROMPT_STEPS.map(s => <option key={s} value={s}>{PROMPT_STEP_LABELS[s]}</option>)}
+          </select>
+          <select
+            value={language}
+            onChange={e => confirmDiscard() && setLanguage(e.target.value as OutputLanguage)}
+            className={inputClass}
+          >
+            {LANGUAGES.map(l => <option key={l.code} value={l.code}>{languageLabel(l.code)}</option>)}
+          </select>
+          <span className="text-xs text-slate-500">
+            Version <span className="font-bold text-slate-700">v{template.version}</span>
+            {isDefault ? ' · built-in' : ' · customized'}
+            {isDirty && <span className="ml-2 font-bold text-amber-600 uppercase">Unsaved</span>}
+          </span>
+        </div>
+
+        <div className="flex flex-1 overflow-hidden">
+          {/* Editor */}
+          <div className="flex-1 p-4 flex">
+            <textarea
+              value={draft}
+              onChange={e => setDraft(e.target.value)}
+              spellCheck={false}
+              className="flex-1 w-full font-mono text-xs leading-relaxed bg-slate-50 border border-slate-200 rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-orange-200 focus:border-orange-400 resize-none"
+            />
+          </div>
+
+          {/* Variables & versions */}
+          <div className="w-72 border-l border-slate-200 overflow-y-auto p-4 space-y-6 bg-slate-50/50">
+            <div>
+              <h3 className="text-xs font-bold text-slate-500 uppercase mb-2">Variables</h3>
+              <ul className="space-y-1.5">
+                {TEMPLATE_VARIABLES.map(v => (
+                  <li key={v.name} className="text-xs">
+                    <code className="text-orange-700 bg-orange-50 px-1 rounded">{`{{${v.name}}}`}</code>
+                    <span className="block text-slate-500">{v.description}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div>
+              <h3 className="text-xs font-bold text-slate-500 uppercase mb-2 flex items-center">
+                <History size={12} className="mr-1" /> Previous versions
+              </h3>
+              {template.versions.length === 0 ? (
+                <p className="text-xs text-slate-400">No earlier versions.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {template.versions.map(v => (
+                    <li key={v.version} className="flex items-center justify-between text-xs">
+                      <span className="text-slate-600">
+                        v{v.version}
+                        <span className="ml-1 text-slate-400">{v.savedAt ? new Date(v.savedAt).toLocaleString() : 'built-in'}</span>
+                      </span>
+                      <button
+                        onClick={() => confirmDiscard() && setDraft(v.body)}
+                        className="text-blue-600 hover:underline"
+                        title="Load into the editor (save to make it current)"
+                      >
+                        Load
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-200 flex justify-between bg-slate-50">
+          <button
+            onClick={handleReset}
+            disabled={isDefault || isSaving}
+            className="flex items-center px-4 py-2 text-sm font-medium text-slate-600 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-40"
+          >
+            <RotateCcw size={14} className="mr-1" /> Reset to default
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setDraft(template.body)}
+              disabled={!isDirty}
+              className="px-4 py-2 text-sm font-medium text-slate-600 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-40"
+            >
+              Discard changes
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!isDirty || isSaving}
+              className="flex items-center px-4 py-2 text-sm font-bold text-white bg-orange-500 rounded-lg hover:bg-orange-600 disabled:opacity-50"
+            >
+              <Save size={14} className="mr-1" /> Save as v{template.version + 1}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,163 @@
+import React from 'react';
+import { QueueItem, QueueItemStatus, QueueRunState, ReviewGate } from '../types';
+import { Pause, Play, Square, ChevronUp, ChevronDown, RotateCcw, SkipForward, Trash2, Loader2, Check, AlertTriangle, Clock, ExternalLink, ListChecks, PenLine, FileDown } from 'lucide-react';
+
+interface Props {
+  items: QueueItem[];
+  runState: QueueRunState;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  onMove: (id: string, direction: -1 | 1) => void;
+  onRetry: (id: string) => void;
+  onSkip: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+  onOpenResult: (historyId: string) => void;
+  onSetReview: (id: string, gates: ReviewGate[]) => void;
+  onExportWxr?: (historyIds: string[]) => void; // Opens the WordPress export with the finished articles checked
+}
+
+// Per-keyword review mode choices
+const REVIEW_OPTIONS: { value: string; label: string; gates: ReviewGate[] }[] = [
+  { value: '', label: 'No review', gates: [] },
+  { value: 'ideation', label: 'Review ideation', gates: ['ideation'] },
+  { value: 'outline', label: 'Review outline', gates: ['outline'] },
+  { value: 'ideation,outline', label: 'Review both', gates: ['ideation', 'outline'] },
+];
+
+const STATUS_STYLES: Record<QueueItemStatus, { label: string; className: string; icon: React.ReactNode }> = {
+  pending: { label: 'Pending', className: 'text-slate-500 bg-slate-100', icon: <Clock size={12} /> },
+  running: { label: 'Running', className: 'text-orange-700 bg-orange-100', icon: <Loader2 size={12} className="animate-spin" /> },
+  review: { label: 'Review', className: 'text-blue-700 bg-blue-100', icon: <PenLine size={12} /> },
+  done: { label: 'Done', className: 'text-green-700 bg-green-100', icon: <Check size={12} /> },
+  failed: { label: 'Failed', className: 'text-red-700 bg-red-100', icon: <AlertTriangle size={12} /> },
+  skipped: { label: 'Skipped', className: 'text-slate-400 bg-slate-100', icon: <SkipForward size={12} /> },
+};
+
+export const QueuePanel: React.FC<Props> = ({
+  items,
+  runState,
+  onPause,
+  onResume,
+  onCancel,
+  onMove,
+  onRetry,
+  onSkip,
+  onRemove,
+  onClearFinished,
+  onOpenResult,
+  onSetReview,
+  onExportWxr
+}) => {
+  if (items.length === 0) return null;
+
+  const pendingCount = items.filter(i => i.status === 'pending').length;
+  const finishedCount = items.filter(i => i.status === 'done' || i.status === 'skipped').length;
+  const doneHistoryIds = items.filter(i => i.status === 'done' && i.historyId).map(i => i.historyId!);
+  const iconButton = "p-1.5 rounded-lg text-slate-400 hover:bg-slate-100 hover:text-slate-700 transition-colors disabled:opacity-30 disabled:hover:bg-transparent";
+
+  return (
+    <div className="bg-white rounded-xl shadow-md border border-slate-200 overflow-hidden">
+      <div className="bg-slate-50 px-6 py-4 flex flex-wrap gap-3 justify-between items-center border-b border-slate-200">
+        <div className="flex items-center space-x-3">
+          <ListChecks size={20} className="text-orange-500" />
+          <h3 className="font-bold text-slate-800 text-lg">Bulk Queue</h3>
+          <span className="text-xs text-slate-500">
+            {pendingCount} pending · {items.length} total
+            {runState === 'paused' && <span className="ml-2 font-bold text-amber-600 uppercase">Paused</span>}
+          </span>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          {runState === 'running' ? (
+            <button onClick={onPause} className="flex items-center space-x-1 text-xs bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 px-3 py-2 rounded-lg font-medium" title="Pause after the current keyword">
+              <Pause size={14} /> <span>Pause</span>
+            </button>
+          ) : (
+            <button onClick={onResume} disabled={pendingCount === 0} className="flex items-center space-x-1 text-xs bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 px-3 py-2 rounded-lg font-medium disabled:opacity-50">
+              <Play size={14} /> <span>{runState === 'paused' ? 'Resume' : 'Start'}</span>
+            </button>
+          )}
+          <button onClick={onCancel} disabled={runState === 'idle' && pendingCount === 0} className="flex items-center space-x-1 text-xs bg-white border border-red-200 hover:bg-red-50 text-red-600 px-3 py-2 rounded-lg font-medium disabled:opacity-50" title="Stop and skip all pending keywords">
+            <Square size={14} /> <span>Cancel</span>
+          </button>
+          {onExportWxr && (
+            <button onClick={() => onExportWxr(doneHistoryIds)} disabled={doneHistoryIds.length === 0} className="flex items-center space-x-1 text-xs bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 px-3 py-2 rounded-lg font-medium disabled:opacity-50" title="All finished articles of the batch in one WordPress import file">
+              <FileDown size={14} /> <span>Export WXR</span>
+            </button>
+          )}
+          <button onClick={onClearFinished} disabled={finishedCount === 0} className="flex items-center space-x-1 text-xs bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 px-3 py-2 rounded-lg font-medium disabled:opacity-50">
+            <Trash2 size={14} /> <span>Clear finished</span>
+          </button>
+        </div>
+      </div>
+
+      <ul className="divide-y divide-slate-100 max-h-96 overflow-y-auto">
+        {items.map((item, index) => {
+          const style = STATUS_STYLES[item.status];
+          const canMove = item.status === 'pending';
+          return (
+            <li key={item.id} className="px-6 py-2.5 flex items-center gap-3 text-sm">
+              <span className="w-6 text-xs text-slate-400 text-right">{index + 1}</span>
+              <span className={`inline-flex items-center gap-1 text-xs font-semibold px-2 py-0.5 rounded-full w-24 justify-center ${style.className}`}>
+                {style.icon} {style.label}
+              </span>
+              <span className="flex-1 truncate text-slate-700" title={item.error || item.keyword}>
+                {item.keyword}
+                <span className="ml-2 text-xs uppercase text-slate-400">{item.language}</span>
+                {item.mergedKeywords?.length ? (
+                  <span className="ml-2 text-xs text-slate-400" title={item.mergedKeywords.join('\n')}>+{item.mergedKeywords.length} merged</span>
+                ) : null}
+                {item.cluster && (
+                  <span className="ml-2 text-xs text-slate-400" title={`Cluster: ${item.cluster.pillar}`}>
+                    {item.cluster.role === 'pillar' ? 'pillar' : `→ ${item.cluster.pillar}`}
+                  </span>
+                )}
+                {item.error && <span className="ml-2 text-xs text-red-500">{item.error}</span>}
+              </span>
+
+              {item.status !== 'running' && item.status !== 'done' && (
+                <select
+                  value={[...(item.reviewGates || [])].sort().join(',')}
+                  onChange={e => onSetReview(item.id, REVIEW_OPTIONS.find(o => o.value === e.target.value)?.gates || [])}
+                  className="text-xs bg-white border border-slate-200 rounded-lg py-1 px-2 text-slate-500 focus:outline-none focus:ring-2 focus:ring-orange-200"
+                  title="Review mode for this keyword"
+                >
+                  {REVIEW_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                </select>
+              )}
+
+              <div className="flex items-center">
+                <button onClick={() => onMove(item.id, -1)} disabled={!canMove || index === 0} className={iconButton} title="Move up">
+                  <ChevronUp size={16} />
+                </button>
+                <button onClick={() => onMove(item.id, 1)} disabled={!canMove || index === items.length - 1} className={iconButton} title="Move down">
+                  <ChevronDown size={16} />
+                </button>
+                {(item.status === 'failed' || item.status === 'skipped') && (
+                  <button onClick={() => onRetry(item.id)} className={iconButton} title="Retry (resumes from the last saved step)">
+                    <RotateCcw size={16} />
+                  </button>
+                )}
+                {(item.status === 'pending' || item.status === 'review') && (
+                  <button onClick={() => onSkip(item.id)} className={iconButton} title="Skip">
+                    <SkipForward size={16} />
+                  </button>
+                )}
+                {item.historyId && item.status !== 'pending' && item.status !== 'running' && (
+                  <button onClick={() => onOpenResult(item.historyId!)} className={iconButton} title="Open result">
+                    <ExternalLink size={16} />
+                  </button>
+                )}
+                <button onClick={() => onRemove(item.id)} disabled={item.status === 'running'} className={iconButton} title="Remove from queue">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
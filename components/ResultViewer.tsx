@@ -1,40 +1,89 @@
 import React, { useState, useEffect } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { Copy, Code, FileText, ChevronDown, ChevronUp, Download, Check, RefreshCw, Loader2, AlertTriangle } from 'lucide-react';
+import type { Element, ElementContent } from 'hast';
+import { FactCheck, Ideation, SectionAction, SeoAudit } from '../types';
+import { compactText } from '../services/factCheckService';
+import { CITATION_MARKER, getImageAssetIds, imageAssetId, readImageAlt } from '../services/articleService';
+import { extensionFor, getImageUrls } from '../services/imageAssetService';
+import { IdeationTables } from './IdeationTables';
+import { SeoAuditPanel } from './SeoAuditPanel';
+import { FactCheckPanel, claimIcon } from './FactCheckPanel';
+import { Copy, Code, FileText, ChevronDown, ChevronUp, Download, Check, RefreshCw, Loader2, Maximize2, Minimize2, PenLine, Undo2 } from 'lucide-react';
 
 interface Props {
   content: string;
   title: string;
   isCollapsible?: boolean;
   defaultOpen?: boolean;
-  onRegenerateImage?: (src: string, alt: string) => Promise<void>;
+  onRegenerateImage?: (src: string) => Promise<void>;
+  onEditImage?: (src: string, alt: string, caption: string) => Promise<void>; // Alt text and caption of a generated image
+  ideation?: Ideation; // When set, the preview shows sortable tables instead of the Markdown
+  onSectionAction?: (heading: string, action: SectionAction, instructions?: string) => Promise<void>;
+  onRevertSection?: (heading: string) => Promise<void>;
+  revertableHeadings?: string[]; // H2 sections that have a previous version
+  audit?: SeoAudit; // Adds an "SEO" tab with the audit checks
+  factCheck?: FactCheck; // Adds a "Facts" tab and flags unbacked claims inline in the preview
+  onToggleClaimVerified?: (claimId: string) => void;
 }
 
+const isCitationLink = (href?: string) => !!href?.startsWith('#cite-');
+
+// Plain text of a rendered heading (hast node from react-markdown), footnote numbers left out
+const nodeText = (node?: ElementContent): string =>
+  node?.type === 'text' ? node.value
+    : node?.type !== 'element' ? ''
+    : node.tagName === 'a' && typeof node.properties.href === 'string' && isCitationLink(node.properties.href) ? ''
+    : node.children.map(nodeText).join('');
+
+const SECTION_ACTIONS: { action: SectionAction; label: string; icon: React.ReactNode }[] = [
+  { action: 'regenerate', label: 'Regenerate', icon: <RefreshCw size={12} /> },
+  { action: 'expand', label: 'Expand', icon: <Maximize2 size={12} /> },
+  { action: 'shorten', label: 'Shorten', icon: <Minimize2 size={12} /> },
+  { action: 'rewrite', label: 'Rewrite...', icon: <PenLine size={12} /> },
+];
+
 export const ResultViewer: React.FC<Props> = ({ 
   content, 
   title, 
   isCollapsible = false, 
   defaultOpen = true,
-  onRegenerateImage
+  onRegenerateImage,
+  onEditImage,
+  ideation,
+  onSectionAction,
+  onRevertSection,
+  revertableHeadings = [],
+  audit,
+  factCheck,
+  onToggleClaimVerified
 }) => {
   const [isOpen, setIsOpen] = useState(defaultOpen);
-  const [viewMode, setViewMode] = useState<'preview' | 'raw'>('preview');
+  const [viewMode, setViewMode] = useState<'preview' | 'raw' | 'audit' | 'facts'>('preview');
   const [copied, setCopied] = useState<'md' | 'html' | null>(null);
   
   // Track which image is currently regenerating to show spinner
   const [regeneratingImg, setRegeneratingImg] = useState<string | null>(null);
+  // Heading of the section being rewritten / reverted
+  const [busySection, setBusySection] = useState<string | null>(null);
+
+  // Object URLs of the stored images the content refers to (asset:<id>)
+  const [imageUrls, setImageUrls] = useState<Record<string, { url: string; mime: string }>>({});
 
   useEffect(() => {
     setIsOpen(defaultOpen);
   }, [defaultOpen]);
 
-  // Performance Check: If content is huge (likely due to Base64 images), disable Raw view to prevent freeze
-  const isContentHuge = content.length > 50000;
+  useEffect(() => {
+    const ids = getImageAssetIds(content);
+    if (ids.length === 0) return;
+    let cancelled = false;
+    getImageUrls(ids).then(urls => { if (!cancelled) setImageUrls(urls); });
+    return () => { cancelled = true; };
+  }, [content]);
 
   const handleCopy = (type: 'md' | 'html') => {
     if (type === 'md') {
-      // For huge content, we must avoid reading from DOM if possible, but content prop is in memory
       navigator.clipboard.writeText(content);
     } else {
       const previewElement = document.getElementById(`preview-${title.replace(/\s/g, '-')}`);
@@ -46,25 +95,72 @@ export const ResultViewer: React.FC<Props> = ({
     setTimeout(() => setCopied(null), 2000);
   };
 
-  const handleDownloadImage = (base64Data: string, altText: string) => {
+  const handleDownloadImage = (url: string, mime: string, altText: string) => {
     const link = document.createElement('a');
-    link.href = base64Data;
-    link.download = `${altText.replace(/\s+/g, '-').slice(0, 30)}.png`;
+    link.href = url;
+    link.download = `${altText.replace(/\s+/g, '-').slice(0, 30)}.${extensionFor(mime)}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
   };
 
-  const handleRegenerateClick = async (src: string, alt: string) => {
+  const handleRegenerateClick = async (src: string) => {
     if (!onRegenerateImage) return;
     setRegeneratingImg(src);
     try {
-        await onRegenerateImage(src, alt);
+        await onRegenerateImage(src);
     } finally {
         setRegeneratingImg(null);
     }
   };
 
+  const handleEditImageClick = async (src: string, alt: string, caption: string) => {
+    if (!onEditImage) return;
+    const newAlt = prompt('Alt text (short, describes the image):', alt);
+    if (newAlt === null) return;
+    const newCaption = prompt('Caption (optional, shown under the image):', caption);
+    if (newCaption === null) return;
+    await onEditImage(src, newAlt, newCaption);
+  };
+
+  // Claims the research does not back, matched to rendered paragraphs / list items / table rows by their text
+  const flaggedClaims = (factCheck?.claims || [])
+    .filter(c => c.status !== 'supported' && !c.verified)
+    .map(claim => ({ claim, compact: compactText(claim.text) }));
+
+  const renderClaimFlags = (node?: Element) => {
+    if (flaggedClaims.length === 0) return null;
+    const text = compactText(nodeText(node));
+    return flaggedClaims
+      .filter(f => text.includes(f.compact))
+      .map(({ claim }) => (
+        <button
+          key={claim.id}
+          onClick={() => setViewMode('facts')}
+          className="not-prose inline-flex align-middle ml-1"
+          title={`${claim.status === 'contradicted' ? 'Contradicts the research' : 'Not in the research'}: ${claim.missing.join(', ')}${claim.evidence ? `\nResearch: ${claim.evidence}` : ''}`}
+        >
+          {claimIcon(claim, 14)}
+        </button>
+      ));
+  };
+
+  const handleSectionClick = async (heading: string, action: SectionAction | 'revert') => {
+    let instructions: string | undefined;
+    if (action === 'rewrite') {
+      const input = prompt(`How should "${heading}" be rewritten?`);
+      if (!input?.trim()) return;
+      instructions = input;
+    }
+    setBusySection(heading);
+    try {
+      if (action === 'revert') await onRevertSection?.(heading);
+      else await onSectionAction?.(heading, action, instructions);
+    } finally {
+      setBusySection(null);
+    }
+  };
+
   return (
     <div className="bg-white rounded-xl shadow-md border border-slate-200 overflow-hidden transition-all duration-300">
       {/* Header */}
@@ -94,16 +190,35 @@ export const ResultViewer: React.FC<Props> = ({
               </button>
               <button
                 onClick={() => setViewMode('raw')}
-                disabled={isContentHuge}
                 className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${
-                  isContentHuge 
-                    ? 'text-slate-300 cursor-not-allowed'
-                    : viewMode === 'raw' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                  viewMode === 'raw' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
                 }`}
-                title={isContentHuge ? "Disabled to prevent browser lag (Images detected)" : "View Code"}
+                title="View Code"
               >
                 Raw MD
               </button>
+              {factCheck && (
+                <button
+                  onClick={() => setViewMode('facts')}
+                  className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${
+                    viewMode === 'facts' ? 'bg-white text-blue-600 shadow-sm' : factCheck.redFlags > 0 ? 'text-red-600 hover:text-red-700' : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                  title="Figures checked against the Step 1 research"
+                >
+                  Facts{factCheck.redFlags > 0 && ` (${factCheck.redFlags})`}
+                </button>
+              )}
+              {audit && (
+                <button
+                  onClick={() => setViewMode('audit')}
+                  className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${
+                    viewMode === 'audit' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                  title="On-page SEO audit"
+                >
+                  SEO {audit.score}
+                </button>
+              )}
             </div>
 
             <button 
@@ -130,7 +245,15 @@ export const ResultViewer: React.FC<Props> = ({
       {/* Content */}
       {isOpen && (
         <div className="p-8 border-t border-slate-200 bg-white">
-          {viewMode === 'preview' ? (
+          {viewMode === 'audit' && audit ? (
+            <SeoAuditPanel audit={audit} />
+          ) : viewMode === 'facts' && factCheck ? (
+            <FactCheckPanel check={factCheck} onToggleVerified={onToggleClaimVerified} />
+          ) : viewMode === 'preview' && ideation ? (
+            <div id={`preview-${title.replace(/\s/g, '-')}`}>
+              <IdeationTables ideation={ideation} />
+            </div>
+          ) : viewMode === 'preview' ? (
             <div 
               id={`preview-${title.replace(/\s/g, '-')}`} 
               className="prose prose-slate prose-lg max-w-none 
@@ -154,12 +277,61 @@ export const ResultViewer: React.FC<Props> = ({
             >
               <ReactMarkdown
                 remarkPlugins={[remarkGfm]}
-                urlTransform={(url) => url} // Allow data: images
+                urlTransform={(url) => url} // Keep asset: image references (resolved by the img renderer)
                 components={{
+                  // [^n] footnotes (shown as links to the numbered sources list)
+                  a: ({node, children, ...props}) => isCitationLink(props.href)
+                    ? <sup className="text-blue-600 font-semibold">{children}</sup>
+                    : <a {...props}>{children}</a>,
+                  p: ({node, children, ...props}) => <p {...props}>{children}{renderClaimFlags(node)}</p>,
+                  // List items holding paragraphs are flagged by the paragraph
+                  li: ({node, children, ...props}) => (
+                    <li {...props}>{children}{node?.children.some(c => c.type === 'element' && c.tagName === 'p') ? null : renderClaimFlags(node)}</li>
+                  ),
+                  tr: ({node, children, ...props}) => {
+                    const flags = renderClaimFlags(node);
+                    return <tr {...props} className={flags?.length ? '!bg-amber-50' : undefined}>{children}{flags?.length ? <td className="!border-0 !p-1">{flags}</td> : null}</tr>;
+                  },
+                  h2: ({node, children, ...props}) => {
+                    if (!onSectionAction) return <h2 {...props}>{children}</h2>;
+                    const heading = nodeText(node).trim();
+                    const isBusy = busySection === heading;
+                    const buttonClass = "flex items-center gap-1 px-2 py-1 rounded-md bg-white border border-slate-200 text-slate-600 hover:text-blue-700 hover:border-blue-300 disabled:opacity-40";
+
+                    return (
+                      <div className="group/section">
+                        <h2 {...props}>{children}</h2>
+                        <div className={`not-prose -mt-2 mb-4 flex flex-wrap gap-1.5 text-xs transition-opacity ${isBusy ? 'opacity-100' : 'opacity-0 group-hover/section:opacity-100'}`}>
+                          {isBusy ? (
+                            <span className="flex items-center gap-1 text-blue-600 font-semibold">
+                              <Loader2 size={12} className="animate-spin" /> Rewriting section...
+                            </span>
+                          ) : (
+                            <>
+                              {SECTION_ACTIONS.map(a => (
+                                <button key={a.action} onClick={() => handleSectionClick(heading, a.action)} disabled={!!busySection} className={buttonClass}>
+                                  {a.icon} {a.label}
+                                </button>
+                              ))}
+                              {onRevertSection && revertableHeadings.includes(heading) && (
+                                <button onClick={() => handleSectionClick(heading, 'revert')} disabled={!!busySection} className={buttonClass} title="Restore the text before the last rewrite">
+                                  <Undo2 size={12} /> Revert
+                                </button>
+                              )}
+                            </>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  },
                   img: ({node, ...props}) => {
                     const src = props.src;
-                    const isBase64 = typeof src === 'string' && src.startsWith('data:');
+                    // Stored images show through their object URL; src stays the asset:<id> reference
+                    const assetId = typeof src === 'string' ? imageAssetId(src) : undefined;
+                    const stored = assetId ? imageUrls[assetId] : undefined;
                     const isRegenerating = regeneratingImg === src;
+                    const { alt } = readImageAlt(props.alt || '');
+                    const caption = props.title || '';
 
                     return (
                       <div className="my-10 group relative inline-block w-full">
@@ -174,25 +346,28 @@ export const ResultViewer: React.FC<Props> = ({
                             )}
                           <img 
                             {...props} 
-                            src={typeof src === 'string' ? src : undefined}
+                            src={assetId ? stored?.url : typeof src === 'string' ? src : undefined}
                             className="w-full max-h-[600px] object-cover rounded-xl shadow-lg border border-slate-100" 
-                            alt={props.alt || "Generated Image"}
+                            alt={alt || "Generated Image"}
                           />
-                          {props.alt && (
+                          {caption && (
                             <figcaption className="mt-3 text-center text-sm text-slate-500 italic font-medium bg-slate-50 inline-block px-4 py-1 rounded-full mx-auto w-full">
-                              {props.alt}
+                              {caption}
                             </figcaption>
                           )}
+                          <p className={`not-prose mt-1 text-center text-xs ${alt ? 'text-slate-400' : 'text-red-500'}`}>
+                            Alt: {alt || 'missing'}
+                          </p>
                         </figure>
                         
-                        {isBase64 && !isRegenerating && onRegenerateImage && (
+                        {stored && !isRegenerating && onRegenerateImage && (
                           <div className="absolute top-4 right-4 opacity-0 group-hover:opacity-100 transition-opacity flex space-x-2">
                              {/* Regenerate Button */}
                              <button 
                               onClick={(e) => {
                                 e.stopPropagation();
                                 if (typeof src === 'string') {
-                                  handleRegenerateClick(src, props.alt || '');
+                                  handleRegenerateClick(src);
                                 }
                               }}
                               className="bg-white/90 hover:bg-blue-50 text-slate-800 p-2 rounded-full shadow-lg backdrop-blur-sm flex items-center space-x-2 px-4 font-medium text-sm transition-transform hover:scale-105 border border-slate-200"
@@ -206,15 +381,28 @@ export const ResultViewer: React.FC<Props> = ({
                             <button 
                               onClick={(e) => {
                                 e.stopPropagation();
-                                if (typeof src === 'string') {
-                                  handleDownloadImage(src, props.alt || 'image');
-                                }
+                                handleDownloadImage(stored.url, stored.mime, alt || 'image');
                               }}
                               className="bg-white/90 hover:bg-white text-slate-800 p-2 rounded-full shadow-lg backdrop-blur-sm flex items-center space-x-2 px-4 font-medium text-sm transition-transform hover:scale-105 border border-slate-200"
                             >
                               <Download size={16} />
                               <span>Download</span>
                             </button>
+
+                            {/* Alt text / caption */}
+                            {onEditImage && typeof src === 'string' && (
+                              <button 
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleEditImageClick(src, alt, caption);
+                                }}
+                                className="bg-white/90 hover:bg-white text-slate-800 p-2 rounded-full shadow-lg backdrop-blur-sm flex items-center space-x-2 px-4 font-medium text-sm transition-transform hover:scale-105 border border-slate-200"
+                                title="Edit alt text and caption"
+                              >
+                                <PenLine size={16} />
+                                <span>Alt</span>
+                              </button>
+                            )}
                           </div>
                         )}
                       </div>
@@ -241,29 +429,15 @@ export const ResultViewer: React.FC<Props> = ({
                   }
                 }}
               >
-                {content}
+                {content.replace(CITATION_MARKER, '[[$1]](#cite-$1)')}
               </ReactMarkdown>
             </div>
           ) : (
-            <>
-                {isContentHuge ? (
-                    <div className="flex flex-col items-center justify-center h-[500px] bg-slate-50 border border-slate-200 border-dashed rounded-lg text-slate-500">
-                        <AlertTriangle size={48} className="text-amber-500 mb-4" />
-                        <h3 className="text-lg font-bold text-slate-700">Raw View Disabled</h3>
-                        <p className="max-w-md text-center mt-2">
-                           Content contains high-quality images (Base64) which makes the text extremely long (>50,000 chars). 
-                           Displaying raw text here causes browser lag.
-                        </p>
-                        <p className="mt-4 font-medium">Please use the "Copy MD" or "Download" buttons instead.</p>
-                    </div>
-                ) : (
-                    <textarea
-                        readOnly
-                        className="w-full h-[500px] p-4 font-mono text-sm text-slate-700 bg-slate-50 rounded-lg border border-slate-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                        value={content}
-                    />
-                )}
-            </>
+            <textarea
+                readOnly
+                className="w-full h-[500px] p-4 font-mono text-sm text-slate-700 bg-slate-50 rounded-lg border border-slate-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                value={content}
+            />
           )}
         </div>
       )}
@@ -0,0 +1,121 @@
+import React, { useState, useEffect } from 'react';
+import { HistoryItem, QueueItem } from '../types';
+import { REVIEW_GATE_LABELS } from '../services/pipelineService';
+import { PenLine, Check, RotateCcw, SkipForward, AlertTriangle } from 'lucide-react';
+
+interface Props {
+  items: QueueItem[]; // Queue items with status 'review'
+  history: HistoryItem[];
+  onApprove: (queueId: string, editedText: string) => Promise<void>;
+  onSkip: (queueId: string) => void;
+}
+
+// Text the editor works on: DDD1 as pretty JSON, OL1 as Markdown
+const getReviewText = (item: HistoryItem): string => {
+  if (item.awaitingReview === 'ideation') {
+    return item.ideation ? JSON.stringify(item.ideation, null, 2) : item.steps?.step2_ideation || '';
+  }
+  return item.steps?.step3_outline || '';
+};
+
+export const ReviewPanel: React.FC<Props> = ({ items, history, onApprove, onSkip }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selected = items.find(i => i.id === selectedId) || items[0];
+  const historyItem = selected?.historyId ? history.find(h => h.id === selected.historyId) : undefined;
+  const original = historyItem ? getReviewText(historyItem) : '';
+
+  // Load the generated text when another keyword (or another gate of the same keyword) is selected
+  useEffect(() => {
+    setDraft(original);
+    setError(null);
+  }, [selected?.id, historyItem?.awaitingReview, original]);
+
+  if (!selected) return null;
+
+  const handleApprove = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onApprove(selected.id, draft);
+      setSelectedId(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-md border border-blue-200 overflow-hidden">
+      <div className="bg-blue-50 px-6 py-4 flex items-center justify-between border-b border-blue-100">
+        <div className="flex items-center space-x-3">
+          <PenLine size={20} className="text-blue-600" />
+          <h3 className="font-bold text-slate-800 text-lg">Review</h3>
+          <span className="text-xs text-slate-500">{items.length} keyword(s) waiting</span>
+        </div>
+        {items.length > 1 && (
+          <select
+            value={selected.id}
+            onChange={e => setSelectedId(e.target.value)}
+            className="bg-white border border-slate-200 rounded-lg py-1.5 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-200"
+          >
+            {items.map(i => <option key={i.id} value={i.id}>{i.keyword}</option>)}
+          </select>
+        )}
+      </div>
+
+      {!historyItem?.awaitingReview ? (
+        <p className="px-6 py-4 text-sm text-slate-500">Loading saved results for "{selected.keyword}"...</p>
+      ) : (
+        <div className="p-6 space-y-3">
+          <p className="text-sm text-slate-600">
+            <span className="font-bold text-slate-800">{selected.keyword}</span> stopped at{' '}
+            <span className="font-semibold text-blue-700">{REVIEW_GATE_LABELS[historyItem.awaitingReview]}</span>.
+            Edit the text below, then continue: the next steps use your version.
+            {historyItem.awaitingReview === 'ideation' && ' The ideation is JSON and is validated before continuing.'}
+          </p>
+          <textarea
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            spellCheck={false}
+            className="w-full h-96 p-4 font-mono text-xs leading-relaxed text-slate-700 bg-slate-50 rounded-lg border border-slate-300 focus:outline-none focus:ring-2 focus:ring-blue-300"
+          />
+          {error && (
+            <p className="text-sm text-red-600 flex items-center">
+              <AlertTriangle size={14} className="mr-1" /> {error}
+            </p>
+          )}
+          <div className="flex justify-between">
+            <div className="flex gap-2">
+              <button
+                onClick={() => setDraft(original)}
+                disabled={draft === original}
+                className="flex items-center px-4 py-2 text-sm font-medium text-slate-600 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-40"
+              >
+                <RotateCcw size={14} className="mr-1" /> Discard edits
+              </button>
+              <button
+                onClick={() => onSkip(selected.id)}
+                className="flex items-center px-4 py-2 text-sm font-medium text-slate-600 bg-white border border-slate-300 rounded-lg hover:bg-slate-50"
+                title="Stop this keyword (it can be retried from the queue)"
+              >
+                <SkipForward size={14} className="mr-1" /> Skip keyword
+              </button>
+            </div>
+            <button
+              onClick={handleApprove}
+              disabled={isSaving || !draft.trim()}
+              className="flex items-center px-4 py-2 text-sm font-bold text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Check size={14} className="mr-1" /> {draft === original ? 'Approve & continue' : 'Save edits & continue'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
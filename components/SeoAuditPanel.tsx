@@ -0,0 +1,48 @@
+import React from 'react';
+import { AuditStatus, SeoAudit } from '../types';
+import { CheckCircle2, AlertTriangle, XCircle } from 'lucide-react';
+
+const scoreClass = (score: number) =>
+  score >= 80 ? 'bg-green-100 text-green-700' : score >= 60 ? 'bg-amber-100 text-amber-700' : 'bg-red-100 text-red-700';
+
+const STATUS_ICONS: Record<AuditStatus, React.ReactNode> = {
+  pass: <CheckCircle2 size={16} className="text-green-500 shrink-0" />,
+  warn: <AlertTriangle size={16} className="text-amber-500 shrink-0" />,
+  fail: <XCircle size={16} className="text-red-500 shrink-0" />,
+};
+
+export const SeoScoreBadge: React.FC<{ score: number }> = ({ score }) => (
+  <span className={`text-xs font-bold px-2 py-0.5 rounded-full ${scoreClass(score)}`} title="On-page SEO score">
+    SEO {score}
+  </span>
+);
+
+// Pass / warn / fail list of the on-page SEO checks, failures first
+export const SeoAuditPanel: React.FC<{ audit: SeoAudit }> = ({ audit }) => {
+  const order: AuditStatus[] = ['fail', 'warn', 'pass'];
+  const checks = [...audit.checks].sort((a, b) => order.indexOf(a.status) - order.indexOf(b.status));
+  const counts = order.map(status => audit.checks.filter(c => c.status === status).length);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-4">
+        <div className={`text-3xl font-extrabold px-4 py-2 rounded-xl ${scoreClass(audit.score)}`}>{audit.score}</div>
+        <div className="text-sm text-slate-600">
+          <p className="font-bold text-slate-800">On-page SEO score</p>
+          <p>{counts[0]} failed · {counts[1]} warnings · {counts[2]} passed</p>
+        </div>
+      </div>
+      <ul className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+        {checks.map(check => (
+          <li key={check.id} className="flex items-start gap-3 px-4 py-2.5">
+            {STATUS_ICONS[check.status]}
+            <div className="text-sm">
+              <p className="font-semibold text-slate-800">{check.label}</p>
+              <p className="text-slate-500">{check.detail}</p>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
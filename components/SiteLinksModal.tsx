@@ -0,0 +1,72 @@
+import React, { useState, useEffect } from 'react';
+import { SiteLink } from '../types';
+import { parseSiteLinks } from '../services/linkingService';
+import { X, Link2 } from 'lucide-react';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  links: SiteLink[];
+  onSave: (links: SiteLink[]) => void;
+}
+
+const toText = (links: SiteLink[]) => links.map(l => `${l.url} | ${l.title}`).join('\n');
+
+// Existing site pages (not written with this tool) that internal links may point to
+export const SiteLinksModal: React.FC<Props> = ({ isOpen, onClose, links, onSave }) => {
+  const [draft, setDraft] = useState('');
+
+  useEffect(() => {
+    if (isOpen) setDraft(toText(links));
+  }, [isOpen, links]);
+
+  if (!isOpen) return null;
+
+  const parsed = parseSiteLinks(draft);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-200 flex items-center justify-between bg-slate-50">
+          <h2 className="font-bold text-lg text-slate-800 flex items-center">
+            <Link2 size={20} className="mr-2 text-blue-600" />
+            Site Links
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors">
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-2">
+          <p className="text-sm text-slate-600">
+            Pages of your site that internal links can point to, in addition to the articles in history.
+            One per line: <code className="text-xs bg-slate-100 px-1 rounded">URL | Title</code> (a CSV or spreadsheet paste works too).
+          </p>
+          <textarea
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            spellCheck={false}
+            placeholder={"https://bestmarathon.vn/giay-chay-bo-nu/ | Top giày chạy bộ nữ 2025\nhttps://bestmarathon.vn/lich-tap-marathon/ | Lịch tập marathon 16 tuần"}
+            className="w-full h-72 p-3 font-mono text-xs leading-relaxed text-slate-700 bg-slate-50 rounded-lg border border-slate-300 focus:outline-none focus:ring-2 focus:ring-blue-300"
+          />
+          <p className="text-xs text-slate-400">{parsed.length} page(s) recognized. Lines without a URL are ignored.</p>
+        </div>
+
+        <div className="p-4 border-t border-slate-200 flex justify-end space-x-3 bg-slate-50">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-100"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => { onSave(parsed); onClose(); }}
+            className="px-4 py-2 text-sm font-bold text-white bg-orange-500 rounded-lg hover:bg-orange-600"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
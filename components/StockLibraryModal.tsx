@@ -0,0 +1,134 @@
+import React, { useState, useEffect } from 'react';
+import { StockPhoto } from '../types';
+import { isStockImageFile, pickStockPhoto, stockTags } from '../services/imageProviderService';
+import { X, Images, FolderOpen, Trash2 } from 'lucide-react';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  photos: StockPhoto[];
+  onImport: (photos: Omit<StockPhoto, 'id' | 'addedAt'>[]) => void;
+  onDelete: (ids: string[]) => void;
+}
+
+// Our own licensed photos for the "stock" image provider, imported from a local folder.
+// Folder and file names are the tags, e.g. "running/trail-shoes/mud-01.jpg".
+export const StockLibraryModal: React.FC<Props> = ({ isOpen, onClose, photos, onImport, onDelete }) => {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [testPrompt, setTestPrompt] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const created = Object.fromEntries(photos.map(p => [p.id, URL.createObjectURL(p.blob)]));
+    setUrls(created);
+    return () => Object.values(created).forEach(url => URL.revokeObjectURL(url));
+  }, [isOpen, photos]);
+
+  if (!isOpen) return null;
+
+  const handleFolder = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).filter(file => isStockImageFile(file.name));
+    e.target.value = '';
+    if (files.length === 0) {
+      alert("No images (JPG, PNG, WebP, AVIF, GIF) found in this folder.");
+      return;
+    }
+    onImport(files.map(file => {
+      const name = file.webkitRelativePath || file.name;
+      return { name, tags: stockTags(name), blob: file };
+    }));
+  };
+
+  const match = testPrompt.trim() ? pickStockPhoto(photos, { prompt: testPrompt, alt: '' }) : null;
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-200 flex items-center justify-between bg-slate-50">
+          <h2 className="font-bold text-lg text-slate-800 flex items-center">
+            <Images size={20} className="mr-2 text-blue-600" />
+            Stock Library
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors">
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-slate-600">
+            Photos used by the <strong>Stock library</strong> image source. Each image prompt gets the photo whose tags
+            (folder and file name words) best match the prompt, alt text and keyword. Re-importing a folder updates the tags.
+          </p>
+          <div className="flex items-center gap-3">
+            <label className="inline-flex items-center px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-100 cursor-pointer">
+              <FolderOpen size={16} className="mr-2" />
+              Import folder...
+              <input
+                type="file"
+                multiple
+                accept="image/*"
+                className="hidden"
+                onChange={handleFolder}
+                {...{ webkitdirectory: '' }}
+              />
+            </label>
+            <input
+              type="text"
+              value={testPrompt}
+              onChange={e => setTestPrompt(e.target.value)}
+              placeholder="Test a prompt, e.g. runner tying trail shoes"
+              className="flex-1 px-3 py-2 text-sm border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-300"
+            />
+          </div>
+          {testPrompt.trim() && (
+            <p className="text-xs text-slate-500">
+              {match ? <>Picks <strong>{match.name}</strong></> : 'No photo matches this prompt (the image would be skipped).'}
+            </p>
+          )}
+
+          <div className="max-h-96 overflow-y-auto grid grid-cols-2 md:grid-cols-3 gap-3">
+            {photos.map(photo => (
+              <div key={photo.id} className={`border rounded-lg overflow-hidden ${match?.id === photo.id ? 'border-orange-400 ring-2 ring-orange-200' : 'border-slate-200'}`}>
+                {urls[photo.id] && <img src={urls[photo.id]} alt={photo.name} className="w-full h-28 object-cover bg-slate-100" />}
+                <div className="p-2 space-y-1">
+                  <div className="flex items-start justify-between gap-2">
+                    <span className="text-xs text-slate-700 break-all">{photo.name}</span>
+                    <button onClick={() => onDelete([photo.id])} className="text-slate-400 hover:text-red-600" title="Remove from the library">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {photo.tags.map(tag => (
+                      <span key={tag} className="text-[10px] px-1.5 py-0.5 bg-slate-100 text-slate-500 rounded">{tag}</span>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+          {photos.length === 0 && <p className="text-sm text-slate-400 text-center py-6">No photos yet.</p>}
+        </div>
+
+        <div className="p-4 border-t border-slate-200 flex justify-between items-center bg-slate-50">
+          <span className="text-xs text-slate-400">{photos.length} photo(s)</span>
+          <div className="flex space-x-3">
+            {photos.length > 0 && (
+              <button
+                onClick={() => { if (confirm(`Remove all ${photos.length} photos from the library?`)) onDelete(photos.map(p => p.id)); }}
+                className="px-4 py-2 text-sm font-medium text-red-600 bg-white border border-slate-300 rounded-lg hover:bg-red-50"
+              >
+                Remove all
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-bold text-white bg-orange-500 rounded-lg hover:bg-orange-600"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useState, useEffect } from 'react';
+import { WpConfig } from '../types';
+import { testWpConnection } from '../services/wordpressService';
+import { X, Globe, Check, Loader2, AlertTriangle } from 'lucide-react';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  config: WpConfig | null;
+  onSave: (config: WpConfig) => void;
+}
+
+export const WpSettingsModal: React.FC<Props> = ({ isOpen, onClose, config, onSave }) => {
+  const [draft, setDraft] = useState<WpConfig>({ url: '', username: '', appPassword: '' });
+  const [testState, setTestState] = useState<'idle' | 'testing' | 'ok' | 'error'>('idle');
+  const [testMessage, setTestMessage] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(config || { url: '', username: '', appPassword: '' });
+      setTestState('idle');
+      setTestMessage('');
+    }
+  }, [isOpen, config]);
+
+  if (!isOpen) return null;
+
+  const handleTest = async () => {
+    setTestState('testing');
+    try {
+      const name = await testWpConnection(draft);
+      setTestState('ok');
+      setTestMessage(`Connected as ${name}`);
+    } catch (e) {
+      setTestState('error');
+      setTestMessage(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const inputClass = "w-full bg-white border border-slate-200 text-slate-700 py-2.5 px-4 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-200 focus:border-orange-400 text-sm";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-200 flex items-center justify-between bg-slate-50">
+          <h2 className="font-bold text-lg text-slate-800 flex items-center">
+            <Globe size={20} className="mr-2 text-blue-600" />
+            WordPress Connection
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors">
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Site URL</label>
+            <input
+              type="url"
+              value={draft.url}
+              onChange={e => setDraft({ ...draft, url: e.target.value })}
+              placeholder="https://bestmarathon.vn"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Username</label>
+            <input
+              type="text"
+              value={draft.username}
+              onChange={e => setDraft({ ...draft, username: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Application Password</label>
+            <input
+              type="password"
+              value={draft.appPassword}
+              onChange={e => setDraft({ ...draft, appPassword: e.target.value })}
+              placeholder="xxxx xxxx xxxx xxxx xxxx xxxx"
+              className={inputClass}
+            />
+            <p className="text-xs text-slate-400 mt-1">Create one in WP Admin: Users {'>'} Profile {'>'} Application Passwords.</p>
+          </div>
+
+          {testState !== 'idle' && (
+            <div className={`text-sm flex items-center ${testState === 'error' ? 'text-red-600' : testState === 'ok' ? 'text-green-600' : 'text-slate-500'}`}>
+              {testState === 'testing' && <Loader2 size={16} className="animate-spin mr-2" />}
+              {testState === 'ok' && <Check size={16} className="mr-2" />}
+              {testState === 'error' && <AlertTriangle size={16} className="mr-2" />}
+              <span className="break-all">{testState === 'testing' ? 'Testing connection...' : testMessage}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-200 flex justify-end space-x-3 bg-slate-50">
+          <button
+            onClick={handleTest}
+            disabled={testState === 'testing' || !draft.url.trim()}
+            className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-100 disabled:opacity-50"
+          >
+            Test Connection
+          </button>
+          <button
+            onClick={() => { onSave(draft); onClose(); }}
+            className="px-4 py-2 text-sm font-bold text-white bg-orange-500 rounded-lg hover:bg-orange-600"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,160 @@
+import React, { useState, useEffect } from 'react';
+import { BrandProfile, HistoryItem, WxrExportSettings } from '../types';
+import { getItemProfile } from '../services/profileService';
+import { getLanguage } from '../services/languages';
+import { X, FileDown, Loader2 } from 'lucide-react';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  history: HistoryItem[];
+  profiles: BrandProfile[];
+  initialSelection: string[]; // History ids checked when the dialog opens
+  batchIds: string[];         // History ids of the bulk queue's keywords
+  settings: WxrExportSettings;
+  onSettingsChange: (patch: Partial<WxrExportSettings>) => void;
+  onExport: (ids: string[]) => void;
+  isExporting: boolean;
+}
+
+// Only finished articles can be exported (legacy failed items have no status, only an error as content)
+const isExportable = (item: HistoryItem) =>
+  (item.status || 'complete') === 'complete' && !!item.content.trim() && !item.content.startsWith('Error processing');
+
+export const WxrExportModal: React.FC<Props> = ({
+  isOpen, onClose, history, profiles, initialSelection, batchIds, settings, onSettingsChange, onExport, isExporting
+}) => {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (isOpen) setSelected(new Set(initialSelection.filter(id => history.some(h => h.id === id && isExportable(h)))));
+    // Selection is reset when the dialog opens, not on every history update
+  }, [isOpen, initialSelection]);
+
+  if (!isOpen) return null;
+
+  const exportable = history.filter(isExportable);
+  const batch = exportable.filter(h => batchIds.includes(h.id));
+  const chosen = exportable.filter(h => selected.has(h.id));
+  const usedProfiles = [...new Map(chosen.map(h => getItemProfile(h, profiles)).map(p => [p.id, p])).values()];
+
+  const toggle = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelected(next);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-200 flex items-center justify-between bg-slate-50">
+          <h2 className="font-bold text-lg text-slate-800 flex items-center">
+            <FileDown size={20} className="mr-2 text-blue-600" />
+            Export to WordPress (WXR)
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors">
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-slate-600">
+            One import file with every selected article as a draft and its images as attachments.
+            Upload it in <strong>Tools &gt; Import &gt; WordPress</strong>; the importer lets you map the authors below to existing users.
+          </p>
+
+          <div className="flex items-center gap-2 text-xs">
+            <span className="text-slate-500">Select:</span>
+            <button onClick={() => setSelected(new Set(exportable.map(h => h.id)))} className="px-2 py-1 border border-slate-300 rounded hover:bg-slate-100">All ({exportable.length})</button>
+            <button onClick={() => setSelected(new Set(batch.map(h => h.id)))} disabled={batch.length === 0} className="px-2 py-1 border border-slate-300 rounded hover:bg-slate-100 disabled:opacity-50">Current batch ({batch.length})</button>
+            <button onClick={() => setSelected(new Set())} className="px-2 py-1 border border-slate-300 rounded hover:bg-slate-100">None</button>
+          </div>
+
+          <ul className="max-h-64 overflow-y-auto border border-slate-200 rounded-lg divide-y divide-slate-100">
+            {exportable.map(item => (
+              <li key={item.id}>
+                <label className="px-3 py-2 flex items-center gap-3 text-sm cursor-pointer hover:bg-slate-50">
+                  <input type="checkbox" checked={selected.has(item.id)} onChange={() => toggle(item.id)} />
+                  <span className="flex-1 truncate text-slate-700">{item.keyword}</span>
+                  <span className="text-xs text-slate-400">{getLanguage(item.language || 'vi').flag} {getItemProfile(item, profiles).name}</span>
+                  <span className="text-xs text-slate-400 w-24 text-right">{new Date(item.timestamp).toLocaleDateString()}</span>
+                  {item.wpPostId && <span className="text-xs text-green-600" title={item.wpLink}>published</span>}
+                </label>
+              </li>
+            ))}
+            {exportable.length === 0 && <li className="text-sm text-slate-400 text-center py-6">No finished articles yet.</li>}
+          </ul>
+
+          <div className="flex flex-wrap items-center gap-4 text-sm text-slate-600">
+            <label className="flex items-center gap-2">
+              Category:
+              <input
+                type="text"
+                value={settings.category}
+                onChange={e => onSettingsChange({ category: e.target.value })}
+                placeholder="Each profile's default"
+                className="w-44 px-2 py-1 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-300"
+              />
+            </label>
+            <label className="flex items-center gap-2" title="Keyword, merged keywords, cluster pillar and the semantic keywords of Step 2">
+              <input type="checkbox" checked={settings.tags} onChange={e => onSettingsChange({ tags: e.target.checked })} />
+              Keywords as tags
+            </label>
+            <label className="flex items-center gap-2" title="The WordPress importer is limited by the upload size of the server">
+              Split above
+              <input
+                type="number"
+                min={0}
+                value={settings.maxFileMb}
+                onChange={e => onSettingsChange({ maxFileMb: Math.max(0, Number(e.target.value) || 0) })}
+                className="w-16 px-2 py-1 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-300"
+              />
+              MB <span className="text-xs text-slate-400">(0: one file)</span>
+            </label>
+          </div>
+
+          {usedProfiles.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-semibold text-slate-700">Authors</p>
+              {usedProfiles.map(profile => (
+                <label key={profile.id} className="flex items-center gap-3 text-sm text-slate-600">
+                  <span className="w-48 truncate">{profile.name}</span>
+                  <span className="text-slate-400">→</span>
+                  <input
+                    type="text"
+                    value={settings.authors[profile.id] ?? ''}
+                    onChange={e => onSettingsChange({ authors: { ...settings.authors, [profile.id]: e.target.value } })}
+                    placeholder="admin"
+                    className="w-44 px-2 py-1 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-300"
+                  />
+                  <span className="text-xs text-slate-400">WordPress username</span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-200 flex justify-between items-center bg-slate-50">
+          <span className="text-xs text-slate-400">{chosen.length} article(s) selected</span>
+          <div className="flex space-x-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-100"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onExport(chosen.map(h => h.id))}
+              disabled={chosen.length === 0 || isExporting}
+              className="flex items-center px-4 py-2 text-sm font-bold text-white bg-orange-500 rounded-lg hover:bg-orange-600 disabled:opacity-50"
+            >
+              {isExporting && <Loader2 size={16} className="mr-2 animate-spin" />}
+              Download WXR
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+// Minimal in-memory WordPress REST API for testing the Publish step locally.
+// Usage: npm run mock:wp  ->  WP URL: http://localhost:8787, any username / app password.
+import http from 'node:http';
+
+const PORT = Number(process.env.MOCK_WP_PORT || 8787);
+const BASE = `http://localhost:${PORT}`;
+
+const db = {
+  categories: [{ id: 1, name: 'Uncategorized', slug: 'uncategorized' }],
+  media: [],
+  posts: [],
+  nextId: 100
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type, Content-Disposition',
+    'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve) => {
+  const chunks = [];
+  req.on('data', (c) => chunks.push(c));
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+});
+
+const slugify = (s) => s.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  const url = new URL(req.url, BASE);
+  const path = url.pathname.replace(/^\/wp-json\/wp\/v2/, '');
+  const raw = await readBody(req);
+  console.log(`${req.method} ${url.pathname}${url.search} (${raw.length} bytes)`);
+
+  if (!req.headers.authorization?.startsWith('Basic ')) {
+    return send(res, 401, { code: 'rest_not_logged_in', message: 'You are not currently logged in.' });
+  }
+
+  if (req.method === 'GET' && path === '/users/me') {
+    const [user] = Buffer.from(req.headers.authorization.slice(6), 'base64').toString().split(':');
+    return send(res, 200, { id: 1, name: user, slug: slugify(user) });
+  }
+
+  if (path === '/categories') {
+    if (req.method === 'GET') {
+      const search = (url.searchParams.get('search') || '').toLowerCase();
+      return send(res, 200, db.categories.filter((c) => c.name.toLowerCase().includes(search)));
+    }
+    const { name } = JSON.parse(raw.toString() || '{}');
+    if (!name) return send(res, 400, { code: 'rest_missing_callback_param', message: 'Missing parameter(s): name' });
+    const category = { id: db.nextId++, name, slug: slugify(name) };
+    db.categories.push(category);
+    return send(res, 201, category);
+  }
+
+  if (req.method === 'POST' && path === '/media') {
+    const filename = /filename="(.+?)"/.exec(req.headers['content-disposition'] || '')?.[1];
+    if (!filename) return send(res, 400, { code: 'rest_upload_no_content_disposition', message: 'No Content-Disposition supplied.' });
+    const id = db.nextId++;
+    const media = { id, source_url: `${BASE}/wp-content/uploads/${filename}`, mime_type: req.headers['content-type'], bytes: raw.length, alt_text: '' };
+    db.media.push(media);
+    return send(res, 201, media);
+  }
+
+  const mediaUpdate = /^\/media\/(\d+)$/.exec(path);
+  if (req.method === 'POST' && mediaUpdate) {
+    const media = db.media.find((m) => m.id === Number(mediaUpdate[1]));
+    if (!media) return send(res, 404, { code: 'rest_post_invalid_id', message: 'Invalid post ID.' });
+    Object.assign(media, JSON.parse(raw.toString() || '{}'));
+    return send(res, 200, media);
+  }
+  if (req.method === 'DELETE' && mediaUpdate) {
+    const media = db.media.find((m) => m.id === Number(mediaUpdate[1]));
+    if (!media) return send(res, 404, { code: 'rest_post_invalid_id', message: 'Invalid post ID.' });
+    db.media = db.media.filter((m) => m !== media);
+    return send(res, 200, { deleted: true, previous: media });
+  }
+
+  if (req.method === 'POST' && path === '/posts') {
+    const body = JSON.parse(raw.toString() || '{}');
+    const id = db.nextId++;
+    const post = { ...body, id, link: `${BASE}/?p=${id}`, status: body.status || 'draft' };
+    db.posts.push(post);
+    console.log(`  -> post #${id} "${body.title}" [${post.status}] featured=${body.featured_media || '-'} categories=${body.categories}`);
+    return send(res, 201, post);
+  }
+
+  // Debug endpoint to inspect what the app sent
+  if (req.method === 'GET' && path === '/_dump') return send(res, 200, db);
+
+  send(res, 404, { code: 'rest_no_route', message: 'No route was found matching the URL and request method.' });
+});
+
+server.listen(PORT, () => console.log(`Mock WordPress REST API listening on ${BASE}`));
@@ -0,0 +1,470 @@
+import { marked } from 'marked';
+import { Article, ArticleBlock, ArticleImage, ArticleIssue, ArticleSection, ArticleSource, CitationMode } from '../types';
+
+// Step 4 output <-> Article document model.
+// Every exporter (clean HTML, ZIP, WXR, WordPress REST) and the image step work from the
+// parsed Article instead of scanning the Markdown with their own regexes.
+
+export const FEATURED_IMAGE_ALT = 'FEATURED_IMAGE'; // Alt text marking the featured image in stored Markdown
+export const SOURCES_HEADING = 'Nguồn tham khảo (Sources)';
+
+// Generated images live in the image store; the Markdown points to them as asset:<id>
+const IMAGE_ASSET_PREFIX = 'asset:';
+const IMAGE_ASSET_REF = /\]\(asset:([\w-]+)[\s)]/g; // Followed by ")" or the caption title
+
+export const imageAssetRef = (id: string) => `${IMAGE_ASSET_PREFIX}${id}`;
+
+export const imageAssetId = (src?: string) => (src?.startsWith(IMAGE_ASSET_PREFIX) ? src.slice(IMAGE_ASSET_PREFIX.length) : undefined);
+
+// Ids of the stored images a text refers to (article Markdown, or a whole serialized history item)
+export const getImageAssetIds = (text: string) => [...new Set([...text.matchAll(IMAGE_ASSET_REF)].map(m => m[1]))];
+
+const IMAGE_TOKEN = /\[(FEATURED_IMAGE_PROMPT|IMAGE_PROMPT|HÌNH ẢNH):\s*(.*?)\]|!\[([^\]]*)\]\(([^)\s]+)(?:\s+"([^"]*)")?\)/gi;
+// Fields Step 4 writes after the prompt: [IMAGE_PROMPT: description | ALT: alt text | CAPTION: caption]
+const IMAGE_TAG_FIELD = /\s*\|\s*(?=(?:alt|caption)\s*:)/i;
+
+export const ALT_MAX_LENGTH = 125;
+
+// The featured image is marked in its alt: "FEATURED_IMAGE: alt text" ("FEATURED_IMAGE" alone in older articles)
+export const readImageAlt = (markdownAlt: string): { featured: boolean; alt: string } => {
+  const trimmed = markdownAlt.trim();
+  return trimmed.startsWith(FEATURED_IMAGE_ALT)
+    ? { featured: true, alt: trimmed.slice(FEATURED_IMAGE_ALT.length).replace(/^\s*:/, '').trim() }
+    : { featured: false, alt: trimmed };
+};
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const BANNER = /^={3,}[^=]*={3,}$|^={5,}$/;          // ========== NỘI DUNG BÀI VIẾT ==========
+const LABELS = /\[(?:INTRO|BODY|CONCLUSION)\]|\*\*INTRO\*\*/gi;
+const SOURCES_TITLE = /^(nguồn tham khảo|tài liệu tham khảo|sources|references)/i;
+const CONCLUSION_TITLE = /^(kết luận|tổng kết|lời kết|conclusion|final thoughts|in summary|summary)/i;
+const LINK_ITEM = /^(?:[-*]|(\d+)\.)\s*\[([^\]]*)\]\(([^)\s]+)\)/;
+const OUTLINE_MARKERS = /\[(DATA|EXPERT|EXAMPLE|CTA)\]/g;
+// [INTERNAL-LINK] or [INTERNAL-LINK: anchor text], resolved by linkingService
+export const LINK_MARKER = /\[INTERNAL[-_ ]LINK(?::\s*([^\]]*))?\]/gi;
+// [^3]: footnote pointing to the 3rd entry of the sources list (see citationService)
+export const CITATION_MARKER = /\[\^(\d+)\]/g;
+const FORMAT_PLACEHOLDERS = /\[(?:H2-\d|H3 nếu có|H3 if needed|Nội dung chi tiết|Detailed content|Tiếp tục cho|Continue for|Câu hỏi \d|Question \d|3-5 câu hỏi|3-5 questions)[^\]]*\]/i;
+const FAQ_TITLE = /(câu hỏi thường gặp|hỏi đáp|\bfaqs?\b|frequently asked)/i;
+
+// URL-safe slug, Vietnamese diacritics folded to ASCII ("Giày chạy bộ" -> "giay-chay-bo")
+export const slugify = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+const readMeta = (line: string) => {
+  const plain = line.replace(/\*\*/g, '').replace(/^[-*]\s+/, '').trim();
+  const match = plain.match(/^(Meta Title|Meta Description|Slug)\s*:\s*(.*)$/i);
+  return match ? { key: match[1].toLowerCase(), value: match[2].trim() } : null;
+};
+
+// The format in the prompt is shown inside a code fence, and models sometimes copy the fence.
+// A fenced block holding the meta block is the article itself, not a code sample.
+const unwrapFence = (lines: string[]): string[] => {
+  const open = lines.findIndex(l => /^```(?:markdown|md)?\s*$/i.test(l.trim()));
+  if (open < 0) return lines;
+  const close = lines.findIndex((l, i) => i > open && l.trim() === '```');
+  if (close < 0) return lines;
+  const inner = lines.slice(open + 1, close);
+  if (!inner.some(l => /META DATA|Meta Title\s*:/i.test(l))) return lines;
+  return [...lines.slice(0, open), ...inner, ...lines.slice(close + 1)];
+};
+
+/**
+ * Parses Step 4 output (before or after image generation) into an Article.
+ * Nothing is thrown: problems in the model output are collected in `issues` so the UI can
+ * show them and exporters can refuse to ship a broken article.
+ */
+export const parseArticle = (markdown: string, keyword: string): Article => {
+  const issues: ArticleIssue[] = [];
+  const meta = { title: '', description: '', slug: '' };
+  let h1 = '';
+
+  const article: Article = { meta, intro: [], sections: [], sources: [], issues };
+  let blocks: ArticleBlock[] = article.intro;
+  let inSources = false;
+  let inFence = false;
+  let buffer: string[] = [];
+
+  const flush = () => {
+    const text = buffer.join('\n').trim();
+    if (text) blocks.push({ type: 'text', markdown: text });
+    buffer = [];
+  };
+
+  const addImage = (image: ArticleImage) => {
+    flush();
+    if (!image.featured) {
+      blocks.push({ type: 'image', image });
+    } else if (!article.featuredImage) {
+      article.featuredImage = image;
+    } else {
+      issues.push({ severity: 'warning', message: 'More than one featured image, the extra one was dropped.' });
+    }
+  };
+
+  for (const rawLine of unwrapFence(markdown.replace(/\r\n/g, '\n').split('\n'))) {
+    const trimmed = rawLine.trim();
+
+    if (/^```/.test(trimmed)) {
+      inFence = !inFence;
+      buffer.push(rawLine);
+      continue;
+    }
+    if (inFence) {
+      buffer.push(rawLine);
+      continue;
+    }
+
+    const metaLine = readMeta(trimmed);
+    if (metaLine) {
+      if (metaLine.key === 'meta title') meta.title = metaLine.value;
+      else if (metaLine.key === 'meta description') meta.description = metaLine.value;
+      else meta.slug = metaLine.value;
+      continue;
+    }
+    if (BANNER.test(trimmed)) continue;
+
+    const heading = trimmed.match(HEADING);
+    if (heading && heading[1].length <= 3) {
+      const level = heading[1].length;
+      const text = heading[2].replace(/\*\*/g, '').trim();
+      flush();
+      if (level === 1) {
+        if (!h1) h1 = text;
+        continue;
+      }
+      inSources = SOURCES_TITLE.test(text);
+      if (!inSources) {
+        const section: ArticleSection = { level: level as 2 | 3, heading: text, blocks: [] };
+        article.sections.push(section);
+        blocks = section.blocks;
+      }
+      continue;
+    }
+
+    if (inSources) {
+      const link = trimmed.match(LINK_ITEM);
+      if (link) {
+        // A numbered list is what [^n] footnotes point to, so its positions are kept; bullet lists are deduplicated
+        if (link[1] || !article.sources.some(s => s.url === link[3])) article.sources.push({ title: link[2] || 'Source', url: link[3] });
+        continue;
+      }
+      if (!trimmed) continue;
+      // Any other content ends the sources list
+      inSources = false;
+    }
+
+    const line = rawLine.replace(LABELS, '');
+    if (line !== rawLine && !line.trim()) continue;
+
+    // Split out image tags / Markdown images, keeping the text around them
+    let last = 0;
+    let hasImage = false;
+    for (const match of line.matchAll(IMAGE_TOKEN)) {
+      const before = line.slice(last, match.index);
+      if (before.trim()) buffer.push(before);
+      last = match.index! + match[0].length;
+      hasImage = true;
+
+      if (match[1]) {
+        const [prompt, ...fields] = match[2].split(IMAGE_TAG_FIELD).map(f => f.trim());
+        const field = (name: string) => fields.find(f => f.toLowerCase().startsWith(name))?.replace(/^\w+\s*:\s*/, '');
+        addImage({
+          featured: match[1].toUpperCase() === 'FEATURED_IMAGE_PROMPT',
+          prompt,
+          alt: field('alt') || shortenAlt(prompt), // Older articles have no alt: the start of the prompt
+          caption: field('caption') || undefined,
+        });
+      } else {
+        const { featured, alt } = readImageAlt(match[3]);
+        addImage({ featured, prompt: '', alt, caption: match[5]?.trim() || undefined, src: match[4] });
+      }
+    }
+    const rest = hasImage ? line.slice(last) : line;
+    if (!hasImage || rest.trim()) buffer.push(rest);
+  }
+  flush();
+
+  setSectionList(article, article.sections);
+
+  // --- Meta fallbacks & validation ---
+  if (!meta.title) {
+    meta.title = h1 || keyword;
+    issues.push({ severity: h1 ? 'warning' : 'error', message: `Meta Title missing, using "${meta.title}".` });
+  }
+  if (!meta.description) issues.push({ severity: 'warning', message: 'Meta Description missing.' });
+  meta.slug = slugify(meta.slug);
+  if (!meta.slug) {
+    meta.slug = slugify(keyword);
+    issues.push({ severity: 'warning', message: `Slug missing, using "${meta.slug}".` });
+  }
+
+  if (inFence) issues.push({ severity: 'warning', message: 'Unclosed code block (output may be truncated).' });
+  if (article.sections.filter(s => s.level === 2).length === 0) {
+    issues.push({ severity: 'error', message: 'No H2 sections found.' });
+  }
+  if (!article.conclusion) issues.push({ severity: 'warning', message: 'No conclusion section found.' });
+
+  const body = renderArticleBody(article, markdownImage, { keepLinkMarkers: true });
+  if (FORMAT_PLACEHOLDERS.test(body)) {
+    issues.push({ severity: 'error', message: 'Output contains placeholders copied from the format template (e.g. "[H2-1 ...]").' });
+  }
+  const markers = [...new Set([...body.matchAll(OUTLINE_MARKERS)].map(m => m[0]))];
+  if (markers.length > 0) {
+    issues.push({ severity: 'warning', message: `Unreplaced outline markers: ${markers.join(', ')}.` });
+  }
+  const linkMarkers = [...body.matchAll(LINK_MARKER)].length;
+  if (linkMarkers > 0) {
+    issues.push({ severity: 'warning', message: `${linkMarkers} internal link marker(s) not resolved, exports keep only the anchor text.` });
+  }
+  const pending = getArticleImages(article).filter(img => !img.src).length;
+  if (pending > 0) issues.push({ severity: 'warning', message: `${pending} image prompt(s) not turned into images yet.` });
+
+  return article;
+};
+
+// The last H2 is the conclusion when it is titled like one (H3s after it would belong to it)
+const setSectionList = (article: Article, all: ArticleSection[]) => {
+  const last = all[all.length - 1];
+  if (last && last.level === 2 && CONCLUSION_TITLE.test(last.heading)) {
+    article.sections = all.slice(0, -1);
+    article.conclusion = last;
+  } else {
+    article.sections = all;
+    article.conclusion = undefined;
+  }
+};
+
+// The FAQ section written at the end of the article (questions as H3s), source of the FAQPage schema
+export const isFaqSection = (section: ArticleSection) => section.level === 2 && FAQ_TITLE.test(section.heading);
+
+// Featured image first, then inline images in document order
+export const getArticleImages = (article: Article): ArticleImage[] => {
+  const images: ArticleImage[] = article.featuredImage ? [article.featuredImage] : [];
+  const fromBlocks = (blocks: ArticleBlock[]) => blocks.forEach(b => b.type === 'image' && images.push(b.image));
+  fromBlocks(article.intro);
+  article.sections.forEach(s => fromBlocks(s.blocks));
+  if (article.conclusion) fromBlocks(article.conclusion.blocks);
+  return images;
+};
+
+// Removes an image (e.g. generation failed) from wherever it sits in the article
+export const removeArticleImage = (article: Article, image: ArticleImage) => {
+  if (article.featuredImage === image) {
+    article.featuredImage = undefined;
+    return;
+  }
+  const strip = (blocks: ArticleBlock[]) => {
+    const index = blocks.findIndex(b => b.type === 'image' && b.image === image);
+    if (index >= 0) blocks.splice(index, 1);
+  };
+  strip(article.intro);
+  article.sections.forEach(s => strip(s.blocks));
+  if (article.conclusion) strip(article.conclusion.blocks);
+};
+
+export const hasBlockingIssues = (article: Article) => article.issues.some(i => i.severity === 'error');
+
+export const formatIssues = (issues: ArticleIssue[]) =>
+  issues.map(i => `${i.severity === 'error' ? '✗' : '!'} ${i.message}`).join('\n');
+
+// --- SERIALIZERS ---
+
+export type ImageRenderer = (image: ArticleImage, index: number) => string;
+
+// Alt text and captions go inside [] / "" of the Markdown, so brackets, quotes and line breaks are flattened
+const imageText = (text: string) => text.replace(/[[\]|]/g, ' ').replace(/"/g, "'").replace(/\s+/g, ' ').trim();
+
+// First words of a long description, cut at a word boundary
+export const shortenAlt = (text: string) => {
+  const clean = imageText(text).replace(/[.!?…](?:\s.*)?$/, '');
+  return clean.length <= ALT_MAX_LENGTH ? clean : clean.slice(0, ALT_MAX_LENGTH).replace(/\s+\S*$/, '');
+};
+
+const imageTitle = (image: ArticleImage) => (image.caption ? ` "${imageText(image.caption)}"` : '');
+
+// Stored form: generated images as Markdown (caption as the title), pending ones as their prompt tag with the alt text and caption
+export const markdownImage: ImageRenderer = image => {
+  if (!image.src) {
+    const fields = [imageText(image.prompt), `ALT: ${imageText(image.alt)}`, ...(image.caption ? [`CAPTION: ${imageText(image.caption)}`] : [])];
+    return `[${image.featured ? 'FEATURED_IMAGE_PROMPT' : 'IMAGE_PROMPT'}: ${fields.join(' | ')}]`;
+  }
+  const alt = imageText(image.alt);
+  return `![${image.featured ? (alt ? `${FEATURED_IMAGE_ALT}: ${alt}` : FEATURED_IMAGE_ALT) : alt}](${image.src}${imageTitle(image)})`;
+};
+
+// Export form: prompts that never became images are dropped, and so are stored images
+// (asset:<id> means nothing outside the app, exporters that ship the files render those themselves)
+export const generatedImagesOnly: ImageRenderer = image =>
+  image.src && !imageAssetId(image.src) ? `![${imageText(image.alt)}](${image.src}${imageTitle(image)})` : '';
+
+// Unresolved markers never leave the app: the anchor text stays, bare markers are dropped
+export const stripLinkMarkers = (markdown: string): string =>
+  markdown.replace(/\s?\[INTERNAL[-_ ]LINK\]|\[INTERNAL[-_ ]LINK:\s*([^\]]*)\]/gi, (_, anchor) => (anchor ? anchor.trim() : ''));
+
+export const stripCitations = (markdown: string): string => markdown.replace(/\s?\[\^\d+\]/g, '');
+
+export const renderSources = (sources: ArticleSource[]) =>
+  `### ${SOURCES_HEADING}\n${sources.map((s, i) => `${i + 1}. [${s.title}](${s.url})`).join('\n')}`;
+
+// GFM footnote definitions: Markdown exports keep [^n] and get "[^n]: [title](url)" lines
+const renderFootnotes = (sources: ArticleSource[]) =>
+  `### ${SOURCES_HEADING}\n\n${sources.map((s, i) => `[^${i + 1}]: [${s.title}](${s.url})`).join('\n')}`;
+
+// Text in HTML content or a double-quoted attribute (alt text and captions are edited by hand)
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * marked has no footnotes: turns [^n] markers into superscript links and the definitions
+ * into an ordered list with anchors (plain HTML, so it survives WordPress and the clean export).
+ */
+const footnotesToHtml = (markdown: string): string => {
+  const definition = /^\[\^(\d+)\]:\s*\[([^\]]*)\]\(([^)\s]+)\)\s*$/gm;
+  const items = [...markdown.matchAll(definition)].map(
+    ([, n, title, url]) => `<li id="cite-${n}"><a href="${escapeHtml(url)}" target="_blank" rel="noopener">${escapeHtml(title)}</a></li>`
+  );
+  const body = markdown
+    .replace(definition, '')
+    .replace(CITATION_MARKER, (_, n) => `<sup class="cite"><a href="#cite-${n}">[${n}]</a></sup>`)
+    .replace(/\n{3,}/g, '\n\n')
+    .trimEnd();
+  return items.length ? `${body}\n\n<ol class="references">\n${items.join('\n')}\n</ol>` : body;
+};
+
+/**
+ * Body Markdown (no meta block): featured image, intro, sections, conclusion, sources.
+ * `renderImage` decides how each image is written (Markdown, WP block HTML, placeholder...).
+ * The index counts images in the same order as getArticleImages.
+ * Unresolved [INTERNAL-LINK] markers are stripped unless `keepLinkMarkers` (stored form, which
+ * also keeps [^n] footnotes and the numbered list as they are). Otherwise `citations` picks
+ * footnotes (markers + GFM definitions), the references list only, or no sources at all.
+ */
+export const renderArticleBody = (
+  article: Article,
+  renderImage: ImageRenderer = markdownImage,
+  options: { includeFeatured?: boolean; includeSources?: boolean; keepLinkMarkers?: boolean; citations?: CitationMode } = {}
+): string => {
+  const { includeFeatured = true, includeSources = true, keepLinkMarkers = false, citations = 'references' } = options;
+  const parts: string[] = [];
+  let index = 0;
+
+  if (article.featuredImage) {
+    const rendered = renderImage(article.featuredImage, index++);
+    if (includeFeatured) parts.push(rendered);
+  }
+
+  const addBlocks = (blocks: ArticleBlock[]) => {
+    for (const block of blocks) {
+      if (block.type === 'image') parts.push(renderImage(block.image, index++));
+      else if (keepLinkMarkers) parts.push(block.markdown);
+      else parts.push(citations === 'footnotes' ? stripLinkMarkers(block.markdown) : stripCitations(stripLinkMarkers(block.markdown)));
+    }
+  };
+
+  addBlocks(article.intro);
+  for (const section of [...article.sections, ...(article.conclusion ? [article.conclusion] : [])]) {
+    parts.push(`${'#'.repeat(section.level)} ${section.heading}`);
+    addBlocks(section.blocks);
+  }
+  if (includeSources && article.sources.length > 0 && citations !== 'none') {
+    parts.push(keepLinkMarkers || citations === 'references' ? renderSources(article.sources) : renderFootnotes(article.sources));
+  }
+
+  return parts.filter(p => p.trim()).join('\n\n');
+};
+
+// Full stored Markdown (meta block + body); parseArticle(articleToMarkdown(a)) gives back `a`
+export const articleToMarkdown = (article: Article, renderImage: ImageRenderer = markdownImage): string => {
+  const { title, description, slug } = article.meta;
+  return `========== META DATA ==========
+Meta Title: ${title}
+Meta Description: ${description}
+Slug: ${slug}
+=============================
+
+${renderArticleBody(article, renderImage, { keepLinkMarkers: true })}
+`;
+};
+
+export const articleToHtml = async (
+  article: Article,
+  renderImage: ImageRenderer = generatedImagesOnly,
+  options?: { includeFeatured?: boolean; includeSources?: boolean; citations?: CitationMode }
+): Promise<string> => marked.parse(footnotesToHtml(renderArticleBody(article, renderImage, options)));
+
+// --- SECTION EDITING ---
+// An H2 together with the H3 sections that follow it is the unit for rewrites.
+
+const normalizeHeading = (heading: string) => heading.replace(/[*_`]/g, '').replace(/\s+/g, ' ').trim().toLowerCase();
+
+const findSectionGroup = (article: Article, heading: string) => {
+  const all = [...article.sections, ...(article.conclusion ? [article.conclusion] : [])];
+  const start = all.findIndex(s => s.level === 2 && normalizeHeading(s.heading) === normalizeHeading(heading));
+  if (start < 0) return null;
+  let end = start + 1;
+  while (end < all.length && all[end].level === 3) end++;
+  return { all, start, end };
+};
+
+const renderSections = (sections: ArticleSection[], renderImage: ImageRenderer) =>
+  sections
+    .flatMap(section => [
+      `${'#'.repeat(section.level)} ${section.heading}`,
+      ...section.blocks.map((block, i) => (block.type === 'text' ? block.markdown : renderImage(block.image, i))),
+    ])
+    .filter(p => p.trim())
+    .join('\n\n');
+
+/**
+ * Markdown of the H2 section titled `heading` and its H3s.
+ * `withImages: false` leaves images out (e.g. for prompts, base64 data is useless to the model).
+ */
+export const getSectionMarkdown = (article: Article, heading: string, withImages = true): string | null => {
+  const group = findSectionGroup(article, heading);
+  if (!group) return null;
+  return renderSections(group.all.slice(group.start, group.end), withImages ? markdownImage : () => '');
+};
+
+/**
+ * Replaces the H2 section titled `heading` (and its H3s) with new Markdown and returns the
+ * heading of the replacement. With `keepImages`, the images of the old section are put back
+ * (one after the first paragraph of each new (sub)section, leftovers at the end) and any
+ * image tags in the new text are dropped; without it the new Markdown is taken as is (revert).
+ */
+export const replaceSection = (article: Article, heading: string, markdown: string, keepImages: boolean): string => {
+  const group = findSectionGroup(article, heading);
+  if (!group) throw new Error(`Section "${heading}" not found in the article.`);
+
+  const parsed = parseArticle(markdown, '');
+  const replacement = [...parsed.sections, ...(parsed.conclusion ? [parsed.conclusion] : [])];
+  if (replacement.length === 0 || replacement[0].level !== 2) {
+    throw new Error('The new text does not start with an H2 ("## ") heading.');
+  }
+  // Text before the heading (should not happen) is kept at the start of the section
+  replacement[0].blocks.unshift(...parsed.intro.filter(b => b.type === 'text'));
+
+  if (keepImages) {
+    const oldImages = group.all
+      .slice(group.start, group.end)
+      .flatMap(s => s.blocks.flatMap(b => (b.type === 'image' ? [b.image] : [])));
+    replacement.forEach(s => (s.blocks = s.blocks.filter(b => b.type === 'text')));
+    oldImages.forEach((image, i) => {
+      const target = replacement[Math.min(i, replacement.length - 1)];
+      const firstText = target.blocks.findIndex(b => b.type === 'text');
+      const position = i < replacement.length && firstText >= 0 ? firstText + 1 : target.blocks.length;
+      target.blocks.splice(position, 0, { type: 'image', image });
+    });
+  }
+
+  const all = [...group.all];
+  all.splice(group.start, group.end - group.start, ...replacement);
+  setSectionList(article, all);
+  return replacement[0].heading;
+};
@@ -0,0 +1,102 @@
+import { ArticleSource, Grounding, PipelineStage, SourceRef } from '../types';
+import { renderSources } from './articleService';
+
+// Google Search grounding -> citations: numbered [^n] footnotes placed after the segments the
+// grounding supports back, one deduplicated sources list per article, and the sources of every
+// step kept as structured data on the history item.
+
+// Grounding links are redirects unique to each answer, so the same site cited by two steps has
+// two URLs; those are keyed by the site name (the chunk title), real URLs by the URL
+const sourceKey = (source: ArticleSource) =>
+  /grounding-api-redirect/i.test(source.url)
+    ? `site:${source.title.trim().toLowerCase()}`
+    : source.url.trim().replace(/\/+$/, '').toLowerCase();
+
+export const dedupeSources = <T extends ArticleSource>(sources: T[]): T[] => {
+  const seen = new Set<string>();
+  return sources.filter(s => {
+    const key = sourceKey(s);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// Adds the sources of one step to the item's list, recording which steps used each
+export const mergeSources = (existing: SourceRef[] = [], sources: ArticleSource[], stage: PipelineStage): SourceRef[] => {
+  const merged = existing.map(s => ({ ...s, stages: [...s.stages] }));
+  for (const source of sources) {
+    const found = merged.find(s => sourceKey(s) === sourceKey(source));
+    if (!found) merged.push({ title: source.title, url: source.url, stages: [stage] });
+    else if (!found.stages.includes(stage)) found.stages.push(stage);
+  }
+  return merged;
+};
+
+// Lines that must not get a footnote: headings, the meta block and the translation keyword line
+const NO_CITE_LINE = /^\s*(#{1,6}\s|meta title:|meta description:|slug:|keyword:|={3,})/i;
+// Spans a marker must not land in: links, images, image prompts, internal link markers
+const PROTECTED = /!?\[[^\]]*\]\([^)]*\)|\[(?:FEATURED_IMAGE_PROMPT|IMAGE_PROMPT|HÌNH ẢNH|INTERNAL[-_ ]LINK)[^\]]*\]/gi;
+
+// Where the marker goes for a segment ending at `end`: after the sentence's closing punctuation, never inside a link
+const markerPosition = (text: string, end: number): number | null => {
+  const lineStart = text.lastIndexOf('\n', end - 1) + 1;
+  const lineEnd = text.indexOf('\n', end) < 0 ? text.length : text.indexOf('\n', end);
+  const line = text.slice(lineStart, lineEnd);
+  if (NO_CITE_LINE.test(line)) return null;
+
+  let position = end;
+  for (const match of line.matchAll(PROTECTED)) {
+    const spanStart = lineStart + match.index!;
+    const spanEnd = spanStart + match[0].length;
+    if (position > spanStart && position < spanEnd) position = spanEnd;
+  }
+  while (/[.!?…]/.test(text[position] || '')) position++;
+  return position;
+};
+
+/**
+ * Places [^n] footnotes after every grounded segment of the answer and appends the numbered
+ * sources list: cited sources first, numbered in order of first citation, then the grounding
+ * sources nothing was attributed to. An answer without grounding gets `fallback` (the research
+ * sources) as its list, without footnotes. Any sources list the model wrote itself is replaced.
+ */
+export const addCitations = (text: string, grounding: Grounding, fallback: ArticleSource[] = []): string => {
+  // The model sometimes writes its own list: drop it, the grounding one replaces it
+  const body = text.replace(/\n#{2,3}\s*(nguồn tham khảo|tài liệu tham khảo|sources|references)[^\n]*(\n+(?:[-*]|\d+\.)\s*\[[^\n]*)*\s*$/i, '').trimEnd();
+
+  // Segments are searched as text (the API offsets count UTF-8 bytes); supports usually come in order
+  const placements = new Map<number, number[]>(); // Marker position -> grounding source indices
+  let cursor = 0;
+  for (const support of grounding.supports) {
+    const segment = support.text.trim();
+    if (!segment || support.sources.length === 0) continue;
+    let start = body.indexOf(segment, cursor);
+    if (start < 0) start = body.indexOf(segment);
+    if (start < 0) continue;
+    cursor = start + segment.length;
+    const at = markerPosition(body, cursor);
+    if (at !== null) placements.set(at, [...(placements.get(at) || []), ...support.sources]);
+  }
+
+  const listed: ArticleSource[] = [];
+  const numberOf = (source: ArticleSource): number => {
+    const index = listed.findIndex(s => sourceKey(s) === sourceKey(source));
+    if (index >= 0) return index + 1;
+    listed.push(source);
+    return listed.length;
+  };
+
+  let result = '';
+  let last = 0;
+  for (const [at, sources] of [...placements.entries()].sort((a, b) => a[0] - b[0])) {
+    const numbers = [...new Set(sources.filter(i => grounding.sources[i]).map(i => numberOf(grounding.sources[i])))].sort((a, b) => a - b);
+    result += body.slice(last, at) + numbers.map(n => `[^${n}]`).join('');
+    last = at;
+  }
+  result += body.slice(last);
+
+  grounding.sources.forEach(numberOf);
+  const sources = listed.length > 0 ? listed : dedupeSources(fallback);
+  return sources.length > 0 ? `${result}\n\n${renderSources(sources)}` : result;
+};
@@ -0,0 +1,165 @@
+import { ClusterRef, KeywordCluster, SearchIntentType } from '../types';
+import { slugify } from './articleService';
+import { tokenize } from './linkingService';
+
+// Keyword clustering for a raw keyword list: keywords sharing their topic words (and intent)
+// are grouped, the most central and general one becomes the pillar article, the others are
+// supporting articles. Local heuristics only, no API call.
+
+const CLUSTER_SCORE = 0.6;
+const SAME_INTENT_BONUS = 0.1;
+
+// Matched on the lowercase keyword as whole words (Vietnamese letters count as word characters)
+const INTENT_PATTERNS: [SearchIntentType, string[]][] = [
+  ['transactional', ['mua', 'giá', 'bán', 'đặt hàng', 'giảm giá', 'khuyến mãi', 'ở đâu', 'buy', 'price', 'cheap', 'deal', 'discount', 'order', 'coupon', 'near me']],
+  ['commercial', ['tốt nhất', 'top', 'review', 'đánh giá', 'so sánh', 'loại nào', 'nên mua', 'best', 'vs', 'versus', 'compare', 'comparison', 'alternative', 'alternatives']],
+  ['navigational', ['đăng nhập', 'login', 'website', 'official', 'trang chủ', 'chính hãng']],
+];
+
+const hasPhrase = (text: string, phrase: string) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${phrase}(?![\\p{L}\\p{N}])`, 'u').test(text);
+
+export const detectIntent = (keyword: string): SearchIntentType => {
+  const text = keyword.normalize('NFC').toLowerCase();
+  for (const [intent, phrases] of INTENT_PATTERNS) {
+    if (phrases.some(p => hasPhrase(text, p))) return intent;
+  }
+  return 'informational';
+};
+
+// Topic words plus adjacent syllable pairs: Vietnamese words are often two syllables ("chạy bộ"),
+// so sharing "chạy bộ" weighs more than sharing "chạy" and "bộ" separately
+const termTokens = (keyword: string): Set<string> => {
+  const syllables = slugify(keyword).split('-').filter(Boolean);
+  const pairs = syllables.slice(1).map((s, i) => `${syllables[i]}_${s}`);
+  return new Set([...tokenize(keyword), ...pairs]);
+};
+
+interface Term {
+  keyword: string;
+  tokens: Set<string>;
+  intent: SearchIntentType;
+}
+
+/**
+ * Topic similarity of two keywords: Jaccard on the words, or most of it when the shorter one
+ * is contained in the longer ("marathon" / "lịch tập marathon"), plus a bonus for the same intent.
+ */
+const similarity = (a: Term, b: Term): number => {
+  const shared = [...a.tokens].filter(t => b.tokens.has(t)).length;
+  if (shared === 0) return 0;
+  const jaccard = shared / (a.tokens.size + b.tokens.size - shared);
+  const containment = shared / Math.min(a.tokens.size, b.tokens.size);
+  return Math.max(jaccard, containment * 0.75) + (a.intent === b.intent ? SAME_INTENT_BONUS : 0);
+};
+
+const clusterId = () => Math.random().toString(36).slice(2, 11);
+
+const mostCommon = <T,>(values: T[]): T => {
+  const counts = new Map<T, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+};
+
+// The member closest to all others; shorter (more general) keywords win ties
+const pickPillar = (members: Term[]): Term =>
+  members
+    .map(m => ({ m, score: members.reduce((sum, o) => (o === m ? sum : sum + similarity(m, o)), 0) }))
+    .sort((a, b) => b.score - a.score || a.m.tokens.size - b.m.tokens.size)[0].m;
+
+/**
+ * Groups the keywords into clusters. General keywords are placed first so they seed the
+ * clusters; each next keyword joins the cluster it is most similar to (its seed, or the
+ * average of its members) when that reaches the threshold, otherwise it starts a new one.
+ * Repeated keywords (same folded text) are kept once. Clusters come back largest first.
+ */
+export const clusterKeywords = (keywords: string[]): KeywordCluster[] => {
+  const seen = new Set<string>();
+  const terms: Term[] = [];
+  for (const keyword of keywords) {
+    const key = slugify(keyword);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    const tokens = termTokens(keyword);
+    terms.push({ keyword, tokens: tokens.size ? tokens : new Set([key]), intent: detectIntent(keyword) });
+  }
+
+  const groups: Term[][] = [];
+  for (const term of [...terms].sort((a, b) => a.tokens.size - b.tokens.size)) {
+    let best: Term[] | null = null;
+    let bestScore = 0;
+    for (const group of groups) {
+      const average = group.reduce((sum, m) => sum + similarity(term, m), 0) / group.length;
+      const score = Math.max(similarity(term, group[0]), average);
+      if (score > bestScore) {
+        best = group;
+        bestScore = score;
+      }
+    }
+    if (best && bestScore >= CLUSTER_SCORE) best.push(term);
+    else groups.push([term]);
+  }
+
+  return groups
+    .sort((a, b) => b.length - a.length)
+    .map(members => {
+      const pillar = pickPillar(members);
+      return {
+        id: clusterId(),
+        pillar: pillar.keyword,
+        // Supporting keywords keep the order they were pasted in
+        supporting: terms.filter(t => t !== pillar && members.includes(t)).map(t => t.keyword),
+        intent: mostCommon(members.map(m => m.intent)),
+      };
+    });
+};
+
+// --- EDITING ---
+
+export const setPillar = (cluster: KeywordCluster, keyword: string): KeywordCluster => ({
+  ...cluster,
+  pillar: keyword,
+  supporting: [cluster.pillar, ...cluster.supporting].filter(k => k !== keyword),
+});
+
+// Moves a keyword to another cluster (or a new one when `toId` is null); emptied clusters are dropped
+export const moveKeyword = (clusters: KeywordCluster[], keyword: string, toId: string | null): KeywordCluster[] => {
+  const without = clusters
+    .map(c => {
+      if (c.pillar !== keyword) return { ...c, supporting: c.supporting.filter(k => k !== keyword) };
+      // Moving the pillar promotes the first supporting keyword
+      const [next, ...rest] = c.supporting;
+      return next ? { ...c, pillar: next, supporting: rest } : null;
+    })
+    .filter((c): c is KeywordCluster => !!c);
+
+  if (toId === null) return [...without, { id: clusterId(), pillar: keyword, supporting: [], intent: detectIntent(keyword) }];
+  return without.map(c => (c.id === toId ? { ...c, supporting: [...c.supporting, keyword] } : c));
+};
+
+export const removeKeyword = (clusters: KeywordCluster[], keyword: string): KeywordCluster[] =>
+  moveKeyword(clusters, keyword, null).filter(c => !(c.pillar === keyword && c.supporting.length === 0));
+
+/**
+ * Queue order and cluster membership: each pillar first, then its supporting keywords, so
+ * the pillar usually exists when supporting articles are linked to it. Single-keyword
+ * clusters are plain articles without a cluster.
+ */
+export const clusterQueuePlan = (clusters: KeywordCluster[]): { keyword: string; cluster?: ClusterRef }[] =>
+  clusters.flatMap(c => {
+    if (c.supporting.length === 0) return [{ keyword: c.pillar }];
+    const ref = { id: c.id, pillar: c.pillar, supporting: c.supporting };
+    return [
+      { keyword: c.pillar, cluster: { ...ref, role: 'pillar' as const } },
+      ...c.supporting.map(keyword => ({ keyword, cluster: { ...ref, role: 'supporting' as const } })),
+    ];
+  });
+
+// Text for the {{cluster}} template variable
+export const describeClusterRole = (cluster?: ClusterRef): string => {
+  if (!cluster) return '';
+  if (cluster.role === 'pillar') {
+    return `This is the PILLAR article of a topic cluster. Give a complete overview of the topic and introduce each of these subtopics briefly (each gets its own in-depth article): ${cluster.supporting.join(', ')}.`;
+  }
+  return `This is a SUPPORTING article of the topic cluster "${cluster.pillar}" (the pillar article covers the overview). Go in depth on this subtopic only and do not repeat the general overview.`;
+};
@@ -0,0 +1,161 @@
+import { HistoryItem, KeywordOverlap, OutputLanguage, PreflightAction, PreflightEntry, QueueItem } from '../types';
+import { parseArticle, slugify } from './articleService';
+import { tokenize } from './linkingService';
+import { getItemKeyword } from './pipelineService';
+
+// Pre-flight check of a new batch before any API call: keywords that repeat each other, an
+// unfinished queue item or an article already in history are flagged as duplicates (same
+// topic) or cannibalization (close enough to compete for the same searches).
+// Comparison is on folded Vietnamese text ("Giày chạy bộ" = "giay chay bo"), word order ignored.
+
+const DUPLICATE_SCORE = 0.8;
+const CANNIBAL_SCORE = 0.5;
+
+interface Candidate {
+  source: KeywordOverlap['source'];
+  refId: string;
+  keyword: string;
+  title?: string;
+  slug?: string;
+  mergeable: boolean;
+}
+
+const toSet = (text: string) => new Set(tokenize(text));
+
+const intersect = (a: Set<string>, b: Set<string>) => [...a].filter(t => b.has(t)).length;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Overlap of a new keyword with an existing topic, or null when they are unrelated.
+ * Jaccard on the keyword words; a keyword fully contained in the other ("giày chạy bộ" in
+ * "giày chạy bộ nam giá rẻ") or in the title / slug of a written article counts too.
+ */
+const compare = (keyword: string, candidate: Candidate): Pick<KeywordOverlap, 'kind' | 'score' | 'reason'> | null => {
+  if (slugify(keyword) === slugify(candidate.keyword)) return { kind: 'duplicate', score: 1, reason: 'Same keyword' };
+
+  const words = toSet(keyword);
+  const other = toSet(candidate.keyword);
+  if (words.size === 0 || other.size === 0) return null;
+  const shared = intersect(words, other);
+  const jaccard = shared / (words.size + other.size - shared);
+  const contained = shared === Math.min(words.size, other.size) && Math.min(words.size, other.size) >= 2;
+
+  if (jaccard >= DUPLICATE_SCORE) {
+    return { kind: 'duplicate', score: round(jaccard), reason: shared === words.size && shared === other.size ? 'Same words in a different order' : 'Almost the same keyword' };
+  }
+  if (candidate.slug && slugify(keyword) === candidate.slug) {
+    return { kind: 'duplicate', score: 1, reason: `Same slug as the article (/${candidate.slug}/)` };
+  }
+  if (jaccard >= CANNIBAL_SCORE || contained) {
+    return { kind: 'cannibalization', score: round(jaccard), reason: contained ? 'One keyword contains the other' : 'Most words in common' };
+  }
+
+  // Written articles often rank for the words of their title, not only their keyword
+  for (const [label, text] of [['title', candidate.title], ['slug', candidate.slug]] as const) {
+    if (!text || words.size < 2) continue;
+    const covered = intersect(words, toSet(text)) / words.size;
+    if (covered === 1) return { kind: 'cannibalization', score: round(Math.max(jaccard, CANNIBAL_SCORE)), reason: `Keyword covered by the article ${label}` };
+  }
+  return null;
+};
+
+const historyCandidates = (history: HistoryItem[], language: OutputLanguage): Candidate[] =>
+  history
+    .filter(item => (item.language || 'vi') === language)
+    .map(item => {
+      const keyword = getItemKeyword(item);
+      const meta = item.content && !item.content.startsWith('Error processing') ? parseArticle(item.content, keyword).meta : undefined;
+      return { source: 'history' as const, refId: item.id, keyword, title: meta?.title || undefined, slug: meta?.slug || undefined, mergeable: false };
+    });
+
+const queueCandidates = (queue: QueueItem[], language: OutputLanguage): Candidate[] =>
+  queue
+    .filter(item => item.language === language && (item.status === 'pending' || item.status === 'running' || item.status === 'review'))
+    // Finished and started items are (or will be) in history; only untouched ones can absorb a keyword
+    .map(item => ({ source: 'queue' as const, refId: item.id, keyword: item.keyword, mergeable: item.status === 'pending' && !item.historyId }));
+
+// Duplicates are skipped by default; a cannibalizing keyword is merged into a batch/queue keyword when possible
+const defaultAction = (overlaps: KeywordOverlap[]): PreflightAction => {
+  if (overlaps.length === 0) return 'force';
+  if (overlaps[0].kind === 'duplicate') return 'skip';
+  return overlaps.some(o => o.mergeable) ? 'merge' : 'skip';
+};
+
+/**
+ * Checks every keyword of the batch against the keywords before it, the unfinished queue
+ * and the history (same language only: other languages are translations, not competitors).
+ * Batch keywords in the same group (keyword cluster, one id per keyword in `groups`) share
+ * words on purpose and are not compared with each other.
+ * Returns one entry per keyword, in batch order.
+ */
+export const checkDuplicates = (
+  keywords: string[],
+  options: { language: OutputLanguage; history: HistoryItem[]; queue: QueueItem[]; groups?: (string | undefined)[] }
+): PreflightEntry[] => {
+  const existing = [...queueCandidates(options.queue, options.language), ...historyCandidates(options.history, options.language)];
+  const group = (index: number) => options.groups?.[index];
+
+  return keywords.map((keyword, index) => {
+    const earlier: Candidate[] = keywords
+      .map((other, i) => ({ source: 'batch' as const, refId: String(i), keyword: other, mergeable: true }))
+      .filter((_, i) => i < index && !(group(i) && group(i) === group(index)));
+
+    const overlaps: KeywordOverlap[] = [];
+    for (const candidate of [...earlier, ...existing]) {
+      const match = compare(keyword, candidate);
+      const { slug, ...ref } = candidate;
+      if (match) overlaps.push({ ...match, ...ref });
+    }
+    overlaps.sort((a, b) => (a.kind === b.kind ? b.score - a.score : a.kind === 'duplicate' ? -1 : 1));
+    return { keyword, overlaps, action: defaultAction(overlaps) };
+  });
+};
+
+export const hasOverlaps = (entries: PreflightEntry[]) => entries.some(e => e.overlaps.length > 0);
+
+export interface PreflightPlan {
+  keywords: { keyword: string; mergedKeywords: string[] }[]; // To queue, in batch order
+  queueMerges: { queueId: string; keywords: string[] }[];     // Added to queue items not started yet
+}
+
+/**
+ * Applies the chosen actions. A merged keyword joins the strongest mergeable match; when that
+ * batch keyword is itself merged it follows the chain, and when it was skipped the keyword is
+ * generated on its own instead of being lost.
+ */
+export const planPreflight = (entries: PreflightEntry[]): PreflightPlan => {
+  const planned = new Map<number, { keyword: string; mergedKeywords: string[] }>();
+  const queueMerges = new Map<string, string[]>();
+
+  // Batch index the keyword ends up in (-1 when skipped), or a queue target
+  const resolve = (index: number, seen = new Set<number>()): number | string => {
+    const entry = entries[index];
+    if (entry.action === 'skip') return -1;
+    const target = entry.action === 'merge' ? entry.overlaps.find(o => o.mergeable) : undefined;
+    if (!target || seen.has(index)) return index;
+    if (target.source === 'queue') return target.refId;
+    seen.add(index);
+    const root = resolve(Number(target.refId), seen);
+    return root === -1 ? index : root;
+  };
+
+  entries.forEach((entry, index) => {
+    const root = resolve(index);
+    if (root === -1) return;
+    if (typeof root === 'string') {
+      queueMerges.set(root, [...(queueMerges.get(root) || []), entry.keyword]);
+    } else if (root === index) {
+      planned.set(index, planned.get(index) || { keyword: entry.keyword, mergedKeywords: [] });
+    } else {
+      const host = planned.get(root) || { keyword: entries[root].keyword, mergedKeywords: [] };
+      host.mergedKeywords.push(entry.keyword);
+      planned.set(root, host);
+    }
+  });
+
+  return {
+    keywords: [...planned.entries()].sort(([a], [b]) => a - b).map(([, value]) => value),
+    queueMerges: [...queueMerges.entries()].map(([queueId, keywords]) => ({ queueId, keywords })),
+  };
+};
@@ -0,0 +1,371 @@
+import JSZip from 'jszip';
+import { Article, ArticleImage, CitationMode, HistoryItem, OutputLanguage, WxrExportSettings } from '../types';
+import { articleToHtml, escapeHtml, generatedImagesOnly, renderArticleBody, slugify } from './articleService';
+import { blobToDataUrl, extensionFor, imageFileNames, imageFiles, loadArticleImages, responsiveImageHtml } from './imageAssetService';
+import { jsonLdScript, StructuredData, toJsonLd } from './schemaService';
+import { HreflangAlternate, hreflangLinks } from './translationService';
+import { getLanguage } from './languages';
+
+// File exports (pasted HTML, ZIP package, WordPress WXR of one or many articles). The caller
+// confirms article issues and builds the structured data; images are read from the image store.
+
+export interface ExportOptions {
+  citations: CitationMode;
+  structuredData: StructuredData;
+  alternates: HreflangAlternate[]; // Other language versions, for hreflang
+}
+
+/**
+ * HTML to paste into an editor: hreflang links and JSON-LD, then the body with a placeholder
+ * per image (the stored images cannot travel in pasted HTML), named after the files of the
+ * ZIP package so the editor knows which one to upload.
+ */
+export const buildCleanHtml = async (article: Article, options: ExportOptions): Promise<string> => {
+  const assets = await loadArticleImages(article);
+  const fileNames = imageFileNames(article);
+  let imgIndex = 1;
+  const html = await articleToHtml(article, image => {
+    if (!image.src) return '';
+    const isFeatured = image.featured;
+    const label = isFeatured ? 'FEATURED IMAGE (Thumbnail)' : `IMAGE ${imgIndex}`;
+    const alt = image.alt || (isFeatured ? article.meta.title : '');
+    const asset = assets.get(image);
+    const file = asset ? `${fileNames.get(image)}.${extensionFor(asset.mime)}` : '';
+
+    // Kept on one line so marked treats it as a single HTML block
+    const placeholder = `<div style="background-color: ${isFeatured ? '#fff7ed' : '#f8fafc'}; border: 2px dashed ${isFeatured ? '#f97316' : '#cbd5e1'}; padding: 20px; text-align: center; margin: 20px 0; border-radius: 8px;">` +
+      `<p style="font-weight: bold; color: ${isFeatured ? '#c2410c' : '#1e40af'}; margin-bottom: 5px;">[CHÈN ẢNH: ${label}]</p>` +
+      `<p style="color: #64748b; font-size: 0.9em; font-style: italic;">Alt Text: ${escapeHtml(alt)}</p>` +
+      (image.caption ? `<p style="color: #64748b; font-size: 0.9em;">Caption: ${escapeHtml(image.caption)}</p>` : '') +
+      (file ? `<p style="color: #64748b; font-size: 0.9em;">File: ${file}</p>` : '') + `</div>`;
+    if (!isFeatured) imgIndex++;
+    return placeholder;
+  }, { citations: options.citations });
+
+  const head = [hreflangLinks(options.alternates), jsonLdScript(options.structuredData)].filter(Boolean).join('\n');
+  return `${head}\n${html}`;
+};
+
+/**
+ * ZIP package: every image file under images/, the article as Markdown (main image files)
+ * and as HTML (srcset over all sizes), schema.jsonld and hreflang.html when there is something to put in them.
+ */
+export const buildPackageZip = async (article: Article, options: ExportOptions): Promise<JSZip> => {
+  const { slug } = article.meta;
+  const zip = new JSZip();
+  const imgFolder = zip.folder("images");
+  const assets = await loadArticleImages(article);
+  const fileNames = imageFileNames(article);
+  // Added as bytes: JSZip reads Blobs with FileReader, which only exists in the browser
+  for (const [image, asset] of assets) {
+    for (const file of imageFiles(asset, fileNames.get(image)!)) imgFolder?.file(file.name, await file.blob.arrayBuffer());
+  }
+
+  // Markdown points to the main image files, the HTML version also lists the srcset sizes
+  const processedContent = renderArticleBody(article, (image, i) => {
+    const asset = assets.get(image);
+    if (!asset) return generatedImagesOnly(image, i);
+    return generatedImagesOnly({ ...image, src: `images/${imageFiles(asset, fileNames.get(image)!)[0].name}` }, i);
+  }, { citations: options.citations });
+  const html = await articleToHtml(article, (image, i) => {
+    const asset = assets.get(image);
+    if (!asset) return generatedImagesOnly(image, i);
+    const img = responsiveImageHtml(asset, fileNames.get(image)!, image.alt || (image.featured ? article.meta.title : ''), 'images/');
+    return `<figure>${img}${image.caption ? `<figcaption>${escapeHtml(image.caption)}</figcaption>` : ''}</figure>`;
+  }, { citations: options.citations });
+
+  zip.file(`${slug}.md`, processedContent);
+  zip.file(`${slug}.html`, html);
+  if (options.structuredData.schemas.length > 0) zip.file('schema.jsonld', toJsonLd(options.structuredData));
+  if (options.alternates.length > 0) zip.file('hreflang.html', hreflangLinks(options.alternates));
+  return zip;
+};
+
+// --- WORDPRESS WXR ---
+
+export interface WxrAuthor {
+  login: string;       // Matched (or created) by the WordPress importer
+  displayName: string;
+}
+
+// One post of a WXR export with everything the item needs
+export interface WxrPost extends ExportOptions {
+  article: Article;
+  language: OutputLanguage;
+  category: string;
+  tags: string[];
+  author: string; // Login of one of the export's authors
+}
+
+export interface WxrExportOptions {
+  siteTitle: string;
+  siteUrl?: string;
+  authors: WxrAuthor[];
+  startId?: number;  // First post id; posts and attachments take consecutive ids from here
+  date?: Date;       // Export time by default
+  maxBytes?: number; // Split into several files above this size (0 or missing: one file)
+}
+
+export interface WxrFile {
+  xml: string;
+  posts: number;
+}
+
+export const DEFAULT_WXR_START_ID = 1000;
+
+export const DEFAULT_WXR_SETTINGS: WxrExportSettings = {
+  category: '',
+  tags: true,
+  authors: {},
+  maxFileMb: 8, // Common upload_max_filesize of shared hosting
+};
+
+const MAX_TAGS = 8;
+
+// Post tags: the keyword, the keywords merged into the article, the cluster pillar and the semantic keywords of Step 2
+export const postTags = (item: HistoryItem): string[] => {
+  const candidates = [
+    item.keyword,
+    ...(item.mergedKeywords || []),
+    ...(item.cluster?.role === 'supporting' ? [item.cluster.pillar] : []),
+    ...(item.ideation?.keywords.filter(k => k.type === 'semantic').map(k => k.keyword) || []),
+  ];
+  const seen = new Set<string>();
+  return candidates.map(tag => tag.trim()).filter(tag => {
+    const key = slugify(tag);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  }).slice(0, MAX_TAGS);
+};
+
+// CDATA cannot hold "]]>": the section is closed and reopened around it
+const cdata = (text: string) => `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+const byteLength = (text: string) => new TextEncoder().encode(text).length;
+
+/**
+ * Terms of the post: the category, the tags and the language. WordPress has no post language,
+ * so it is written as a term of the "language" taxonomy (what Polylang reads, other plugins can map it on import).
+ */
+const termsXml = (post: WxrPost) => {
+  const category = post.category.trim() || 'General';
+  const { code, nativeName } = getLanguage(post.language);
+  return [
+    `<category domain="category" nicename="${slugify(category)}">${cdata(category)}</category>`,
+    ...[...new Map(post.tags.map(tag => [slugify(tag), tag.trim()])).entries()]
+      .filter(([slug]) => slug)
+      .map(([slug, tag]) => `<category domain="post_tag" nicename="${slug}">${cdata(tag)}</category>`),
+    `<category domain="language" nicename="${code}">${cdata(nativeName)}</category>`,
+  ].join('\n        ');
+};
+
+/**
+ * Item XML of one post with every stored image as an attachment (embedded as a data URL),
+ * using ids from `postId` on. The featured image becomes the thumbnail and stays out of the body;
+ * Yoast / RankMath meta and hreflang alternates go into postmeta.
+ */
+const buildWxrItems = async (post: WxrPost, postId: number, date: Date): Promise<{ xml: string; ids: number }> => {
+  const { article } = post;
+  const { title, description: metaDesc, slug } = article.meta;
+  const pubDate = date.toUTCString();
+  const postDate = date.toISOString().replace('T', ' ').split('.')[0];
+
+  const images = [...(await loadArticleImages(article)).entries()];
+  const fileNames = imageFileNames(article);
+
+  // We will store attachments to append to XML later
+  let attachmentItemsXml = '';
+  let featuredImageId = '';
+  const figures = new Map<ArticleImage, string>();
+
+  for (let i = 0; i < images.length; i++) {
+    const [image, asset] = images[i];
+    const altText = image.alt || (image.featured ? title : '');
+    const caption = image.caption ? `<figcaption>${escapeHtml(image.caption)}</figcaption>` : '';
+    const fileName = `${fileNames.get(image)}.${extensionFor(asset.mime)}`;
+
+    const dataUrl = await blobToDataUrl(asset.blob);
+    const attachmentId = postId + i + 1;
+
+    if (image.featured) {
+      // Featured image becomes the thumbnail and stays out of the body (standard WP practice)
+      featuredImageId = attachmentId.toString();
+    } else {
+      // Normal Image -> Convert to HTML Figure
+      figures.set(image, `
+<!-- wp:image {"id":${attachmentId}} -->
+<figure class="wp-block-image"><img src="${dataUrl}" alt="${escapeHtml(altText)}" class="wp-image-${attachmentId}"/>${caption}</figure>
+<!-- /wp:image -->`);
+    }
+
+    // Create Attachment Item XML (Common for both types)
+    attachmentItemsXml += `
+    <item>
+		<title>${cdata(altText)}</title>
+		<link></link>
+		<pubDate>${pubDate}</pubDate>
+		<dc:creator>${cdata(post.author)}</dc:creator>
+		<guid isPermaLink="false"></guid>
+		<description></description>
+		<content:encoded>${cdata(dataUrl)}</content:encoded>
+		<excerpt:encoded>${cdata(image.caption || '')}</excerpt:encoded>
+		<wp:post_id>${attachmentId}</wp:post_id>
+		<wp:post_date>${postDate}</wp:post_date>
+		<wp:comment_status>open</wp:comment_status>
+		<wp:ping_status>open</wp:ping_status>
+		<wp:post_name>${cdata(fileNames.get(image)!)}</wp:post_name>
+		<wp:status>inherit</wp:status>
+		<wp:post_parent>${postId}</wp:post_parent>
+		<wp:menu_order>0</wp:menu_order>
+		<wp:post_type>attachment</wp:post_type>
+		<wp:post_password></wp:post_password>
+		<wp:is_sticky>0</wp:is_sticky>
+		<wp:attachment_url>${cdata(fileName)}</wp:attachment_url>
+		<wp:postmeta>
+			<wp:meta_key>_wp_attached_file</wp:meta_key>
+			<wp:meta_value>${cdata(`${date.getFullYear()}/${date.getMonth()+1}/${fileName}`)}</wp:meta_value>
+		</wp:postmeta>
+        <wp:postmeta>
+            <wp:meta_key>_wp_attachment_image_alt</wp:meta_key>
+            <wp:meta_value>${cdata(altText)}</wp:meta_value>
+        </wp:postmeta>
+	</item>`;
+  }
+
+  const bodyHtml = await articleToHtml(article, (image, i) => figures.get(image) ?? generatedImagesOnly(image, i), { includeFeatured: false, citations: post.citations });
+  // JSON-LD in a Custom HTML block so the block editor keeps the <script> as is
+  const schemaScript = jsonLdScript(post.structuredData);
+  const htmlContent = schemaScript ? `<!-- wp:html -->\n${schemaScript}\n<!-- /wp:html -->\n${bodyHtml}` : bodyHtml;
+
+  const xml = `
+	<item>
+		<title>${cdata(title)}</title>
+		<link></link>
+		<pubDate>${pubDate}</pubDate>
+		<dc:creator>${cdata(post.author)}</dc:creator>
+		<guid isPermaLink="false"></guid>
+		<description></description>
+		<content:encoded>${cdata(htmlContent)}</content:encoded>
+		<excerpt:encoded><![CDATA[]]></excerpt:encoded>
+		<wp:post_id>${postId}</wp:post_id>
+		<wp:post_date>${postDate}</wp:post_date>
+		<wp:comment_status>open</wp:comment_status>
+		<wp:ping_status>open</wp:ping_status>
+		<wp:post_name>${cdata(slug)}</wp:post_name>
+		<wp:status>draft</wp:status>
+		<wp:post_parent>0</wp:post_parent>
+		<wp:menu_order>0</wp:menu_order>
+		<wp:post_type>post</wp:post_type>
+		<wp:post_password></wp:post_password>
+		<wp:is_sticky>0</wp:is_sticky>
+        ${termsXml(post)}
+        ${featuredImageId ? `
+        <wp:postmeta>
+            <wp:meta_key>_thumbnail_id</wp:meta_key>
+            <wp:meta_value><![CDATA[${featuredImageId}]]></wp:meta_value>
+        </wp:postmeta>` : ''}
+        <!-- SEO METADATA -->
+        <wp:postmeta>
+            <wp:meta_key>_yoast_wpseo_title</wp:meta_key>
+            <wp:meta_value>${cdata(title)}</wp:meta_value>
+        </wp:postmeta>
+        <wp:postmeta>
+            <wp:meta_key>_yoast_wpseo_metadesc</wp:meta_key>
+            <wp:meta_value>${cdata(metaDesc)}</wp:meta_value>
+        </wp:postmeta>
+        <wp:postmeta>
+            <wp:meta_key>rank_math_title</wp:meta_key>
+            <wp:meta_value>${cdata(title)}</wp:meta_value>
+        </wp:postmeta>
+        <wp:postmeta>
+            <wp:meta_key>rank_math_description</wp:meta_key>
+            <wp:meta_value>${cdata(metaDesc)}</wp:meta_value>
+        </wp:postmeta>${post.alternates.length ? `
+        <!-- HREFLANG ALTERNATES (language versions of this post) -->
+        <wp:postmeta>
+            <wp:meta_key>_hreflang_alternates</wp:meta_key>
+            <wp:meta_value>${cdata(JSON.stringify(post.alternates.map(({ hreflang, url }) => ({ hreflang, url }))))}</wp:meta_value>
+        </wp:postmeta>` : ''}
+	</item>
+    ${attachmentItemsXml}`;
+
+  return { xml, ids: images.length + 1 };
+};
+
+// Language of the most posts: the channel has one, each post carries its own as a term
+const channelLanguage = (posts: WxrPost[]): OutputLanguage => {
+  const counts = new Map<OutputLanguage, number>();
+  posts.forEach(p => counts.set(p.language, (counts.get(p.language) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || 'vi';
+};
+
+const wrapChannel = (items: string, language: OutputLanguage, options: WxrExportOptions, pubDate: string) => {
+  const authors = options.authors.map((author, i) => `
+	<wp:author>
+		<wp:author_id>${i + 1}</wp:author_id>
+		<wp:author_login>${cdata(author.login)}</wp:author_login>
+		<wp:author_email><![CDATA[]]></wp:author_email>
+		<wp:author_display_name>${cdata(author.displayName)}</wp:author_display_name>
+	</wp:author>`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" ?>
+<rss version="2.0"
+	xmlns:excerpt="http://wordpress.org/export/1.2/excerpt/"
+	xmlns:content="http://purl.org/rss/1.0/modules/content/"
+	xmlns:wfw="http://wellformedweb.org/CommentAPI/"
+	xmlns:dc="http://purl.org/dc/elements/1.1/"
+	xmlns:wp="http://wordpress.org/export/1.2/"
+>
+<channel>
+	<title>${cdata(options.siteTitle)}</title>
+	<link>${options.siteUrl || ''}</link>
+	<pubDate>${pubDate}</pubDate>
+	<language>${getLanguage(language).hreflang}</language>
+	<wp:wxr_version>1.2</wp:wxr_version>${authors}${items}
+</channel>
+</rss>`;
+};
+
+/**
+ * WordPress import file(s) (WXR 1.2) with every post as a draft. Post and attachment ids are
+ * consecutive from `startId` over the whole export, so they never collide, even across files.
+ * With `maxBytes`, posts are spread over several files that each stay under the limit (the
+ * importer's upload limit); a post never leaves its attachments, so one larger post gets a file of its own.
+ */
+export const buildWxrExport = async (posts: WxrPost[], options: WxrExportOptions): Promise<WxrFile[]> => {
+  const date = options.date || new Date();
+  const pubDate = date.toUTCString();
+  const language = channelLanguage(posts);
+  const emptySize = byteLength(wrapChannel('', language, options, pubDate));
+
+  const files: { items: string[]; size: number }[] = [];
+  let nextId = options.startId ?? DEFAULT_WXR_START_ID;
+  for (const post of posts) {
+    const { xml, ids } = await buildWxrItems(post, nextId, date);
+    nextId += ids;
+    const size = byteLength(xml);
+    const current = files[files.length - 1];
+    if (current && (!options.maxBytes || current.size + size <= options.maxBytes)) {
+      current.items.push(xml);
+      current.size += size;
+    } else {
+      files.push({ items: [xml], size: emptySize + size });
+    }
+  }
+
+  return files.map(file => ({ xml: wrapChannel(file.items.join(''), language, options, pubDate), posts: file.items.length }));
+};
+
+// Single-article export: one post, one file
+export const buildWxr = async (
+  post: WxrPost,
+  options: Omit<WxrExportOptions, 'maxBytes'>
+): Promise<string> => (await buildWxrExport([post], options))[0].xml;
+
+// Parts of a split export in one archive, numbered in import order
+export const buildWxrZip = (files: WxrFile[], baseName: string): JSZip => {
+  const zip = new JSZip();
+  files.forEach((file, i) => zip.file(`${baseName}-part-${i + 1}.xml`, file.xml));
+  return zip;
+};
@@ -0,0 +1,182 @@
+import { Article, ArticleBlock, ArticleSource, ClaimStatus, FactCheck, FactClaim, HistoryItem } from '../types';
+import { parseArticle, stripCitations, stripLinkMarkers } from './articleService';
+import { tokenize } from './linkingService';
+
+// Fact check of an article against its Step 1 research and the stored grounding chunks: every
+// sentence or table row with figures is a claim, and each figure has to appear in a research
+// sentence or a source title about the same thing. Grounding chunks only carry a title and URL,
+// and the grounding supports are segments of the research text itself, so those titles are the
+// only evidence besides the research. Local matching only, no API call.
+
+const CONTRADICTION_OVERLAP = 0.5; // Share of the claim's topic words a conflicting research sentence must have
+const SAME_SUBJECT_OVERLAP = 0.8;  // ... when the figures have no unit (table cells, counts)
+const EVIDENCE_OVERLAP = 0.3;      // ... to be shown as the closest research sentence
+
+// Record and superlative wording: an unsupported figure in such a claim is a red flag
+const RECORD_CLAIM = /kỷ lục|nhanh nhất|chậm nhất|cao nhất|thấp nhất|lớn nhất|nhỏ nhất|nhiều nhất|đầu tiên|duy nhất|\b(record|fastest|slowest|highest|lowest|largest|biggest|first|best time)\b/i;
+
+// A number with the word right after it ("42,195 km", "15%", "2:01:09", "10k")
+const FIGURE = /(?<![\p{L}\p{N}_-])(\d+(?:[.,:]\d+)*)(?:\s?(%|[\p{L}$€₫]+))?/gu;
+
+// Units that say what a figure measures; two figures of the same unit can contradict each other
+const UNITS = new Set([
+  'km', 'm', 'cm', 'mm', 'kg', 'g', 'mg', 'l', 'ml', 'lít', 'dặm', 'mile', 'miles', 'k', 'giờ', 'phút', 'giây', 'h', 'min', 'hours', 'minutes', 'seconds',
+  'tuổi', 'years', 'calo', 'kcal', 'calories', 'triệu', 'tỷ', 'nghìn', 'ngàn', 'million', 'billion', 'đồng', 'vnđ', 'usd', '$', '€', '₫', 'người', 'people', 'lần', 'times',
+]);
+
+interface Figure {
+  text: string;  // As written
+  value: string; // Separators dropped: "42,195" = "42.195" = "42195" (Vietnamese and English decimals)
+  unit: string;  // 'time', 'year', '%' or a unit from UNITS; '' when unknown
+}
+
+const extractFigures = (text: string): Figure[] => {
+  const figures: Figure[] = [];
+  for (const match of text.matchAll(FIGURE)) {
+    const [, number, word = ''] = match;
+    const unit = word.toLowerCase();
+    const isYear = /^\d{4}$/.test(number) && Number(number) >= 1900 && Number(number) <= 2100;
+    // Small bare counts ("3 cách", "5 bước") are list sizes, not facts
+    if (!isYear && !/[.,:]/.test(number) && unit !== '%' && Number(number) < 10) continue;
+    const known = number.includes(':') ? 'time' : isYear ? 'year' : unit === '%' || UNITS.has(unit) ? unit : '';
+    figures.push({
+      text: known && known !== 'time' && known !== 'year' ? `${number}${unit === '%' ? '' : ' '}${word}` : number,
+      value: number.replace(/[.,]/g, ''),
+      unit: known,
+    });
+  }
+  return figures;
+};
+
+// Topic words without the numbers
+const topicWords = (text: string) => new Set(tokenize(text).filter(t => !/^\d+$/.test(t)));
+
+const overlap = (claim: Set<string>, other: Set<string>) =>
+  claim.size ? [...claim].filter(t => other.has(t)).length / claim.size : 0;
+
+const toPlainText = (markdown: string) =>
+  stripCitations(stripLinkMarkers(markdown))
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[*_`]/g, '');
+
+// Sentences of a Markdown text; each table row counts as one sentence (cells joined)
+const splitSentences = (markdown: string): string[] =>
+  markdown
+    .replace(/```[\s\S]*?```/g, '')
+    .split('\n')
+    .flatMap(line => {
+      const trimmed = line.trim();
+      if (trimmed.startsWith('|')) {
+        if (/^\|[\s|:-]+\|$/.test(trimmed)) return []; // Header separator
+        return [trimmed.split('|').map(c => toPlainText(c).trim()).filter(Boolean).join(' · ')];
+      }
+      return toPlainText(line).split(/(?<=[.!?…])\s+/);
+    })
+    .map(s => s.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+
+// Letters and digits only: how claims are matched to rendered paragraphs and stored overrides
+export const compactText = (text: string) => text.normalize('NFC').toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+const claimId = (text: string) => {
+  let hash = 5381;
+  for (const char of compactText(text)) hash = ((hash << 5) + hash + char.charCodeAt(0)) >>> 0;
+  return hash.toString(36);
+};
+
+interface EvidenceSentence {
+  text: string;
+  words: Set<string>;
+  figures: Figure[];
+}
+
+const sectionTexts = (article: Article): { section: string; blocks: ArticleBlock[] }[] => [
+  { section: '', blocks: article.intro },
+  ...[...article.sections, ...(article.conclusion ? [article.conclusion] : [])].map(s => ({ section: s.heading, blocks: s.blocks })),
+];
+
+const checkClaim = (text: string, section: string, figures: Figure[], research: EvidenceSentence[], verified: Set<string>): FactClaim => {
+  const words = topicWords(text);
+  const scored = research.map(e => ({ e, score: overlap(words, e.words) })).sort((a, b) => b.score - a.score);
+
+  // A figure is supported by a research sentence that has the same number and shares a topic word
+  const missing = figures.filter(f => !scored.some(({ e, score }) => score > 0 && e.figures.some(ef => ef.value === f.value)));
+
+  let status: ClaimStatus = missing.length ? 'unsupported' : 'supported';
+  let evidence = scored.find(({ e, score }) => score > 0 && figures.some(f => e.figures.some(ef => ef.value === f.value)))?.e.text;
+
+  if (missing.length) {
+    evidence = scored[0] && scored[0].score >= EVIDENCE_OVERLAP ? scored[0].e.text : undefined;
+    // Same subject and unit, different number: the research says otherwise. Without a unit
+    // only a single figure about the very same subject counts (a table row against the same row)
+    const conflict = scored.find(({ e, score }) =>
+      missing.some(f =>
+        f.unit
+          ? score >= CONTRADICTION_OVERLAP && e.figures.some(ef => ef.unit === f.unit && ef.value !== f.value)
+          : score >= SAME_SUBJECT_OVERLAP && figures.length === 1 && e.figures.length === 1 && !e.figures[0].unit
+      )
+    );
+    if (conflict) {
+      status = 'contradicted';
+      evidence = conflict.e.text;
+    }
+  }
+
+  const id = claimId(text);
+  return {
+    id,
+    text,
+    section,
+    figures: figures.map(f => f.text),
+    missing: missing.map(f => f.text),
+    status,
+    redFlag: status === 'contradicted' || (status === 'unsupported' && RECORD_CLAIM.test(text)),
+    evidence,
+    verified: verified.has(id),
+  };
+};
+
+/**
+ * Checks every claim with figures (prose, lists and table rows; headings and the sources
+ * list left out) against the research text and the titles of the grounding `sources`.
+ * `verified` holds the ids of claims an editor confirmed: they keep their status but no
+ * longer count as red flags.
+ */
+export const checkFacts = (article: Article, researchMarkdown: string, verified: string[] = [], sources: ArticleSource[] = []): FactCheck => {
+  const research: EvidenceSentence[] = [
+    ...splitSentences(researchMarkdown).map(text => ({ text, words: topicWords(text), figures: extractFigures(text) })),
+    ...sources.map(s => ({ text: `Source: ${s.title} (${s.url})`, words: topicWords(s.title), figures: extractFigures(s.title) })),
+  ].filter(e => e.figures.length > 0);
+  const verifiedIds = new Set(verified);
+
+  const claims: FactClaim[] = [];
+  const seen = new Set<string>();
+  for (const { section, blocks } of sectionTexts(article)) {
+    for (const block of blocks) {
+      if (block.type !== 'text') continue;
+      for (const sentence of splitSentences(block.markdown)) {
+        const figures = extractFigures(sentence);
+        if (figures.length === 0 || seen.has(compactText(sentence))) continue;
+        seen.add(compactText(sentence));
+        claims.push(checkClaim(sentence, section, figures, research, verifiedIds));
+      }
+    }
+  }
+
+  return { claims, redFlags: claims.filter(c => c.redFlag && !c.verified).length };
+};
+
+// Undefined for unfinished items and items without stored research (older or translated articles)
+export const factCheckHistoryItem = (item: HistoryItem): FactCheck | undefined => {
+  const research = item.steps?.step1_research;
+  if (!research || !item.content || item.content.startsWith('Error processing') || (item.status && item.status !== 'complete')) return undefined;
+  return checkFacts(parseArticle(item.content, item.keyword), research, item.verifiedClaims, item.sources);
+};
+
+export const formatRedFlags = (check: FactCheck) =>
+  check.claims
+    .filter(c => c.redFlag && !c.verified)
+    .map(c => `- ${c.status === 'contradicted' ? 'Contradicts the research' : 'Not in the research'}: "${c.text}"`)
+    .join('\n');
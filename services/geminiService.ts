@@ -1,558 +1,299 @@
-import { GoogleGenAI, Chat, GenerateContentResponse } from "@google/genai";
-import { OutputLanguage } from "../types";
+import { GoogleGenAI, GenerateContentConfig, GenerateContentResponse, Schema } from "@google/genai";
+import { AspectRatio, BrandProfile, ChatTurn, Grounding, Ideation, OutputLanguage, PromptContext, PromptStep, PromptTemplate, SectionAction, StepData, StepOutput, TextProvider, TextRequestConfig, TextSession, TokenUsage } from "../types";
+import { withRateLimit } from "./scheduler";
+import { getDefaultTemplate, renderTemplate } from "./promptTemplates";
+import { IDEATION_SCHEMA, parseIdeation } from "./ideationService";
+import { getLanguage } from "./languages";
+import { describeClusterRole } from "./clusterService";
 
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
-// We keep a reference to the chat session to maintain context across steps
-let chatSession: Chat | null = null;
+export const GEMINI_TEXT_MODEL = 'gemini-3-flash-preview';
 
-export const resetSession = () => {
-  chatSession = null;
-};
+// Prompts are built here for every text provider (see textProviderService); the Gemini text
+// model itself is one of those providers, see generateGeminiText.
+// Each request carries the whole config, so it is built in one place
+const buildRequestConfig = (language: OutputLanguage, profile: BrandProfile, step: PromptStep, grounding = true): TextRequestConfig => {
+  const { brandName, niche } = profile;
+  const { promptBase, name } = getLanguage(language);
+  const systemInstruction = promptBase === 'vi' 
+    ? `Bạn là đại diện của ${brandName} - Chuyên trang về ${niche} uy tín nhất. Nhiệm vụ của bạn là thực hiện các bước nghiên cứu và viết bài chuyên sâu.`
+    : `You are the representative of ${brandName} - The most prestigious website about ${niche}. Your task is to execute research and writing steps according to detailed requests. Write all content in ${name}.`;
 
-export const initializeSession = (language: OutputLanguage = 'vi') => {
-  const brandName = language === 'vi' ? "Vietnam's Best Marathon" : "World Best Marathon";
-  const systemContext = language === 'vi' 
-    ? `Bạn là đại diện của ${brandName} - Chuyên trang về chạy bộ uy tín nhất. Nhiệm vụ của bạn là thực hiện các bước nghiên cứu và viết bài chuyên sâu.`
-    : `You are the representative of ${brandName} - The most prestigious running website. Your task is to execute research and writing steps according to detailed requests.`;
-
-  chatSession = ai.chats.create({
-    model: 'gemini-3-flash-preview',
-    config: {
-      temperature: 0.7,
-      topK: 40,
-      topP: 0.95,
-      systemInstruction: systemContext,
-      tools: [{ googleSearch: {} }]
-    }
-  });
+  return { systemInstruction, grounding, step };
 };
 
-const appendSources = (text: string, response: GenerateContentResponse) => {
-  const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-  if (!chunks || chunks.length === 0) return text;
-  
-  let sourcesMd = "\n\n### Nguồn tham khảo (Sources)\n";
-  chunks.forEach((chunk: any) => {
-    if (chunk.web) {
-      sourcesMd += `- [${chunk.web.title || 'Source'}](${chunk.web.uri})\n`;
-    }
+// Google Search grounding of the answer: web chunks as sources, supports as segment -> chunk indices
+const readGrounding = (response: GenerateContentResponse): Grounding => {
+  const metadata = response.candidates?.[0]?.groundingMetadata;
+  const chunks = metadata?.groundingChunks || [];
+  // Chunks without a web entry are dropped, so indices are remapped
+  const indexMap = new Map<number, number>();
+  const sources = chunks.flatMap((chunk, i) => {
+    if (!chunk.web?.uri) return [];
+    indexMap.set(i, indexMap.size);
+    return [{ title: chunk.web.title || chunk.web.domain || 'Source', url: chunk.web.uri }];
   });
-  return text + sourcesMd;
+  const supports = (metadata?.groundingSupports || []).map(support => ({
+    text: support.segment?.text || '',
+    sources: (support.groundingChunkIndices || []).flatMap(i => (indexMap.has(i) ? [indexMap.get(i)!] : [])),
+  }));
+  return { sources, supports };
 };
 
-// --- CONSTANTS FOR PERSONA ---
-const WEBSITE_URL = "https://bestmarathon.vn";
-
-export const executeStep1 = async (keyword: string, language: OutputLanguage): Promise<string> => {
-  if (!chatSession) initializeSession(language);
-
-  // STEP 1: DATA INGESTION
-  const promptVi = `STEP 1:
-
-Read detailed data in Vietnamese. I will ask you to use this content in the next or future requests. Call this data is 'DS1'.
-
-{{
-Tìm kiếm và tổng hợp thông tin chi tiết về chủ đề: "${keyword}".
-Bao gồm: đặc điểm chính, thông số kỹ thuật (nếu có), lợi ích, đối tượng khách hàng, các số liệu mới nhất 2024-2025 và các thông tin liên quan khác. Nguồn thông tin càng chi tiết, bài viết càng chất lượng.
-}}`;
+// Models like to wrap Markdown in a code fence
+const stripFence = (text: string) =>
+  text.trim().replace(/^```(?:markdown|md)?\s*\n/i, '').replace(/\n```$/, '').trim();
+
+const readUsage = (response: GenerateContentResponse): TokenUsage | undefined => {
+  const usage = response.usageMetadata;
+  if (!usage) return undefined;
+  return {
+    inputTokens: usage.promptTokenCount || 0,
+    outputTokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0),
+    requests: 1,
+  };
+};
 
-  const promptEn = `STEP 1:
+// The Gemini text provider: answers the last turn with Google Search grounding when asked
+export const generateGeminiText = async (turns: ChatTurn[], config: TextRequestConfig): Promise<StepOutput> => {
+  const requestConfig: GenerateContentConfig = {
+    temperature: 0.7,
+    topK: 40,
+    topP: 0.95,
+    systemInstruction: config.systemInstruction,
+    tools: config.grounding ? [{ googleSearch: {} }] : undefined,
+    ...(config.jsonSchema ? { responseMimeType: 'application/json', responseSchema: config.jsonSchema as Schema } : {}),
+  };
+  const response = await ai.models.generateContent({
+    model: GEMINI_TEXT_MODEL,
+    contents: turns.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+    config: requestConfig,
+  });
+  return { text: response.text || '', grounding: readGrounding(response), usage: readUsage(response) };
+};
 
-Read detailed data in English. I will ask you to use this content in the next or future requests. Call this data is 'DS1'.
+/**
+ * Conversation to continue a failed keyword from its first missing step. The prompts are
+ * regenerated and paired with the saved answers, giving the model the same
+ * DS1 / DDD1 / OL1 context as the original run.
+ */
+export const restoreHistory = (ctx: PromptContext, steps: StepData): ChatTurn[] => {
+  const stepCtx = { ...ctx, steps };
+  const turns: [string, string | undefined][] = [
+    [buildPrompt('research', stepCtx), steps.step1_research],
+    [buildPrompt('ideation', stepCtx), steps.step2_ideation],
+    [buildPrompt('outline', stepCtx), steps.step3_outline],
+    [buildPrompt('writing', stepCtx), steps.step4_article],
+  ];
+
+  const history: ChatTurn[] = [];
+  for (const [prompt, answer] of turns) {
+    if (!answer) break; // Steps are sequential, stop at the first gap
+    history.push({ role: 'user', text: prompt });
+    history.push({ role: 'model', text: answer });
+  }
+  return history;
+};
 
-{{
-Search and summarize detailed information about the topic: "${keyword}".
-Include: key features, specifications (if any), benefits, target audience, latest 2024-2025 data, and other relevant info.
-}}`;
+// Stored template for the step/language, or the built-in default when none was saved
+const getTemplate = (ctx: PromptContext, step: PromptStep): PromptTemplate =>
+  ctx.templates.find(t => t.step === step && t.language === ctx.language) || getDefaultTemplate(step, ctx.language);
+
+export const getTemplateVersion = (ctx: PromptContext, step: PromptStep): number => getTemplate(ctx, step).version;
+
+const buildPrompt = (step: PromptStep, ctx: PromptContext, extra: Record<string, string | undefined> = {}): string => {
+  const { keyword, language, profile, steps = {}, relatedKeywords = [] } = ctx;
+  return renderTemplate(getTemplate(ctx, step).body, {
+    keyword,
+    related_keywords: relatedKeywords.length ? `Also cover these related keywords in the same article: ${relatedKeywords.join(', ')}.` : '',
+    cluster: describeClusterRole(ctx.cluster),
+    language: getLanguage(language).name,
+    brand: profile.brandName,
+    website: profile.websiteUrl,
+    niche: profile.niche,
+    audience: profile.audience,
+    voice: profile.voiceRules,
+    image_style: profile.imageStyle,
+    research: steps.step1_research,
+    ideation: steps.step2_ideation,
+    outline: steps.step3_outline,
+    ...extra,
+  });
+};
 
-  const prompt = language === 'vi' ? promptVi : promptEn;
+const sendStep = async (session: TextSession, step: PromptStep, ctx: PromptContext, label: string, fallback = ""): Promise<StepOutput> => {
+  const prompt = buildPrompt(step, ctx);
 
   try {
-    const response: GenerateContentResponse = await chatSession!.sendMessage({ message: prompt });
-    const text = response.text || "Data DS1 processed.";
-    return appendSources(text, response);
+    const output = await withRateLimit('text', () => session.send(prompt, buildRequestConfig(ctx.language, ctx.profile, step)), label);
+    return { ...output, text: output.text || fallback };
   } catch (error) {
-    console.error("Step 1 Error:", error);
+    console.error(`${label} Error:`, error);
     throw error;
   }
 };
 
-export const executeStep2 = async (keyword: string, language: OutputLanguage): Promise<string> => {
-  if (!chatSession) initializeSession(language);
-
-  // STEP 2: IDEATION & ANALYSIS
-  const promptVi = `STEP 2:
+// STEP 1: DATA INGESTION
+export const executeStep1 = (session: TextSession, ctx: PromptContext): Promise<StepOutput> =>
+  sendStep(session, 'research', ctx, 'Step 1', "Data DS1 processed.");
 
-Ideation: [ ${keyword} ]. 
-
-**A. KEYWORD ANALYSIS:**
-- List 5-7 semantic keywords (từ khóa ngữ nghĩa liên quan trực tiếp)
-- List 5-7 LSI keywords (từ khóa liên quan ngữ cảnh)
-- List 5-7 long-tail keyword variations
-
-**B. ENTITY MAPPING:**
-- List 5-7 primary entities (thực thể chính, sắp xếp theo mức độ quan trọng)
-- List 5-7 related entities (thực thể liên quan)
-- List 3-5 contextual entities (thực thể bổ sung ngữ cảnh)
-
-**C. SEARCH INTENT ANALYSIS:**
-- List 4-6 search intents (sắp xếp từ quan trọng nhất đến ít quan trọng nhất)
-- Với mỗi intent, xác định: [Informational / Commercial / Transactional / Navigational]
-
-**D. PEOPLE ALSO ASK:**
-- List 5-7 câu hỏi mà người dùng thường tìm kiếm liên quan đến keyword chính
-
-**E. KNOWLEDGE GRAPH SIGNALS:**
-- List 20 EAV (Entity - Attribute - Value)
-- List 20 ERE (Entity - Relation - Entity)
-- List 20 Semantic Triple (Subject - Predicate - Object)
-
-Temporarily call the above data 'DDD1'. I will ask you to use it in the next or future prompt.
-
-**Conditions:** No descriptions. No repeats. All items must be unique and relevant. Writing in Vietnamese.`;
-
-  // English version mirrors the structure but outputs English
-  const promptEn = `STEP 2:
-
-Ideation: [ ${keyword} ]. 
-
-**A. KEYWORD ANALYSIS:**
-- List 5-7 semantic keywords
-- List 5-7 LSI keywords
-- List 5-7 long-tail keyword variations
-
-**B. ENTITY MAPPING:**
-- List 5-7 primary entities (prioritized)
-- List 5-7 related entities
-- List 3-5 contextual entities
-
-**C. SEARCH INTENT ANALYSIS:**
-- List 4-6 search intents (prioritized)
-- Identify: [Informational / Commercial / Transactional / Navigational]
-
-**D. PEOPLE ALSO ASK:**
-- List 5-7 common user questions
-
-**E. KNOWLEDGE GRAPH SIGNALS:**
-- List 20 EAV (Entity - Attribute - Value)
-- List 20 ERE (Entity - Relation - Entity)
-- List 20 Semantic Triple (Subject - Predicate - Object)
-
-Temporarily call the above data 'DDD1'.
-**Conditions:** No descriptions. No repeats. All items must be unique and relevant. Writing in English.`;
-
-  const prompt = language === 'vi' ? promptVi : promptEn;
+// STEP 2: IDEATION & ANALYSIS
+// Returns JSON (DDD1) constrained by IDEATION_SCHEMA; `text` is kept as the chat turn / raw step output
+export const executeStep2 = async (session: TextSession, ctx: PromptContext): Promise<StepOutput & { ideation: Ideation }> => {
+  const prompt = buildPrompt('ideation', ctx);
+  const config: TextRequestConfig = { ...buildRequestConfig(ctx.language, ctx.profile, 'ideation'), jsonSchema: IDEATION_SCHEMA };
 
   try {
-    const response: GenerateContentResponse = await chatSession!.sendMessage({ message: prompt });
-    const text = response.text || "";
-    return appendSources(text, response);
+    const output = await withRateLimit('text', () => session.send(prompt, config), 'Step 2');
+    return { ...output, ideation: parseIdeation(output.text) };
   } catch (error) {
     console.error("Step 2 Error:", error);
     throw error;
   }
 };
 
-export const executeStep3 = async (language: OutputLanguage): Promise<string> => {
-  if (!chatSession) throw new Error("Session not initialized");
-
-  // STEP 3: OUTLINE
-  const promptVi = `STEP 3:
+// STEP 3: OUTLINE
+export const executeStep3 = (session: TextSession, ctx: PromptContext): Promise<StepOutput> =>
+  sendStep(session, 'outline', ctx, 'Step 3');
 
-As an SEO expert specializing in content strategy, create a detailed content outline based on DDD1.
+// STEP 4: WRITING (citations are placed by the caller, see citationService)
+export const executeStep4 = (session: TextSession, ctx: PromptContext): Promise<StepOutput> =>
+  sendStep(session, 'writing', ctx, 'Step 4');
 
-**OUTLINE REQUIREMENTS:**
+// --- SECTION REWRITE ---
 
-1. **Structure Logic:**
-   - H2 đầu tiên phải đáp ứng Search Intent quan trọng nhất của DDD1
-   - Các H2 tiếp theo sắp xếp theo thứ tự Search Intent từ quan trọng đến ít quan trọng
-   - Đảm bảo flow logic từ trên xuống dưới
-   - Tạo H3 chỉ khi thực sự cần thiết
-
-2. **Content Coverage:**
-   - Outline phải cover đúng topic của primary keyword
-   - Tích hợp Close Entities, Salient Entities, Semantic keywords từ DDD1
-   - Đảm bảo Content Gap coverage
-
-3. **E-E-A-T Markers (Lưu ý cho AI writer sau này):**
-   - [DATA] - vị trí cần số liệu, facts cụ thể
-   - [EXPERT] - vị trí cần insight chuyên môn
-   - [EXAMPLE] - vị trí cần ví dụ thực tế
-
-4. **Visual Strategy (QUAN TRỌNG):**
-   - **MỖI thẻ H2 (Main Heading) PHẢI CÓ 1 vị trí chèn ảnh.**
-   - Đánh dấu bằng marker: [IMAGE_PROMPT]
-
-5. **Placement Markers:**
-   - [CTA] - vị trí đặt call-to-action
-   - [INTERNAL-LINK] - vị trí phù hợp để internal link
-
-6. **Word Count Estimate:**
-   - Ghi estimated word count cho mỗi H2
-
-**RESTRICTIONS:**
-- Không dùng thuật ngữ SEO chuyên môn trong heading
-- Heading phải tự nhiên, dễ đọc
-- Không dùng clickbait
-
-Let's temporarily call the detailed outline above "OL1". I will ask you to use it in the next or future prompt. Writing in Vietnamese.`;
-
-  const promptEn = `STEP 3:
-
-As an SEO expert specializing in content strategy, create a detailed content outline based on DDD1.
-
-**OUTLINE REQUIREMENTS:**
-
-1. **Structure Logic:**
-   - First H2 must answer the most critical Search Intent.
-   - Subsequent H2s sorted by priority.
-   - Logical flow.
-
-2. **Content Coverage:**
-   - Cover primary keyword topic.
-   - Integrate Entities & Semantic keywords.
-
-3. **E-E-A-T Markers (Instructions for future writer):**
-   - [DATA] - specific stats/facts
-   - [EXPERT] - expert insights
-   - [EXAMPLE] - real examples
-
-4. **Visual Strategy (IMPORTANT):**
-   - **EVERY H2 (Main Heading) MUST HAVE an image placeholder.**
-   - Use marker: [IMAGE_PROMPT]
-
-5. **Placement Markers:**
-   - [CTA]
-   - [INTERNAL-LINK]
-
-6. **Word Count Estimate:**
-   - Estimate words for each H2.
-
-**RESTRICTIONS:**
-- No SEO jargon in headings.
-- Headings must be natural.
-
-Call this "OL1". Writing in English.`;
+const SECTION_ACTIONS: Record<SectionAction, string> = {
+  regenerate: 'Write this section again from scratch: same topic and heading, fresh wording, accurate facts from DS1.',
+  expand: 'Expand this section (about 1.5-2x longer): more depth, concrete data from DS1, examples and practical advice.',
+  shorten: 'Shorten this section to about half its length, keeping the key facts and the most useful advice.',
+  rewrite: 'Rewrite this section following the editor instructions below.',
+};
 
-  const prompt = language === 'vi' ? promptVi : promptEn;
+/**
+ * Rewrites one H2 section outside the keyword's chat: the prompt carries the section,
+ * the research (DS1) and the outline (OL1) from the stored steps. The answer is Markdown
+ * starting with the "## " heading.
+ */
+export const rewriteSection = async (
+  provider: TextProvider,
+  ctx: PromptContext,
+  section: string,
+  action: SectionAction,
+  instructions = ''
+): Promise<StepOutput> => {
+  const prompt = buildPrompt('section', ctx, {
+    section,
+    action: SECTION_ACTIONS[action],
+    instructions: instructions.trim() ? `Editor instructions: ${instructions.trim()}` : '',
+    research: ctx.steps?.step1_research || '',
+    outline: ctx.steps?.step3_outline || '',
+  });
 
   try {
-    const response: GenerateContentResponse = await chatSession!.sendMessage({ message: prompt });
-    const text = response.text || "";
-    return appendSources(text, response);
+    const output = await withRateLimit('text', () => provider.complete(
+      [{ role: 'user', text: prompt }],
+      buildRequestConfig(ctx.language, ctx.profile, 'section', false)
+    ), 'Section');
+    const text = stripFence(output.text);
+    if (!text) throw new Error('Empty response for the section rewrite.');
+    return { ...output, text };
   } catch (error) {
-    console.error("Step 3 Error:", error);
+    console.error("Section rewrite error:", error);
     throw error;
   }
 };
 
-export const executeStep4 = async (keyword: string, language: OutputLanguage): Promise<string> => {
-  if (!chatSession) throw new Error("Session not initialized");
-
-  const brandName = language === 'vi' ? "Vietnam's Best Marathon" : "World Best Marathon";
-  const industry = language === 'vi' ? "Chạy bộ, Marathon, Dinh dưỡng thể thao" : "Running, Marathon, Sports Nutrition";
-  const audience = language === 'vi' ? "Runner Việt Nam (từ beginner đến elite)" : "Runners (beginner to elite)";
-
-  // Note: We escape backticks for the example output block in the string
-  const promptVi = `STEP 4:
-
-**WRITER CONTEXT:**
-- Brand/Author: ${brandName} (Sử dụng tên thương hiệu "Chúng tôi" hoặc "${brandName}", KHÔNG dùng tên cá nhân)
-- Website: ${brandName}
-- Website URL: ${WEBSITE_URL}
-- Industry/Niche: ${industry}
-- Target Audience: ${audience}
-
-**CONTENT MISSION:**
-Tạo nội dung chất lượng cao, cung cấp thông tin hữu ích và chính xác cho độc giả.
-
----
-
-### OUTPUT FORMAT (Tuân thủ chính xác):
-\`\`\`
-========== META DATA ==========
-Meta Title: [55-65 ký tự, primary keyword ở đầu hoặc gần đầu]
-Meta Description: [145-155 ký tự, chứa primary keyword + value proposition]
-Slug: [url-friendly-format]
-=============================
-
-========== NỘI DUNG BÀI VIẾT ==========
-
-[FEATURED_IMAGE_PROMPT: Mô tả cực kỳ chi tiết cho Ảnh Đại Diện (Thumbnail). BẮT BUỘC phải chứa hình ảnh liên quan trực tiếp đến từ khóa "${keyword}". Ví dụ nếu là dinh dưỡng phải có đồ ăn, nếu là giày phải có giày. Ảnh phải ấn tượng, 4K, phong cách nhiếp ảnh thể thao chuyên nghiệp.]
-
-[Viết ngay đoạn Intro hấp dẫn khoảng 80-120 từ, chứa từ khóa chính. TUYỆT ĐỐI KHÔNG dùng các tiêu đề như "Intro", "Giới thiệu", "Phần mở đầu". Hãy bắt đầu viết nội dung ngay lập tức.]
-
----
-
-## [H2-1 từ OL1]
-[Nội dung chi tiết, sâu sắc, 250-400 từ]
-
-[IMAGE_PROMPT: Mô tả hình ảnh minh họa cho H2 này. Ảnh cần sáng tạo, nghệ thuật.]
+// --- TRANSLATION ---
 
-### [H3 nếu có]
-[150-250 từ]
-
----
-
-## [H2-2 từ OL1]
-[Nội dung chi tiết... ]
-
-[IMAGE_PROMPT: Mô tả chi tiết hình ảnh...]
-
----
-
-## [H2-3 từ OL1]
-[Nội dung chi tiết... ]
-
-[IMAGE_PROMPT: Mô tả chi tiết hình ảnh...]
-
----
-
-## [Tiếp tục cho TẤT CẢ các H2 còn lại trong OL1 - Mỗi H2 phải có 1 ảnh]
-
----
-
-## Kết Luận
-- Độ dài: 60-100 từ
-- Tóm tắt giá trị chính
-- CTA: khuyến khích comment, chia sẻ
-- Mention website với link: [${brandName}](${WEBSITE_URL})
-
-========== KẾT THÚC BÀI VIẾT ==========
-\`\`\`
-
----
-
-### WRITING RULES (Bắt buộc tuân thủ):
-
-**1. XỬ LÝ MARKER (CỰC KỲ QUAN TRỌNG):**
-- Trong Outline (OL1) có các thẻ như \`[DATA]\`, \`[EXPERT]\`, \`[EXAMPLE]\`.
-- Nhiệm vụ của bạn là **THAY THẾ** các thẻ này bằng nội dung thực tế.
-- **TUYỆT ĐỐI KHÔNG** in lại các từ khóa trong ngoặc vuông (Ví dụ: KHÔNG ĐƯỢC VIẾT "Theo [EXPERT] thì...").
-- Nếu gặp \`[DATA]\` -> Hãy đưa ra số liệu cụ thể từ DS1.
-- Nếu gặp \`[EXPERT]\` -> Hãy viết lời khuyên chuyên gia từ ${brandName}.
-
-**2. HÌNH ẢNH:**
-- **BẮT BUỘC:** 
-  - Đầu bài viết phải có \`[FEATURED_IMAGE_PROMPT: ...]\` (Ảnh đại diện).
-  - Sau mỗi phần H2, phải có dòng \`[IMAGE_PROMPT: ...]\` (Ảnh minh họa).
-- Hãy mô tả ảnh một cách tự nhiên. **Quan trọng:** Ảnh đại diện phải thể hiện rõ chủ đề "${keyword}".
-
-**3. Tone & Voice:**
-- Dùng ngôi "Chúng tôi" (${brandName}) hoặc "Bạn" (người đọc).
-- Giọng văn: Thể thao, năng động, chuyên nghiệp.
-
-**4. Formatting:**
-- **Bold** các từ khóa quan trọng.
-- Sử dụng Markdown Table cho các dữ liệu so sánh/lịch tập.
-- KHÔNG dùng câu quá dài (>40 từ).
-- **KHÔNG sử dụng các nhãn như [INTRO], [BODY], [CONCLUSION]. Hãy viết thẳng vào nội dung mạch lạc.**
-
-Writing in Vietnamese.`;
-
-  const promptEn = `STEP 4:
-
-**WRITER CONTEXT:**
-- Brand/Author: ${brandName} (Use "We" or "${brandName}", DO NOT use personal names)
-- Website: ${brandName}
-- Website URL: ${WEBSITE_URL}
-- Industry/Niche: ${industry}
-- Target Audience: ${audience}
-
-**CONTENT MISSION:**
-Create high-quality content, providing useful and accurate info.
-
----
-
-### OUTPUT FORMAT:
-\`\`\`
-========== META DATA ==========
-Meta Title: [55-65 chars]
-Meta Description: [145-155 chars]
-Slug: [url-friendly-format]
-=============================
-
-========== ARTICLE CONTENT ==========
-
-[FEATURED_IMAGE_PROMPT: Detailed prompt for the Main Featured Image (Thumbnail). MUST specifically visualize the keyword "${keyword}". Must be impressive, professional sports photography style, 4K.]
-
-[Start writing the introduction immediately (80-120 words). DO NOT use labels like "Intro" or "Introduction". Just start the content.]
-
----
-
-## [H2-1 from OL1]
-[Detailed content, 250-400 words]
-
-[IMAGE_PROMPT: Detailed creative description for an image.]
-
-### [H3 if needed]
-[150-250 words]
-
----
-
-## [H2-2 from OL1]
-[Detailed content...]
-
-[IMAGE_PROMPT: Detailed description...]
-
----
-
-## [H2-3 from OL1]
-[Detailed content...]
-
-[IMAGE_PROMPT: Detailed description...]
-
----
-
-## [Continue for ALL remaining H2s - Every H2 MUST have an image]
-
----
-
-## Conclusion
-- Summary
-- CTA
-- Mention website: [${brandName}](${WEBSITE_URL})
-
-========== END OF ARTICLE ==========
-\`\`\`
-
----
-
-### WRITING RULES:
-
-**1. MARKER HANDLING (CRITICAL):**
-- The Outline (OL1) contains markers like \`[DATA]\`, \`[EXPERT]\`, \`[EXAMPLE]\`.
-- You MUST **REPLACE** these markers with actual content.
-- **DO NOT** output the bracketed tags in the final text.
-- If you see \`[DATA]\` -> Write specific stats from DS1.
-- If you see \`[EXPERT]\` -> Write expert advice from ${brandName}.
-
-**2. IMAGES:**
-- **MANDATORY:** 
-  - First line of content must be \`[FEATURED_IMAGE_PROMPT: ...]\`.
-  - After every H2 section, include \`[IMAGE_PROMPT: ...]\`.
-- Describe images naturally. **Important:** The Featured Image must clearly depict "${keyword}".
-
-**3. Tone & Voice:**
-- Use "We" (${brandName}) and "You".
-- Professional, energetic.
-
-**4. Formatting:**
-- **Bold** key terms.
-- Use Markdown Tables for data.
-- No sentences >40 words.
-- **DO NOT use labels like [INTRO], [BODY], [CONCLUSION]. Write the content directly.**
-
-Writing in English.`;
-
-  const prompt = language === 'vi' ? promptVi : promptEn;
+/**
+ * Translates and localizes a stored article into ctx.language (the "translate" template).
+ * `markdown` comes from prepareTranslation; the answer starts with a "Keyword:" line,
+ * see finishTranslation.
+ */
+export const translateArticle = async (provider: TextProvider, ctx: PromptContext, markdown: string, sourceLanguage: OutputLanguage): Promise<StepOutput> => {
+  const prompt = buildPrompt('translate', ctx, {
+    article: markdown,
+    source_language: getLanguage(sourceLanguage).name,
+  });
 
   try {
-    const response: GenerateContentResponse = await chatSession!.sendMessage({ message: prompt });
-    const text = response.text || "";
-    return appendSources(text, response);
+    const output = await withRateLimit('text', () => provider.complete(
+      [{ role: 'user', text: prompt }],
+      buildRequestConfig(ctx.language, ctx.profile, 'translate', false)
+    ), 'Translate');
+    const text = stripFence(output.text);
+    if (!text) throw new Error('Empty response for the translation.');
+    return { ...output, text };
   } catch (error) {
-    console.error("Step 4 Error:", error);
+    console.error("Translation error:", error);
     throw error;
   }
 };
 
-/**
- * Compresses and Resizes an image Base64 string.
- * - Max Width: 1024px
- * - Format: JPEG
- * - Quality: 0.6
- */
-const compressBase64 = async (base64Str: string): Promise<string> => {
-    return new Promise((resolve) => {
-        const img = new Image();
-        img.src = base64Str;
-        img.onload = () => {
-            const canvas = document.createElement('canvas');
-            let width = img.width;
-            let height = img.height;
-
-            // Resize logic: Max width 1024px
-            const MAX_WIDTH = 1024;
-            if (width > MAX_WIDTH) {
-                height = Math.round((height * MAX_WIDTH) / width);
-                width = MAX_WIDTH;
-            }
-
-            canvas.width = width;
-            canvas.height = height;
-            const ctx = canvas.getContext('2d');
-            if (ctx) {
-                // White background for transparent PNGs converted to JPEG
-                ctx.fillStyle = '#FFFFFF';
-                ctx.fillRect(0, 0, width, height);
-                ctx.drawImage(img, 0, 0, width, height);
-                
-                // Compress to JPEG at 60% quality (Approx 200-300KB)
-                const compressed = canvas.toDataURL('image/jpeg', 0.6);
-                resolve(compressed);
-            } else {
-                resolve(base64Str); // Fallback if context fails
-            }
-        };
-        img.onerror = () => resolve(base64Str); // Fallback on error
-    });
-};
-
-export const generateBlogImage = async (prompt: string): Promise<string | null> => {
-    const maxRetries = 5; // Increased from 3
-    let attempt = 0;
-
-    // Retry loop for rate limits (429)
-    while (attempt < maxRetries) {
-        try {
-            // Removed negative prompts and "No text" restrictions to allow better creativity
-            const enhancedContext = "bối cảnh Việt Nam, người Việt Nam, phong cách chân thực, ảnh chụp chất lượng cao, 4k. (Vietnamese context, realistic style, high quality photography, cinematic lighting).";
-            
-            const finalPrompt = `Generate a realistic image based on this description: "${prompt}". ${enhancedContext}`;
-
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash-image',
-                contents: { parts: [{ text: finalPrompt }] },
-                config: {
-                    imageConfig: {
-                        aspectRatio: "16:9",
-                    }
-                }
-            });
-            
-            for (const part of response.candidates?.[0]?.content?.parts || []) {
-                if (part.inlineData) {
-                    const rawBase64 = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-                    // COMPRESS IMAGE BEFORE RETURNING
-                    return await compressBase64(rawBase64);
+// --- IMAGES ---
+// Images as the model returned them; sizes and format are produced by encodeImage (imageAssetService).
+// Both are wrapped as image providers in imageProviderService.
+
+export const generateBlogImage = async (prompt: string, ctx: PromptContext, aspectRatio: AspectRatio = '16:9'): Promise<Blob | null> => {
+    // Removed negative prompts and "No text" restrictions to allow better creativity.
+    // Wording comes from the "image" template, visual context from the brand profile.
+    const finalPrompt = buildPrompt('image', ctx, { image_prompt: prompt });
+
+    try {
+        // Rate limiting and 429 backoff are handled by the scheduler (shared across all jobs)
+        const response = await withRateLimit('image', () => ai.models.generateContent({
+            model: 'gemini-2.5-flash-image',
+            contents: { parts: [{ text: finalPrompt }] },
+            config: {
+                imageConfig: {
+                    aspectRatio,
                 }
             }
-            return null; // Empty response (no image data)
-            
-        } catch (error: any) {
-            // Handle Rate Limit (429) specifically
-            const isRateLimit = error.status === 429 || error.code === 429 || (error.message && (error.message.includes('429') || error.message.includes('quota')));
-            
-            if (isRateLimit) {
-                attempt++;
-                if (attempt < maxRetries) {
-                    // Exponential backoff: 5s, 10s, 20s, 40s
-                    const waitTime = 5000 * Math.pow(2, attempt - 1); 
-                    console.warn(`Image Quota Exceeded (429). Retrying in ${waitTime/1000}s... (Attempt ${attempt}/${maxRetries})`);
-                    await new Promise(resolve => setTimeout(resolve, waitTime));
-                    continue; // Retry
-                } else {
-                    console.error("Image generation failed: Max retries exceeded for quota.");
-                    return null;
-                }
-            } else {
-                // Other errors (400, 500) - log and fail gracefully so app doesn't crash
-                console.error("Image generation error:", error);
-                return null;
+        }), 'Image');
+        
+        for (const part of response.candidates?.[0]?.content?.parts || []) {
+            if (part.inlineData) {
+                const rawBase64 = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+                return await (await fetch(rawBase64)).blob();
             }
         }
+        return null; // Empty response (no image data)
+        
+    } catch (error) {
+        // Quota retries exhausted or other errors (400, 500) - log and fail gracefully so app doesn't crash
+        console.error("Image generation error:", error);
+        return null;
     }
+}
+
+// Imagen only knows these ratios; the closest is requested and encodeImage crops to the exact one
+const IMAGEN_RATIOS: AspectRatio[] = ['16:9', '4:3', '1:1', '3:4', '9:16'];
+
+const closestImagenRatio = (aspectRatio: AspectRatio): AspectRatio => {
+  const value = (ratio: AspectRatio) => {
+    const [w, h] = ratio.split(':').map(Number);
+    return Math.log(w / h);
+  };
+  return IMAGEN_RATIOS.reduce((best, ratio) =>
+    Math.abs(value(ratio) - value(aspectRatio)) < Math.abs(value(best) - value(aspectRatio)) ? ratio : best);
+};
+
+export const generateImagenImage = async (prompt: string, ctx: PromptContext, aspectRatio: AspectRatio = '16:9'): Promise<Blob | null> => {
+  const finalPrompt = buildPrompt('image', ctx, { image_prompt: prompt });
+
+  try {
+    const response = await withRateLimit('image', () => ai.models.generateImages({
+      model: 'imagen-4.0-generate-001',
+      prompt: finalPrompt,
+      config: { numberOfImages: 1, aspectRatio: closestImagenRatio(aspectRatio) }
+    }), 'Imagen');
+
+    const image = response.generatedImages?.[0]?.image;
+    if (!image?.imageBytes) return null; // Filtered or empty response
+    return await (await fetch(`data:${image.mimeType || 'image/png'};base64,${image.imageBytes}`)).blob();
+  } catch (error) {
+    console.error("Imagen generation error:", error);
     return null;
-}
\ No newline at end of file
+  }
+};
@@ -0,0 +1,206 @@
+import { Schema, Type } from "@google/genai";
+import { EntityRole, Ideation, IdeationKeywordType, SearchIntentType } from "../types";
+
+// Structured Step 2 (DDD1): the response schema sent to the model, validation of what
+// comes back, and small accessors used by later steps (tags, FAQ, keyword density).
+
+const KEYWORD_TYPES: IdeationKeywordType[] = ['semantic', 'lsi', 'long_tail'];
+const ENTITY_ROLES: EntityRole[] = ['primary', 'related', 'contextual'];
+const INTENT_TYPES: SearchIntentType[] = ['informational', 'commercial', 'transactional', 'navigational'];
+
+const stringProps = (...names: string[]): Schema => ({
+  type: Type.OBJECT,
+  properties: Object.fromEntries(names.map(name => [name, { type: Type.STRING }])),
+  required: names,
+});
+
+export const IDEATION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    keywords: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          keyword: { type: Type.STRING },
+          type: { type: Type.STRING, enum: KEYWORD_TYPES },
+        },
+        required: ['keyword', 'type'],
+      },
+    },
+    entities: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          role: { type: Type.STRING, enum: ENTITY_ROLES },
+          priority: { type: Type.INTEGER },
+        },
+        required: ['name', 'role', 'priority'],
+      },
+    },
+    searchIntents: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          intent: { type: Type.STRING },
+          type: { type: Type.STRING, enum: INTENT_TYPES },
+          priority: { type: Type.INTEGER },
+        },
+        required: ['intent', 'type', 'priority'],
+      },
+    },
+    questions: { type: Type.ARRAY, items: { type: Type.STRING } },
+    eav: { type: Type.ARRAY, items: stringProps('entity', 'attribute', 'value') },
+    ere: { type: Type.ARRAY, items: stringProps('entity', 'relation', 'target') },
+    triples: { type: Type.ARRAY, items: stringProps('subject', 'predicate', 'object') },
+  },
+  required: ['keywords', 'entities', 'searchIntents', 'questions', 'eav', 'ere', 'triples'],
+  propertyOrdering: ['keywords', 'entities', 'searchIntents', 'questions', 'eav', 'ere', 'triples'],
+};
+
+const clean = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+// Keeps rows whose string fields are all filled, dropping duplicates (the prompt asks for unique items)
+const cleanRows = <T extends Record<string, unknown>>(rows: unknown, fields: (keyof T & string)[]): T[] => {
+  if (!Array.isArray(rows)) return [];
+  const seen = new Set<string>();
+  const result: T[] = [];
+  for (const row of rows) {
+    if (!row || typeof row !== 'object') continue;
+    const cleaned: Record<string, unknown> = { ...row };
+    for (const field of fields) cleaned[field] = clean(cleaned[field]);
+    if (fields.some(field => !cleaned[field])) continue;
+    const key = fields.map(field => String(cleaned[field]).toLowerCase()).join('|');
+    if (seen.has(key)) continue;
+    seen.add(key);
+    result.push(cleaned as T);
+  }
+  return result;
+};
+
+const pickEnum = <T extends string>(value: unknown, allowed: T[], fallback: T): T => {
+  const normalized = clean(value).toLowerCase().replace(/[\s-]+/g, '_') as T;
+  return allowed.includes(normalized) ? normalized : fallback;
+};
+
+const toPriority = (value: unknown, index: number) => {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? Math.round(n) : index + 1;
+};
+
+/**
+ * Parses and validates the Step 2 JSON. Rows with missing fields and duplicates are dropped,
+ * unknown enum values fall back to a sensible default. Throws when the text is not JSON or
+ * when nothing usable is left, so the pipeline fails at Step 2 and can be retried.
+ */
+export const parseIdeation = (text: string): Ideation => {
+  // The schema should give bare JSON, but tolerate a ```json fence
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    throw new Error(`Step 2 did not return valid JSON: ${(e as Error).message}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Step 2 returned JSON that is not an ideation object');
+  }
+  const data = parsed as Record<string, unknown>;
+
+  const ideation: Ideation = {
+    keywords: cleanRows<{ keyword: string; type?: unknown }>(data.keywords, ['keyword']).map(k => ({
+      keyword: k.keyword,
+      type: pickEnum(k.type, KEYWORD_TYPES, 'semantic'),
+    })),
+    entities: cleanRows<{ name: string; role?: unknown; priority?: unknown }>(data.entities, ['name']).map((e, i) => ({
+      name: e.name,
+      role: pickEnum(e.role, ENTITY_ROLES, 'related'),
+      priority: toPriority(e.priority, i),
+    })),
+    searchIntents: cleanRows<{ intent: string; type?: unknown; priority?: unknown }>(data.searchIntents, ['intent']).map((s, i) => ({
+      intent: s.intent,
+      type: pickEnum(s.type, INTENT_TYPES, 'informational'),
+      priority: toPriority(s.priority, i),
+    })),
+    questions: [...new Set((Array.isArray(data.questions) ? data.questions : []).map(clean).filter(Boolean))],
+    eav: cleanRows(data.eav, ['entity', 'attribute', 'value']),
+    ere: cleanRows(data.ere, ['entity', 'relation', 'target']),
+    triples: cleanRows(data.triples, ['subject', 'predicate', 'object']),
+  };
+
+  if (ideation.keywords.length === 0 && ideation.entities.length === 0) {
+    throw new Error('Step 2 returned no keywords and no entities');
+  }
+  return ideation;
+};
+
+// Safe variant for stored items: older history entries hold Markdown in step2_ideation
+export const tryParseIdeation = (text?: string): Ideation | undefined => {
+  if (!text) return undefined;
+  try {
+    return parseIdeation(text);
+  } catch {
+    return undefined;
+  }
+};
+
+const KEYWORD_TYPE_LABELS: Record<IdeationKeywordType, string> = {
+  semantic: 'Semantic',
+  lsi: 'LSI',
+  long_tail: 'Long-tail',
+};
+
+// Markdown rendering of DDD1, used for "Copy MD" and as the raw view of the tables
+export const ideationToMarkdown = (ideation: Ideation): string => {
+  const table = (headers: string[], rows: (string | number)[][]) =>
+    rows.length === 0
+      ? '_None_\n'
+      : `| ${headers.join(' | ')} |\n| ${headers.map(() => '---').join(' | ')} |\n` +
+        rows.map(r => `| ${r.map(c => String(c).replace(/\|/g, '\\|')).join(' | ')} |`).join('\n') + '\n';
+
+  return [
+    '### A. Keywords',
+    table(['Keyword', 'Type'], ideation.keywords.map(k => [k.keyword, KEYWORD_TYPE_LABELS[k.type]])),
+    '### B. Entities',
+    table(['#', 'Entity', 'Role'], [...ideation.entities].sort((a, b) => a.priority - b.priority).map(e => [e.priority, e.name, e.role])),
+    '### C. Search Intents',
+    table(['#', 'Intent', 'Type'], [...ideation.searchIntents].sort((a, b) => a.priority - b.priority).map(s => [s.priority, s.intent, s.type])),
+    '### D. People Also Ask',
+    ideation.questions.length ? ideation.questions.map(q => `- ${q}`).join('\n') + '\n' : '_None_\n',
+    '### E. Knowledge Graph Signals',
+    '**EAV**',
+    table(['Entity', 'Attribute', 'Value'], ideation.eav.map(r => [r.entity, r.attribute, r.value])),
+    '**ERE**',
+    table(['Entity', 'Relation', 'Entity'], ideation.ere.map(r => [r.entity, r.relation, r.target])),
+    '**Semantic Triples**',
+    table(['Subject', 'Predicate', 'Object'], ideation.triples.map(r => [r.subject, r.predicate, r.object])),
+  ].join('\n');
+};
+
+// --- Accessors for later steps ---
+
+// Post tags: primary entities first, then semantic keywords
+export const getTagSuggestions = (ideation: Ideation, limit = 8): string[] => {
+  const candidates = [
+    ...[...ideation.entities].filter(e => e.role === 'primary').sort((a, b) => a.priority - b.priority).map(e => e.name),
+    ...ideation.keywords.filter(k => k.type === 'semantic').map(k => k.keyword),
+  ];
+  const seen = new Set<string>();
+  return candidates.filter(tag => {
+    const key = tag.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  }).slice(0, limit);
+};
+
+// Questions for an FAQ block
+export const getFaqQuestions = (ideation: Ideation): string[] => ideation.questions;
+
+// Secondary terms an article is expected to mention (keyword-density / coverage checks)
+export const getDensityKeywords = (ideation: Ideation): string[] =>
+  ideation.keywords.filter(k => k.type !== 'long_tail').map(k => k.keyword);
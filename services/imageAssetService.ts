@@ -0,0 +1,192 @@
+import { Article, ArticleImage, AspectRatio, GeneratedImage, ImageAsset, ImageFormat, ImageSettings, ImageVariant } from '../types';
+import { escapeHtml, getArticleImages, imageAssetId } from './articleService';
+import { getImageAssets } from './storageService';
+
+// Generated images are Blobs in the image store and the article Markdown refers to them as
+// asset:<id>. Viewers show them through object URLs, exporters read the Blobs.
+
+export const DEFAULT_IMAGE_SETTINGS: ImageSettings = {
+  format: 'jpeg',
+  quality: 0.6,
+  widths: [480, 768, 1024],
+  maxKb: 300,
+  featuredAspect: '16:9',
+  bodyAspect: '16:9',
+};
+
+export const ASPECT_RATIOS: AspectRatio[] = ['16:9', '21:9', '4:3', '3:2', '1:1', '4:5', '3:4', '2:3', '9:16'];
+
+const OG_SIZE = { width: 1200, height: 630 };
+const MIN_QUALITY = 0.3;
+
+const MIME_TYPES: Record<ImageFormat, string> = { jpeg: 'image/jpeg', webp: 'image/webp', avif: 'image/avif' };
+
+export const extensionFor = (mime: string) => {
+  if (mime.includes('png')) return 'png';
+  if (mime.includes('svg')) return 'svg';
+  if (mime.includes('webp')) return 'webp';
+  if (mime.includes('avif')) return 'avif';
+  return 'jpg';
+};
+
+const toBlob = (canvas: HTMLCanvasElement, mime: string, quality: number): Promise<Blob | null> =>
+  new Promise(resolve => canvas.toBlob(resolve, mime, quality));
+
+// Browsers that cannot encode a type silently return PNG, so support is checked once per format
+const encoderSupport = new Map<ImageFormat, Promise<boolean>>();
+
+export const canEncode = (format: ImageFormat): Promise<boolean> => {
+  if (!encoderSupport.has(format)) {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 1;
+    encoderSupport.set(format, toBlob(canvas, MIME_TYPES[format], 0.8).then(blob => blob?.type === MIME_TYPES[format]));
+  }
+  return encoderSupport.get(format)!;
+};
+
+// Center crop of the source to the target size (cover), on a white background for transparent PNGs
+const drawCover = (source: ImageBitmap, width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  const scale = Math.max(width / source.width, height / source.height);
+  const sw = width / scale;
+  const sh = height / scale;
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(source, (source.width - sw) / 2, (source.height - sh) / 2, sw, sh, 0, 0, width, height);
+  return canvas;
+};
+
+// Lowers the quality until the file fits the budget (the last try is kept when it never does)
+const encodeWithinBudget = async (canvas: HTMLCanvasElement, mime: string, quality: number, maxBytes: number): Promise<Blob> => {
+  let q = quality;
+  let blob = await toBlob(canvas, mime, q);
+  while (blob && blob.size > maxBytes && q - 0.1 >= MIN_QUALITY) {
+    q -= 0.1;
+    blob = await toBlob(canvas, mime, q);
+  }
+  if (!blob) throw new Error(`Could not encode ${mime}`);
+  return blob;
+};
+
+// createImageBitmap does not take SVG (placeholder images), an <img> element does
+const decodeImage = async (raw: Blob): Promise<ImageBitmap> => {
+  try {
+    return await createImageBitmap(raw);
+  } catch {
+    const url = URL.createObjectURL(raw);
+    try {
+      const img = new Image();
+      img.src = url;
+      await img.decode();
+      return await createImageBitmap(img);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+};
+
+const ratioOf = (aspect: AspectRatio) => {
+  const [w, h] = aspect.split(':').map(Number);
+  return w / h;
+};
+
+/**
+ * Encodes an image from a provider into the configured format: one file per srcset width (never
+ * upscaled, the largest is the main image) cropped to the slot's aspect ratio, and for the
+ * featured image a 1200x630 JPEG crop for social sharing (OG images are not read as WebP/AVIF everywhere).
+ * An image the browser cannot decode is kept as it came.
+ */
+export const encodeImage = async (raw: Blob, settings: ImageSettings, featured: boolean): Promise<GeneratedImage> => {
+  let source: ImageBitmap;
+  try {
+    source = await decodeImage(raw);
+  } catch (e) {
+    console.error("Could not decode the generated image", e);
+    return { blob: raw };
+  }
+
+  try {
+    const mime = MIME_TYPES[(await canEncode(settings.format)) ? settings.format : 'jpeg'];
+    const maxBytes = settings.maxKb * 1024;
+    const ratio = ratioOf(featured ? settings.featuredAspect : settings.bodyAspect);
+    const widths = [...new Set(settings.widths.map(w => Math.min(Math.round(w), source.width)))].filter(w => w > 0).sort((a, b) => a - b);
+    if (widths.length === 0) widths.push(source.width);
+
+    const variants: ImageVariant[] = [];
+    for (const width of widths) {
+      const height = Math.round(width / ratio);
+      variants.push({ blob: await encodeWithinBudget(drawCover(source, width, height), mime, settings.quality, maxBytes), width, height });
+    }
+    const main = variants.pop()!;
+    const og = featured
+      ? { blob: await encodeWithinBudget(drawCover(source, OG_SIZE.width, OG_SIZE.height), MIME_TYPES.jpeg, Math.max(settings.quality, 0.8), maxBytes), ...OG_SIZE }
+      : undefined;
+    return { ...main, variants, og };
+  } finally {
+    source.close();
+  }
+};
+
+// --- FILE NAMES ---
+
+/**
+ * File names (without extension) of an article's images, from its keyword-based slug:
+ * "slug" for the featured image, "slug-1", "slug-2"... for the body images.
+ * The same names are used by the ZIP, the WXR attachments, the HTML placeholders and WordPress uploads.
+ */
+export const imageFileNames = (article: Article): Map<ArticleImage, string> => {
+  const names = new Map<ArticleImage, string>();
+  let n = 0;
+  getArticleImages(article).forEach(image => names.set(image, image.featured ? article.meta.slug : `${article.meta.slug}-${++n}`));
+  return names;
+};
+
+// Every file of a stored image: the main one, the srcset sizes ("-480w") and the OG crop ("-og")
+export const imageFiles = (asset: ImageAsset, name: string): { name: string; blob: Blob; width?: number }[] => [
+  { name: `${name}.${extensionFor(asset.mime)}`, blob: asset.blob, width: asset.width },
+  ...(asset.variants || []).map(v => ({ name: `${name}-${v.width}w.${extensionFor(v.blob.type)}`, blob: v.blob, width: v.width })),
+  ...(asset.og ? [{ name: `${name}-og.${extensionFor(asset.og.blob.type)}`, blob: asset.og.blob }] : []),
+];
+
+// <img> with srcset over the stored sizes; `dir` is the folder the files are in ("images/")
+export const responsiveImageHtml = (asset: ImageAsset, name: string, alt: string, dir = ''): string => {
+  const files = imageFiles(asset, name).filter(f => f.width);
+  const srcset = files.length > 1 ? ` srcset="${files.map(f => `${dir}${f.name} ${f.width}w`).join(', ')}" sizes="(max-width: ${asset.width}px) 100vw, ${asset.width}px"` : '';
+  const size = asset.width && asset.height ? ` width="${asset.width}" height="${asset.height}"` : '';
+  return `<img src="${dir}${files[0]?.name || `${name}.${extensionFor(asset.mime)}`}"${srcset}${size} alt="${escapeHtml(alt)}" loading="lazy"/>`;
+};
+
+// Built from the bytes rather than with FileReader, so exports also run outside the browser (tests)
+export const blobToDataUrl = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${blob.type || 'application/octet-stream'};base64,${btoa(binary)}`;
+};
+
+// Stored images of an article by image (the same keys the ImageRenderer callbacks get)
+export const loadArticleImages = async (article: Article): Promise<Map<ArticleImage, ImageAsset>> => {
+  const images = getArticleImages(article).filter(image => imageAssetId(image.src));
+  const assets = new Map((await getImageAssets(images.map(image => imageAssetId(image.src)!))).map(a => [a.id, a]));
+  const loaded = new Map<ArticleImage, ImageAsset>();
+  images.forEach(image => {
+    const asset = assets.get(imageAssetId(image.src)!);
+    if (asset) loaded.set(image, asset);
+  });
+  return loaded;
+};
+
+// One object URL per asset for the whole session (assets never change, a regenerated image gets a new id)
+const objectUrls = new Map<string, { url: string; mime: string }>();
+
+export const getImageUrls = async (ids: string[]): Promise<Record<string, { url: string; mime: string }>> => {
+  const missing = ids.filter(id => !objectUrls.has(id));
+  (await getImageAssets(missing)).forEach(asset => objectUrls.set(asset.id, { url: URL.createObjectURL(asset.blob), mime: asset.mime }));
+  return Object.fromEntries(ids.filter(id => objectUrls.has(id)).map(id => [id, objectUrls.get(id)!]));
+};
@@ -0,0 +1,126 @@
+import { BrandProfile, ImageProvider, ImageProviderId, ImageRequest, StockPhoto } from '../types';
+import { generateBlogImage, generateImagenImage } from './geminiService';
+import { getStockPhotos } from './storageService';
+import { tokenize } from './linkingService';
+
+// Where article images come from. Every provider returns the image as it came and the pipeline
+// encodes it (encodeImage), so sizes, format and storage do not depend on the source.
+
+// Same text, same number: placeholder colours and stock tie-breaks stay the same between runs
+const hashText = (text: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// --- STOCK LIBRARY ---
+
+const STOCK_EXTENSIONS = /\.(jpe?g|png|webp|avif|gif)$/i;
+
+export const isStockImageFile = (name: string) => STOCK_EXTENSIONS.test(name);
+
+// Tags of a photo from its path in the imported folder: "running/trail shoes/mud-01.jpg" -> running, trail, shoes, mud
+export const stockTags = (path: string): string[] => {
+  const parts = path.replace(STOCK_EXTENSIONS, '').split('/').filter(Boolean);
+  // The top folder is the one the user picked, its name says nothing about the photo
+  const named = parts.length > 1 ? parts.slice(1) : parts;
+  return [...new Set(named.flatMap(part => tokenize(part)).filter(t => !/^\d+$/.test(t)))];
+};
+
+/**
+ * Best photo for an image: the most tags found in the prompt, alt text and keyword.
+ * Ties are broken by the prompt hash so the images of one article spread over the matching photos.
+ * Null when no photo shares a tag with the request.
+ */
+export const pickStockPhoto = (photos: StockPhoto[], request: Pick<ImageRequest, 'prompt' | 'alt'> & { keyword?: string }): StockPhoto | null => {
+  const words = new Set(tokenize(`${request.prompt} ${request.alt} ${request.keyword || ''}`));
+  const scored = photos
+    .map(photo => ({ photo, score: photo.tags.filter(tag => words.has(tag)).length }))
+    .filter(s => s.score > 0);
+  if (scored.length === 0) return null;
+
+  const best = Math.max(...scored.map(s => s.score));
+  const top = scored.filter(s => s.score === best).sort((a, b) => a.photo.name.localeCompare(b.photo.name));
+  return top[hashText(request.prompt) % top.length].photo;
+};
+
+// --- PLACEHOLDER ---
+
+const PLACEHOLDER_WIDTH = 1024;
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Splits the label into lines of about `max` characters (at most three, the last one cut with "...")
+const wrapLabel = (text: string, max: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    if (line && (line + ' ' + word).length > max) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  });
+  if (line) lines.push(line);
+  return lines.length > 3 ? [...lines.slice(0, 2), `${lines[2].slice(0, max - 3)}...`] : lines;
+};
+
+/**
+ * Offline stand-in for a generated image: an SVG in the slot's aspect ratio, coloured from the
+ * prompt hash and labelled with the alt text. The same request always gives the same file.
+ */
+export const placeholderSvg = (request: Pick<ImageRequest, 'prompt' | 'alt' | 'aspectRatio'>): string => {
+  const [w, h] = request.aspectRatio.split(':').map(Number);
+  const width = PLACEHOLDER_WIDTH;
+  const height = Math.round(width * h / w);
+  const hue = hashText(request.prompt) % 360;
+  const fontSize = Math.round(Math.min(width, height) / 14);
+  const lines = wrapLabel(request.alt || request.prompt || 'Image', Math.floor(width / (fontSize * 0.6)));
+  const top = height / 2 - ((lines.length - 1) * fontSize * 1.3) / 2;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+    + `<rect width="100%" height="100%" fill="hsl(${hue}, 45%, 82%)"/>`
+    + `<rect x="${fontSize}" y="${fontSize}" width="${width - fontSize * 2}" height="${height - fontSize * 2}" fill="none" stroke="hsl(${hue}, 45%, 55%)" stroke-width="4" stroke-dasharray="16 12"/>`
+    + `<text x="50%" y="${top}" font-family="sans-serif" font-size="${fontSize}" fill="hsl(${hue}, 45%, 25%)" text-anchor="middle" dominant-baseline="middle">`
+    + lines.map((l, i) => `<tspan x="50%" dy="${i === 0 ? 0 : fontSize * 1.3}">${escapeXml(l)}</tspan>`).join('')
+    + `</text></svg>`;
+};
+
+// --- PROVIDERS ---
+
+export const IMAGE_PROVIDERS: ImageProvider[] = [
+  {
+    id: 'gemini',
+    label: 'Gemini (gemini-2.5-flash-image)',
+    generate: ({ prompt, ctx, aspectRatio }) => generateBlogImage(prompt, ctx, aspectRatio),
+  },
+  {
+    id: 'imagen',
+    label: 'Imagen 4',
+    generate: ({ prompt, ctx, aspectRatio }) => generateImagenImage(prompt, ctx, aspectRatio),
+  },
+  {
+    id: 'stock',
+    label: 'Stock library (own photos)',
+    generate: async request => pickStockPhoto(await getStockPhotos(), { ...request, keyword: request.ctx.keyword })?.blob || null,
+  },
+  {
+    id: 'placeholder',
+    label: 'Placeholder (offline)',
+    generate: async request => new Blob([placeholderSvg(request)], { type: 'image/svg+xml' }),
+  },
+];
+
+export const DEFAULT_IMAGE_PROVIDER: ImageProviderId = 'gemini';
+
+export const getImageProvider = (id?: ImageProviderId): ImageProvider =>
+  IMAGE_PROVIDERS.find(p => p.id === id) || IMAGE_PROVIDERS.find(p => p.id === DEFAULT_IMAGE_PROVIDER)!;
+
+// The batch choice wins over the brand profile's
+export const resolveImageProvider = (item: { imageProvider?: ImageProviderId; profile?: BrandProfile }): ImageProvider =>
+  getImageProvider(item.imageProvider || item.profile?.imageProvider);
@@ -0,0 +1,66 @@
+import { LanguageDefinition, OutputLanguage } from '../types';
+
+// Output language catalog. Adding a language is one entry here: prompts, UI selects,
+// hreflang tags and the SEO audit all read from this list.
+
+export const LANGUAGES: LanguageDefinition[] = [
+  {
+    code: 'vi',
+    name: 'Vietnamese',
+    nativeName: 'Tiếng Việt',
+    flag: '🇻🇳',
+    hreflang: 'vi-VN',
+    promptBase: 'vi',
+    seeAlso: 'Xem thêm',
+    // One syllable per "word", so sentences count more words than in English
+    readability: { avgSentence: [25, 32], paragraph: 180 },
+  },
+  {
+    code: 'en',
+    name: 'English',
+    nativeName: 'English',
+    flag: '🇬🇧',
+    hreflang: 'en',
+    promptBase: 'en',
+    seeAlso: 'See also',
+    readability: { avgSentence: [20, 25], paragraph: 140 },
+  },
+  {
+    code: 'th',
+    name: 'Thai',
+    nativeName: 'ไทย',
+    flag: '🇹🇭',
+    hreflang: 'th-TH',
+    promptBase: 'en',
+    seeAlso: 'ดูเพิ่มเติม',
+  },
+  {
+    code: 'id',
+    name: 'Indonesian',
+    nativeName: 'Bahasa Indonesia',
+    flag: '🇮🇩',
+    hreflang: 'id-ID',
+    promptBase: 'en',
+    seeAlso: 'Lihat juga',
+    readability: { avgSentence: [20, 25], paragraph: 140 },
+  },
+  {
+    code: 'es',
+    name: 'Spanish',
+    nativeName: 'Español',
+    flag: '🇪🇸',
+    hreflang: 'es',
+    promptBase: 'en',
+    seeAlso: 'Ver también',
+    readability: { avgSentence: [22, 28], paragraph: 150 },
+  },
+];
+
+// Unknown codes (e.g. a language removed from the catalog) behave like English prompts
+export const getLanguage = (code: OutputLanguage): LanguageDefinition =>
+  LANGUAGES.find(l => l.code === code) || { ...LANGUAGES[1], code, name: code, nativeName: code, flag: '🏳️', hreflang: code };
+
+export const languageLabel = (code: OutputLanguage) => {
+  const language = getLanguage(code);
+  return `${language.flag} ${language.nativeName}`;
+};
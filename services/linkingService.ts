@@ -0,0 +1,336 @@
+import { Article, ArticleBlock, ClusterRole, HistoryItem, Ideation, InternalLink, LinkCandidate, LinkTarget, OutputLanguage, SiteLink } from '../types';
+import { LINK_MARKER, articleToMarkdown, parseArticle, slugify } from './articleService';
+import { getLanguage } from './languages';
+
+// Internal linking engine: an index of our own articles (history items + imported site URLs),
+// resolution of the [INTERNAL-LINK] markers written in Step 4, a few extra links on entity
+// mentions, and the edits behind the link report (change target, remove).
+
+const MIN_SCORE = 0.5;
+const MAX_CANDIDATES = 5;
+const MAX_ENTITY_LINKS = 3;
+
+// Function words (diacritics folded) that say nothing about the topic
+const STOPWORDS = new Set([
+  'va', 'cua', 'cho', 'la', 'cac', 'nhung', 'mot', 'voi', 'trong', 'de', 'khi', 'nao', 'gi', 'co', 'khong',
+  'duoc', 'nay', 'do', 'tu', 've', 'nhu', 'thi', 'se', 'da', 'bi', 'ma', 'hay', 'cung', 'theo', 'nen',
+  'the', 'an', 'and', 'or', 'of', 'for', 'to', 'in', 'on', 'with', 'how', 'what', 'is', 'are', 'your', 'you', 'why', 'when',
+]);
+
+// Topic words of a text: diacritics folded, function words dropped (shared with the duplicate pre-flight)
+export const tokenize = (text: string): string[] =>
+  slugify(text).split('-').filter(t => t.length > 1 && !STOPWORDS.has(t));
+
+const urlKey = (url: string) => url.trim().replace(/^https?:\/\/(www\.)?/i, '').replace(/\/+$/, '').toLowerCase();
+
+const linkId = () => Math.random().toString(36).slice(2, 11);
+
+// --- INDEX ---
+
+const titleFromUrl = (url: string) => {
+  const segment = url.replace(/[?#].*$/, '').replace(/\/+$/, '').split('/').pop() || url;
+  let decoded = segment;
+  try {
+    decoded = decodeURIComponent(segment);
+  } catch {
+    // Keep the raw segment
+  }
+  return decoded.replace(/\.[a-z0-9]+$/i, '').replace(/[-_]+/g, ' ').trim();
+};
+
+/**
+ * Reads a pasted list of existing site pages, one per line: "URL | Title", "URL, Title",
+ * "Title<TAB>URL" (spreadsheet paste) or just the URL (title made from the last path segment).
+ */
+export const parseSiteLinks = (text: string): SiteLink[] => {
+  const links: SiteLink[] = [];
+  const seen = new Set<string>();
+  for (const line of text.split('\n')) {
+    const match = line.match(/https?:\/\/[^\s|,"]+/i);
+    if (!match) continue;
+    const url = match[0];
+    if (seen.has(urlKey(url))) continue;
+    seen.add(urlKey(url));
+    const title = line.replace(url, '').replace(/^[\s|,;"]+|[\s|,;"]+$/g, '');
+    links.push({ url, title: title || titleFromUrl(url) });
+  }
+  return links;
+};
+
+/**
+ * Everything an article can link to: finished history items (their WordPress URL, or
+ * profile website + slug when not published yet) and the imported site pages.
+ * `self`, other articles on the same keyword and articles in another language are left out.
+ * Articles of self's keyword cluster carry their cluster role.
+ */
+export const buildLinkTargets = (history: HistoryItem[], siteLinks: SiteLink[], self?: HistoryItem): LinkTarget[] => {
+  const targets: LinkTarget[] = [];
+  const seen = new Set<string>(self?.wpLink ? [urlKey(self.wpLink)] : []);
+  const selfKeyword = self ? slugify(self.keyword) : '';
+
+  const add = (target: LinkTarget) => {
+    const key = urlKey(target.url);
+    if (seen.has(key)) return;
+    seen.add(key);
+    targets.push(target);
+  };
+
+  for (const item of history) {
+    if (item.id === self?.id || (item.status && item.status !== 'complete')) continue;
+    if (!item.content || item.content.startsWith('Error processing')) continue;
+    if (slugify(item.keyword) === selfKeyword) continue;
+    // Other language versions are reached through hreflang, not body links
+    if (self && (item.language || 'vi') !== (self.language || 'vi')) continue;
+
+    const { title, slug } = parseArticle(item.content, item.keyword).meta;
+    const website = item.profile?.websiteUrl?.trim().replace(/\/+$/, '');
+    const url = item.wpLink || (website ? `${website}/${slug}/` : '');
+    const clusterRole = self?.cluster && item.cluster?.id === self.cluster.id ? item.cluster.role : undefined;
+    if (url) add({ url, title, keyword: item.keyword, source: 'history', clusterRole });
+  }
+  for (const link of siteLinks) add({ ...link, keyword: link.title, source: 'site' });
+
+  return targets;
+};
+
+// --- MATCHING ---
+
+// Share of the target's topic words present in the context; the keyword weighs more than the title
+const scoreTarget = (target: LinkTarget, context: Set<string>): number => {
+  const overlap = (text: string) => {
+    const words = [...new Set(tokenize(text))];
+    return words.length ? words.filter(w => context.has(w)).length / words.length : 0;
+  };
+  return Math.round((overlap(target.keyword) * 0.7 + overlap(target.title) * 0.3) * 100) / 100;
+};
+
+const rankTargets = (targets: LinkTarget[], contextText: string, used: Set<string>): LinkCandidate[] => {
+  const context = new Set(tokenize(contextText));
+  return targets
+    .filter(t => !used.has(urlKey(t.url)))
+    .map(t => ({ ...t, score: scoreTarget(t, context) }))
+    .filter(c => c.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_CANDIDATES);
+};
+
+// Existing links, images, markers and inline code are never linked into
+const PROTECTED = /!?\[[^\]]*\]\([^)]*\)|\[INTERNAL[-_ ]LINK[^\]]*\]|`[^`]*`/gi;
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+// Position of `phrase` as whole words (case-insensitive), outside protected spans; -1 if absent
+const findPhrase = (markdown: string, phrase: string): number => {
+  const masked = markdown.replace(PROTECTED, m => ' '.repeat(m.length)).toLowerCase();
+  const needle = phrase.normalize('NFC').toLowerCase();
+  if (!needle.trim()) return -1;
+  for (let i = masked.indexOf(needle); i >= 0; i = masked.indexOf(needle, i + 1)) {
+    if (!WORD_CHAR.test(masked[i - 1] || ' ') && !WORD_CHAR.test(masked[i + needle.length] || ' ')) return i;
+  }
+  return -1;
+};
+
+const splice = (text: string, start: number, length: number, insert: string) =>
+  text.slice(0, start) + insert + text.slice(start + length);
+
+const paragraphBounds = (text: string, index: number) => {
+  const start = text.lastIndexOf('\n\n', index);
+  const end = text.indexOf('\n\n', index);
+  return { start: start < 0 ? 0 : start, end: end < 0 ? text.length : end };
+};
+
+const seeAlso = (target: LinkTarget, language: OutputLanguage) => `*${getLanguage(language).seeAlso}: [${target.title}](${target.url})*`;
+
+type TextBlock = Extract<ArticleBlock, { type: 'text' }>;
+
+const textBlocks = (article: Article) => {
+  const result: { block: TextBlock; section: string }[] = [];
+  const add = (blocks: ArticleBlock[], section: string) =>
+    blocks.forEach(b => b.type === 'text' && result.push({ block: b, section }));
+  add(article.intro, '');
+  [...article.sections, ...(article.conclusion ? [article.conclusion] : [])].forEach(s => add(s.blocks, s.heading));
+  return result;
+};
+
+export interface LinkingOptions {
+  keyword: string;
+  language: OutputLanguage;
+  ideation?: Ideation;
+  targets: LinkTarget[];
+  existing?: InternalLink[]; // Links already in the article (re-run): their targets are not used again
+  clusterRole?: ClusterRole; // Role of the article in its keyword cluster
+}
+
+/**
+ * Resolves the [INTERNAL-LINK] markers of the article, then links a few entity mentions and
+ * the keyword cluster pages (supporting -> pillar, pillar -> every supporting article),
+ * editing the text blocks in place. Each target is linked at most once per article.
+ * Returns the new report entries; markers without a good enough target stay in the text
+ * (exports strip them) and are reported as unresolved with their best candidates.
+ */
+export const resolveInternalLinks = (article: Article, options: LinkingOptions): InternalLink[] => {
+  const { keyword, language, ideation, targets, existing = [], clusterRole } = options;
+  const used = new Set(existing.flatMap(l => (l.target ? [urlKey(l.target.url)] : [])));
+  const links: InternalLink[] = [];
+  const blocks = textBlocks(article);
+
+  // --- Markers ---
+  for (const { block, section } of blocks) {
+    let from = 0;
+    for (;;) {
+      const pattern = new RegExp(LINK_MARKER.source, 'gi');
+      pattern.lastIndex = from;
+      const match = pattern.exec(block.markdown);
+      if (!match) break;
+
+      const marker = match[0];
+      const hint = (match[1] || '').trim();
+      const text = block.markdown;
+      const paragraph = paragraphBounds(text, match.index);
+      const candidates = rankTargets(targets, `${hint || text.slice(paragraph.start, paragraph.end)} ${section}`, used);
+      const best = candidates[0] && candidates[0].score >= MIN_SCORE ? candidates[0] : undefined;
+
+      const link: InternalLink = { id: linkId(), kind: 'marker', anchor: hint, section, markdown: marker, candidates, status: 'unresolved' };
+      links.push(link);
+      if (!best) {
+        from = match.index + marker.length;
+        continue;
+      }
+      used.add(urlKey(best.url));
+      link.target = best;
+      link.status = 'suggested';
+
+      // Marker written in place of its anchor text
+      if (hint) {
+        link.markdown = `[${hint}](${best.url})`;
+        block.markdown = splice(text, match.index, marker.length, link.markdown);
+        from = match.index + link.markdown.length;
+        continue;
+      }
+
+      // Bare marker: link the target's topic where the paragraph mentions it, otherwise a "See also" link
+      const hasSpace = /[ \t]/.test(text[match.index - 1] || '');
+      const markerStart = match.index - (hasSpace ? 1 : 0);
+      const withoutMarker = splice(text, markerStart, match.index + marker.length - markerStart, '');
+      const bounds = paragraphBounds(withoutMarker, markerStart);
+      const found = findPhrase(withoutMarker.slice(bounds.start, bounds.end), best.keyword);
+
+      if (found >= 0) {
+        const at = bounds.start + found;
+        link.anchor = withoutMarker.slice(at, at + best.keyword.length);
+        link.markdown = `[${link.anchor}](${best.url})`;
+        block.markdown = splice(withoutMarker, at, link.anchor.length, link.markdown);
+        from = at < markerStart ? markerStart + link.markdown.length - link.anchor.length : markerStart;
+      } else {
+        link.markdown = seeAlso(best, language);
+        block.markdown = splice(text, match.index, marker.length, link.markdown);
+        from = match.index + link.markdown.length;
+      }
+    }
+  }
+
+  // --- Entity mentions ---
+  const ownTopic = slugify(keyword);
+  const phrases = [
+    ...(ideation?.entities || [])
+      .filter(e => e.role !== 'contextual')
+      .sort((a, b) => a.priority - b.priority)
+      .map(e => e.name),
+    ...targets.map(t => t.keyword),
+  ];
+  let added = 0;
+  for (const phrase of phrases) {
+    if (added >= MAX_ENTITY_LINKS) break;
+    if (slugify(phrase) === ownTopic || tokenize(phrase).length === 0) continue;
+
+    const candidates = rankTargets(targets, phrase, used);
+    const best = candidates[0];
+    if (!best || best.score < MIN_SCORE) continue;
+
+    for (const { block, section } of blocks) {
+      const at = findPhrase(block.markdown, phrase);
+      if (at < 0) continue;
+      const anchor = block.markdown.slice(at, at + phrase.length);
+      const markdown = `[${anchor}](${best.url})`;
+      block.markdown = splice(block.markdown, at, anchor.length, markdown);
+      links.push({ id: linkId(), kind: 'entity', anchor, section, markdown, target: best, candidates, status: 'suggested' });
+      used.add(urlKey(best.url));
+      added++;
+      break;
+    }
+  }
+
+  // --- Cluster pages ---
+  // Always linked: in the text where the page topic is mentioned, else as "See also" under the closest section
+  const clusterTargets = targets.filter(t =>
+    t.clusterRole && (t.clusterRole === 'pillar' || clusterRole === 'pillar') && !used.has(urlKey(t.url))
+  );
+  for (const target of clusterTargets) {
+    const candidates = [{ ...target, score: 1 }];
+    const mention = blocks.find(({ block }) => findPhrase(block.markdown, target.keyword) >= 0);
+    if (mention) {
+      const at = findPhrase(mention.block.markdown, target.keyword);
+      const anchor = mention.block.markdown.slice(at, at + target.keyword.length);
+      const markdown = `[${anchor}](${target.url})`;
+      mention.block.markdown = splice(mention.block.markdown, at, anchor.length, markdown);
+      links.push({ id: linkId(), kind: 'cluster', anchor, section: mention.section, markdown, target: candidates[0], candidates, status: 'suggested' });
+    } else if (blocks.length > 0) {
+      const closest = blocks
+        .map(entry => ({ entry, score: scoreTarget(target, new Set(tokenize(`${entry.section} ${entry.block.markdown}`))) }))
+        .reduce((a, b) => (b.score > a.score ? b : a)).entry;
+      const markdown = seeAlso(target, language);
+      closest.block.markdown = `${closest.block.markdown}\n\n${markdown}`;
+      links.push({ id: linkId(), kind: 'cluster', anchor: '', section: closest.section, markdown, target: candidates[0], candidates, status: 'suggested' });
+    }
+    used.add(urlKey(target.url));
+  }
+
+  return links;
+};
+
+/**
+ * Re-run on a saved article: resolves the markers still in the text and adds links to articles
+ * written since (cluster pages included). Approved and automatic links stay as they are.
+ */
+export const relinkHistoryItem = (
+  item: HistoryItem,
+  history: HistoryItem[],
+  siteLinks: SiteLink[]
+): { content: string; internalLinks: InternalLink[] } => {
+  const kept = (item.internalLinks || []).filter(l => l.status !== 'unresolved');
+  const article = parseArticle(item.content, item.keyword);
+  const added = resolveInternalLinks(article, {
+    keyword: item.keyword,
+    language: item.language || 'vi',
+    ideation: item.ideation,
+    targets: buildLinkTargets(history, siteLinks, item),
+    existing: kept,
+    clusterRole: item.cluster?.role,
+  });
+  return { content: articleToMarkdown(article), internalLinks: [...kept, ...added] };
+};
+
+// --- REPORT EDITS (on the stored Markdown) ---
+
+const replaceOnce = (content: string, from: string, to: string) => {
+  const index = content.indexOf(from);
+  if (index < 0) throw new Error('Link not found in the article text (the section may have been edited).');
+  return content.slice(0, index) + to + content.slice(index + from.length);
+};
+
+// Points a link to another target, or resolves an unresolved marker; the result counts as approved
+export const setLinkTarget = (
+  content: string,
+  link: InternalLink,
+  target: LinkCandidate,
+  language: OutputLanguage
+): { content: string; link: InternalLink } => {
+  const markdown = link.anchor ? `[${link.anchor}](${target.url})` : seeAlso(target, language);
+  return {
+    content: replaceOnce(content, link.markdown, markdown),
+    link: { ...link, markdown, target, status: 'approved' },
+  };
+};
+
+// Takes a link out of the article: its anchor text stays, bare markers and "See also" links go
+export const removeInternalLink = (content: string, link: InternalLink): string =>
+  replaceOnce(content, link.markdown, link.anchor);
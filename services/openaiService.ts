@@ -0,0 +1,75 @@
+import { ChatTurn, OpenAiCompatibleConfig, StepOutput, TextRequestConfig } from '../types';
+
+// Chat Completions client for any OpenAI-compatible server: OpenAI itself, or a local
+// llama.cpp (`llama-server`) / Ollama endpoint. There is no search grounding, so the
+// answers come with an empty source list.
+
+const endpoint = (config: OpenAiCompatibleConfig) => `${config.baseUrl.trim().replace(/\/+$/, '')}/chat/completions`;
+
+// Gemini-only schema keywords: strict servers reject them in response_format
+const GEMINI_ONLY_KEYS = new Set(['propertyOrdering', 'nullable']);
+
+// Gemini schemas use upper-case types ("OBJECT"); JSON Schema wants them in lower case
+const toJsonSchema = (schema: unknown): unknown => {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+  return Object.fromEntries(Object.entries(schema).filter(([key]) => !GEMINI_ONLY_KEYS.has(key)).map(([key, value]) => {
+    if (key === 'type' && typeof value === 'string') return [key, value.toLowerCase()];
+    if (key === 'properties') return [key, Object.fromEntries(Object.entries(value as object).map(([name, prop]) => [name, toJsonSchema(prop)]))];
+    return [key, toJsonSchema(value)];
+  }));
+};
+
+interface ChatCompletion {
+  choices?: { message?: { content?: string | null } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+export const generateOpenAiText = async (config: OpenAiCompatibleConfig, turns: ChatTurn[], request: TextRequestConfig): Promise<StepOutput> => {
+  if (!config.baseUrl.trim() || !config.model.trim()) {
+    throw new Error('The OpenAI-compatible provider needs a base URL and a model name (Settings).');
+  }
+
+  const body: Record<string, unknown> = {
+    model: config.model.trim(),
+    temperature: 0.7,
+    top_p: 0.95,
+    messages: [
+      { role: 'system', content: request.systemInstruction },
+      ...turns.map(turn => ({ role: turn.role === 'model' ? 'assistant' : 'user', content: turn.text })),
+    ],
+  };
+  if (request.jsonSchema) {
+    body.response_format = { type: 'json_schema', json_schema: { name: request.step || 'answer', schema: toJsonSchema(request.jsonSchema) } };
+  }
+
+  const response = await fetch(endpoint(config), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.apiKey.trim() ? { Authorization: `Bearer ${config.apiKey.trim()}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    let detail = response.statusText;
+    try {
+      const error = await response.json();
+      if (error?.error?.message) detail = error.error.message;
+    } catch {
+      // Not JSON (proxy page, server down...), keep the status text
+    }
+    // `status` lets the scheduler recognize 429 and back off like it does for Gemini
+    throw Object.assign(new Error(`${config.model} request failed (${response.status}): ${detail}`), { status: response.status });
+  }
+
+  const data: ChatCompletion = await response.json();
+  return {
+    text: data.choices?.[0]?.message?.content || '',
+    grounding: { sources: [], supports: [] },
+    usage: data.usage
+      ? { inputTokens: data.usage.prompt_tokens || 0, outputTokens: data.usage.completion_tokens || 0, requests: 1 }
+      : undefined,
+  };
+};
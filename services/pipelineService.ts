@@ -0,0 +1,245 @@
+import { AppStep, HistoryItem, ImageSettings, OutputLanguage, PipelineStage, PromptContext, PromptStep, ReviewGate, StepData, TextProvider, TokenUsage } from '../types';
+import { executeStep1, executeStep2, executeStep3, executeStep4, getTemplateVersion, restoreHistory } from './geminiService';
+import { addUsage, createTextSession } from './textProviderService';
+import { getHistory, getSiteLinks, getTemplates, saveHistoryItem, saveImageAsset } from './storageService';
+import { articleToMarkdown, getArticleImages, imageAssetRef, parseArticle, removeArticleImage } from './articleService';
+import { addCitations, mergeSources } from './citationService';
+import { buildLinkTargets, resolveInternalLinks } from './linkingService';
+import { checkFacts, formatRedFlags } from './factCheckService';
+import { resolveImageProvider } from './imageProviderService';
+import { encodeImage } from './imageAssetService';
+import { getDefaultProfile } from './profileService';
+
+export const PIPELINE_STAGES: PipelineStage[] = ['research', 'ideation', 'outline', 'writing', 'images'];
+
+export const STAGE_LABELS: Record<PipelineStage, string> = {
+  research: 'Research (Step 1)',
+  ideation: 'Ideation (Step 2)',
+  outline: 'Outline (Step 3)',
+  writing: 'Writing (Step 4)',
+  images: 'Images',
+};
+
+export const REVIEW_GATES: ReviewGate[] = ['ideation', 'outline'];
+
+export const REVIEW_GATE_LABELS: Record<ReviewGate, string> = {
+  ideation: 'Ideation (after Step 2)',
+  outline: 'Outline (after Step 3)',
+};
+
+// Legacy failed items were saved as "<keyword> (FAILED)" without step data
+const LEGACY_FAILED_SUFFIX = ' (FAILED)';
+
+export const isFailedItem = (item: HistoryItem): boolean =>
+  item.status === 'failed' || item.keyword.endsWith(LEGACY_FAILED_SUFFIX);
+
+export const getItemKeyword = (item: HistoryItem): string =>
+  item.keyword.endsWith(LEGACY_FAILED_SUFFIX) ? item.keyword.slice(0, -LEGACY_FAILED_SUFFIX.length) : item.keyword;
+
+/**
+ * Returns the first stage that has no stored result, i.e. where a resumed run should start.
+ * Returns null when every stage is done.
+ */
+export const getResumeStage = (steps: StepData = {}): PipelineStage | null => {
+  if (!steps.step1_research) return 'research';
+  if (!steps.step2_ideation) return 'ideation';
+  if (!steps.step3_outline) return 'outline';
+  if (!steps.step4_article) return 'writing';
+  if (!steps.images_done) return 'images';
+  return null;
+};
+
+// --- KEYWORD PIPELINE ---
+
+export interface PipelineOptions {
+  textProvider: TextProvider;
+  imageSettings: ImageSettings;
+  shouldStop?: () => boolean; // Checked between steps (an in-flight API call cannot be aborted)
+  onProgress?: (message: string) => void;
+  onSaved?: (history: HistoryItem[]) => void; // After every save of the item
+  // Live step viewers: the item as saved so far and the last step shown
+  onView?: (item: HistoryItem, step: AppStep) => void;
+}
+
+/**
+ * Runs Step 1 -> Step 4 -> Images for one history item, skipping every step that
+ * already has a stored result. Each step is saved to the DB as soon as it completes,
+ * so a failure keeps everything produced so far and can be resumed later.
+ * Returns the item as saved: complete, or awaiting review at a gate; throws after saving a failure.
+ */
+export const runKeywordPipeline = async (startItem: HistoryItem, options: PipelineOptions): Promise<HistoryItem> => {
+  const { textProvider: provider, imageSettings, shouldStop, onProgress, onSaved, onView } = options;
+  const keyword = getItemKeyword(startItem);
+  const selectedLang: OutputLanguage = startItem.language || 'vi';
+  // Items saved before profiles existed were written with the default persona
+  const profile = startItem.profile || getDefaultProfile(selectedLang);
+  const steps: StepData = { ...(startItem.steps || {}) };
+  let item: HistoryItem = { ...startItem, keyword, status: 'in_progress', steps, error: undefined, failedStage: undefined, awaitingReview: undefined };
+  let stage: PipelineStage | null = getResumeStage(steps);
+  let view = AppStep.INPUT;
+
+  const persist = async (patch: Partial<HistoryItem>) => {
+    item = { ...item, ...patch, steps: { ...steps } };
+    const updatedHistory = await saveHistoryItem(item);
+    onSaved?.(updatedHistory);
+    onView?.(item, view);
+  };
+
+  const show = (step: AppStep) => {
+    view = step;
+    onView?.(item, view);
+  };
+
+  const checkStop = () => {
+    if (shouldStop?.()) throw new Error('Cancelled by user');
+  };
+
+  const report = (message: string) => onProgress?.(message);
+
+  // Review mode: stop after a gate until an editor approves it (edits are saved into `steps`)
+  const stopForReview = async (gate: ReviewGate): Promise<boolean> => {
+    if (!item.review?.gates.includes(gate) || item.review.approved.includes(gate)) return false;
+    await persist({ status: 'awaiting_review', awaitingReview: gate });
+    return true;
+  };
+
+  // Reset the viewers for the new keyword (or show what is already stored when resuming)
+  show(AppStep.INPUT);
+
+  // Every job has its own chat session; when resuming, the context is rebuilt from the stored answers
+  // Templates are read once per job, so edits made while a batch runs apply to the next keyword
+  const ctx: PromptContext = { keyword, language: selectedLang, profile, templates: await getTemplates(), relatedKeywords: item.mergedKeywords, cluster: item.cluster };
+  const stepCtx = (): PromptContext => ({ ...ctx, steps });
+  const templateVersions = { ...(item.templateVersions || {}) };
+  const recordTemplate = (step: PromptStep) => {
+    templateVersions[step] = getTemplateVersion(ctx, step);
+    return { templateVersions: { ...templateVersions } };
+  };
+  // The item records which text model wrote it and the tokens spent
+  const recordUsage = (usage: TokenUsage | undefined) => ({
+    textModel: { provider: provider.id, model: provider.model },
+    usage: addUsage(item.usage, usage),
+  });
+  const session = createTextSession(provider, steps.step1_research ? restoreHistory(ctx, steps) : []);
+
+  try {
+    const langLabel = selectedLang.toUpperCase();
+
+    // --- Step 1 ---
+    if (stage === 'research') {
+      checkStop();
+      report(`[${keyword}][${langLabel}] Researching data (Step 1/4)...`);
+      const research = await executeStep1(session, stepCtx());
+      steps.step1_research = research.text;
+      await persist({ sources: mergeSources(item.sources, research.grounding.sources, 'research'), ...recordTemplate('research'), ...recordUsage(research.usage) });
+      stage = 'ideation';
+    }
+
+    // --- Step 2 ---
+    if (stage === 'ideation') {
+      checkStop();
+      report(`[${keyword}][${langLabel}] Generating Ideation (Step 2/4)...`);
+      const { text, ideation, grounding, usage } = await executeStep2(session, stepCtx());
+      steps.step2_ideation = text;
+      await persist({ ideation, sources: mergeSources(item.sources, grounding.sources, 'ideation'), ...recordTemplate('ideation'), ...recordUsage(usage) });
+      stage = 'outline';
+    }
+    show(AppStep.IDEATION);
+    if (stage === 'outline' && await stopForReview('ideation')) return item;
+
+    // --- Step 3 ---
+    if (stage === 'outline') {
+      checkStop();
+      report(`[${keyword}][${langLabel}] Creating Outline (Step 3/4)...`);
+      const outline = await executeStep3(session, stepCtx());
+      steps.step3_outline = outline.text;
+      await persist({ sources: mergeSources(item.sources, outline.grounding.sources, 'outline'), ...recordTemplate('outline'), ...recordUsage(outline.usage) });
+      stage = 'writing';
+    }
+    show(AppStep.OUTLINE);
+    if (stage === 'writing' && await stopForReview('outline')) return item;
+
+    // --- Step 4 ---
+    if (stage === 'writing') {
+      checkStop();
+      report(`[${keyword}][${langLabel}] Writing Article (Step 4/4)...`);
+      const written = await executeStep4(session, stepCtx());
+      // Footnotes from the Step 4 grounding; an article written without search lists the research sources
+      steps.step4_article = addCitations(written.text, written.grounding, item.sources);
+      const sources = mergeSources(item.sources, written.grounding.sources, 'writing');
+
+      // Internal links: [INTERNAL-LINK] markers and entity mentions -> our other articles
+      const article = parseArticle(steps.step4_article, keyword);
+      const internalLinks = resolveInternalLinks(article, {
+        keyword,
+        language: selectedLang,
+        ideation: item.ideation,
+        targets: buildLinkTargets(await getHistory(), await getSiteLinks(), item),
+        clusterRole: item.cluster?.role,
+      });
+      await persist({ content: articleToMarkdown(article), internalLinks, sources, ...recordTemplate('writing'), ...recordUsage(written.usage) });
+
+      // Fact check: figures of the article against the Step 1 research and the sources (shown in the viewer)
+      const facts = checkFacts(article, steps.step1_research || '', item.verifiedClaims, sources);
+      if (facts.redFlags > 0) {
+        console.warn(`[${keyword}] Fact check red flags:\n${formatRedFlags(facts)}`);
+        report(`[${keyword}] Fact check: ${facts.redFlags} claim(s) not backed by the research.`);
+      }
+      stage = 'images';
+    }
+    show(AppStep.WRITING);
+
+    // --- Images ---
+    if (stage === 'images') {
+      const imageProvider = resolveImageProvider(item);
+      report(`[${keyword}] Generating Images (${imageProvider.label})...`);
+
+      // Work on the saved content: when resuming, already generated images are in place
+      // and only the images still waiting for generation are processed.
+      const article = parseArticle(item.content, keyword);
+      const pending = getArticleImages(article).filter(image => !image.src);
+
+      let processedCount = 0;
+      for (const image of pending) {
+        checkStop();
+        report(`[${keyword}] Image ${processedCount + 1}/${pending.length} ${image.featured ? '(Thumbnail)' : ''}...`);
+
+        // Encoded in every size, stored in the image store; the article keeps its id
+        const raw = await imageProvider.generate({
+          prompt: image.prompt,
+          alt: image.alt,
+          aspectRatio: image.featured ? imageSettings.featuredAspect : imageSettings.bodyAspect,
+          ctx
+        });
+        const generated = raw && await encodeImage(raw, imageSettings, image.featured);
+        const assetId = generated && await saveImageAsset({ ...generated, articleId: item.id, mime: generated.blob.type, prompt: image.prompt, alt: image.alt });
+        if (assetId) {
+          image.src = imageAssetRef(assetId);
+        } else {
+          if (!raw) report(`[${keyword}] ${imageProvider.label}: no image for "${image.alt || image.prompt}", left out of the article.`);
+          removeArticleImage(article, image);
+        }
+
+        await persist({ content: articleToMarkdown(article), ...recordTemplate('image') });
+        processedCount++;
+      }
+
+      steps.images_done = true;
+    }
+
+    // --- Save to History ---
+    await persist({ status: 'complete', timestamp: Date.now() });
+    return item;
+
+  } catch (error) {
+    console.error(error);
+    await persist({
+      status: 'failed',
+      failedStage: stage || undefined,
+      error: String(error),
+      // Keep the partial article if Step 4 finished, otherwise show the error
+      content: steps.step4_article ? item.content : `Error processing: ${error}`
+    });
+    throw error;
+  }
+};
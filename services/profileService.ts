@@ -0,0 +1,49 @@
+import { BrandProfile, HistoryItem, OutputLanguage } from '../types';
+
+// Visual context that used to be hard-coded in generateBlogImage
+const VIETNAMESE_IMAGE_STYLE = "bối cảnh Việt Nam, người Việt Nam, phong cách chân thực, ảnh chụp chất lượng cao, 4k. (Vietnamese context, realistic style, high quality photography, cinematic lighting).";
+
+// Seeded on first run: the original "Best Marathon" persona in both languages
+export const DEFAULT_PROFILES: BrandProfile[] = [
+  {
+    id: 'default-vi',
+    name: 'Best Marathon (VI)',
+    brandName: "Vietnam's Best Marathon",
+    websiteUrl: 'https://bestmarathon.vn',
+    niche: 'Chạy bộ, Marathon, Dinh dưỡng thể thao',
+    audience: 'Runner Việt Nam (từ beginner đến elite)',
+    voiceRules: 'Thể thao, năng động, chuyên nghiệp.',
+    imageStyle: VIETNAMESE_IMAGE_STYLE,
+    defaultCategory: 'Marathon',
+    language: 'vi',
+  },
+  {
+    id: 'default-en',
+    name: 'Best Marathon (EN)',
+    brandName: 'World Best Marathon',
+    websiteUrl: 'https://bestmarathon.vn',
+    niche: 'Running, Marathon, Sports Nutrition',
+    audience: 'Runners (beginner to elite)',
+    voiceRules: 'Professional, energetic.',
+    imageStyle: VIETNAMESE_IMAGE_STYLE,
+    defaultCategory: 'Marathon',
+    language: 'en',
+  },
+];
+
+export const getDefaultProfile = (language: OutputLanguage = 'vi'): BrandProfile =>
+  DEFAULT_PROFILES.find(p => p.language === language) || DEFAULT_PROFILES[0];
+
+// Resolves a profile id against the loaded list, falling back to the default for the language
+export const findProfile = (profiles: BrandProfile[], id: string | undefined, language: OutputLanguage = 'vi'): BrandProfile =>
+  profiles.find(p => p.id === id) || getDefaultProfile(language);
+
+// Profile an item was written with (items keep a snapshot of it), else the default for its language
+export const getItemProfile = (item: HistoryItem, profiles: BrandProfile[]): BrandProfile =>
+  item.profile || findProfile(profiles, undefined, item.language || 'vi');
+
+export const createEmptyProfile = (): BrandProfile => ({
+  ...getDefaultProfile('vi'),
+  id: `profile-${Date.now()}`,
+  name: 'New profile',
+});
@@ -0,0 +1,547 @@
+import { OutputLanguage, PromptBase, PromptStep, PromptTemplate } from '../types';
+import { getLanguage, LANGUAGES } from './languages';
+
+// Built-in prompt templates (version 1 of every step).
+// Variables use {{name}} and are filled by renderTemplate; see TEMPLATE_VARIABLES.
+// Bodies exist per prompt base (vi / en); languages without their own wording use the English
+// bodies, which name the output language through {{language}}.
+
+export const PROMPT_STEPS: PromptStep[] = ['research', 'ideation', 'outline', 'writing', 'image', 'section', 'translate'];
+
+export const PROMPT_STEP_LABELS: Record<PromptStep, string> = {
+  research: 'Step 1: Research (DS1)',
+  ideation: 'Step 2: Ideation (DDD1)',
+  outline: 'Step 3: Outline (OL1)',
+  writing: 'Step 4: Writing',
+  image: 'Image generation',
+  section: 'Section rewrite',
+  translate: 'Translation',
+};
+
+export const TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+  { name: 'keyword', description: 'Primary keyword of the article' },
+  { name: 'language', description: 'Output language name (e.g. Vietnamese)' },
+  { name: 'brand', description: 'Brand name from the profile' },
+  { name: 'website', description: 'Website URL from the profile' },
+  { name: 'niche', description: 'Niche / industry from the profile' },
+  { name: 'audience', description: 'Target audience from the profile' },
+  { name: 'voice', description: 'Voice & tone rules from the profile' },
+  { name: 'related_keywords', description: 'Near-duplicate keywords merged into this article at pre-flight, may be empty' },
+  { name: 'cluster', description: 'Pillar / supporting article role in its keyword cluster, may be empty' },
+  { name: 'research', description: 'Step 1 output (when available)' },
+  { name: 'ideation', description: 'Step 2 output as JSON (when available)' },
+  { name: 'outline', description: 'Step 3 output (when available)' },
+  { name: 'image_prompt', description: 'Image description (image step only)' },
+  { name: 'image_style', description: 'Image style from the profile' },
+  { name: 'section', description: 'Current Markdown of the section (section rewrite only)' },
+  { name: 'action', description: 'What to do with the section (section rewrite only)' },
+  { name: 'instructions', description: 'Editor instructions, may be empty (section rewrite only)' },
+  { name: 'article', description: 'Article to translate, images as IMAGE_n references (translation only)' },
+  { name: 'source_language', description: 'Language name of the original article (translation only)' },
+];
+
+const DEFAULT_BODIES: Record<PromptStep, Record<PromptBase, string>> = {
+  research: {
+    vi: `STEP 1:
+
+Read detailed data in Vietnamese. I will ask you to use this content in the next or future requests. Call this data is 'DS1'.
+
+{{
+Tìm kiếm và tổng hợp thông tin chi tiết về chủ đề: "{{keyword}}".
+Bao gồm: đặc điểm chính, thông số kỹ thuật (nếu có), lợi ích, đối tượng khách hàng, các số liệu mới nhất 2024-2025 và các thông tin liên quan khác. Nguồn thông tin càng chi tiết, bài viết càng chất lượng.
+}}`,
+
+    en: `STEP 1:
+
+Read detailed data in {{language}}. I will ask you to use this content in the next or future requests. Call this data is 'DS1'.
+
+{{
+Search and summarize detailed information about the topic: "{{keyword}}".
+Include: key features, specifications (if any), benefits, target audience, latest 2024-2025 data, and other relevant info.
+}}`,
+  },
+  ideation: {
+    vi: `STEP 2:
+
+Ideation: [ {{keyword}} ]. 
+{{related_keywords}}
+
+**A. KEYWORD ANALYSIS:**
+- List 5-7 semantic keywords (từ khóa ngữ nghĩa liên quan trực tiếp)
+- List 5-7 LSI keywords (từ khóa liên quan ngữ cảnh)
+- List 5-7 long-tail keyword variations
+
+**B. ENTITY MAPPING:**
+- List 5-7 primary entities (thực thể chính, sắp xếp theo mức độ quan trọng)
+- List 5-7 related entities (thực thể liên quan)
+- List 3-5 contextual entities (thực thể bổ sung ngữ cảnh)
+
+**C. SEARCH INTENT ANALYSIS:**
+- List 4-6 search intents (sắp xếp từ quan trọng nhất đến ít quan trọng nhất)
+- Với mỗi intent, xác định: [Informational / Commercial / Transactional / Navigational]
+
+**D. PEOPLE ALSO ASK:**
+- List 5-7 câu hỏi mà người dùng thường tìm kiếm liên quan đến keyword chính
+
+**E. KNOWLEDGE GRAPH SIGNALS:**
+- List 20 EAV (Entity - Attribute - Value)
+- List 20 ERE (Entity - Relation - Entity)
+- List 20 Semantic Triple (Subject - Predicate - Object)
+
+Temporarily call the above data 'DDD1'. I will ask you to use it in the next or future prompt.
+
+**Conditions:** No descriptions. No repeats. All items must be unique and relevant. Writing in Vietnamese.
+
+**Output format:** Return ONLY JSON matching the response schema: keywords (type semantic / lsi / long_tail), entities (role primary / related / contextual, priority 1 = most important), searchIntents (type + priority), questions, eav, ere, triples.`,
+
+    en: `STEP 2:
+
+Ideation: [ {{keyword}} ]. 
+{{related_keywords}}
+
+**A. KEYWORD ANALYSIS:**
+- List 5-7 semantic keywords
+- List 5-7 LSI keywords
+- List 5-7 long-tail keyword variations
+
+**B. ENTITY MAPPING:**
+- List 5-7 primary entities (prioritized)
+- List 5-7 related entities
+- List 3-5 contextual entities
+
+**C. SEARCH INTENT ANALYSIS:**
+- List 4-6 search intents (prioritized)
+- Identify: [Informational / Commercial / Transactional / Navigational]
+
+**D. PEOPLE ALSO ASK:**
+- List 5-7 common user questions
+
+**E. KNOWLEDGE GRAPH SIGNALS:**
+- List 20 EAV (Entity - Attribute - Value)
+- List 20 ERE (Entity - Relation - Entity)
+- List 20 Semantic Triple (Subject - Predicate - Object)
+
+Temporarily call the above data 'DDD1'.
+**Conditions:** No descriptions. No repeats. All items must be unique and relevant. Writing in {{language}}.
+
+**Output format:** Return ONLY JSON matching the response schema: keywords (type semantic / lsi / long_tail), entities (role primary / related / contextual, priority 1 = most important), searchIntents (type + priority), questions, eav, ere, triples.`,
+  },
+  outline: {
+    vi: `STEP 3:
+
+As an SEO expert specializing in content strategy, create a detailed content outline based on DDD1.
+{{cluster}}
+
+**OUTLINE REQUIREMENTS:**
+
+1. **Structure Logic:**
+   - H2 đầu tiên phải đáp ứng Search Intent quan trọng nhất của DDD1
+   - Các H2 tiếp theo sắp xếp theo thứ tự Search Intent từ quan trọng đến ít quan trọng
+   - Đảm bảo flow logic từ trên xuống dưới
+   - Tạo H3 chỉ khi thực sự cần thiết
+
+2. **Content Coverage:**
+   - Outline phải cover đúng topic của primary keyword
+   - Tích hợp Close Entities, Salient Entities, Semantic keywords từ DDD1
+   - Đảm bảo Content Gap coverage
+
+3. **E-E-A-T Markers (Lưu ý cho AI writer sau này):**
+   - [DATA] - vị trí cần số liệu, facts cụ thể
+   - [EXPERT] - vị trí cần insight chuyên môn
+   - [EXAMPLE] - vị trí cần ví dụ thực tế
+
+4. **Visual Strategy (QUAN TRỌNG):**
+   - **MỖI thẻ H2 (Main Heading) PHẢI CÓ 1 vị trí chèn ảnh.**
+   - Đánh dấu bằng marker: [IMAGE_PROMPT]
+
+5. **Placement Markers:**
+   - [CTA] - vị trí đặt call-to-action
+   - [INTERNAL-LINK] - vị trí phù hợp để internal link
+
+6. **Word Count Estimate:**
+   - Ghi estimated word count cho mỗi H2
+
+**RESTRICTIONS:**
+- Không dùng thuật ngữ SEO chuyên môn trong heading
+- Heading phải tự nhiên, dễ đọc
+- Không dùng clickbait
+
+Let's temporarily call the detailed outline above "OL1". I will ask you to use it in the next or future prompt. Writing in Vietnamese.`,
+
+    en: `STEP 3:
+
+As an SEO expert specializing in content strategy, create a detailed content outline based on DDD1.
+{{cluster}}
+
+**OUTLINE REQUIREMENTS:**
+
+1. **Structure Logic:**
+   - First H2 must answer the most critical Search Intent.
+   - Subsequent H2s sorted by priority.
+   - Logical flow.
+
+2. **Content Coverage:**
+   - Cover primary keyword topic.
+   - Integrate Entities & Semantic keywords.
+
+3. **E-E-A-T Markers (Instructions for future writer):**
+   - [DATA] - specific stats/facts
+   - [EXPERT] - expert insights
+   - [EXAMPLE] - real examples
+
+4. **Visual Strategy (IMPORTANT):**
+   - **EVERY H2 (Main Heading) MUST HAVE an image placeholder.**
+   - Use marker: [IMAGE_PROMPT]
+
+5. **Placement Markers:**
+   - [CTA]
+   - [INTERNAL-LINK]
+
+6. **Word Count Estimate:**
+   - Estimate words for each H2.
+
+**RESTRICTIONS:**
+- No SEO jargon in headings.
+- Headings must be natural.
+
+Call this "OL1". Writing in {{language}}.`,
+  },
+  writing: {
+    vi: `STEP 4:
+
+**WRITER CONTEXT:**
+- Brand/Author: {{brand}} (Sử dụng tên thương hiệu "Chúng tôi" hoặc "{{brand}}", KHÔNG dùng tên cá nhân)
+- Website: {{brand}}
+- Website URL: {{website}}
+- Industry/Niche: {{niche}}
+- Target Audience: {{audience}}
+
+**CONTENT MISSION:**
+Tạo nội dung chất lượng cao, cung cấp thông tin hữu ích và chính xác cho độc giả.
+
+---
+
+### OUTPUT FORMAT (Tuân thủ chính xác):
+\`\`\`
+========== META DATA ==========
+Meta Title: [55-65 ký tự, primary keyword ở đầu hoặc gần đầu]
+Meta Description: [145-155 ký tự, chứa primary keyword + value proposition]
+Slug: [url-friendly-format]
+=============================
+
+========== NỘI DUNG BÀI VIẾT ==========
+
+[FEATURED_IMAGE_PROMPT: Mô tả cực kỳ chi tiết cho Ảnh Đại Diện (Thumbnail). BẮT BUỘC phải chứa hình ảnh liên quan trực tiếp đến từ khóa "{{keyword}}". Ví dụ nếu là dinh dưỡng phải có đồ ăn, nếu là giày phải có giày. Ảnh phải ấn tượng, 4K, phong cách nhiếp ảnh thể thao chuyên nghiệp. | ALT: Alt text ngắn bằng tiếng Việt có từ khóa | CAPTION: Chú thích ngắn (không bắt buộc)]
+
+[Viết ngay đoạn Intro hấp dẫn khoảng 80-120 từ, chứa từ khóa chính. TUYỆT ĐỐI KHÔNG dùng các tiêu đề như "Intro", "Giới thiệu", "Phần mở đầu". Hãy bắt đầu viết nội dung ngay lập tức.]
+
+---
+
+## [H2-1 từ OL1]
+[Nội dung chi tiết, sâu sắc, 250-400 từ]
+
+[IMAGE_PROMPT: Mô tả hình ảnh minh họa cho H2 này. Ảnh cần sáng tạo, nghệ thuật. | ALT: Alt text ngắn mô tả ảnh | CAPTION: Chú thích ngắn (không bắt buộc)]
+
+### [H3 nếu có]
+[150-250 từ]
+
+---
+
+## [H2-2 từ OL1]
+[Nội dung chi tiết... ]
+
+[IMAGE_PROMPT: Mô tả chi tiết hình ảnh... | ALT: ... | CAPTION: ...]
+
+---
+
+## [H2-3 từ OL1]
+[Nội dung chi tiết... ]
+
+[IMAGE_PROMPT: Mô tả chi tiết hình ảnh... | ALT: ... | CAPTION: ...]
+
+---
+
+## [Tiếp tục cho TẤT CẢ các H2 còn lại trong OL1 - Mỗi H2 phải có 1 ảnh]
+
+---
+
+## Câu hỏi thường gặp (FAQ)
+[3-5 câu hỏi lấy từ People Also Ask trong DDD1, mỗi câu hỏi là một H3, trả lời ngắn gọn 40-80 từ. Phần này không cần ảnh.]
+
+### [Câu hỏi 1]
+[Câu trả lời]
+
+---
+
+## Kết Luận
+- Độ dài: 60-100 từ
+- Tóm tắt giá trị chính
+- CTA: khuyến khích comment, chia sẻ
+- Mention website với link: [{{brand}}]({{website}})
+
+========== KẾT THÚC BÀI VIẾT ==========
+\`\`\`
+
+---
+
+### WRITING RULES (Bắt buộc tuân thủ):
+
+**1. XỬ LÝ MARKER (CỰC KỲ QUAN TRỌNG):**
+- Trong Outline (OL1) có các thẻ như \`[DATA]\`, \`[EXPERT]\`, \`[EXAMPLE]\`.
+- Nhiệm vụ của bạn là **THAY THẾ** các thẻ này bằng nội dung thực tế.
+- **TUYỆT ĐỐI KHÔNG** in lại các từ khóa trong ngoặc vuông (Ví dụ: KHÔNG ĐƯỢC VIẾT "Theo [EXPERT] thì...").
+- Nếu gặp \`[DATA]\` -> Hãy đưa ra số liệu cụ thể từ DS1.
+- Nếu gặp \`[EXPERT]\` -> Hãy viết lời khuyên chuyên gia từ {{brand}}.
+- Nếu gặp \`[INTERNAL-LINK]\` -> Viết marker **ngay trong câu**, thay cho cụm từ sẽ làm anchor text: \`[INTERNAL-LINK: cụm từ tự nhiên]\` (Ví dụ: "Bạn nên chọn [INTERNAL-LINK: giày chạy bộ cho người mới] phù hợp..."). KHÔNG tự tạo URL, hệ thống sẽ tự gắn link.
+
+**2. HÌNH ẢNH:**
+- **BẮT BUỘC:** 
+  - Đầu bài viết phải có \`[FEATURED_IMAGE_PROMPT: ...]\` (Ảnh đại diện).
+  - Sau mỗi phần H2, phải có dòng \`[IMAGE_PROMPT: ...]\` (Ảnh minh họa).
+- Hãy mô tả ảnh một cách tự nhiên. **Quan trọng:** Ảnh đại diện phải thể hiện rõ chủ đề "{{keyword}}".
+- Sau mô tả, thêm \`| ALT: ...\` (tối đa 125 ký tự, tiếng Việt, mô tả đúng nội dung ảnh, chứa từ khóa "{{keyword}}" khi tự nhiên, không bắt đầu bằng "Hình ảnh") và nếu cần \`| CAPTION: ...\` (một câu ngắn cho người đọc).
+
+**3. Tone & Voice:**
+- Dùng ngôi "Chúng tôi" ({{brand}}) hoặc "Bạn" (người đọc).
+- Giọng văn: {{voice}}
+
+**4. Formatting:**
+- **Bold** các từ khóa quan trọng.
+- Sử dụng Markdown Table cho các dữ liệu so sánh/lịch tập.
+- KHÔNG dùng câu quá dài (>40 từ).
+- **KHÔNG sử dụng các nhãn như [INTRO], [BODY], [CONCLUSION]. Hãy viết thẳng vào nội dung mạch lạc.**
+
+Writing in Vietnamese.`,
+
+    en: `STEP 4:
+
+**WRITER CONTEXT:**
+- Brand/Author: {{brand}} (Use "We" or "{{brand}}", DO NOT use personal names)
+- Website: {{brand}}
+- Website URL: {{website}}
+- Industry/Niche: {{niche}}
+- Target Audience: {{audience}}
+
+**CONTENT MISSION:**
+Create high-quality content, providing useful and accurate info.
+
+---
+
+### OUTPUT FORMAT:
+\`\`\`
+========== META DATA ==========
+Meta Title: [55-65 chars]
+Meta Description: [145-155 chars]
+Slug: [url-friendly-format]
+=============================
+
+========== ARTICLE CONTENT ==========
+
+[FEATURED_IMAGE_PROMPT: Detailed prompt for the Main Featured Image (Thumbnail). MUST specifically visualize the keyword "{{keyword}}". Must be impressive, professional sports photography style, 4K. | ALT: Short alt text with the keyword | CAPTION: Short caption (optional)]
+
+[Start writing the introduction immediately (80-120 words). DO NOT use labels like "Intro" or "Introduction". Just start the content.]
+
+---
+
+## [H2-1 from OL1]
+[Detailed content, 250-400 words]
+
+[IMAGE_PROMPT: Detailed creative description for an image. | ALT: Short alt text describing the image | CAPTION: Short caption (optional)]
+
+### [H3 if needed]
+[150-250 words]
+
+---
+
+## [H2-2 from OL1]
+[Detailed content...]
+
+[IMAGE_PROMPT: Detailed description... | ALT: ... | CAPTION: ...]
+
+---
+
+## [H2-3 from OL1]
+[Detailed content...]
+
+[IMAGE_PROMPT: Detailed description... | ALT: ... | CAPTION: ...]
+
+---
+
+## [Continue for ALL remaining H2s - Every H2 MUST have an image]
+
+---
+
+## Frequently Asked Questions (FAQ)
+[3-5 questions from People Also Ask in DDD1, each question as an H3, answered in 40-80 words. No image needed here.]
+
+### [Question 1]
+[Answer]
+
+---
+
+## Conclusion
+- Summary
+- CTA
+- Mention website: [{{brand}}]({{website}})
+
+========== END OF ARTICLE ==========
+\`\`\`
+
+---
+
+### WRITING RULES:
+
+**1. MARKER HANDLING (CRITICAL):**
+- The Outline (OL1) contains markers like \`[DATA]\`, \`[EXPERT]\`, \`[EXAMPLE]\`.
+- You MUST **REPLACE** these markers with actual content.
+- **DO NOT** output the bracketed tags in the final text.
+- If you see \`[DATA]\` -> Write specific stats from DS1.
+- If you see \`[EXPERT]\` -> Write expert advice from {{brand}}.
+- If you see \`[INTERNAL-LINK]\` -> Write the marker **inside the sentence**, in place of the phrase that should be the anchor text: \`[INTERNAL-LINK: natural phrase]\` (e.g. "Pick the right [INTERNAL-LINK: running shoes for beginners] before..."). DO NOT invent URLs, links are added automatically.
+
+**2. IMAGES:**
+- **MANDATORY:** 
+  - First line of content must be \`[FEATURED_IMAGE_PROMPT: ...]\`.
+  - After every H2 section, include \`[IMAGE_PROMPT: ...]\`.
+- Describe images naturally. **Important:** The Featured Image must clearly depict "{{keyword}}".
+- After the description add \`| ALT: ...\` (max 125 characters, in {{language}}, describing what the image shows, with "{{keyword}}" where it fits naturally, not starting with "Image of") and optionally \`| CAPTION: ...\` (one short sentence for readers).
+
+**3. Tone & Voice:**
+- Use "We" ({{brand}}) and "You".
+- {{voice}}
+
+**4. Formatting:**
+- **Bold** key terms.
+- Use Markdown Tables for data.
+- No sentences >40 words.
+- **DO NOT use labels like [INTRO], [BODY], [CONCLUSION]. Write the content directly.**
+
+Writing in {{language}}.`,
+  },
+  image: {
+    vi: `Generate a realistic image based on this description: "{{image_prompt}}". {{image_style}}`,
+    en: `Generate a realistic image based on this description: "{{image_prompt}}". {{image_style}}`,
+  },
+  section: {
+    vi: `REWRITE ONE SECTION của bài viết về "{{keyword}}".
+
+**NHIỆM VỤ:** {{action}}
+{{instructions}}
+
+**DỮ LIỆU NGHIÊN CỨU (DS1):**
+{{research}}
+
+**DÀN Ý (OL1):**
+{{outline}}
+
+**SECTION HIỆN TẠI:**
+---
+{{section}}
+---
+
+**QUY TẮC:**
+- Chỉ trả về section mới dạng Markdown, bắt đầu bằng heading "## " (giữ nguyên heading trừ khi nhiệm vụ yêu cầu đổi). Giữ các H3 nếu cần.
+- KHÔNG thêm thẻ [IMAGE_PROMPT], meta data hay các section khác.
+- Số liệu phải lấy từ DS1, không bịa.
+- Giữ các chú thích nguồn \`[^n]\` sau những câu vẫn giữ nội dung đó, không tự thêm chú thích mới.
+- Dùng ngôi "Chúng tôi" ({{brand}}) hoặc "Bạn". Giọng văn: {{voice}}
+
+Writing in Vietnamese.`,
+
+    en: `REWRITE ONE SECTION of the article about "{{keyword}}".
+
+**TASK:** {{action}}
+{{instructions}}
+
+**RESEARCH DATA (DS1):**
+{{research}}
+
+**OUTLINE (OL1):**
+{{outline}}
+
+**CURRENT SECTION:**
+---
+{{section}}
+---
+
+**RULES:**
+- Return ONLY the new section in Markdown, starting with its "## " heading (keep the heading unless the task requires a change). Keep H3 subsections where useful.
+- DO NOT add [IMAGE_PROMPT] tags, meta data or other sections.
+- Facts and numbers must come from DS1, do not invent data.
+- Keep the source footnote markers \`[^n]\` after sentences that keep their content, do not add new ones.
+- Use "We" ({{brand}}) or "You". Voice: {{voice}}
+
+Writing in {{language}}.`,
+  },
+  translate: {
+    vi: `DỊCH VÀ BẢN ĐỊA HÓA bài viết dưới đây từ {{source_language}} sang {{language}}.
+
+**BÀI VIẾT GỐC (từ khóa chính: "{{keyword}}"):**
+---
+{{article}}
+---
+
+**QUY TẮC:**
+- Dòng đầu tiên của câu trả lời: \`Keyword: [từ khóa chính bằng {{language}}, đúng như người dùng sẽ tìm kiếm]\`, sau đó là bài viết.
+- Bản địa hóa, KHÔNG dịch word-by-word: văn phong tự nhiên cho độc giả {{language}}, đổi đơn vị, tiền tệ, ví dụ khi cần. Số liệu và facts giữ nguyên.
+- Giữ nguyên cấu trúc: khối META DATA với các nhãn tiếng Anh (Meta Title, Meta Description, Slug), cấp heading, danh sách, bảng và thứ tự các section.
+- Meta Title (55-65 ký tự) và Meta Description (145-155 ký tự) phải chứa từ khóa đã dịch.
+- Slug: slug mới từ từ khóa đã dịch, chỉ gồm chữ Latin thường, số và dấu gạch ngang (phiên âm nếu là chữ không phải Latin).
+- Hình ảnh: giữ nguyên mọi dòng \`![alt](IMAGE_n "chú thích")\` tại chỗ, chỉ dịch alt text và chú thích. Giữ nguyên tiền tố \`FEATURED_IMAGE:\` trong alt. Dịch mô tả, ALT và CAPTION trong [FEATURED_IMAGE_PROMPT: ...] và [IMAGE_PROMPT: ...], giữ nguyên tên thẻ và nhãn.
+- Link: giữ nguyên mọi URL, chỉ dịch chữ của link. Trong marker \`[INTERNAL-LINK: cụm từ]\` chỉ dịch cụm từ.
+- Giữ nguyên các chú thích nguồn \`[^1]\`, \`[^2]\`... ngay sau câu mà chúng đi kèm.
+- Giữ "(FAQ)" trong heading FAQ và giữ nguyên heading "### Nguồn tham khảo (Sources)".
+- KHÔNG dịch tên thương hiệu {{brand}}.
+- Chỉ trả về bài viết đã dịch, không giải thích.`,
+
+    en: `TRANSLATE AND LOCALIZE the article below from {{source_language}} into {{language}}.
+
+**SOURCE ARTICLE (primary keyword: "{{keyword}}"):**
+---
+{{article}}
+---
+
+**RULES:**
+- First line of your answer: \`Keyword: [primary keyword in {{language}}, as people would search for it]\`, then the article.
+- Localize, do not translate word for word: natural {{language}} for native readers, with units, currencies and examples adapted where needed. Facts and numbers stay the same.
+- Keep the exact structure: the META DATA block with its English labels (Meta Title, Meta Description, Slug), heading levels, lists, tables and the order of sections.
+- Meta Title (55-65 chars) and Meta Description (145-155 chars) must contain the translated keyword.
+- Slug: a new slug from the translated keyword, lowercase Latin letters, digits and hyphens only (transliterate non-Latin scripts).
+- Images: keep every \`![alt](IMAGE_n "caption")\` line where it is and translate only the alt text and caption. Keep the \`FEATURED_IMAGE:\` prefix of the alt. Translate the description, ALT and CAPTION inside [FEATURED_IMAGE_PROMPT: ...] and [IMAGE_PROMPT: ...], keeping the tag names and labels.
+- Links: keep every URL unchanged and translate the link text. In \`[INTERNAL-LINK: phrase]\` markers translate only the phrase.
+- Keep the source footnote markers \`[^1]\`, \`[^2]\`... right after the sentences they belong to.
+- Keep "(FAQ)" in the FAQ heading and keep the "### Nguồn tham khảo (Sources)" heading unchanged.
+- DO NOT translate the brand name {{brand}}.
+- Return ONLY the translated article, no comments.`,
+  },
+};
+
+export const templateId = (step: PromptStep, language: OutputLanguage) => `${step}:${language}`;
+
+export const getDefaultTemplate = (step: PromptStep, language: OutputLanguage): PromptTemplate => ({
+  id: templateId(step, language),
+  step,
+  language,
+  body: DEFAULT_BODIES[step][getLanguage(language).promptBase],
+  version: 1,
+  updatedAt: 0,
+  versions: [],
+});
+
+export const DEFAULT_TEMPLATES: PromptTemplate[] = PROMPT_STEPS.flatMap(step =>
+  LANGUAGES.map(language => getDefaultTemplate(step, language.code))
+);
+
+/**
+ * Replaces {{variable}} placeholders. Unknown variables are left in place (and logged)
+ * so a typo in a template is visible in the output instead of silently disappearing.
+ */
+export const renderTemplate = (body: string, vars: Record<string, string | undefined>): string =>
+  body.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => {
+    const value = vars[name];
+    if (value === undefined) {
+      console.warn(`[Templates] Unknown or empty variable ${match}`);
+      return match;
+    }
+    return value;
+  });
@@ -0,0 +1,142 @@
+// Rate-limit aware scheduling for Gemini calls.
+// Text and image models have separate quotas, so each gets its own bucket with a
+// requests-per-minute window and a shared backoff that every running job respects.
+
+export type ModelKind = 'text' | 'image';
+
+export interface SchedulerSettings {
+  concurrency: number; // Keywords processed in parallel
+  textRpm: number;     // Requests per minute for the text model
+  imageRpm: number;    // Requests per minute for the image model
+}
+
+export const DEFAULT_SCHEDULER_SETTINGS: SchedulerSettings = {
+  concurrency: 2,
+  textRpm: 10,
+  imageRpm: 8,
+};
+
+export interface BucketStats {
+  rpm: number;
+  usedLastMinute: number;
+  quotaErrors: number;
+  backoffRemainingMs: number;
+}
+
+interface Bucket {
+  rpm: number;
+  timestamps: number[];  // Start time of each request in the last minute
+  backoffUntil: number;  // No request of this kind starts before this time
+  consecutiveQuotaErrors: number;
+  totalQuotaErrors: number;
+}
+
+const WINDOW_MS = 60_000;
+const BASE_BACKOFF_MS = 5_000;
+const MAX_BACKOFF_MS = 120_000;
+const MAX_QUOTA_RETRIES = 5;
+
+const buckets: Record<ModelKind, Bucket> = {
+  text: { rpm: DEFAULT_SCHEDULER_SETTINGS.textRpm, timestamps: [], backoffUntil: 0, consecutiveQuotaErrors: 0, totalQuotaErrors: 0 },
+  image: { rpm: DEFAULT_SCHEDULER_SETTINGS.imageRpm, timestamps: [], backoffUntil: 0, consecutiveQuotaErrors: 0, totalQuotaErrors: 0 },
+};
+
+// Durations of finished keyword jobs, used for the ETA
+const jobDurations: number[] = [];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const configureScheduler = (settings: SchedulerSettings) => {
+  buckets.text.rpm = Math.max(1, settings.textRpm);
+  buckets.image.rpm = Math.max(1, settings.imageRpm);
+};
+
+export const isQuotaError = (error: unknown): boolean => {
+  if (typeof error !== 'object' || error === null) return false;
+  if ('status' in error && error.status === 429) return true;
+  if ('code' in error && error.code === 429) return true;
+  return 'message' in error && typeof error.message === 'string' &&
+    (error.message.includes('429') || error.message.includes('quota') || error.message.includes('RESOURCE_EXHAUSTED'));
+};
+
+// Waits until the bucket has room in its 1-minute window and no backoff is active, then reserves a slot
+const acquireSlot = async (kind: ModelKind) => {
+  const bucket = buckets[kind];
+  while (true) {
+    const now = Date.now();
+    bucket.timestamps = bucket.timestamps.filter(t => now - t < WINDOW_MS);
+
+    if (now < bucket.backoffUntil) {
+      await sleep(bucket.backoffUntil - now);
+      continue;
+    }
+    if (bucket.timestamps.length < bucket.rpm) {
+      bucket.timestamps.push(now);
+      return;
+    }
+    // Window full: wait until the oldest request leaves it
+    await sleep(WINDOW_MS - (now - bucket.timestamps[0]) + 50);
+  }
+};
+
+const registerQuotaError = (kind: ModelKind) => {
+  const bucket = buckets[kind];
+  bucket.consecutiveQuotaErrors++;
+  bucket.totalQuotaErrors++;
+  // Exponential backoff shared by every job: 5s, 10s, 20s, 40s... capped at 2 min
+  const waitTime = Math.min(BASE_BACKOFF_MS * Math.pow(2, bucket.consecutiveQuotaErrors - 1), MAX_BACKOFF_MS);
+  bucket.backoffUntil = Math.max(bucket.backoffUntil, Date.now() + waitTime);
+  return waitTime;
+};
+
+/**
+ * Runs a model call inside the rate limit of its model kind.
+ * Quota errors (429) trigger a global backoff for that kind and the call is retried;
+ * any other error is thrown to the caller unchanged.
+ */
+export const withRateLimit = async <T>(kind: ModelKind, task: () => Promise<T>, label: string = kind): Promise<T> => {
+  let attempt = 0;
+  while (true) {
+    await acquireSlot(kind);
+    try {
+      const result = await task();
+      buckets[kind].consecutiveQuotaErrors = 0;
+      return result;
+    } catch (error) {
+      if (!isQuotaError(error)) throw error;
+      attempt++;
+      const waitTime = registerQuotaError(kind);
+      if (attempt >= MAX_QUOTA_RETRIES) {
+        console.error(`[Scheduler] ${label}: quota exceeded, giving up after ${attempt} attempts.`);
+        throw error;
+      }
+      console.warn(`[Scheduler] ${label}: quota exceeded (429). Backing off ${waitTime / 1000}s (Attempt ${attempt}/${MAX_QUOTA_RETRIES})`);
+    }
+  }
+};
+
+export const getSchedulerStats = (): Record<ModelKind, BucketStats> => {
+  const now = Date.now();
+  const stats = (bucket: Bucket): BucketStats => ({
+    rpm: bucket.rpm,
+    usedLastMinute: bucket.timestamps.filter(t => now - t < WINDOW_MS).length,
+    quotaErrors: bucket.totalQuotaErrors,
+    backoffRemainingMs: Math.max(0, bucket.backoffUntil - now),
+  });
+  return { text: stats(buckets.text), image: stats(buckets.image) };
+};
+
+export const recordJobDuration = (ms: number) => {
+  jobDurations.push(ms);
+  if (jobDurations.length > 10) jobDurations.shift();
+};
+
+/**
+ * Estimated time left for the batch: remaining jobs spread over the parallel slots,
+ * times the average duration of recent jobs. Returns null until one job has finished.
+ */
+export const estimateRemainingMs = (remainingJobs: number, concurrency: number): number | null => {
+  if (jobDurations.length === 0) return null;
+  const average = jobDurations.reduce((sum, d) => sum + d, 0) / jobDurations.length;
+  return Math.ceil(remainingJobs / Math.max(1, concurrency)) * average;
+};
@@ -0,0 +1,262 @@
+import { Article, ArticleBlock, ArticleIssue, ArticleSection, BrandProfile, Ideation, OutputLanguage } from '../types';
+import { isFaqSection, slugify, stripLinkMarkers } from './articleService';
+import { getFaqQuestions, getTagSuggestions } from './ideationService';
+import { getLanguage } from './languages';
+
+// JSON-LD structured data for exports: Article, FAQPage (from the FAQ section), HowTo (when a
+// section is a list of steps) and BreadcrumbList (home > category > article).
+// Every schema is validated; one missing a required field is left out and reported.
+
+export interface SchemaContext {
+  article: Article;
+  keyword: string;
+  language: OutputLanguage;
+  profile: BrandProfile;
+  category: string;
+  ideation?: Ideation;
+  url?: string;          // Public URL of the post (WordPress link, or website + slug)
+  imageUrl?: string;     // Public URL of the featured image; data: URIs are not valid here
+  datePublished: number;
+  dateModified?: number;
+}
+
+export interface StructuredData {
+  schemas: Record<string, unknown>[]; // Valid schemas only
+  issues: ArticleIssue[];             // error = schema dropped, warning = recommended field missing
+}
+
+type Schema = Record<string, unknown>;
+
+// Nested fields read by validateSchema
+interface ArticleSchema extends Schema { author?: { name?: string } }
+interface FaqSchema extends Schema { mainEntity?: { name?: string; acceptedAnswer?: { text?: string } }[] }
+interface HowToSchema extends Schema { step?: { text?: string }[] }
+interface BreadcrumbSchema extends Schema { itemListElement?: { name?: string; item?: string }[] }
+
+const HOWTO_TITLE = /(cách|hướng dẫn|các bước|quy trình|lịch tập|kế hoạch|giáo án|how to|step[- ]by[- ]step|steps|guide|training plan|schedule|routine)/i;
+const STEP_HEADING = /^(bước|step|tuần|week|ngày|day|giai đoạn|phase)\s*\d+/i;
+const ORDERED_ITEM = /^\s*\d+[.)]\s+(.+)$/;
+const MIN_HOWTO_STEPS = 3;
+
+// Plain text for schema fields (no Markdown, no images, no link markers)
+const plainText = (blocks: ArticleBlock[]) =>
+  stripLinkMarkers(blocks.map(b => (b.type === 'text' ? b.markdown : '')).join('\n\n'))
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*([-*_])(?:\s*\1){2,}\s*$/gm, '') // "---" between sections
+    .replace(/^\s*(#{1,6}|>|[-*+])\s+/gm, '')
+    .replace(/^\s*\|.*\|\s*$/gm, '')
+    .replace(/[*_`]/g, '')
+    .replace(/\n{2,}/g, '\n')
+    .trim();
+
+const iso = (time: number) => new Date(time).toISOString();
+
+const trimUrl = (url: string) => url.trim().replace(/\/+$/, '');
+
+// H2 sections with the H3 sections that follow them
+const groupSections = (article: Article) => {
+  const all = [...article.sections, ...(article.conclusion ? [article.conclusion] : [])];
+  const groups: { section: ArticleSection; children: ArticleSection[] }[] = [];
+  for (const section of all) {
+    if (section.level === 2 || groups.length === 0) groups.push({ section, children: [] });
+    else groups[groups.length - 1].children.push(section);
+  }
+  return groups;
+};
+
+// --- BUILDERS ---
+
+const buildArticle = (ctx: SchemaContext): Schema => {
+  const { article, profile, keyword, ideation } = ctx;
+  const website = trimUrl(profile.websiteUrl);
+  const organization = { '@type': 'Organization', name: profile.brandName, url: website || undefined };
+  return {
+    '@type': 'Article',
+    headline: article.meta.title.slice(0, 110),
+    description: article.meta.description || undefined,
+    image: ctx.imageUrl ? [ctx.imageUrl] : undefined,
+    datePublished: iso(ctx.datePublished),
+    dateModified: iso(ctx.dateModified || ctx.datePublished),
+    author: organization,
+    publisher: organization,
+    mainEntityOfPage: ctx.url ? { '@type': 'WebPage', '@id': ctx.url } : undefined,
+    inLanguage: getLanguage(ctx.language).hreflang,
+    articleSection: ctx.category || undefined,
+    keywords: (ideation ? [keyword, ...getTagSuggestions(ideation)] : [keyword]).join(', '),
+  };
+};
+
+/**
+ * FAQPage from the FAQ section (each H3 is a question, its text the answer).
+ * Without one, H2/H3 headings matching a People-Also-Ask question of Step 2 are used.
+ * Only questions answered in the article qualify (rich result guidelines).
+ */
+const buildFaq = (ctx: SchemaContext): Schema | null => {
+  const groups = groupSections(ctx.article);
+  let pairs = groups
+    .filter(g => isFaqSection(g.section))
+    .flatMap(g => g.children.map(child => ({ question: child.heading, answer: plainText(child.blocks) })));
+
+  if (pairs.length === 0 && ctx.ideation) {
+    const questions = new Set(getFaqQuestions(ctx.ideation).map(q => q.toLowerCase().replace(/[?\s]+$/, '')));
+    pairs = groups
+      .flatMap(g => [g.section, ...g.children])
+      .filter(s => questions.has(s.heading.toLowerCase().replace(/[?\s]+$/, '')))
+      .map(s => ({ question: s.heading, answer: plainText(s.blocks) }));
+  }
+  if (pairs.length === 0) return null;
+
+  return {
+    '@type': 'FAQPage',
+    mainEntity: pairs.map(p => ({
+      '@type': 'Question',
+      name: p.question,
+      acceptedAnswer: { '@type': 'Answer', text: p.answer },
+    })),
+  };
+};
+
+const stepFromText = (text: string, index: number) => {
+  const plain = plainText([{ type: 'text', markdown: text }]);
+  // "**Warm-up:** 10 minutes easy" -> name "Warm-up", text the whole line
+  const bold = text.match(/^\*\*([^*]+?)\*\*/);
+  const name = (bold ? bold[1] : plain.split(/[.:;]/)[0]).replace(/[:\s]+$/, '').slice(0, 80);
+  return { '@type': 'HowToStep', position: index + 1, name: name || `Step ${index + 1}`, text: plain };
+};
+
+/**
+ * HowTo when a section is a procedure: a "how to / plan" H2 holding a numbered list, or an H2
+ * whose H3s are "Step 1 / Week 1 / Bước 1..." headings. The first such section is used.
+ */
+const buildHowTo = (ctx: SchemaContext): Schema | null => {
+  for (const { section, children } of groupSections(ctx.article)) {
+    if (isFaqSection(section)) continue;
+
+    const stepChildren = children.filter(c => STEP_HEADING.test(c.heading));
+    let steps: Schema[] = [];
+    if (stepChildren.length >= MIN_HOWTO_STEPS) {
+      steps = stepChildren.map((c, i) => ({ '@type': 'HowToStep', position: i + 1, name: c.heading, text: plainText(c.blocks) }));
+    } else if (HOWTO_TITLE.test(section.heading)) {
+      const items = section.blocks
+        .flatMap(b => (b.type === 'text' ? b.markdown.split('\n') : []))
+        .map(line => line.match(ORDERED_ITEM)?.[1])
+        .filter((item): item is string => !!item);
+      if (items.length >= MIN_HOWTO_STEPS) steps = items.map(stepFromText);
+    }
+    if (steps.length === 0) continue;
+
+    return {
+      '@type': 'HowTo',
+      name: section.heading,
+      description: plainText(section.blocks).split('\n')[0]?.slice(0, 300) || undefined,
+      image: ctx.imageUrl || undefined,
+      inLanguage: getLanguage(ctx.language).hreflang,
+      step: steps,
+    };
+  }
+  return null;
+};
+
+const buildBreadcrumb = (ctx: SchemaContext): Schema | null => {
+  const website = trimUrl(ctx.profile.websiteUrl);
+  if (!website) return null;
+  const items = [
+    { name: ctx.profile.brandName || 'Home', item: `${website}/` },
+    ...(ctx.category ? [{ name: ctx.category, item: `${website}/category/${slugify(ctx.category)}/` }] : []),
+    { name: ctx.article.meta.title, item: ctx.url },
+  ];
+  return {
+    '@type': 'BreadcrumbList',
+    itemListElement: items.map((entry, i) => ({ '@type': 'ListItem', position: i + 1, name: entry.name, item: entry.item })),
+  };
+};
+
+// --- VALIDATION ---
+
+const missing = (value: unknown) =>
+  value === undefined || value === null || (typeof value === 'string' && !value.trim()) || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Required (error) and recommended (warning) fields per type, following the schema.org
+ * types and Google's rich result documentation.
+ */
+export const validateSchema = (schema: Schema): ArticleIssue[] => {
+  const type = schema['@type'];
+  const issues: ArticleIssue[] = [];
+  const error = (message: string) => issues.push({ severity: 'error', message: `${type}: ${message}` });
+  const warn = (message: string) => issues.push({ severity: 'warning', message: `${type}: ${message}` });
+
+  switch (type) {
+    case 'Article':
+      if (missing(schema.headline)) error('headline is required.');
+      if (missing((schema as ArticleSchema).author?.name)) error('author name is required (brand name of the profile).');
+      if (missing(schema.datePublished)) error('datePublished is required.');
+      if (missing(schema.image)) warn('no image (the featured image has no public URL yet).');
+      if (missing(schema.mainEntityOfPage)) warn('no page URL (publish first or set the website URL of the profile).');
+      if (missing(schema.description)) warn('no description.');
+      break;
+    case 'FAQPage': {
+      const questions = (schema as FaqSchema).mainEntity || [];
+      if (missing(schema.mainEntity)) error('at least one question is required.');
+      questions.forEach((q, i) => {
+        if (missing(q.name)) error(`question ${i + 1} has no text.`);
+        if (missing(q.acceptedAnswer?.text)) error(`question "${q.name}" has no answer.`);
+      });
+      break;
+    }
+    case 'HowTo': {
+      const { step } = schema as HowToSchema;
+      if (missing(schema.name)) error('name is required.');
+      if (!Array.isArray(step) || step.length < 2) error('at least two steps are required.');
+      (step || []).forEach((s, i) => {
+        if (missing(s.text)) error(`step ${i + 1} has no text.`);
+      });
+      break;
+    }
+    case 'BreadcrumbList': {
+      const items = (schema as BreadcrumbSchema).itemListElement || [];
+      if (items.length < 2) error('at least two items are required.');
+      items.forEach((item, i) => {
+        if (missing(item.name)) error(`item ${i + 1} has no name.`);
+        // The last item (the page itself) may omit its URL
+        if (i < items.length - 1 && missing(item.item)) error(`item "${item.name}" has no URL.`);
+      });
+      break;
+    }
+  }
+  return issues;
+};
+
+// Drops undefined fields so the output only holds what is known
+const compact = <T>(value: T): T => {
+  if (Array.isArray(value)) return value.map(compact) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined).map(([k, v]) => [k, compact<unknown>(v)])) as T;
+  }
+  return value;
+};
+
+/** Builds and validates every applicable schema for the article. */
+export const buildStructuredData = (ctx: SchemaContext): StructuredData => {
+  const candidates = [buildArticle(ctx), buildFaq(ctx), buildHowTo(ctx), buildBreadcrumb(ctx)].filter((s): s is Schema => !!s);
+  const schemas: Schema[] = [];
+  const issues: ArticleIssue[] = [];
+  for (const schema of candidates.map(compact)) {
+    const problems = validateSchema(schema);
+    issues.push(...problems);
+    if (!problems.some(p => p.severity === 'error')) schemas.push(schema);
+  }
+  return { schemas, issues };
+};
+
+export const toJsonLd = (data: StructuredData): string =>
+  JSON.stringify({ '@context': 'https://schema.org', '@graph': data.schemas }, null, 2);
+
+// <script> tag for HTML exports ("</" escaped so text content cannot close the tag)
+export const jsonLdScript = (data: StructuredData): string =>
+  data.schemas.length ? `<script type="application/ld+json">\n${toJsonLd(data).replace(/<\//g, '<\\/')}\n</script>` : '';
+
+// "Article, FAQPage, BreadcrumbList" (for messages)
+export const describeSchemas = (data: StructuredData): string =>
+  data.schemas.map(s => s['@type']).join(', ') || 'none';
@@ -0,0 +1,264 @@
+import { Article, ArticleBlock, AuditCheck, AuditStatus, HistoryItem, Ideation, OutputLanguage, SeoAudit } from '../types';
+import { ALT_MAX_LENGTH, getArticleImages, isFaqSection, parseArticle, slugify, stripCitations, stripLinkMarkers } from './articleService';
+import { getDensityKeywords } from './ideationService';
+import { getLanguage } from './languages';
+
+// On-page SEO audit of a parsed article: checks the rules the Step 4 prompt asks for
+// (meta lengths, keyword placement, bold terms, short sentences, one image per H2...)
+// and turns them into a 0-100 score.
+
+export interface AuditOptions {
+  keyword: string;
+  language: OutputLanguage;
+  ideation?: Ideation;
+  siteUrl?: string; // Links to this host count as internal
+}
+
+const MAX_SENTENCE_WORDS = 40;
+
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+const normalize = (text: string) => text.normalize('NFC').toLowerCase().replace(/\s+/g, ' ').trim();
+
+const countWords = (text: string) => text.split(/\s+/).filter(w => WORD_CHAR.test(w)).length;
+
+// Whole-phrase occurrences (case-insensitive)
+const countPhrase = (text: string, phrase: string): number => {
+  const haystack = normalize(text);
+  const needle = normalize(phrase);
+  if (!needle) return 0;
+  let count = 0;
+  for (let i = haystack.indexOf(needle); i >= 0; i = haystack.indexOf(needle, i + needle.length)) {
+    if (!WORD_CHAR.test(haystack[i - 1] || ' ') && !WORD_CHAR.test(haystack[i + needle.length] || ' ')) count++;
+  }
+  return count;
+};
+
+// Share of the keyword's words present in the text, diacritics folded (catches reworded titles)
+const tokenCoverage = (text: string, keyword: string): number => {
+  const words = new Set(slugify(text).split('-'));
+  const wanted = [...new Set(slugify(keyword).split('-').filter(Boolean))];
+  return wanted.length ? wanted.filter(w => words.has(w)).length / wanted.length : 0;
+};
+
+const keywordStatus = (text: string, keyword: string): AuditStatus =>
+  countPhrase(text, keyword) > 0 ? 'pass' : tokenCoverage(text, keyword) >= 0.7 ? 'warn' : 'fail';
+
+const range = (value: number, pass: [number, number], warn: [number, number]): AuditStatus =>
+  value >= pass[0] && value <= pass[1] ? 'pass' : value >= warn[0] && value <= warn[1] ? 'warn' : 'fail';
+
+const toPlainText = (markdown: string) =>
+  stripCitations(stripLinkMarkers(markdown))
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[*_`]/g, '');
+
+// Prose paragraphs (tables and code left out) of a list of blocks
+const paragraphsOf = (blocks: ArticleBlock[]): string[] =>
+  blocks
+    .flatMap(b => (b.type === 'text' ? b.markdown.replace(/```[\s\S]*?```/g, '').split(/\n\s*\n/) : []))
+    .map(p => p.split('\n').filter(line => !line.trim().startsWith('|')).join('\n'))
+    .map(toPlainText)
+    .map(p => p.trim())
+    .filter(Boolean);
+
+const splitSentences = (paragraph: string) =>
+  paragraph.split(/(?<=[.!?…])\s+|\n+/).map(s => s.trim()).filter(s => countWords(s) > 0);
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+};
+
+/** Audits an article parsed by parseArticle. Pure: nothing is called or stored. */
+export const auditArticle = (article: Article, options: AuditOptions): SeoAudit => {
+  const { keyword, language, ideation, siteUrl } = options;
+  const checks: AuditCheck[] = [];
+  const add = (id: string, label: string, weight: number, status: AuditStatus, detail: string) =>
+    checks.push({ id, label, weight, status, detail });
+
+  const allSections = [...article.sections, ...(article.conclusion ? [article.conclusion] : [])];
+  const h2s = allSections.filter(s => s.level === 2);
+  const allBlocks = [...article.intro, ...allSections.flatMap(s => s.blocks)];
+  const paragraphs = paragraphsOf(allBlocks);
+  const bodyText = paragraphs.join('\n\n');
+  const totalWords = countWords(bodyText);
+  const rawText = allBlocks.map(b => (b.type === 'text' ? b.markdown : '')).join('\n\n');
+  // Word-based checks need word limits; languages written without spaces (Thai) have none
+  const limits = getLanguage(language).readability;
+
+  // --- Meta ---
+  const { title, description, slug } = article.meta;
+  add('meta-title', 'Meta title length', 2, range(title.length, [55, 65], [45, 70]), `${title.length} characters (target 55-65)`);
+  add(
+    'meta-description',
+    'Meta description length',
+    2,
+    range(description.length, [145, 155], [120, 170]),
+    description ? `${description.length} characters (target 145-155)` : 'Missing'
+  );
+
+  // --- Keyword placement ---
+  add('keyword-title', 'Keyword in meta title', 3, keywordStatus(title, keyword), `"${keyword}" in "${title}"`);
+  const firstParagraph = paragraphsOf(article.intro)[0] || '';
+  add(
+    'keyword-intro',
+    'Keyword in first paragraph',
+    2,
+    firstParagraph ? keywordStatus(firstParagraph, keyword) : 'fail',
+    firstParagraph ? `First paragraph: ${countWords(firstParagraph)} words` : 'No intro paragraph'
+  );
+  const h2Hits = h2s.filter(s => countPhrase(s.heading, keyword) > 0).length;
+  const h2Partial = h2s.filter(s => tokenCoverage(s.heading, keyword) >= 0.7).length;
+  add(
+    'keyword-h2',
+    'Keyword in H2 headings',
+    2,
+    h2Hits > 0 ? 'pass' : h2Partial > 0 ? 'warn' : 'fail',
+    `${h2Hits} of ${h2s.length} H2 with the exact keyword, ${h2Partial} with most of its words`
+  );
+  const keywordSlug = slugify(keyword);
+  add(
+    'keyword-slug',
+    'Keyword in slug',
+    1,
+    slug.includes(keywordSlug) ? 'pass' : tokenCoverage(slug, keyword) >= 0.7 ? 'warn' : 'fail',
+    `/${slug}/`
+  );
+
+  // --- Density ---
+  if (limits) {
+    const occurrences = countPhrase(bodyText, keyword);
+    const density = totalWords ? (occurrences * countWords(keyword) * 100) / totalWords : 0;
+    add(
+      'keyword-density',
+      'Keyword density',
+      2,
+      range(density, [0.5, 2.5], [0.3, 3.5]),
+      `${density.toFixed(2)}% (${occurrences} times in ${totalWords} words, target 0.5-2.5%)`
+    );
+  }
+  if (ideation) {
+    const secondary = getDensityKeywords(ideation).filter(k => normalize(k) !== normalize(keyword));
+    const covered = secondary.filter(k => countPhrase(bodyText, k) > 0);
+    const share = secondary.length ? covered.length / secondary.length : 1;
+    const missing = secondary.filter(k => !covered.includes(k)).slice(0, 5);
+    add(
+      'secondary-keywords',
+      'Secondary keywords covered',
+      1,
+      share >= 0.5 ? 'pass' : share >= 0.25 ? 'warn' : 'fail',
+      `${covered.length} of ${secondary.length} used${missing.length ? `, missing e.g. ${missing.join(', ')}` : ''}`
+    );
+  }
+
+  // --- Structure ---
+  const headingProblems: string[] = [];
+  if (allSections[0]?.level === 3) headingProblems.push('H3 before the first H2');
+  const seenHeadings = new Set<string>();
+  for (const s of allSections) {
+    const key = normalize(s.heading);
+    if (seenHeadings.has(key)) headingProblems.push(`duplicate heading "${s.heading}"`);
+    seenHeadings.add(key);
+  }
+  add(
+    'headings',
+    'Heading hierarchy',
+    2,
+    h2s.length === 0 || allSections[0]?.level === 3 ? 'fail' : h2s.length < 3 || headingProblems.length ? 'warn' : 'pass',
+    `${h2s.length} H2, ${allSections.length - h2s.length} H3${headingProblems.length ? ` · ${headingProblems.join(', ')}` : ''}`
+  );
+
+  // --- Images ---
+  // Each H2 (except the FAQ and the conclusion) with its H3s should hold an image
+  const groups: ArticleBlock[][] = [];
+  let inFaq = false;
+  for (const s of article.sections) {
+    if (s.level === 2) inFaq = isFaqSection(s);
+    if (inFaq) continue;
+    if (s.level === 2 || groups.length === 0) groups.push([]);
+    groups[groups.length - 1].push(...s.blocks);
+  }
+  const withImage = groups.filter(blocks => blocks.some(b => b.type === 'image' && b.image.src)).length;
+  const images = getArticleImages(article).filter(img => img.src);
+  add(
+    'images',
+    'Images (featured + one per H2)',
+    2,
+    !article.featuredImage?.src || withImage < groups.length / 2 ? 'fail' : withImage < groups.length ? 'warn' : 'pass',
+    `${article.featuredImage?.src ? 'Featured image' : 'No featured image'}, ${withImage} of ${groups.length} H2 sections with an image`
+  );
+  const inline = images.filter(img => !img.featured);
+  const noAlt = inline.filter(img => !img.alt.trim()).length;
+  const longAlt = inline.filter(img => img.alt.length > ALT_MAX_LENGTH).length;
+  add(
+    'image-alt',
+    'Image alt text',
+    1,
+    noAlt > 0 ? 'fail' : longAlt > 0 ? 'warn' : 'pass',
+    inline.length === 0
+      ? 'No inline images'
+      : `${inline.length - noAlt} of ${inline.length} with alt text${longAlt ? `, ${longAlt} longer than ${ALT_MAX_LENGTH} characters` : ''}`
+  );
+
+  // --- Formatting & readability ---
+  const boldCount = [...rawText.matchAll(/\*\*[^*\n]+\*\*/g)].length;
+  add('bold', 'Bold key terms', 1, boldCount >= 3 ? 'pass' : boldCount >= 1 ? 'warn' : 'fail', `${boldCount} bold phrases`);
+
+  if (limits) {
+    const sentences = paragraphs.flatMap(splitSentences);
+    const longSentences = sentences.filter(s => countWords(s) > MAX_SENTENCE_WORDS).length;
+    const longShare = sentences.length ? longSentences / sentences.length : 0;
+    add(
+      'sentence-length',
+      `Sentences under ${MAX_SENTENCE_WORDS} words`,
+      1,
+      longSentences === 0 ? 'pass' : longShare <= 0.05 ? 'warn' : 'fail',
+      `${longSentences} of ${sentences.length} sentences too long`
+    );
+
+    const avgSentence = sentences.length ? sentences.reduce((sum, s) => sum + countWords(s), 0) / sentences.length : 0;
+    const longParagraphs = paragraphs.filter(p => countWords(p) > limits.paragraph).length;
+    const avgStatus = avgSentence <= limits.avgSentence[0] ? 'pass' : avgSentence <= limits.avgSentence[1] ? 'warn' : 'fail';
+    add(
+      'readability',
+      'Readability',
+      1,
+      avgStatus === 'pass' && longParagraphs > 0 ? 'warn' : avgStatus,
+      `${avgSentence.toFixed(1)} words per sentence (target ≤ ${limits.avgSentence[0]}), ${longParagraphs} paragraph(s) over ${limits.paragraph} words`
+    );
+  }
+
+  // --- Links ---
+  const siteHost = siteUrl ? hostOf(siteUrl) : '';
+  const linkUrls = [...rawText.matchAll(/(?<!!)\[[^\]]*\]\((https?:\/\/[^)\s]+)[^)]*\)/g)].map(m => m[1]);
+  const internal = linkUrls.filter(url => siteHost && hostOf(url) === siteHost).length;
+  const external = linkUrls.length - internal + article.sources.length;
+  add(
+    'internal-links',
+    'Internal links',
+    1,
+    internal >= 2 ? 'pass' : 'warn',
+    siteHost ? `${internal} link(s) to ${siteHost}` : 'No website URL in the profile'
+  );
+  add('external-links', 'External links / sources', 1, external >= 1 ? 'pass' : 'warn', `${external} external link(s) and sources`);
+
+  const total = checks.reduce((sum, c) => sum + c.weight, 0);
+  const earned = checks.reduce((sum, c) => sum + c.weight * (c.status === 'pass' ? 1 : c.status === 'warn' ? 0.5 : 0), 0);
+  return { score: total ? Math.round((earned / total) * 100) : 0, checks };
+};
+
+// Audit of a stored history item; undefined while it holds no finished article
+export const auditHistoryItem = (item: HistoryItem): SeoAudit | undefined => {
+  if (!item.content || item.content.startsWith('Error processing') || (item.status && item.status !== 'complete')) return undefined;
+  return auditArticle(parseArticle(item.content, item.keyword), {
+    keyword: item.keyword,
+    language: item.language || 'vi',
+    ideation: item.ideation,
+    siteUrl: item.profile?.websiteUrl,
+  });
+};
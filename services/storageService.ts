@@ -1,14 +1,23 @@
-import { HistoryItem } from '../types';
+import { HistoryItem, WpConfig, QueueItem, QueueRunState, BrandProfile, PromptTemplate, PromptStep, OutputLanguage, SiteLink, ImageAsset, StockPhoto } from '../types';
+import { DEFAULT_PROFILES } from './profileService';
+import { DEFAULT_TEMPLATES, getDefaultTemplate } from './promptTemplates';
+import { getImageAssetIds, imageAssetRef } from './articleService';
 
 const DB_NAME = 'SeoWizardDB';
 const STORE_NAME = 'history';
-const DB_VERSION = 1;
+const SETTINGS_STORE = 'settings';
+const QUEUE_STORE = 'queue';
+const PROFILES_STORE = 'profiles';
+const TEMPLATES_STORE = 'templates';
+const IMAGES_STORE = 'images';
+const STOCK_STORE = 'stock';
+const DB_VERSION = 7;
 
 // Helper to open DB
 const openDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
     // Check if indexedDB is supported
-    if (!('indexedDB' in window)) {
+    if (typeof indexedDB === 'undefined') {
         reject(new Error("This browser doesn't support IndexedDB"));
         return;
     }
@@ -20,6 +29,33 @@ const openDB = (): Promise<IDBDatabase> => {
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME, { keyPath: 'id' });
       }
+      // v2: key/value store for app settings (WordPress credentials, etc.)
+      if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+        db.createObjectStore(SETTINGS_STORE, { keyPath: 'key' });
+      }
+      // v3: durable bulk queue (survives reloads)
+      if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+        db.createObjectStore(QUEUE_STORE, { keyPath: 'id' });
+      }
+      // v4: brand / persona profiles
+      if (!db.objectStoreNames.contains(PROFILES_STORE)) {
+        const profileStore = db.createObjectStore(PROFILES_STORE, { keyPath: 'id' });
+        DEFAULT_PROFILES.forEach(profile => profileStore.put(profile));
+      }
+      // Only edited templates are stored; untouched steps fall back to the built-in defaults
+      if (!db.objectStoreNames.contains(TEMPLATES_STORE)) {
+        db.createObjectStore(TEMPLATES_STORE, { keyPath: 'id' });
+      }
+      // v6: generated images as Blobs; base64 images of existing articles are moved there
+      if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+        const imageStore = db.createObjectStore(IMAGES_STORE, { keyPath: 'id' });
+        imageStore.createIndex('articleId', 'articleId');
+        if (event.oldVersion > 0) migrateInlineImages(request.transaction!);
+      }
+      // v7: local library of licensed stock photos (the "stock" image provider)
+      if (!db.objectStoreNames.contains(STOCK_STORE)) {
+        db.createObjectStore(STOCK_STORE, { keyPath: 'id' });
+      }
     };
     
     request.onsuccess = () => resolve(request.result);
@@ -27,6 +63,70 @@ const openDB = (): Promise<IDBDatabase> => {
   });
 };
 
+// --- v6 MIGRATION: base64 images -> image store ---
+
+const INLINE_IMAGE = /!\[([^\]]*)\]\((data:(image\/[\w.+-]+);base64,([A-Za-z0-9+/=]+))\)/g;
+
+const createImageId = () => `img-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+// Width and height from the PNG or JPEG header (the upgrade transaction cannot wait for an <img> to load)
+const readImageSize = (bytes: Uint8Array): { width?: number; height?: number } => {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes.length > 24) {
+    const view = new DataView(bytes.buffer);
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      // SOF0-SOF15 (except DHT, JPG and DAC) hold the frame size
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { height: (bytes[offset + 5] << 8) | bytes[offset + 6], width: (bytes[offset + 7] << 8) | bytes[offset + 8] };
+      }
+      offset += 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    }
+  }
+  return {};
+};
+
+// Runs inside the upgrade transaction: every data: image in the stored Markdown (content, the
+// Step 4 copy of translations, section revisions) becomes an asset and an asset:<id> reference
+const migrateInlineImages = (tx: IDBTransaction) => {
+  const imageStore = tx.objectStore(IMAGES_STORE);
+  tx.objectStore(STORE_NAME).openCursor().onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue>).result;
+    if (!cursor) return;
+    const item = cursor.value as HistoryItem;
+    const moved = new Map<string, string>(); // Data URL -> asset id (the same image appears in several fields)
+
+    const convert = (markdown: string) => markdown.replace(INLINE_IMAGE, (_, alt: string, dataUrl: string, mime: string, data: string) => {
+      let id = moved.get(dataUrl);
+      if (!id) {
+        const binary = atob(data);
+        const bytes = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+        id = createImageId();
+        const asset: ImageAsset = {
+          id, articleId: item.id, blob: new Blob([bytes], { type: mime }), mime, ...readImageSize(bytes),
+          prompt: '', alt, createdAt: item.timestamp,
+        };
+        imageStore.put(asset);
+        moved.set(dataUrl, id);
+      }
+      return `![${alt}](${imageAssetRef(id)})`;
+    });
+
+    const migrated: HistoryItem = {
+      ...item,
+      content: convert(item.content || ''),
+      steps: item.steps && { ...item.steps, step4_article: item.steps.step4_article && convert(item.steps.step4_article) },
+      sectionRevisions: item.sectionRevisions?.map(r => ({ ...r, previous: convert(r.previous) })),
+    };
+    if (moved.size > 0) cursor.update(migrated);
+    cursor.continue();
+  };
+};
+
 export const getHistory = async (): Promise<HistoryItem[]> => {
   try {
     const db = await openDB();
@@ -50,6 +150,23 @@ export const getHistory = async (): Promise<HistoryItem[]> => {
   }
 };
 
+export const createHistoryId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+export const getHistoryItem = async (id: string): Promise<HistoryItem | null> => {
+  try {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readonly');
+      const req = tx.objectStore(STORE_NAME).get(id);
+      req.onsuccess = () => resolve((req.result as HistoryItem) || null);
+      req.onerror = () => reject(req.error);
+    });
+  } catch (e) {
+    console.error("Failed to load history item from DB", e);
+    return null;
+  }
+};
+
 export const saveHistoryItem = async (item: HistoryItem): Promise<HistoryItem[]> => {
   try {
     const db = await openDB();
@@ -57,7 +174,7 @@ export const saveHistoryItem = async (item: HistoryItem): Promise<HistoryItem[]>
     // Create unique ID if not present
     const uniqueItem = {
       ...item,
-      id: item.id || `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+      id: item.id || createHistoryId()
     };
 
     await new Promise<void>((resolve, reject) => {
@@ -85,6 +202,9 @@ export const saveHistoryItem = async (item: HistoryItem): Promise<HistoryItem[]>
 export const deleteHistoryItem = async (id: string): Promise<HistoryItem[]> => {
   try {
     const db = await openDB();
+    // Images generated for the article, and images of the original when this is a translation
+    const item = await getHistoryItem(id);
+    const imageIds = [...(await getArticleImageAssetIds(db, id)), ...getImageAssetIds(JSON.stringify(item || {}))];
     await new Promise<void>((resolve, reject) => {
        const tx = db.transaction(STORE_NAME, 'readwrite');
        const store = tx.objectStore(STORE_NAME);
@@ -92,6 +212,7 @@ export const deleteHistoryItem = async (id: string): Promise<HistoryItem[]> => {
        req.onsuccess = () => resolve();
        req.onerror = () => reject(req.error);
     });
+    await deleteUnusedImageAssets(imageIds);
     return await getHistory();
   } catch (e) {
     console.error("Failed to delete item from DB", e);
@@ -103,15 +224,341 @@ export const clearHistory = async (): Promise<HistoryItem[]> => {
     try {
         const db = await openDB();
         await new Promise<void>((resolve, reject) => {
-            const tx = db.transaction(STORE_NAME, 'readwrite');
-            const store = tx.objectStore(STORE_NAME);
-            const req = store.clear();
-            req.onsuccess = () => resolve();
-            req.onerror = () => reject(req.error);
+            const tx = db.transaction([STORE_NAME, IMAGES_STORE], 'readwrite');
+            tx.objectStore(STORE_NAME).clear();
+            tx.objectStore(IMAGES_STORE).clear();
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
         });
         return [];
     } catch (e) {
         console.error("Failed to clear history", e);
         return [];
     }
-};
\ No newline at end of file
+};
+
+// --- IMAGE ASSETS ---
+
+const getArticleImageAssetIds = (db: IDBDatabase, articleId: string): Promise<string[]> =>
+  new Promise((resolve, reject) => {
+    const tx = db.transaction(IMAGES_STORE, 'readonly');
+    const req = tx.objectStore(IMAGES_STORE).index('articleId').getAllKeys(articleId);
+    req.onsuccess = () => resolve(req.result as string[]);
+    req.onerror = () => reject(req.error);
+  });
+
+// Returns the new asset id, or null when the image could not be stored
+export const saveImageAsset = async (image: Omit<ImageAsset, 'id' | 'createdAt'>): Promise<string | null> => {
+  try {
+    const db = await openDB();
+    const asset: ImageAsset = { ...image, id: createImageId(), createdAt: Date.now() };
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(IMAGES_STORE, 'readwrite');
+      const req = tx.objectStore(IMAGES_STORE).put(asset);
+      req.onsuccess = () => resolve();
+      req.onerror = () => reject(req.error);
+    });
+    return asset.id;
+  } catch (e) {
+    console.error("Failed to save image to DB", e);
+    return null;
+  }
+};
+
+// Missing ids are left out
+export const getImageAssets = async (ids: string[]): Promise<ImageAsset[]> => {
+  if (ids.length === 0) return [];
+  try {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(IMAGES_STORE, 'readonly');
+      const store = tx.objectStore(IMAGES_STORE);
+      const assets: ImageAsset[] = [];
+      ids.forEach(id => {
+        const req = store.get(id);
+        req.onsuccess = () => { if (req.result) assets.push(req.result as ImageAsset); };
+      });
+      tx.oncomplete = () => resolve(assets);
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (e) {
+    console.error("Failed to load images from DB", e);
+    return [];
+  }
+};
+
+// Deletes the given images unless a history item still refers to them (content, Step 4 copy, section revisions)
+export const deleteUnusedImageAssets = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  try {
+    const used = new Set((await getHistory()).flatMap(item => getImageAssetIds(JSON.stringify(item))));
+    const unused = [...new Set(ids)].filter(id => !used.has(id));
+    if (unused.length === 0) return;
+    const db = await openDB();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(IMAGES_STORE, 'readwrite');
+      unused.forEach(id => tx.objectStore(IMAGES_STORE).delete(id));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (e) {
+    console.error("Failed to delete images from DB", e);
+  }
+};
+
+// --- STOCK PHOTOS ---
+
+export const getStockPhotos = async (): Promise<StockPhoto[]> => {
+  try {
+    const db = await openDB();
+    const photos = await new Promise<StockPhoto[]>((resolve, reject) => {
+      const tx = db.transaction(STOCK_STORE, 'readonly');
+      const req = tx.objectStore(STOCK_STORE).getAll();
+      req.onsuccess = () => resolve(req.result as StockPhoto[]);
+      req.onerror = () => reject(req.error);
+    });
+    return photos.sort((a, b) => a.name.localeCompare(b.name));
+  } catch (e) {
+    console.error("Failed to load stock photos from DB", e);
+    return [];
+  }
+};
+
+// Photos with a name already in the library replace it (re-importing a folder updates the tags)
+export const saveStockPhotos = async (photos: Omit<StockPhoto, 'id' | 'addedAt'>[]): Promise<StockPhoto[]> => {
+  try {
+    const existing = new Map((await getStockPhotos()).map(p => [p.name, p.id]));
+    const db = await openDB();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STOCK_STORE, 'readwrite');
+      const store = tx.objectStore(STOCK_STORE);
+      photos.forEach(photo => store.put({ ...photo, id: existing.get(photo.name) || createImageId(), addedAt: Date.now() }));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (e) {
+    console.error("Failed to save stock photos", e);
+  }
+  return await getStockPhotos();
+};
+
+export const deleteStockPhotos = async (ids: string[]): Promise<StockPhoto[]> => {
+  try {
+    const db = await openDB();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STOCK_STORE, 'readwrite');
+      ids.forEach(id => tx.objectStore(STOCK_STORE).delete(id));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (e) {
+    console.error("Failed to delete stock photos", e);
+  }
+  return await getStockPhotos();
+};
+
+// --- SETTINGS ---
+
+export const getSetting = async <T>(key: string): Promise<T | null> => {
+  try {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(SETTINGS_STORE, 'readonly');
+      const req = tx.objectStore(SETTINGS_STORE).get(key);
+      req.onsuccess = () => resolve(req.result ? (req.result.value as T) : null);
+      req.onerror = () => reject(req.error);
+    });
+  } catch (e) {
+    console.error(`Failed to load setting "${key}"`, e);
+    return null;
+  }
+};
+
+export const saveSetting = async <T>(key: string, value: T): Promise<void> => {
+  try {
+    const db = await openDB();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(SETTINGS_STORE, 'readwrite');
+      const req = tx.objectStore(SETTINGS_STORE).put({ key, value });
+      req.onsuccess = () => resolve();
+      req.onerror = () => reject(req.error);
+    });
+  } catch (e) {
+    console.error(`Failed to save setting "${key}"`, e);
+  }
+};
+
+export const getWpConfig = () => getSetting<WpConfig>('wpConfig');
+
+export const saveWpConfig = (config: WpConfig) => saveSetting('wpConfig', config);
+
+// Existing site pages imported for internal linking
+export const getSiteLinks = async (): Promise<SiteLink[]> => (await getSetting<SiteLink[]>('siteLinks')) || [];
+
+export const saveSiteLinks = (links: SiteLink[]) => saveSetting('siteLinks', links);
+
+// --- BULK QUEUE ---
+
+export const getQueue = async (): Promise<QueueItem[]> => {
+  try {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(QUEUE_STORE, 'readonly');
+      const req = tx.objectStore(QUEUE_STORE).getAll();
+      req.onsuccess = () => {
+        const items = req.result as QueueItem[];
+        // Processing order is explicit (user can reorder), not insertion order
+        items.sort((a, b) => a.order - b.order);
+        resolve(items);
+      };
+      req.onerror = () => reject(req.error);
+    });
+  } catch (e) {
+    console.error("Failed to load queue from DB", e);
+    return [];
+  }
+};
+
+// Saves several items in one transaction (used for batch insert and reordering)
+export const saveQueueItems = async (items: QueueItem[]): Promise<QueueItem[]> => {
+  try {
+    const db = await openDB();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(QUEUE_STORE, 'readwrite');
+      const store = tx.objectStore(QUEUE_STORE);
+      items.forEach(item => store.put(item));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (e) {
+    console.error("Failed to save queue to DB", e);
+  }
+  return await getQueue();
+};
+
+export const saveQueueItem = (item: QueueItem) => saveQueueItems([item]);
+
+export const deleteQueueItems = async (ids: string[]): Promise<QueueItem[]> => {
+  try {
+    const db = await openDB();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(QUEUE_STORE, 'readwrite');
+      const store = tx.objectStore(QUEUE_STORE);
+      ids.forEach(id => store.delete(id));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (e) {
+    console.error("Failed to delete queue items", e);
+  }
+  return await getQueue();
+};
+
+export const getQueueRunState = async (): Promise<QueueRunState> =>
+  (await getSetting<QueueRunState>('queueRunState')) || 'idle';
+
+export const saveQueueRunState = (state: QueueRunState) => saveSetting('queueRunState', state);
+
+// --- BRAND PROFILES ---
+
+export const getProfiles = async (): Promise<BrandProfile[]> => {
+  try {
+    const db = await openDB();
+    const profiles = await new Promise<BrandProfile[]>((resolve, reject) => {
+      const tx = db.transaction(PROFILES_STORE, 'readonly');
+      const req = tx.objectStore(PROFILES_STORE).getAll();
+      req.onsuccess = () => resolve(req.result as BrandProfile[]);
+      req.onerror = () => reject(req.error);
+    });
+    profiles.sort((a, b) => a.name.localeCompare(b.name));
+    // Never leave the app without a profile (e.g. user deleted all of them)
+    return profiles.length > 0 ? profiles : DEFAULT_PROFILES;
+  } catch (e) {
+    console.error("Failed to load profiles from DB", e);
+    return DEFAULT_PROFILES;
+  }
+};
+
+export const saveProfile = async (profile: BrandProfile): Promise<BrandProfile[]> => {
+  try {
+    const db = await openDB();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(PROFILES_STORE, 'readwrite');
+      const req = tx.objectStore(PROFILES_STORE).put(profile);
+      req.onsuccess = () => resolve();
+      req.onerror = () => reject(req.error);
+    });
+  } catch (e) {
+    console.error("Failed to save profile", e);
+  }
+  return await getProfiles();
+};
+
+export const deleteProfile = async (id: string): Promise<BrandProfile[]> => {
+  try {
+    const db = await openDB();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(PROFILES_STORE, 'readwrite');
+      const req = tx.objectStore(PROFILES_STORE).delete(id);
+      req.onsuccess = () => resolve();
+      req.onerror = () => reject(req.error);
+    });
+  } catch (e) {
+    console.error("Failed to delete profile", e);
+  }
+  return await getProfiles();
+};
+
+// --- PROMPT TEMPLATES ---
+
+export const getTemplates = async (): Promise<PromptTemplate[]> => {
+  try {
+    const db = await openDB();
+    const stored = await new Promise<PromptTemplate[]>((resolve, reject) => {
+      const tx = db.transaction(TEMPLATES_STORE, 'readonly');
+      const req = tx.objectStore(TEMPLATES_STORE).getAll();
+      req.onsuccess = () => resolve(req.result as PromptTemplate[]);
+      req.onerror = () => reject(req.error);
+    });
+    return DEFAULT_TEMPLATES.map(def => stored.find(t => t.id === def.id) || def);
+  } catch (e) {
+    console.error("Failed to load templates from DB", e);
+    return DEFAULT_TEMPLATES;
+  }
+};
+
+const putTemplate = async (template: PromptTemplate): Promise<void> => {
+  const db = await openDB();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(TEMPLATES_STORE, 'readwrite');
+    const req = tx.objectStore(TEMPLATES_STORE).put(template);
+    req.onsuccess = () => resolve();
+    req.onerror = () => reject(req.error);
+  });
+};
+
+/**
+ * Saves a new body for a step/language. The current body is kept in `versions`
+ * and the version number goes up, so history items can record which prompt produced them.
+ */
+export const saveTemplate = async (step: PromptStep, language: OutputLanguage, body: string): Promise<PromptTemplate[]> => {
+  try {
+    const current = (await getTemplates()).find(t => t.step === step && t.language === language) || getDefaultTemplate(step, language);
+    if (current.body !== body) {
+      await putTemplate({
+        ...current,
+        body,
+        version: current.version + 1,
+        updatedAt: Date.now(),
+        versions: [{ version: current.version, body: current.body, savedAt: current.updatedAt }, ...current.versions],
+      });
+    }
+  } catch (e) {
+    console.error("Failed to save template", e);
+  }
+  return await getTemplates();
+};
+
+// Restoring the default is saved as a new version, so earlier edits stay in the version list
+export const resetTemplate = (step: PromptStep, language: OutputLanguage) =>
+  saveTemplate(step, language, getDefaultTemplate(step, language).body);
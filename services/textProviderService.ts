@@ -0,0 +1,160 @@
+import { ChatTurn, PromptStep, StepOutput, TextProvider, TextSession, TextSettings, TokenUsage } from '../types';
+import { GEMINI_TEXT_MODEL, generateGeminiText } from './geminiService';
+import { generateOpenAiText } from './openaiService';
+import { slugify } from './articleService';
+
+// Text models behind the pipeline. geminiService builds the prompts and parses the answers,
+// a provider only answers a conversation; the chat session is kept here for all of them.
+
+export const DEFAULT_TEXT_SETTINGS: TextSettings = {
+  provider: 'gemini',
+  openai: { baseUrl: 'http://localhost:11434/v1', apiKey: '', model: 'llama3.1' },
+};
+
+export const TEXT_PROVIDER_LABELS: Record<TextSettings['provider'], string> = {
+  gemini: 'Gemini (Google Search grounding)',
+  openai: 'OpenAI-compatible (OpenAI, llama.cpp, Ollama)',
+  mock: 'Mock (offline, scripted answers)',
+};
+
+/**
+ * One keyword job's conversation. The answer is only added to the history once it arrived,
+ * so a failed send can be retried without a dangling question.
+ */
+export const createTextSession = (provider: TextProvider, history: ChatTurn[] = []): TextSession => {
+  const turns = [...history];
+  return {
+    send: async (message, config) => {
+      const question: ChatTurn = { role: 'user', text: message };
+      const output = await provider.complete([...turns, question], config);
+      turns.push(question, { role: 'model', text: output.text });
+      return output;
+    },
+  };
+};
+
+export const addUsage = (total: TokenUsage | undefined, usage: TokenUsage | undefined): TokenUsage | undefined => {
+  if (!usage) return total;
+  return {
+    inputTokens: (total?.inputTokens || 0) + usage.inputTokens,
+    outputTokens: (total?.outputTokens || 0) + usage.outputTokens,
+    requests: (total?.requests || 0) + usage.requests,
+  };
+};
+
+export const formatUsage = (usage: TokenUsage): string => {
+  const k = (n: number) => (n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n));
+  return `${k(usage.inputTokens)} in / ${k(usage.outputTokens)} out tokens, ${usage.requests} request(s)`;
+};
+
+// --- MOCK ---
+
+// Answer for a step: fixed text, answers used in turn (the last one repeats), or built from the prompt
+export type MockAnswer = string | string[] | ((prompt: string) => string);
+export type MockScript = Partial<Record<PromptStep, MockAnswer>>;
+
+// Keyword as the built-in templates quote it ('topic: "..."', 'keyword "..."', 'Ideation: [ ... ]')
+const promptKeyword = (prompt: string) => {
+  const match = prompt.match(/(?:keyword|từ khóa|topic|chủ đề)[^"\n]*"([^"\n]+)"|Ideation: \[ ([^\]\n]+?) \]/i);
+  return match?.[1] || match?.[2] || 'mock keyword';
+};
+
+// Text between the "---" lines around {{section}} / {{article}} in the built-in templates
+const quotedBlock = (prompt: string) => prompt.match(/\n---\n([\s\S]*?)\n---\n/)?.[1].trim() || '';
+
+/**
+ * Offline answers in the formats the pipeline parses: research with figures (so the fact
+ * check has something to match), Step 2 JSON, an outline, a Step 4 article with image tags,
+ * and the section / article from the prompt handed back for rewrites and translations.
+ */
+export const DEFAULT_MOCK_SCRIPT: MockScript = {
+  research: prompt => `Mock research for "${promptKeyword(prompt)}".\n\n- A typical plan lasts 16 weeks.\n- Beginners run 3 times per week.\n- Long runs grow by 10% per week.`,
+  ideation: prompt => JSON.stringify({
+    keywords: [{ keyword: promptKeyword(prompt), type: 'semantic' }],
+    entities: [{ name: promptKeyword(prompt), role: 'primary', priority: 1 }],
+    searchIntents: [{ intent: `Learn about ${promptKeyword(prompt)}`, type: 'informational', priority: 1 }],
+    questions: [`What is ${promptKeyword(prompt)}?`],
+    eav: [{ entity: promptKeyword(prompt), attribute: 'duration', value: '16 weeks' }],
+    ere: [],
+    triples: [],
+  }),
+  outline: prompt => `# ${promptKeyword(prompt)}\n\n## Overview\n## Training plan\n## Conclusion`,
+  writing: prompt => {
+    const keyword = promptKeyword(prompt);
+    return [
+      `Meta Title: ${keyword} - complete guide`,
+      `Meta Description: Everything about ${keyword}: a 16-week plan, 3 runs per week and simple rules.`,
+      `Slug: ${slugify(keyword) || 'mock-article'}`,
+      '',
+      `# ${keyword}: complete guide`,
+      '',
+      `[FEATURED_IMAGE_PROMPT: Runner training for ${keyword} at sunrise | ALT: Runner training for ${keyword} | CAPTION: Morning training]`,
+      '',
+      `This guide covers ${keyword} step by step.`,
+      '',
+      '## Overview',
+      '',
+      'A typical plan lasts 16 weeks and beginners run 3 times per week.',
+      '',
+      '[IMAGE_PROMPT: Training calendar on a desk | ALT: Training calendar]',
+      '',
+      '## Training plan',
+      '',
+      'Long runs grow by 10% per week.',
+      '',
+      '## Conclusion',
+      '',
+      `Start small and stay consistent with ${keyword}.`,
+    ].join('\n');
+  },
+  section: prompt => quotedBlock(prompt) || '## Section\n\nMock section.',
+  translate: prompt => `Keyword: ${promptKeyword(prompt)}\n\n${quotedBlock(prompt)}`,
+};
+
+// Rough token count for the mock's usage report (about 4 characters per token)
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/**
+ * Scripted provider for offline development and tests: answers by the step the request was
+ * built from, never calls the network. Steps missing from the script fall back to the default one.
+ */
+export const createMockTextProvider = (script: MockScript = DEFAULT_MOCK_SCRIPT): TextProvider => {
+  const calls: Partial<Record<PromptStep, number>> = {};
+  return {
+    id: 'mock',
+    label: TEXT_PROVIDER_LABELS.mock,
+    model: 'mock',
+    complete: async (turns, config): Promise<StepOutput> => {
+      const prompt = turns[turns.length - 1]?.text || '';
+      const step = config.step || 'research';
+      const answer = script[step] ?? DEFAULT_MOCK_SCRIPT[step] ?? '';
+      const n = calls[step] = (calls[step] || 0) + 1;
+      const text = typeof answer === 'function' ? answer(prompt)
+        : Array.isArray(answer) ? answer[Math.min(n, answer.length) - 1] || ''
+        : answer;
+      return {
+        text,
+        grounding: { sources: [], supports: [] },
+        usage: { inputTokens: estimateTokens(turns.map(t => t.text).join('\n')), outputTokens: estimateTokens(text), requests: 1 },
+      };
+    },
+  };
+};
+
+// --- PROVIDERS ---
+
+export const createTextProvider = (settings: TextSettings): TextProvider => {
+  switch (settings.provider) {
+    case 'openai':
+      return {
+        id: 'openai',
+        label: TEXT_PROVIDER_LABELS.openai,
+        model: settings.openai.model,
+        complete: (turns, config) => generateOpenAiText(settings.openai, turns, config),
+      };
+    case 'mock':
+      return createMockTextProvider();
+    default:
+      return { id: 'gemini', label: TEXT_PROVIDER_LABELS.gemini, model: GEMINI_TEXT_MODEL, complete: generateGeminiText };
+  }
+};
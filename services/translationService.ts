@@ -0,0 +1,120 @@
+import { Article, HistoryItem, OutputLanguage } from '../types';
+import { articleToMarkdown, markdownImage, parseArticle, slugify } from './articleService';
+import { getLanguage } from './languages';
+
+// Translation of a finished article into a sibling article in another language, and the
+// hreflang alternates between the language versions of one article (same translationGroup).
+
+export interface TranslationInput {
+  markdown: string; // Stored Markdown with generated images as IMAGE_n references
+  images: string[]; // Image sources by n - 1
+}
+
+export interface TranslationResult {
+  keyword: string;
+  content: string;      // Stored Markdown of the translated article, images restored
+  lostImages: number;   // Images the model dropped
+}
+
+export interface HreflangAlternate {
+  language: OutputLanguage;
+  hreflang: string; // BCP 47 tag, or "x-default" for the original
+  url: string;
+}
+
+const KEYWORD_LINE = /^\s*(?:\*\*)?Keyword(?:\*\*)?\s*:\s*(.+?)\s*$/im;
+const IMAGE_REF = /!\[([^\]]*)\]\(IMAGE_(\d+)((?:\s+"[^"]*")?)\)/g;
+
+/**
+ * Article Markdown for the translation prompt. Generated images (asset:<id> or URLs) are swapped
+ * for IMAGE_n references: the model must not touch them. The translation shares the stored images.
+ */
+export const prepareTranslation = (article: Article): TranslationInput => {
+  const images: string[] = [];
+  const markdown = articleToMarkdown(article, (image, index) => {
+    if (!image.src) return markdownImage(image, index);
+    images.push(image.src);
+    return markdownImage({ ...image, src: `IMAGE_${images.length}` }, index);
+  });
+  return { markdown, images };
+};
+
+/**
+ * Turns the model answer back into stored Markdown: reads the "Keyword:" line, puts the
+ * images back and makes sure the slug is URL-safe and differs from the original one.
+ */
+export const finishTranslation = (
+  text: string,
+  input: TranslationInput,
+  source: { keyword: string; slug: string },
+  language: OutputLanguage
+): TranslationResult => {
+  const keywordMatch = text.match(KEYWORD_LINE);
+  const keyword = keywordMatch?.[1].replace(/^["'[]+|["'\]]+$/g, '').trim() || source.keyword;
+  const body = keywordMatch ? text.replace(keywordMatch[0], '') : text;
+
+  const restored = new Set<number>();
+  const withImages = body.replace(IMAGE_REF, (_, alt: string, n: string, caption: string) => {
+    const src = input.images[Number(n) - 1];
+    if (!src) return '';
+    restored.add(Number(n));
+    return `![${alt}](${src}${caption})`;
+  });
+
+  const article = parseArticle(withImages, keyword);
+  // Non-Latin slugs (Thai...) fold to nothing; the original slug with the language code is still unique
+  const slug = slugify(article.meta.slug) || slugify(keyword);
+  article.meta.slug = slug && slug !== source.slug ? slug : `${source.slug}-${language}`;
+
+  return { keyword, content: articleToMarkdown(article), lostImages: input.images.length - restored.size };
+};
+
+// --- HREFLANG ---
+
+export const getTranslationGroup = (item: HistoryItem) => item.translationGroup || item.id;
+
+// Public URL of a history item: its WordPress link, or profile website + slug
+export const getItemUrl = (item: HistoryItem): string | undefined => {
+  if (item.wpLink) return item.wpLink;
+  const website = item.profile?.websiteUrl?.trim().replace(/\/+$/, '');
+  if (!website || !item.content) return undefined;
+  const { slug } = parseArticle(item.content, item.keyword).meta;
+  return slug ? `${website}/${slug}/` : undefined;
+};
+
+/**
+ * Finished language versions of the item (itself included), newest first per language.
+ * Items that were never translated have no siblings.
+ */
+export const getTranslations = (history: HistoryItem[], item: HistoryItem): HistoryItem[] => {
+  const group = getTranslationGroup(item);
+  const byLanguage = new Map<OutputLanguage, HistoryItem>();
+  for (const candidate of [item, ...history]) {
+    if (getTranslationGroup(candidate) !== group || (candidate.status && candidate.status !== 'complete')) continue;
+    const language = candidate.language || 'vi';
+    const current = byLanguage.get(language);
+    if (!current || (current !== item && candidate.timestamp > current.timestamp)) byLanguage.set(language, candidate);
+  }
+  return [...byLanguage.values()];
+};
+
+/**
+ * hreflang alternates for the item: every language version with a URL, plus x-default
+ * pointing at the original. Empty when there is nothing to link (single language).
+ */
+export const getHreflangAlternates = (history: HistoryItem[], item: HistoryItem): HreflangAlternate[] => {
+  const alternates: HreflangAlternate[] = [];
+  let original: string | undefined;
+  for (const version of getTranslations(history, item)) {
+    const url = getItemUrl(version);
+    if (!url) continue;
+    const language = version.language || 'vi';
+    alternates.push({ language, hreflang: getLanguage(language).hreflang, url });
+    if (!version.translatedFrom) original = url;
+  }
+  if (alternates.length < 2) return [];
+  return [...alternates, { language: alternates[0].language, hreflang: 'x-default', url: original || alternates[0].url }];
+};
+
+export const hreflangLinks = (alternates: HreflangAlternate[]): string =>
+  alternates.map(a => `<link rel="alternate" hreflang="${a.hreflang}" href="${a.url}" />`).join('\n');
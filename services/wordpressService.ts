@@ -0,0 +1,217 @@
+import { Article, ArticleImage, WpConfig, WpPublishOptions, WpPublishResult } from '../types';
+import { articleToHtml, escapeHtml, generatedImagesOnly } from './articleService';
+import { extensionFor, imageFileNames, loadArticleImages } from './imageAssetService';
+
+const apiBase = (config: WpConfig) => `${config.url.trim().replace(/\/+$/, '')}/wp-json/wp/v2`;
+
+const authHeader = (config: WpConfig) =>
+  'Basic ' + btoa(`${config.username.trim()}:${config.appPassword.trim()}`);
+
+export const isWpConfigured = (config: WpConfig | null): config is WpConfig =>
+  !!config && !!config.url.trim() && !!config.username.trim() && !!config.appPassword.trim();
+
+// Small wrapper around fetch that adds auth and surfaces the WP error message (e.g. "rest_cannot_create")
+const wpFetch = async <T>(config: WpConfig, path: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetch(`${apiBase(config)}${path}`, {
+    ...init,
+    headers: {
+      Authorization: authHeader(config),
+      ...(init.headers || {})
+    }
+  });
+
+  if (!response.ok) {
+    let detail = response.statusText;
+    try {
+      const body = await response.json();
+      if (body?.message) detail = body.message;
+    } catch {
+      // Non-JSON error page (proxy, PHP fatal...), keep the status text
+    }
+    throw new Error(`WordPress ${init.method || 'GET'} ${path} failed (${response.status}): ${detail}`);
+  }
+  return response.json() as Promise<T>;
+};
+
+/**
+ * Verifies the URL + Application Password by reading the current user.
+ * Returns the display name on success, throws with the WP message otherwise.
+ */
+export const testWpConnection = async (config: WpConfig): Promise<string> => {
+  const me = await wpFetch<{ name: string }>(config, '/users/me?context=edit');
+  return me.name;
+};
+
+interface UploadedMedia {
+  id: number;
+  source_url: string;
+}
+
+export const uploadMedia = async (
+  config: WpConfig,
+  blob: Blob,
+  filename: string,
+  altText: string,
+  caption = ''
+): Promise<UploadedMedia> => {
+  const fullName = `${filename}.${extensionFor(blob.type)}`;
+
+  const media = await wpFetch<UploadedMedia>(config, '/media', {
+    method: 'POST',
+    headers: {
+      'Content-Type': blob.type,
+      'Content-Disposition': `attachment; filename="${fullName}"`
+    },
+    body: blob
+  });
+
+  // Binary upload can't carry fields, so alt text and caption are set with a follow-up update
+  if (altText || caption) {
+    await wpFetch(config, `/media/${media.id}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ alt_text: altText, title: altText.slice(0, 100), caption })
+    });
+  }
+
+  return media;
+};
+
+// Media items skip the trash: they are only deleted with force
+const deleteMedia = (config: WpConfig, id: number) =>
+  wpFetch<{ deleted: boolean }>(config, `/media/${id}?force=true`, { method: 'DELETE' });
+
+// Finds a category by (case-insensitive) name or creates it
+export const ensureCategory = async (config: WpConfig, name: string): Promise<number> => {
+  const categories = await wpFetch<{ id: number; name: string }[]>(
+    config,
+    `/categories?search=${encodeURIComponent(name)}&per_page=100`
+  );
+  const existing = categories.find(c => c.name.toLowerCase() === name.toLowerCase());
+  if (existing) return existing.id;
+
+  const created = await wpFetch<{ id: number }>(config, '/categories', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name })
+  });
+  return created.id;
+};
+
+/**
+ * Publishes an article through the WP REST API:
+ * 1. Uploads every stored image as a media item (the featured image becomes featured_media, its
+ *    OG crop the Yoast/RankMath social image); WordPress builds the srcset sizes from the upload
+ * 2. Renders the body with the uploaded URLs and converts it to HTML
+ * 3. Creates the post with category, status and Yoast/RankMath meta. WordPress drops meta that is not
+ *    registered for the REST API without an error: the keys missing from the created post are returned
+ *    (wordpress/seo-meta-rest.php registers them)
+ * The options are checked before anything is uploaded; when a later step fails, the media
+ * uploaded so far are deleted again (the error says which ones could not be).
+ */
+export const publishArticle = async (
+  config: WpConfig,
+  article: Article,
+  options: WpPublishOptions,
+  onProgress?: (message: string) => void
+): Promise<WpPublishResult> => {
+  const { title, description: metaDesc, slug } = article.meta;
+  if (options.status === 'future' && !options.scheduledAt) throw new Error('A schedule date is required for scheduled posts.');
+
+  const images = [...(await loadArticleImages(article)).entries()];
+  const fileNames = imageFileNames(article);
+  const uploaded = new Map<ArticleImage, UploadedMedia>();
+  let featuredMediaId: number | undefined;
+  let ogMedia: UploadedMedia | undefined;
+  const mediaIds: number[] = [];
+
+  try {
+    // --- 1. UPLOAD IMAGES ---
+    for (let i = 0; i < images.length; i++) {
+      const [image, asset] = images[i];
+      const filename = fileNames.get(image)!;
+
+      onProgress?.(`Uploading image ${i + 1}/${images.length}...`);
+      const media = await uploadMedia(config, asset.blob, filename, image.alt || (image.featured ? title : ''), image.caption);
+      uploaded.set(image, media);
+      mediaIds.push(media.id);
+      if (image.featured) featuredMediaId = media.id;
+      if (asset.og) {
+        ogMedia = await uploadMedia(config, asset.og.blob, `${filename}-og`, title);
+        mediaIds.push(ogMedia.id);
+      }
+    }
+
+    // Featured image is shown by the theme, so it is left out of the body
+    const html = await articleToHtml(article, (image, index) => {
+      const media = uploaded.get(image);
+      if (!media) return generatedImagesOnly(image, index);
+      return `
+<!-- wp:image {"id":${media.id}} -->
+<figure class="wp-block-image"><img src="${media.source_url}" alt="${escapeHtml(image.alt)}" class="wp-image-${media.id}"/>${image.caption ? `<figcaption>${escapeHtml(image.caption)}</figcaption>` : ''}</figure>
+<!-- /wp:image -->`;
+    }, { includeFeatured: false, citations: options.citations || 'footnotes' });
+
+    // --- 2. CATEGORY ---
+    const categoryName = options.category.trim() || 'General';
+    onProgress?.(`Resolving category "${categoryName}"...`);
+    const categoryId = await ensureCategory(config, categoryName);
+
+    // --- 3. CREATE POST ---
+    onProgress?.('Creating post...');
+
+    const meta: Record<string, string> = {
+      _yoast_wpseo_title: title,
+      _yoast_wpseo_metadesc: metaDesc,
+      rank_math_title: title,
+      rank_math_description: metaDesc
+    };
+    if (ogMedia) {
+      Object.assign(meta, {
+        '_yoast_wpseo_opengraph-image': ogMedia.source_url,
+        '_yoast_wpseo_opengraph-image-id': String(ogMedia.id),
+        rank_math_facebook_image: ogMedia.source_url,
+        rank_math_facebook_image_id: String(ogMedia.id)
+      });
+    }
+    const payload: Record<string, unknown> = {
+      title,
+      slug,
+      content: html,
+      excerpt: metaDesc,
+      status: options.status,
+      categories: [categoryId],
+      meta
+    };
+    if (featuredMediaId) payload.featured_media = featuredMediaId;
+    if (options.status === 'future' && options.scheduledAt) {
+      payload.date = options.scheduledAt.length === 16 ? `${options.scheduledAt}:00` : options.scheduledAt;
+    }
+
+    const post = await wpFetch<{ id: number; link: string; status: WpPublishResult['status']; meta?: Record<string, unknown> }>(config, '/posts', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload)
+    });
+
+    // The created post echoes the meta it stored
+    const missingMeta = Object.keys(meta).filter(key => post.meta?.[key] !== meta[key]);
+    if (missingMeta.length) onProgress?.(`SEO meta not saved by the site (${missingMeta.join(', ')})`);
+
+    return {
+      postId: post.id,
+      link: post.link,
+      status: post.status,
+      featuredMediaId,
+      mediaIds,
+      missingMeta
+    };
+  } catch (error) {
+    if (mediaIds.length === 0) throw error;
+    onProgress?.(`Publishing failed, removing ${mediaIds.length} uploaded image(s)...`);
+    const results = await Promise.allSettled(mediaIds.map(id => deleteMedia(config, id)));
+    const orphans = mediaIds.filter((_, i) => results[i].status === 'rejected');
+    if (orphans.length === 0) throw error;
+    throw new Error(`${error instanceof Error ? error.message : String(error)} (uploaded media ${orphans.join(', ')} could not be removed from the Media Library)`);
+  }
+};
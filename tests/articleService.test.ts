@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { Article } from '../types';
+import { articleToMarkdown, getArticleImages, getImageAssetIds, imageAssetRef, LINK_MARKER, parseArticle, renderArticleBody, stripLinkMarkers } from '../services/articleService';
+import { fixture, RECORDED_KEYWORD } from './fixtures';
+
+const recorded = () => parseArticle(fixture('half-marathon/step4_article.md'), RECORDED_KEYWORD);
+
+// Articles compared without the issues, which depend on where the Markdown came from
+const withoutIssues = ({ issues, ...article }: Article) => article;
+
+describe('parseArticle', () => {
+  it('reads the meta block of a fenced Step 4 answer with bold labels', () => {
+    const article = recorded();
+    expect(article.meta).toEqual({
+      title: 'Lịch tập chạy 21km cho người mới: giáo án 12 tuần',
+      description: expect.stringContaining('3-4 buổi mỗi tuần'),
+      slug: 'lich-tap-chay-21km',
+    });
+    expect(article.issues.filter(i => i.severity === 'error')).toEqual([]);
+  });
+
+  it('splits H2 / H3 sections and takes the last H2 as the conclusion', () => {
+    const article = recorded();
+    expect(article.sections.map(s => `${s.level} ${s.heading}`)).toEqual([
+      '2 Chuẩn bị trước khi bắt đầu',
+      '2 Lịch tập 12 tuần chi tiết',
+      '3 Giai đoạn nền tảng',
+      '3 Giai đoạn tăng cự ly',
+      '2 Tuần taper và ngày đua',
+      '2 Câu hỏi thường gặp (FAQ)',
+      '3 Người mới cần tập bao lâu để chạy được 21km?',
+    ]);
+    expect(article.conclusion?.heading).toBe('Kết Luận');
+  });
+
+  it('reads image tags with and without ALT / CAPTION fields', () => {
+    const images = getArticleImages(recorded());
+    expect(images).toHaveLength(4);
+    expect(images[0]).toEqual({
+      featured: true,
+      prompt: 'Nhóm runner Việt Nam chạy half marathon trên cầu Rồng Đà Nẵng lúc bình minh, ánh nắng vàng, 4K',
+      alt: 'Runner chạy half marathon 21km lúc bình minh',
+      caption: 'Về đích 21km là mục tiêu của nhiều người mới',
+    });
+    expect(images[1]).toMatchObject({ featured: false, alt: 'Giày chạy bộ và đồng hồ GPS chuẩn bị cho lịch tập', caption: undefined });
+    expect(images[2].caption).toBe('Chạy dài chậm hơn pace mục tiêu');
+    // No ALT field: the alt text is the start of the prompt
+    expect(images[3]).toMatchObject({ prompt: 'Vạch xuất phát giải chạy với runner khởi động', alt: 'Vạch xuất phát giải chạy với runner khởi động' });
+  });
+
+  it('reports internal link markers and pending images as warnings', () => {
+    const messages = recorded().issues.map(i => i.message);
+    expect(messages).toContain('1 internal link marker(s) not resolved, exports keep only the anchor text.');
+    expect(messages).toContain('4 image prompt(s) not turned into images yet.');
+  });
+
+  it('reads legacy articles: plain meta, HÌNH ẢNH tags, FEATURED_IMAGE alt and a numbered sources list', () => {
+    const article = parseArticle(fixture('step4_legacy.md'), 'giày chạy trail');
+    expect(article.meta.slug).toBe('giay-chay-trail');
+    expect(article.featuredImage).toMatchObject({ featured: true, alt: '', src: 'https://cdn.example.com/trail.jpg' });
+    expect(article.intro).toEqual([{ type: 'text', markdown: 'Chọn giày trail phù hợp giúp bạn chạy an toàn trên đường mòn.' }]);
+    expect(getArticleImages(article)[1]).toMatchObject({ featured: false, prompt: 'Đế giày trail với gai bám sâu trên nền đất ướt' });
+    expect(article.conclusion?.heading).toBe('Tổng kết');
+    expect(article.sources).toEqual([
+      { title: "Runner's World", url: 'https://www.runnersworld.com/trail' },
+      { title: 'iRunFar', url: 'https://www.irunfar.com/' },
+    ]);
+  });
+
+  it('flags output without H2 sections or meta as blocking', () => {
+    const article = parseArticle('Chỉ có một đoạn văn.', 'chạy bộ');
+    expect(article.meta).toMatchObject({ title: 'chạy bộ', slug: 'chay-bo' });
+    expect(article.issues.filter(i => i.severity === 'error').map(i => i.message)).toEqual([
+      'Meta Title missing, using "chạy bộ".',
+      'No H2 sections found.',
+    ]);
+  });
+
+  it('flags format placeholders copied from the template', () => {
+    const article = parseArticle('Meta Title: A\n\n## [H2-1 chứa từ khóa]\n\nText', 'a');
+    expect(article.issues.some(i => i.severity === 'error' && i.message.includes('placeholders'))).toBe(true);
+  });
+});
+
+describe('stored Markdown', () => {
+  it('round-trips through articleToMarkdown', () => {
+    const article = recorded();
+    const stored = articleToMarkdown(article);
+    expect(withoutIssues(parseArticle(stored, RECORDED_KEYWORD))).toEqual(withoutIssues(article));
+    expect(articleToMarkdown(parseArticle(stored, RECORDED_KEYWORD))).toBe(stored);
+  });
+
+  it('keeps alt text and captions of generated images', () => {
+    const article = recorded();
+    getArticleImages(article).forEach((image, i) => (image.src = imageAssetRef(`img-${i}`)));
+    const stored = articleToMarkdown(article);
+
+    expect(stored).toContain('![FEATURED_IMAGE: Runner chạy half marathon 21km lúc bình minh](asset:img-0 "Về đích 21km là mục tiêu của nhiều người mới")');
+    expect(getImageAssetIds(stored)).toEqual(['img-0', 'img-1', 'img-2', 'img-3']);
+    const images = getArticleImages(parseArticle(stored, RECORDED_KEYWORD));
+    expect(images.map(({ alt, caption, src }) => ({ alt, caption, src }))).toEqual(
+      getArticleImages(article).map(({ alt, caption, src }) => ({ alt, caption, src }))
+    );
+  });
+
+  it('flattens brackets and pipes in alt text so the tag still parses', () => {
+    const article = recorded();
+    article.featuredImage!.alt = 'Runner [21km] | bình minh';
+    const image = parseArticle(articleToMarkdown(article), RECORDED_KEYWORD).featuredImage!;
+    expect(image.alt).toBe('Runner 21km bình minh');
+    expect(image.caption).toBe('Về đích 21km là mục tiêu của nhiều người mới');
+  });
+});
+
+describe('internal link markers', () => {
+  it('matches every spelling the model uses', () => {
+    const text = '[INTERNAL-LINK] [INTERNAL_LINK: giày] [internal link: pace]';
+    expect([...text.matchAll(LINK_MARKER)].map(m => m[1])).toEqual([undefined, 'giày', 'pace']);
+  });
+
+  it('keeps only the anchor text in exports', () => {
+    expect(stripLinkMarkers('Chọn [INTERNAL-LINK: giày chạy bộ] vừa chân [INTERNAL-LINK].')).toBe('Chọn giày chạy bộ vừa chân.');
+    expect(renderArticleBody(recorded())).not.toMatch(LINK_MARKER);
+  });
+});
@@ -0,0 +1,186 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Article, HistoryItem } from '../types';
+import { buildCleanHtml, buildPackageZip, buildWxr, buildWxrExport, ExportOptions, postTags, WxrExportOptions, WxrPost } from '../services/exportService';
+import { getArticleImages, imageAssetRef, parseArticle } from '../services/articleService';
+import { saveImageAsset } from '../services/storageService';
+import { buildStructuredData } from '../services/schemaService';
+import { getDefaultProfile } from '../services/profileService';
+import { fixture, RECORDED_KEYWORD } from './fixtures';
+
+const PUBLISHED = Date.UTC(2024, 2, 15, 8, 30);
+
+// Small stand-ins for encoded images: the exports only move the bytes around
+const bytes = (text: string, type: string) => new Blob([text], { type });
+
+let article: Article;
+let options: ExportOptions;
+
+// The recorded article after image generation: featured image with sizes and OG crop,
+// one body image with sizes, one without (stored before responsive sizes) and one that failed
+beforeEach(async () => {
+  article = parseArticle(fixture('half-marathon/step4_article.md'), RECORDED_KEYWORD);
+  const [featured, shoes, longRun, start] = getArticleImages(article);
+
+  featured.src = imageAssetRef((await saveImageAsset({
+    articleId: 'job-1', mime: 'image/webp', prompt: featured.prompt, alt: featured.alt,
+    blob: bytes('featured-1024', 'image/webp'), width: 1024, height: 576,
+    variants: [{ blob: bytes('featured-480', 'image/webp'), width: 480, height: 270 }],
+    og: { blob: bytes('featured-og', 'image/jpeg'), width: 1200, height: 630 },
+  }))!);
+  shoes.src = imageAssetRef((await saveImageAsset({
+    articleId: 'job-1', mime: 'image/webp', prompt: shoes.prompt, alt: shoes.alt,
+    blob: bytes('shoes-1024', 'image/webp'), width: 1024, height: 576,
+    variants: [{ blob: bytes('shoes-480', 'image/webp'), width: 480, height: 270 }],
+  }))!);
+  longRun.src = imageAssetRef((await saveImageAsset({
+    articleId: 'job-1', mime: 'image/png', prompt: longRun.prompt, alt: longRun.alt, blob: bytes('long-run', 'image/png'),
+  }))!);
+  void start; // Still a prompt: left out of every export
+
+  options = {
+    citations: 'references',
+    structuredData: buildStructuredData({
+      article, keyword: RECORDED_KEYWORD, language: 'vi', profile: getDefaultProfile('vi'), category: 'Luyện tập',
+      url: 'https://bestmarathon.vn/lich-tap-chay-21km', datePublished: PUBLISHED,
+    }),
+    alternates: [
+      { language: 'vi', hreflang: 'x-default', url: 'https://bestmarathon.vn/lich-tap-chay-21km' },
+      { language: 'en', hreflang: 'en', url: 'https://bestmarathon.vn/en/half-marathon-training-plan' },
+    ],
+  };
+});
+
+describe('buildCleanHtml', () => {
+  it('writes hreflang, JSON-LD and a placeholder per stored image', async () => {
+    const html = await buildCleanHtml(article, options);
+    expect(html).toMatchSnapshot();
+    expect(html).toContain('File: lich-tap-chay-21km-1.webp');
+    expect(html).not.toContain('asset:');
+  });
+});
+
+describe('buildPackageZip', () => {
+  it('packs every image file, the Markdown, the HTML, the schema and hreflang links', async () => {
+    const zip = await buildPackageZip(article, options);
+    expect(Object.keys(zip.files).sort()).toEqual([
+      'hreflang.html',
+      'images/',
+      'images/lich-tap-chay-21km-1-480w.webp',
+      'images/lich-tap-chay-21km-1.webp',
+      'images/lich-tap-chay-21km-2.png',
+      'images/lich-tap-chay-21km-480w.webp',
+      'images/lich-tap-chay-21km-og.jpg',
+      'images/lich-tap-chay-21km.webp',
+      'lich-tap-chay-21km.html',
+      'lich-tap-chay-21km.md',
+      'schema.jsonld',
+    ]);
+    expect(await zip.file('images/lich-tap-chay-21km-og.jpg')!.async('string')).toBe('featured-og');
+    expect(await zip.file('lich-tap-chay-21km.md')!.async('string')).toMatchSnapshot();
+    expect(await zip.file('lich-tap-chay-21km.html')!.async('string')).toMatchSnapshot();
+    expect(JSON.parse(await zip.file('schema.jsonld')!.async('string'))).toMatchSnapshot();
+  });
+
+  it('leaves out schema.jsonld and hreflang.html when there is nothing to put in them', async () => {
+    const zip = await buildPackageZip(article, { ...options, structuredData: { schemas: [], issues: [] }, alternates: [] });
+    expect(zip.file('schema.jsonld')).toBeNull();
+    expect(zip.file('hreflang.html')).toBeNull();
+  });
+});
+
+const SITE: WxrExportOptions = {
+  siteTitle: "Vietnam's Best Marathon",
+  siteUrl: 'https://bestmarathon.vn',
+  authors: [{ login: 'editor', displayName: "Vietnam's Best Marathon" }],
+  date: new Date(PUBLISHED),
+};
+
+const post = (patch: Partial<WxrPost> = {}): WxrPost =>
+  ({ ...options, article, language: 'vi', category: 'Luyện tập', tags: [], author: 'editor', ...patch });
+
+// Second post: a legacy article whose only image is a remote URL (no attachment)
+const trailPost = () => post({
+  article: parseArticle(fixture('step4_legacy.md'), 'trail running shoes'),
+  language: 'en', category: 'Gear', tags: ['trail running shoes'], alternates: [], structuredData: { schemas: [], issues: [] },
+});
+
+const postIds = (xml: string) => [...xml.matchAll(/<wp:post_id>(\d+)<\/wp:post_id>/g)].map(m => Number(m[1]));
+
+describe('buildWxr', () => {
+  it('writes the post as a draft with the images as attachments', async () => {
+    const wxr = await buildWxr(post({ tags: ['lịch tập chạy 21km', 'half marathon'] }), { ...SITE, startId: 5000 });
+    expect(wxr).toMatchSnapshot();
+  });
+
+  it('makes the featured image the thumbnail and keeps it out of the body', async () => {
+    const wxr = await buildWxr(post({ category: '' }), { ...SITE, startId: 5000 });
+    const item = wxr.slice(0, wxr.indexOf('</item>'));
+    expect(item).toContain('<wp:meta_key>_thumbnail_id</wp:meta_key>\n            <wp:meta_value><![CDATA[5001]]></wp:meta_value>');
+    expect(item).not.toContain(`data:image/webp;base64,${btoa('featured-1024')}`);
+    expect(item).toContain('<category domain="category" nicename="general"><![CDATA[General]]></category>');
+    expect(wxr.match(/<wp:post_type>attachment<\/wp:post_type>/g)).toHaveLength(3);
+    expect(wxr).not.toMatch(/IMAGE_PROMPT|INTERNAL-LINK|asset:/);
+  });
+
+  it('escapes alt text and captions edited by hand', async () => {
+    const shoes = getArticleImages(article)[1];
+    shoes.alt = 'Giày <1 triệu & "phụ kiện"';
+    shoes.caption = 'Giày <1 triệu & phụ kiện';
+    const wxr = await buildWxr(post(), SITE);
+    expect(wxr).toContain('alt="Giày &lt;1 triệu &amp; &quot;phụ kiện&quot;"');
+    expect(wxr).toContain('<figcaption>Giày &lt;1 triệu &amp; phụ kiện</figcaption>');
+    expect(await (await buildPackageZip(article, options)).file('lich-tap-chay-21km.html')!.async('string'))
+      .toContain('<figcaption>Giày &lt;1 triệu &amp; phụ kiện</figcaption>');
+  });
+});
+
+describe('buildWxrExport', () => {
+  it('numbers posts and attachments across the export, with the language, category and author of each post', async () => {
+    const [file, ...rest] = await buildWxrExport([post(), trailPost(), post({ author: 'admin' })], {
+      ...SITE, authors: [...SITE.authors, { login: 'admin', displayName: 'admin' }],
+    });
+    expect(rest).toEqual([]);
+    expect(file.posts).toBe(3);
+    // Post + 3 attachments, post, post + 3 attachments
+    expect(postIds(file.xml)).toEqual([1000, 1001, 1002, 1003, 1004, 1005, 1006, 1007, 1008]);
+    expect(file.xml).toContain('<wp:post_parent>1005</wp:post_parent>');
+    expect(file.xml).toContain('<language>vi-VN</language>');
+    expect(file.xml).toContain(`<title><![CDATA[Vietnam's Best Marathon]]></title>`);
+    expect(file.xml.match(/<wp:author_login>/g)).toHaveLength(2);
+
+    const trail = file.xml.split('</item>')[4];
+    expect(trail).toContain('<wp:post_id>1004</wp:post_id>');
+    expect(trail).toContain('<category domain="category" nicename="gear"><![CDATA[Gear]]></category>');
+    expect(trail).toContain('<category domain="post_tag" nicename="trail-running-shoes"><![CDATA[trail running shoes]]></category>');
+    expect(trail).toContain('<category domain="language" nicename="en"><![CDATA[English]]></category>');
+    expect(file.xml.split('</item>')[5]).toContain('<dc:creator><![CDATA[admin]]></dc:creator>');
+  });
+
+  it('splits into files under the size limit, never separating a post from its attachments', async () => {
+    // Room for the first two posts only
+    const [pair] = await buildWxrExport([post(), trailPost()], SITE);
+    const limit = new TextEncoder().encode(pair.xml).length;
+    const files = await buildWxrExport([post(), trailPost(), post()], { ...SITE, maxBytes: limit });
+
+    expect(files.map(f => f.posts)).toEqual([2, 1]);
+    expect(files.every(f => new TextEncoder().encode(f.xml).length <= limit)).toBe(true);
+    expect(postIds(files[0].xml)).toEqual([1000, 1001, 1002, 1003, 1004]);
+    expect(postIds(files[1].xml)).toEqual([1005, 1006, 1007, 1008]);
+    expect(files[1].xml).toMatch(/^<\?xml[\s\S]*<channel>[\s\S]*<\/rss>$/);
+  });
+});
+
+describe('postTags', () => {
+  it('tags the keyword, merged keywords, the pillar and semantic keywords once each', () => {
+    const item: HistoryItem = {
+      id: 'a', keyword: 'lịch tập chạy 21km', content: '', timestamp: PUBLISHED,
+      mergedKeywords: ['Lịch tập chạy 21km', 'giáo án half marathon'],
+      cluster: { id: 'c', role: 'supporting', pillar: 'chạy half marathon', supporting: ['lịch tập chạy 21km'] },
+      ideation: {
+        keywords: [{ keyword: 'pace chạy dài', type: 'semantic' }, { keyword: 'chạy 21km', type: 'long_tail' }],
+        entities: [], searchIntents: [], questions: [], eav: [], ere: [], triples: [],
+      },
+    };
+    expect(postTags(item)).toEqual(['lịch tập chạy 21km', 'giáo án half marathon', 'chạy half marathon', 'pace chạy dài']);
+  });
+});
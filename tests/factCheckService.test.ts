@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { checkFacts } from '../services/factCheckService';
+import { parseArticle } from '../services/articleService';
+
+const article = parseArticle(`Meta Title: Kỷ lục marathon
+Meta Description: Các kỷ lục marathon thế giới.
+Slug: ky-luc-marathon
+
+# Kỷ lục marathon
+
+## Kỷ lục nữ
+
+Kỷ lục marathon nữ thế giới là 2:09:56 tại Chicago.
+`, 'kỷ lục marathon');
+
+const research = 'Chicago Marathon là một trong sáu giải World Marathon Majors.';
+
+describe('checkFacts', () => {
+  it('flags a record the research does not back', () => {
+    const facts = checkFacts(article, research);
+    expect(facts.claims).toHaveLength(1);
+    expect(facts.claims[0]).toMatchObject({ status: 'unsupported', redFlag: true, missing: ['2:09:56'] });
+    expect(facts.redFlags).toBe(1);
+  });
+
+  it('accepts figures backed by the title of a grounding source', () => {
+    const sources = [{ title: 'Kỷ lục marathon nữ thế giới mới: 2:09:56 tại Chicago', url: 'https://worldathletics.org/news/chicago' }];
+    const facts = checkFacts(article, research, [], sources);
+    expect(facts.claims[0].status).toBe('supported');
+    expect(facts.claims[0].evidence).toBe('Source: Kỷ lục marathon nữ thế giới mới: 2:09:56 tại Chicago (https://worldathletics.org/news/chicago)');
+    expect(facts.redFlags).toBe(0);
+  });
+});
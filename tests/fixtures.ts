@@ -0,0 +1,16 @@
+import { readFileSync } from 'fs';
+import { MockScript } from '../services/textProviderService';
+
+// Model answers recorded from real runs, under tests/fixtures/
+
+export const fixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+
+// The four Step answers of one recorded keyword, as a mock provider script
+export const recordedScript = (dir: string): MockScript => ({
+  research: fixture(`${dir}/step1_research.md`),
+  ideation: fixture(`${dir}/step2_ideation.json`),
+  outline: fixture(`${dir}/step3_outline.md`),
+  writing: fixture(`${dir}/step4_article.md`),
+});
+
+export const RECORDED_KEYWORD = 'lịch tập chạy 21km';
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { fixture } from './fixtures';
+
+// The SDK is replaced by a client answering with a recorded response
+const { generateContent } = vi.hoisted(() => ({ generateContent: vi.fn() }));
+
+vi.mock('@google/genai', async importOriginal => ({
+  ...(await importOriginal<typeof import('@google/genai')>()),
+  GoogleGenAI: class {
+    models = { generateContent };
+  },
+}));
+
+import { GEMINI_TEXT_MODEL, generateGeminiText } from '../services/geminiService';
+
+const recorded = () => {
+  const response = JSON.parse(fixture('gemini_grounded_response.json'));
+  return { ...response, text: response.candidates[0].content.parts[0].text };
+};
+
+beforeEach(() => {
+  generateContent.mockReset();
+  generateContent.mockResolvedValue(recorded());
+});
+
+describe('generateGeminiText', () => {
+  it('sends the conversation with Google Search grounding', async () => {
+    await generateGeminiText(
+      [{ role: 'user', text: 'Research' }, { role: 'model', text: 'DS1' }, { role: 'user', text: 'Ideation' }],
+      { systemInstruction: 'You are an editor.', grounding: true, step: 'ideation', jsonSchema: { type: 'OBJECT' } }
+    );
+
+    const request = generateContent.mock.calls[0][0];
+    expect(request.model).toBe(GEMINI_TEXT_MODEL);
+    expect(request.contents).toEqual([
+      { role: 'user', parts: [{ text: 'Research' }] },
+      { role: 'model', parts: [{ text: 'DS1' }] },
+      { role: 'user', parts: [{ text: 'Ideation' }] },
+    ]);
+    expect(request.config).toMatchObject({
+      systemInstruction: 'You are an editor.',
+      tools: [{ googleSearch: {} }],
+      responseMimeType: 'application/json',
+      responseSchema: { type: 'OBJECT' },
+    });
+  });
+
+  it('leaves out the search tool and the schema when not asked for', async () => {
+    await generateGeminiText([{ role: 'user', text: 'Rewrite' }], { systemInstruction: '', grounding: false });
+    const { config } = generateContent.mock.calls[0][0];
+    expect(config.tools).toBeUndefined();
+    expect(config.responseSchema).toBeUndefined();
+  });
+
+  it('reads web sources, supports and token usage from the response', async () => {
+    const output = await generateGeminiText([{ role: 'user', text: 'Research' }], { systemInstruction: '', grounding: true });
+
+    expect(output.text).toBe('Người mới nên tập 12 đến 16 tuần, 3-4 buổi mỗi tuần.');
+    // The retrieved (non-web) chunk is dropped and the indices after it are remapped
+    expect(output.grounding).toEqual({
+      sources: [
+        { title: 'runnersworld.com', url: 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/a1' },
+        { title: 'vnexpress.net', url: 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/b2' },
+      ],
+      supports: [
+        { text: 'Người mới nên tập 12 đến 16 tuần', sources: [0, 1] },
+        { text: '3-4 buổi mỗi tuần', sources: [] },
+      ],
+    });
+    // Thinking tokens are billed as output
+    expect(output.usage).toEqual({ inputTokens: 1520, outputTokens: 640, requests: 1 });
+  });
+
+  it('answers without grounding metadata or usage', async () => {
+    generateContent.mockResolvedValue({ text: 'OK', candidates: [{}] });
+    expect(await generateGeminiText([{ role: 'user', text: 'Hi' }], { systemInstruction: '', grounding: true })).toEqual({
+      text: 'OK', grounding: { sources: [], supports: [] }, usage: undefined,
+    });
+  });
+});
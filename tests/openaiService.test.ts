@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OpenAiCompatibleConfig } from '../types';
+import { generateOpenAiText } from '../services/openaiService';
+import { isQuotaError } from '../services/scheduler';
+import { IDEATION_SCHEMA } from '../services/ideationService';
+
+const config: OpenAiCompatibleConfig = { baseUrl: 'http://localhost:11434/v1/', apiKey: '', model: 'llama3.1' };
+
+const fetchMock = vi.fn();
+
+const reply = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+  fetchMock.mockReset();
+  vi.unstubAllGlobals();
+});
+
+describe('generateOpenAiText', () => {
+  it('posts the conversation as chat messages and reads the answer', async () => {
+    fetchMock.mockResolvedValue(reply(200, {
+      choices: [{ message: { role: 'assistant', content: '# Outline' } }],
+      usage: { prompt_tokens: 900, completion_tokens: 120 },
+    }));
+
+    const output = await generateOpenAiText(
+      { ...config, apiKey: ' sk-test ' },
+      [{ role: 'user', text: 'Research' }, { role: 'model', text: 'DS1' }],
+      { systemInstruction: 'You are an editor.', grounding: true, step: 'ideation', jsonSchema: { type: 'OBJECT', properties: { questions: { type: 'ARRAY', items: { type: 'STRING' } } } } }
+    );
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(init.headers).toEqual({ 'Content-Type': 'application/json', Authorization: 'Bearer sk-test' });
+    const body = JSON.parse(init.body);
+    expect(body.messages).toEqual([
+      { role: 'system', content: 'You are an editor.' },
+      { role: 'user', content: 'Research' },
+      { role: 'assistant', content: 'DS1' },
+    ]);
+    // Gemini schema types are written in lower case for JSON Schema
+    expect(body.response_format).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'ideation', schema: { type: 'object', properties: { questions: { type: 'array', items: { type: 'string' } } } } },
+    });
+    expect(output).toEqual({ text: '# Outline', grounding: { sources: [], supports: [] }, usage: { inputTokens: 900, outputTokens: 120, requests: 1 } });
+  });
+
+  it('leaves the Gemini-only keywords out of the JSON Schema', async () => {
+    fetchMock.mockResolvedValue(reply(200, { choices: [{ message: { content: '{}' } }] }));
+    await generateOpenAiText(config, [{ role: 'user', text: 'Ideas' }], {
+      systemInstruction: '', grounding: false, step: 'ideation',
+      jsonSchema: { ...IDEATION_SCHEMA, properties: { ...IDEATION_SCHEMA.properties, note: { type: 'STRING', nullable: true } } },
+    });
+
+    const { schema } = JSON.parse(fetchMock.mock.calls[0][1].body).response_format.json_schema;
+    expect(JSON.stringify(schema)).not.toMatch(/propertyOrdering|nullable/);
+    expect(schema.required).toEqual(IDEATION_SCHEMA.required);
+    expect(schema.properties.note).toEqual({ type: 'string' });
+    expect(schema.properties.keywords.items.properties.type.type).toBe('string');
+  });
+
+  it('throws errors the scheduler recognizes as quota errors', async () => {
+    fetchMock.mockResolvedValue(reply(429, { error: { message: 'Rate limit reached' } }));
+    const error = await generateOpenAiText(config, [{ role: 'user', text: 'Hi' }], { systemInstruction: '', grounding: false }).catch(e => e);
+    expect(error.message).toBe('llama3.1 request failed (429): Rate limit reached');
+    expect(isQuotaError(error)).toBe(true);
+    expect(fetchMock.mock.calls[0][1].headers).toEqual({ 'Content-Type': 'application/json' });
+  });
+
+  it('needs a base URL and a model', async () => {
+    await expect(generateOpenAiText({ ...config, model: ' ' }, [], { systemInstruction: '', grounding: false })).rejects.toThrow('needs a base URL and a model name');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HistoryItem, PromptStep, TextProvider } from '../types';
+import { runKeywordPipeline } from '../services/pipelineService';
+import { createMockTextProvider, MockScript } from '../services/textProviderService';
+import { getHistory, getHistoryItem, getImageAssets } from '../services/storageService';
+import { getArticleImages, getImageAssetIds, parseArticle } from '../services/articleService';
+import { DEFAULT_IMAGE_SETTINGS } from '../services/imageAssetService';
+import { configureScheduler } from '../services/scheduler';
+import { recordedScript, RECORDED_KEYWORD } from './fixtures';
+
+const newItem = (patch: Partial<HistoryItem> = {}): HistoryItem => ({
+  id: 'job-1',
+  keyword: RECORDED_KEYWORD,
+  content: '',
+  timestamp: 1700000000000,
+  language: 'vi',
+  status: 'in_progress',
+  imageProvider: 'placeholder',
+  ...patch,
+});
+
+// Mock provider over the recorded answers that counts the requests of every step
+const recordedProvider = (script: MockScript = {}) => {
+  const provider = createMockTextProvider({ ...recordedScript('half-marathon'), ...script });
+  const calls: PromptStep[] = [];
+  const counted: TextProvider = {
+    ...provider,
+    complete: (turns, config) => {
+      calls.push(config.step!);
+      return provider.complete(turns, config);
+    },
+  };
+  return { provider: counted, calls };
+};
+
+const run = (item: HistoryItem, provider: TextProvider, shouldStop?: () => boolean) =>
+  runKeywordPipeline(item, { textProvider: provider, imageSettings: DEFAULT_IMAGE_SETTINGS, shouldStop });
+
+beforeEach(() => {
+  // The rate limiter is shared by every test of the file: no waiting for the 1-minute window
+  configureScheduler({ concurrency: 1, textRpm: 1000, imageRpm: 1000 });
+  // Node cannot decode the images (no createImageBitmap): they are stored as they came, with an error logged
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('runKeywordPipeline', () => {
+  it('runs Step 1 -> Step 4 -> Images on the recorded answers', async () => {
+    const { provider, calls } = recordedProvider();
+    const progress: string[] = [];
+    const result = await runKeywordPipeline(newItem(), {
+      textProvider: provider,
+      imageSettings: DEFAULT_IMAGE_SETTINGS,
+      onProgress: message => progress.push(message),
+    });
+
+    expect(calls).toEqual(['research', 'ideation', 'outline', 'writing']);
+    expect(progress[0]).toBe(`[${RECORDED_KEYWORD}][VI] Researching data (Step 1/4)...`);
+    expect(result.status).toBe('complete');
+    expect(result.steps?.images_done).toBe(true);
+    expect(result.ideation?.keywords.map(k => k.keyword)).toContain('lịch tập half marathon');
+    expect(result.textModel).toEqual({ provider: 'mock', model: 'mock' });
+    expect(result.usage?.requests).toBe(4);
+    expect(result.templateVersions).toMatchObject({ research: 1, ideation: 1, outline: 1, writing: 1, image: 1 });
+
+    // Stored as returned, with every image in the image store
+    expect(await getHistoryItem('job-1')).toEqual(result);
+    const article = parseArticle(result.content, RECORDED_KEYWORD);
+    expect(article.meta.slug).toBe('lich-tap-chay-21km');
+    const ids = getImageAssetIds(result.content);
+    expect(ids).toHaveLength(4);
+    const assets = await getImageAssets(ids);
+    expect(assets.map(a => a.mime)).toEqual(['image/svg+xml', 'image/svg+xml', 'image/svg+xml', 'image/svg+xml']);
+    expect(assets.every(a => a.articleId === 'job-1')).toBe(true);
+    expect(assets[0].alt).toBe('Runner chạy half marathon 21km lúc bình minh');
+    expect(getArticleImages(article)[2].caption).toBe('Chạy dài chậm hơn pace mục tiêu');
+  });
+
+  it('keeps the finished steps of a failed run and resumes from the failed one', async () => {
+    let fail = true;
+    const flaky = recordedProvider({
+      writing: () => {
+        if (fail) throw new Error('fetch failed');
+        return recordedScript('half-marathon').writing as string;
+      },
+    });
+
+    await expect(run(newItem(), flaky.provider)).rejects.toThrow('fetch failed');
+    const failed = (await getHistoryItem('job-1'))!;
+    expect(failed).toMatchObject({ status: 'failed', failedStage: 'writing', error: 'Error: fetch failed' });
+    expect(failed.steps?.step3_outline).toContain('Giai đoạn tăng cự ly');
+    expect(failed.usage?.requests).toBe(3);
+
+    fail = false;
+    flaky.calls.length = 0;
+    const resumed = await run(failed, flaky.provider);
+    expect(flaky.calls).toEqual(['writing']);
+    expect(resumed).toMatchObject({ status: 'complete', error: undefined, failedStage: undefined });
+    expect(resumed.usage?.requests).toBe(4);
+    expect(await getHistory()).toHaveLength(1);
+  });
+
+  it('stops at a review gate until it is approved', async () => {
+    const { provider, calls } = recordedProvider();
+    const waiting = await run(newItem({ review: { gates: ['outline'], approved: [] } }), provider);
+    expect(waiting).toMatchObject({ status: 'awaiting_review', awaitingReview: 'outline' });
+    expect(waiting.steps?.step4_article).toBeUndefined();
+
+    calls.length = 0;
+    const approved = await run({ ...waiting, review: { gates: ['outline'], approved: ['outline'] } }, provider);
+    expect(calls).toEqual(['writing']);
+    expect(approved.status).toBe('complete');
+  });
+
+  it('drops the image tags the image source has nothing for', async () => {
+    // The stock library is empty
+    const { provider } = recordedProvider();
+    const progress: string[] = [];
+    const result = await runKeywordPipeline(newItem({ imageProvider: 'stock' }), {
+      textProvider: provider,
+      imageSettings: DEFAULT_IMAGE_SETTINGS,
+      onProgress: message => progress.push(message),
+    });
+    expect(result.status).toBe('complete');
+    expect(progress).toContain(`[${RECORDED_KEYWORD}] Stock library (own photos): no image for "Runner chạy half marathon 21km lúc bình minh", left out of the article.`);
+    expect(result.content).not.toMatch(/IMAGE_PROMPT|!\[/);
+    expect(getArticleImages(parseArticle(result.content, RECORDED_KEYWORD))).toEqual([]);
+  });
+
+  it('saves a cancelled run as failed at the stage it stopped', async () => {
+    const { provider, calls } = recordedProvider();
+    await expect(run(newItem(), provider, () => true)).rejects.toThrow('Cancelled by user');
+    expect(calls).toEqual([]);
+    expect(await getHistoryItem('job-1')).toMatchObject({ status: 'failed', failedStage: 'research' });
+  });
+});
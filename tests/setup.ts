@@ -0,0 +1,8 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach } from 'vitest';
+
+// Every test starts with an empty SeoWizardDB
+beforeEach(() => {
+  globalThis.indexedDB = new IDBFactory();
+});
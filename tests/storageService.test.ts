@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HistoryItem, QueueItem } from '../types';
+import {
+  clearHistory, deleteHistoryItem, deleteProfile, deleteQueueItems, deleteStockPhotos, deleteUnusedImageAssets,
+  getHistory, getHistoryItem, getImageAssets, getProfiles, getQueue, getQueueRunState, getSetting, getSiteLinks,
+  getStockPhotos, getTemplates, resetTemplate, saveHistoryItem, saveImageAsset, saveProfile, saveQueueItems,
+  saveQueueRunState, saveSetting, saveStockPhotos, saveTemplate,
+} from '../services/storageService';
+import { getImageAssetIds, imageAssetRef } from '../services/articleService';
+import { DEFAULT_PROFILES } from '../services/profileService';
+import { getDefaultTemplate } from '../services/promptTemplates';
+
+const historyItem = (id: string, patch: Partial<HistoryItem> = {}): HistoryItem => ({
+  id, keyword: `keyword ${id}`, content: '', timestamp: 1700000000000, language: 'vi', status: 'complete', ...patch,
+});
+
+const queueItem = (id: string, order: number): QueueItem => ({
+  id, keyword: `keyword ${id}`, language: 'vi', category: 'General', status: 'pending', order, addedAt: 1700000000000,
+});
+
+const storeImage = (articleId: string) =>
+  saveImageAsset({ articleId, blob: new Blob(['png'], { type: 'image/png' }), mime: 'image/png', prompt: 'prompt', alt: 'alt' });
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('history', () => {
+  it('lists items newest first and replaces an item saved again', async () => {
+    await saveHistoryItem(historyItem('a', { timestamp: 1 }));
+    await saveHistoryItem(historyItem('b', { timestamp: 3 }));
+    const history = await saveHistoryItem(historyItem('a', { timestamp: 5, status: 'failed' }));
+
+    expect(history.map(h => h.id)).toEqual(['a', 'b']);
+    expect(await getHistoryItem('a')).toMatchObject({ status: 'failed', timestamp: 5 });
+    expect(await getHistoryItem('missing')).toBeNull();
+  });
+
+  it('gives an item without an id a new one', async () => {
+    const [saved] = await saveHistoryItem(historyItem(''));
+    expect(saved.id).toMatch(/^\d+-\w+$/);
+  });
+
+  it('deletes an item with its images, keeping images another item still uses', async () => {
+    const own = (await storeImage('a'))!;
+    const shared = (await storeImage('a'))!;
+    await saveHistoryItem(historyItem('a', { content: `![x](${imageAssetRef(own)})\n![y](${imageAssetRef(shared)})` }));
+    // A translation of "a" shows the same image
+    await saveHistoryItem(historyItem('b', { content: `![y](${imageAssetRef(shared)} "caption")`, translatedFrom: 'a' }));
+
+    expect(await deleteHistoryItem('a')).toEqual([await getHistoryItem('b')]);
+    expect((await getImageAssets([own, shared])).map(a => a.id)).toEqual([shared]);
+
+    await deleteHistoryItem('b');
+    expect(await getImageAssets([shared])).toEqual([]);
+  });
+
+  it('clears every item and image', async () => {
+    const id = (await storeImage('a'))!;
+    await saveHistoryItem(historyItem('a', { content: `![x](${imageAssetRef(id)})` }));
+    expect(await clearHistory()).toEqual([]);
+    expect(await getHistory()).toEqual([]);
+    expect(await getImageAssets([id])).toEqual([]);
+  });
+});
+
+describe('image assets', () => {
+  it('stores the Blob with its sizes', async () => {
+    const id = (await saveImageAsset({
+      articleId: 'a', blob: new Blob(['main'], { type: 'image/webp' }), mime: 'image/webp', prompt: 'p', alt: 'a',
+      width: 1024, height: 576, variants: [{ blob: new Blob(['small'], { type: 'image/webp' }), width: 480, height: 270 }],
+    }))!;
+    const [asset] = await getImageAssets([id, 'missing']);
+    expect(asset).toMatchObject({ id, articleId: 'a', width: 1024, variants: [{ width: 480 }] });
+    expect(await asset.blob.text()).toBe('main');
+    expect(await asset.variants![0].blob.text()).toBe('small');
+  });
+
+  it('only deletes images no history item refers to', async () => {
+    const used = (await storeImage('a'))!;
+    const unused = (await storeImage('a'))!;
+    // Referenced from a section revision only
+    await saveHistoryItem(historyItem('a', { sectionRevisions: [{ heading: 'H', previous: `![x](${imageAssetRef(used)})`, action: 'rewrite', createdAt: 1 }] }));
+
+    await deleteUnusedImageAssets([used, unused]);
+    expect((await getImageAssets([used, unused])).map(a => a.id)).toEqual([used]);
+  });
+});
+
+describe('stock photos', () => {
+  it('replaces photos imported again under the same name and lists them by name', async () => {
+    await saveStockPhotos([
+      { name: 'lib/trail/mud-01.jpg', tags: ['trail', 'mud'], blob: new Blob(['1']) },
+      { name: 'lib/road/asphalt.jpg', tags: ['road', 'asphalt'], blob: new Blob(['2']) },
+    ]);
+    const [road, trail] = await saveStockPhotos([{ name: 'lib/trail/mud-01.jpg', tags: ['trail', 'mud', 'shoes'], blob: new Blob(['3']) }]);
+
+    expect(road.name).toBe('lib/road/asphalt.jpg');
+    expect(trail.tags).toEqual(['trail', 'mud', 'shoes']);
+    expect(await trail.blob.text()).toBe('3');
+    expect(await deleteStockPhotos([road.id])).toEqual([trail]);
+    expect(await getStockPhotos()).toHaveLength(1);
+  });
+});
+
+describe('settings', () => {
+  it('returns null (or the default) until a value is saved', async () => {
+    expect(await getSetting('wpConfig')).toBeNull();
+    expect(await getSiteLinks()).toEqual([]);
+    expect(await getQueueRunState()).toBe('idle');
+
+    await saveSetting('imageSettings', { format: 'webp' });
+    await saveQueueRunState('paused');
+    expect(await getSetting('imageSettings')).toEqual({ format: 'webp' });
+    expect(await getQueueRunState()).toBe('paused');
+  });
+});
+
+describe('queue', () => {
+  it('keeps the explicit processing order', async () => {
+    await saveQueueItems([queueItem('a', 2), queueItem('b', 0), queueItem('c', 1)]);
+    expect((await getQueue()).map(q => q.id)).toEqual(['b', 'c', 'a']);
+    expect((await deleteQueueItems(['c'])).map(q => q.id)).toEqual(['b', 'a']);
+  });
+});
+
+describe('profiles', () => {
+  it('starts with the default profiles and never returns an empty list', async () => {
+    expect((await getProfiles()).map(p => p.id).sort()).toEqual(DEFAULT_PROFILES.map(p => p.id).sort());
+
+    const custom = { ...DEFAULT_PROFILES[0], id: 'trail', name: 'Trail (VI)', imageProvider: 'stock' as const };
+    expect((await saveProfile(custom)).find(p => p.id === 'trail')).toEqual(custom);
+
+    for (const profile of await getProfiles()) await deleteProfile(profile.id);
+    expect(await getProfiles()).toEqual(DEFAULT_PROFILES);
+  });
+});
+
+describe('templates', () => {
+  it('versions edited templates and keeps the earlier bodies', async () => {
+    const original = getDefaultTemplate('research', 'vi');
+    await saveTemplate('research', 'vi', 'Research "{{keyword}}"');
+    await saveTemplate('research', 'vi', 'Research "{{keyword}}"'); // Unchanged: no new version
+    const [edited] = (await resetTemplate('research', 'vi')).filter(t => t.step === 'research' && t.language === 'vi');
+
+    expect(edited.body).toBe(original.body);
+    expect(edited.version).toBe(original.version + 2);
+    expect(edited.versions.map(v => v.body)).toEqual(['Research "{{keyword}}"', original.body]);
+    expect((await getTemplates()).find(t => t.step === 'outline' && t.language === 'vi')).toEqual(getDefaultTemplate('outline', 'vi'));
+  });
+});
+
+describe('v6 migration', () => {
+  // 1x1 PNG
+  const PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+
+  // The database as a v5 build left it, with the image inline in the article
+  const createV5Database = (items: HistoryItem[]) => new Promise<void>((resolve, reject) => {
+    const request = indexedDB.open('SeoWizardDB', 5);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      ['history', 'queue', 'profiles', 'templates'].forEach(name => db.createObjectStore(name, { keyPath: 'id' }));
+      db.createObjectStore('settings', { keyPath: 'key' });
+      items.forEach(item => request.transaction!.objectStore('history').put(item));
+    };
+    request.onsuccess = () => {
+      request.result.close();
+      resolve();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+  it('moves base64 images into the image store, once per image', async () => {
+    const inline = `![FEATURED_IMAGE: Runner](data:image/png;base64,${PNG})`;
+    await createV5Database([historyItem('old', {
+      content: `${inline}\n\n## H2\n\nText`,
+      steps: { step4_article: inline },
+    })]);
+
+    const [item] = await getHistory();
+    const ids = getImageAssetIds(item.content);
+    expect(ids).toHaveLength(1);
+    expect(item.content).toBe(`![FEATURED_IMAGE: Runner](${imageAssetRef(ids[0])})\n\n## H2\n\nText`);
+    expect(item.steps?.step4_article).toBe(`![FEATURED_IMAGE: Runner](${imageAssetRef(ids[0])})`);
+
+    const [asset] = await getImageAssets(ids);
+    expect(asset).toMatchObject({ articleId: 'old', mime: 'image/png', alt: 'FEATURED_IMAGE: Runner', width: 1, height: 1 });
+    expect(btoa(String.fromCharCode(...new Uint8Array(await asset.blob.arrayBuffer())))).toBe(PNG);
+  });
+});
@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Article, WpConfig } from '../types';
+import { publishArticle } from '../services/wordpressService';
+import { getArticleImages, imageAssetRef, parseArticle } from '../services/articleService';
+import { saveImageAsset } from '../services/storageService';
+import { fixture, RECORDED_KEYWORD } from './fixtures';
+
+const config: WpConfig = { url: 'https://bestmarathon.vn/', username: 'editor', appPassword: 'abcd efgh' };
+
+const fetchMock = vi.fn();
+
+const reply = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+// Routes the REST calls of a publish; `createPost` answers the post creation
+const site = (createPost: (body: Record<string, unknown>) => Response) => fetchMock.mockImplementation(async (url: string, init: RequestInit = {}) => {
+  const path = url.replace('https://bestmarathon.vn/wp-json/wp/v2', '');
+  if (path === '/media') return reply(201, { id: 100 + fetchMock.mock.calls.length, source_url: 'https://bestmarathon.vn/wp-content/uploads/x.webp' });
+  if (path.startsWith('/media/') && init.method === 'DELETE') return reply(200, { deleted: true });
+  if (path.startsWith('/media/')) return reply(200, {});
+  if (path.startsWith('/categories')) return reply(200, [{ id: 7, name: 'Marathon' }]);
+  return createPost(JSON.parse(String(init.body)));
+});
+
+const failingSite = () => site(() => reply(500, { message: 'Internal error' }));
+
+let article: Article;
+
+beforeEach(async () => {
+  vi.stubGlobal('fetch', fetchMock);
+  article = parseArticle(fixture('half-marathon/step4_article.md'), RECORDED_KEYWORD);
+  const [featured] = getArticleImages(article);
+  featured.src = imageAssetRef((await saveImageAsset({
+    articleId: 'job-1', mime: 'image/webp', prompt: featured.prompt, alt: featured.alt,
+    blob: new Blob(['featured'], { type: 'image/webp' }),
+    og: { blob: new Blob(['og'], { type: 'image/jpeg' }), width: 1200, height: 630 },
+  }))!);
+});
+
+afterEach(() => {
+  fetchMock.mockReset();
+  vi.unstubAllGlobals();
+});
+
+describe('publishArticle', () => {
+  it('rejects a scheduled post without a date before uploading anything', async () => {
+    await expect(publishArticle(config, article, { status: 'future', category: 'Marathon' }))
+      .rejects.toThrow('A schedule date is required');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('reports the SEO meta a site without the REST registration drops', async () => {
+    // WordPress answers with the meta it stored: only registered keys
+    site(body => reply(201, { id: 42, link: 'https://bestmarathon.vn/?p=42', status: 'draft', meta: { rank_math_title: (body.meta as Record<string, string>).rank_math_title } }));
+    const progress: string[] = [];
+    const result = await publishArticle(config, article, { status: 'draft', category: 'Marathon' }, message => progress.push(message));
+
+    expect(result.missingMeta).toEqual([
+      '_yoast_wpseo_title', '_yoast_wpseo_metadesc', 'rank_math_description',
+      '_yoast_wpseo_opengraph-image', '_yoast_wpseo_opengraph-image-id', 'rank_math_facebook_image', 'rank_math_facebook_image_id',
+    ]);
+    expect(progress[progress.length - 1]).toMatch(/^SEO meta not saved by the site/);
+
+    site(body => reply(201, { id: 43, link: 'https://bestmarathon.vn/?p=43', status: 'draft', meta: body.meta }));
+    expect((await publishArticle(config, article, { status: 'draft', category: 'Marathon' })).missingMeta).toEqual([]);
+  });
+
+  it('deletes the uploaded media when the post cannot be created', async () => {
+    failingSite();
+    await expect(publishArticle(config, article, { status: 'draft', category: 'Marathon' }))
+      .rejects.toThrow('WordPress POST /posts failed (500): Internal error');
+
+    const deleted = fetchMock.mock.calls.filter(([, init]) => init?.method === 'DELETE').map(([url]) => url);
+    expect(deleted).toHaveLength(2); // Image and its OG crop
+    expect(deleted.every(url => /\/media\/\d+\?force=true$/.test(url))).toBe(true);
+  });
+});
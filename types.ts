@@ -5,7 +5,24 @@ export enum StepStatus {
   ERROR = 'ERROR'
 }
 
-export type OutputLanguage = 'vi' | 'en';
+// Language code from the catalog in services/languages.ts ('vi', 'en', 'th', ...)
+export type OutputLanguage = string;
+
+// Languages with their own built-in prompt wording; every other language uses the English
+// prompts, which ask for the output language by name
+export type PromptBase = 'vi' | 'en';
+
+export interface LanguageDefinition {
+  code: OutputLanguage;
+  name: string;        // English name, used in prompts ("Writing in Thai")
+  nativeName: string;  // Shown in the UI
+  flag: string;
+  hreflang: string;    // BCP 47 tag for hreflang / inLanguage, e.g. "vi-VN"
+  promptBase: PromptBase;
+  seeAlso: string;     // Label of "See also" internal links
+  // Word-based readability limits; missing for scripts written without spaces (Thai)
+  readability?: { avgSentence: [number, number]; paragraph: number };
+}
 
 export interface WpConfig {
   url: string;
@@ -13,10 +30,384 @@ export interface WpConfig {
   appPassword: string;
 }
 
+// A site/persona the prompts are written for (brand, audience, voice, image style)
+export interface BrandProfile {
+  id: string;
+  name: string;            // Label shown in the UI, e.g. "Running (VI)"
+  brandName: string;       // Used as author voice ("Chúng tôi" / "We")
+  websiteUrl: string;
+  niche: string;
+  audience: string;
+  voiceRules: string;      // Tone & voice instructions for Step 4
+  imageStyle: string;      // Appended to every image prompt
+  defaultCategory: string;
+  language: OutputLanguage;
+  imageProvider?: ImageProviderId; // Where the article images come from (Gemini when missing)
+}
+
+export type PromptStep = 'research' | 'ideation' | 'outline' | 'writing' | 'image' | 'section' | 'translate';
+
+export interface PromptTemplateVersion {
+  version: number;
+  body: string;
+  savedAt: number;
+}
+
+// User-editable prompt for one pipeline step in one language
+export interface PromptTemplate {
+  id: string; // `${step}:${language}`
+  step: PromptStep;
+  language: OutputLanguage;
+  body: string;
+  version: number; // 1 = built-in default, +1 on every save / reset
+  updatedAt: number;
+  versions: PromptTemplateVersion[]; // Previous bodies, newest first
+}
+
+// Everything needed to build the prompts of one keyword job
+export interface PromptContext {
+  keyword: string;
+  language: OutputLanguage;
+  profile: BrandProfile;
+  templates: PromptTemplate[];
+  steps?: StepData; // Outputs so far, exposed as {{research}}, {{ideation}}, {{outline}}
+  relatedKeywords?: string[]; // Keywords merged into this article at pre-flight, exposed as {{related_keywords}}
+  cluster?: ClusterRef; // Pillar / supporting role, exposed as {{cluster}}
+}
+
+export type WpPostStatus = 'draft' | 'publish' | 'future';
+
+export interface WpPublishOptions {
+  status: WpPostStatus;
+  category: string;
+  scheduledAt?: string; // Local datetime (YYYY-MM-DDTHH:mm), only used when status is 'future'
+  citations?: CitationMode; // Footnotes when missing
+}
+
+export interface WpPublishResult {
+  postId: number;
+  link: string;
+  status: WpPostStatus;
+  featuredMediaId?: number;
+  mediaIds: number[];
+  missingMeta: string[]; // Yoast/RankMath keys the site did not save (not registered for the REST API)
+}
+
+export type IdeationKeywordType = 'semantic' | 'lsi' | 'long_tail';
+export type EntityRole = 'primary' | 'related' | 'contextual';
+export type SearchIntentType = 'informational' | 'commercial' | 'transactional' | 'navigational';
+
+// Step 2 (DDD1) as structured data, returned by the model through a response schema
+export interface Ideation {
+  keywords: { keyword: string; type: IdeationKeywordType }[];
+  entities: { name: string; role: EntityRole; priority: number }[]; // priority 1 = most important
+  searchIntents: { intent: string; type: SearchIntentType; priority: number }[];
+  questions: string[]; // People Also Ask
+  eav: { entity: string; attribute: string; value: string }[];
+  ere: { entity: string; relation: string; target: string }[];
+  triples: { subject: string; predicate: string; object: string }[];
+}
+
+// --- ARTICLE DOCUMENT MODEL (parsed Step 4 output) ---
+
+export interface ArticleImage {
+  featured: boolean;
+  prompt: string;   // Image description for the image model; once generated it is kept on the ImageAsset only
+  alt: string;      // Short alt text in the article language, written by Step 4 next to the prompt
+  caption?: string;
+  src?: string;   // asset:<id> of a generated image, or a URL; missing while the [IMAGE_PROMPT: ...] tag has not been turned into an image
+}
+
+// Markdown text or an image, in document order
+export type ArticleBlock =
+  | { type: 'text'; markdown: string }
+  | { type: 'image'; image: ArticleImage };
+
+export interface ArticleSection {
+  level: 2 | 3;
+  heading: string;
+  blocks: ArticleBlock[];
+}
+
+export type SectionAction = 'regenerate' | 'expand' | 'shorten' | 'rewrite';
+
+// Text of an H2 section (with its H3s and images) before a rewrite, kept for revert
+export interface SectionRevision {
+  heading: string;  // Heading of the section as it is now (after the rewrite)
+  previous: string; // Markdown of the section before the rewrite
+  action: SectionAction;
+  createdAt: number;
+}
+
+export interface ArticleSource {
+  title: string;
+  url: string;
+}
+
+// --- IMAGE ASSETS ---
+
+export type ImageFormat = 'jpeg' | 'webp' | 'avif';
+
+// Aspect ratios the image model accepts
+export type AspectRatio = '16:9' | '21:9' | '4:3' | '3:2' | '1:1' | '4:5' | '3:4' | '2:3' | '9:16';
+
+// How generated images are encoded (setting "imageSettings")
+export interface ImageSettings {
+  format: ImageFormat;  // JPEG is used when the browser cannot encode the format
+  quality: number;      // 0.3-0.95; lowered step by step while a file is over the budget
+  widths: number[];     // srcset widths, the largest is the main image
+  maxKb: number;        // Size budget per file
+  featuredAspect: AspectRatio;
+  bodyAspect: AspectRatio;
+}
+
+export interface ImageVariant {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+// Encoded image: the main file plus the smaller srcset sizes and, for the featured image, the OG crop
+export interface GeneratedImage {
+  blob: Blob;
+  width?: number;
+  height?: number;
+  variants?: ImageVariant[]; // Smaller widths, ascending (missing on images stored before responsive sizes)
+  og?: ImageVariant;         // 1200x630 social sharing crop (featured image only)
+}
+
+// Generated image kept in its own IndexedDB store; article Markdown refers to it by id
+export interface ImageAsset extends GeneratedImage {
+  id: string;
+  articleId: string; // History item the image was generated for (translations share it)
+  mime: string;
+  prompt: string;    // Empty for images moved out of older Markdown (the prompt was not kept)
+  alt: string;       // Alt text when generated (the article Markdown holds the current one)
+  createdAt: number;
+}
+
+// --- IMAGE PROVIDERS ---
+
+// Gemini and Imagen generate, "stock" picks from the local photo library, "placeholder" draws
+// an offline stand-in (same prompt, same image)
+export type ImageProviderId = 'gemini' | 'imagen' | 'stock' | 'placeholder';
+
+export interface ImageRequest {
+  prompt: string; // Image prompt from the article (the brand image style is added by the provider)
+  alt: string;
+  aspectRatio: AspectRatio;
+  ctx: PromptContext;
+}
+
+// Returns the image as it came (encodeImage makes the sizes), or null when there is none
+export interface ImageProvider {
+  id: ImageProviderId;
+  label: string;
+  generate: (request: ImageRequest) => Promise<Blob | null>;
+}
+
+// One of our own licensed photos, imported from a local folder; tags come from the folder and file names
+export interface StockPhoto {
+  id: string;
+  name: string; // Path inside the imported folder, e.g. "running/shoes/trail-01.jpg"
+  tags: string[];
+  blob: Blob;
+  addedAt: number;
+}
+
+// --- TEXT PROVIDERS ---
+
+// Gemini (with Google Search grounding), any OpenAI-compatible server (OpenAI, llama.cpp, Ollama...)
+// or the scripted mock for offline development and tests
+export type TextProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  requests: number;
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+// Everything a provider needs besides the conversation
+export interface TextRequestConfig {
+  systemInstruction: string;
+  grounding: boolean;  // Search grounding (Gemini only; other providers answer from the model alone)
+  jsonSchema?: object; // Answer as JSON with this schema (Gemini Schema format)
+  step?: PromptStep;   // Prompt the request was built from (the mock answers by step)
+}
+
+// Answers the last user turn, the earlier turns are the conversation so far
+export interface TextProvider {
+  id: TextProviderId;
+  label: string;
+  model: string;
+  complete: (turns: ChatTurn[], config: TextRequestConfig) => Promise<StepOutput>;
+}
+
+// A keyword job's conversation: DS1 / DDD1 / OL1 carried from one step to the next
+export interface TextSession {
+  send: (message: string, config: TextRequestConfig) => Promise<StepOutput>;
+}
+
+export interface OpenAiCompatibleConfig {
+  baseUrl: string; // Up to /v1, e.g. "http://localhost:11434/v1" for Ollama
+  apiKey: string;  // Empty for local servers
+  model: string;
+}
+
+// Text model used by the pipeline (setting "textSettings")
+export interface TextSettings {
+  provider: TextProviderId;
+  openai: OpenAiCompatibleConfig;
+}
+
+// Provider and model that wrote a history item
+export interface TextModelRef {
+  provider: TextProviderId;
+  model: string;
+}
+
+// --- CITATIONS ---
+
+// How sources appear in exports: numbered footnotes on the sentences plus the list, the list only, or nothing
+export type CitationMode = 'footnotes' | 'references' | 'none';
+
+// Google Search grounding of one model answer
+export interface GroundingSupport {
+  text: string;      // Segment of the answer backed by the sources
+  sources: number[]; // Indices into Grounding.sources
+}
+
+export interface Grounding {
+  sources: ArticleSource[]; // Grounding chunks in response order (may repeat)
+  supports: GroundingSupport[];
+}
+
+// Answer of a pipeline step with its grounding
+export interface StepOutput {
+  text: string;
+  grounding: Grounding;
+  usage?: TokenUsage; // Missing when the provider does not report it
+}
+
+// A source used by any step of a history item (deduplicated)
+export interface SourceRef extends ArticleSource {
+  stages: PipelineStage[]; // Steps whose answers it grounded
+}
+
+export interface ArticleIssue {
+  severity: 'error' | 'warning'; // Errors block export/publish unless the user confirms
+  message: string;
+}
+
+export interface Article {
+  meta: { title: string; description: string; slug: string };
+  featuredImage?: ArticleImage;
+  intro: ArticleBlock[];
+  sections: ArticleSection[];   // H2 and H3 sections in document order (without the conclusion)
+  conclusion?: ArticleSection;
+  sources: ArticleSource[];
+  issues: ArticleIssue[];
+}
+
+// --- INTERNAL LINKING ---
+
+// A page of the existing site imported by the user (URL + title)
+export interface SiteLink {
+  url: string;
+  title: string;
+}
+
+// An article links can point to: a history item or an imported site page
+export interface LinkTarget {
+  url: string;
+  title: string;
+  keyword: string; // Main topic, matched against the article text
+  source: 'history' | 'site';
+  clusterRole?: ClusterRole; // Set when the target is in the same keyword cluster as the linking article
+}
+
+export interface LinkCandidate extends LinkTarget {
+  score: number; // 0..1, token overlap with the link context
+}
+
+export type InternalLinkStatus = 'suggested' | 'approved' | 'unresolved';
+
+// One entry of the link report of an article
+export interface InternalLink {
+  id: string;
+  kind: 'marker' | 'entity' | 'cluster'; // From an [INTERNAL-LINK] marker, an entity/keyword mention, or a pillar <-> supporting page link
+  anchor: string;             // Anchor text ('' for a bare marker)
+  section: string;            // Heading of the section holding the link ('' for the intro)
+  markdown: string;           // Exact text in the article: the link, or the marker while unresolved
+  target?: LinkCandidate;     // Missing while unresolved
+  candidates: LinkCandidate[]; // Best matches, offered when changing the target
+  status: InternalLinkStatus;
+}
+
+// --- SEO AUDIT ---
+
+export type AuditStatus = 'pass' | 'warn' | 'fail';
+
+export interface AuditCheck {
+  id: string;
+  label: string;
+  status: AuditStatus;
+  detail: string; // What was measured, e.g. "62 characters (target 55-65)"
+  weight: number; // Share of the score
+}
+
+export interface SeoAudit {
+  score: number; // 0-100, weighted: pass = full weight, warn = half, fail = none
+  checks: AuditCheck[];
+}
+
+// --- FACT CHECK ---
+
+// supported: every figure is in the research; unsupported: a figure is not; contradicted: the
+// research gives a different figure for the same thing
+export type ClaimStatus = 'supported' | 'unsupported' | 'contradicted';
+
+export interface FactClaim {
+  id: string;        // Stable across re-checks (hash of the sentence), used to store overrides
+  text: string;      // The sentence or table row, plain text
+  section: string;   // Heading of the section holding it ('' for the intro)
+  figures: string[]; // Numbers in the claim as written, e.g. "42,195 km", "2:01:09"
+  missing: string[]; // Figures not found in the research
+  status: ClaimStatus;
+  redFlag: boolean;  // Blocks export / publish until verified
+  evidence?: string; // Closest research sentence (the conflicting one when contradicted)
+  verified: boolean; // Confirmed by an editor
+}
+
+export interface FactCheck {
+  claims: FactClaim[];
+  redFlags: number; // Unverified red flags
+}
+
+// Raw output of each pipeline step, saved as soon as the step completes
 export interface StepData {
-  step2_ideation: string;
-  step3_outline: string;
-  step4_article: string;
+  step1_research?: string;
+  step2_ideation?: string; // JSON text of the Ideation (Markdown on older items)
+  step3_outline?: string;
+  step4_article?: string; // Article with [IMAGE_PROMPT] tags, before image generation
+  images_done?: boolean;
+}
+
+export type PipelineStage = 'research' | 'ideation' | 'outline' | 'writing' | 'images';
+
+export type HistoryStatus = 'in_progress' | 'awaiting_review' | 'complete' | 'failed';
+
+// Points where the pipeline can stop for an editor: after Step 2 (DDD1) and after Step 3 (OL1)
+export type ReviewGate = 'ideation' | 'outline';
+
+export interface ReviewSettings {
+  gates: ReviewGate[];    // Where to stop
+  approved: ReviewGate[]; // Gates already passed, edits (if any) are in `steps`
 }
 
 export interface HistoryItem {
@@ -25,6 +416,110 @@ export interface HistoryItem {
   content: string;
   timestamp: number;
   language?: OutputLanguage;
+  templateVersions?: Partial<Record<PromptStep, number>>; // Which template version produced each step
+  profile?: BrandProfile; // Snapshot of the profile used, so resume/regenerate use the same persona
+  // Pipeline progress (missing on items saved before step persistence existed)
+  status?: HistoryStatus;
+  steps?: StepData;
+  ideation?: Ideation; // Parsed Step 2, missing on items saved before structured ideation
+  failedStage?: PipelineStage;
+  error?: string;
+  review?: ReviewSettings;
+  sectionRevisions?: SectionRevision[]; // Newest first
+  internalLinks?: InternalLink[]; // Link report, see linkingService
+  verifiedClaims?: string[]; // Fact check claims confirmed by an editor (FactClaim ids)
+  sources?: SourceRef[]; // Grounding sources of Steps 1-4 (the article's own list is in `content`)
+  // Translations: every language version of an article shares the group id (the id of the original)
+  translationGroup?: string;
+  translatedFrom?: string; // History id of the article this one was translated from
+  mergedKeywords?: string[]; // Near-duplicate keywords covered by this article (pre-flight merge)
+  cluster?: ClusterRef; // Keyword cluster the article was planned in
+  imageProvider?: ImageProviderId; // Batch override of the profile's image provider
+  textModel?: TextModelRef; // Text model of the last run (missing on items written before providers)
+  usage?: TokenUsage; // Tokens of every text request made for the item (steps, rewrites)
+  awaitingReview?: ReviewGate; // Set while status is 'awaiting_review'
+  // WordPress publish info (set after a successful REST publish)
+  wpPostId?: number;
+  wpLink?: string;
+  publishedAt?: number;
+}
+
+export type QueueItemStatus = 'pending' | 'running' | 'review' | 'done' | 'failed' | 'skipped';
+
+// Whether the bulk queue worker should be processing (persisted so a reload can continue)
+export type QueueRunState = 'idle' | 'running' | 'paused';
+
+export interface QueueItem {
+  id: string;
+  keyword: string;
+  language: OutputLanguage;
+  category: string;
+  profileId?: string;
+  status: QueueItemStatus;
+  order: number;
+  addedAt: number;
+  finishedAt?: number;
+  historyId?: string; // History item holding the (partial) results of this keyword
+  error?: string;
+  publish?: WpPublishOptions | null; // Auto-publish settings captured when the batch was queued
+  reviewGates?: ReviewGate[]; // Review mode: stop after these steps for editing
+  mergedKeywords?: string[]; // Near-duplicate keywords folded into this one at pre-flight
+  cluster?: ClusterRef;
+  imageProvider?: ImageProviderId; // Image source chosen for the batch (the profile's when missing)
+}
+
+// --- KEYWORD CLUSTERS ---
+
+// pillar: broad overview of the cluster topic; supporting: one subtopic in depth, linked to the pillar
+export type ClusterRole = 'pillar' | 'supporting';
+
+export interface KeywordCluster {
+  id: string;
+  pillar: string;          // Pillar keyword, also the cluster name
+  supporting: string[];    // Supporting article keywords
+  intent: SearchIntentType; // Most common intent of the keywords
+}
+
+// Cluster membership stored on queue and history items
+export interface ClusterRef {
+  id: string;
+  role: ClusterRole;
+  pillar: string;
+  supporting: string[];
+}
+
+// --- DUPLICATE / CANNIBALIZATION PRE-FLIGHT ---
+
+// duplicate: the same topic; cannibalization: close enough to compete for the same searches
+export type OverlapKind = 'duplicate' | 'cannibalization';
+
+export type PreflightAction = 'skip' | 'merge' | 'force';
+
+export interface KeywordOverlap {
+  kind: OverlapKind;
+  score: number;   // 0..1 token overlap
+  reason: string;
+  source: 'batch' | 'queue' | 'history';
+  keyword: string; // The other keyword
+  title?: string;  // Meta title of the history article
+  refId: string;   // Batch index, queue id or history id
+  mergeable: boolean; // Batch keywords and queue items that have not started
+}
+
+export interface PreflightEntry {
+  keyword: string;
+  overlaps: KeywordOverlap[]; // Strongest first; empty when the keyword is clear
+  action: PreflightAction;    // 'force' (generate) for clear keywords
+}
+
+// --- WXR EXPORT ---
+
+// Options of the multi-article WordPress export (setting "wxrExport")
+export interface WxrExportSettings {
+  category: string;                // Category of every post; empty: each profile's default category
+  tags: boolean;                   // Keywords of the article as post tags
+  authors: Record<string, string>; // Profile id -> WordPress login the posts are attributed to
+  maxFileMb: number;               // Split into several files above this size (0: one file)
 }
 
 export enum AppStep {
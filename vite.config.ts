@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
@@ -18,6 +19,12 @@ export default defineConfig(({ mode }) => {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      // Services only (no DOM): IndexedDB comes from fake-indexeddb, see tests/setup.ts
+      test: {
+        environment: 'node',
+        include: ['tests/**/*.test.ts'],
+        setupFiles: ['tests/setup.ts'],
       }
     };
 });
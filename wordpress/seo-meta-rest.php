@@ -0,0 +1,31 @@
+<?php
+/**
+ * Plugin Name: SEO Wizard REST meta
+ * Description: Lets the SEO Wizard publisher write the Yoast SEO / Rank Math title, description and social image through the REST API.
+ *
+ * Neither plugin registers its post meta for the REST API, and the "_" keys are protected, so
+ * WordPress silently drops them from a REST "meta" object. Copy this file to wp-content/mu-plugins/.
+ */
+
+add_action('init', function () {
+    $keys = [
+        '_yoast_wpseo_title',
+        '_yoast_wpseo_metadesc',
+        '_yoast_wpseo_opengraph-image',
+        '_yoast_wpseo_opengraph-image-id',
+        'rank_math_title',
+        'rank_math_description',
+        'rank_math_facebook_image',
+        'rank_math_facebook_image_id',
+    ];
+    foreach ($keys as $key) {
+        register_post_meta('post', $key, [
+            'type'          => 'string',
+            'single'        => true,
+            'show_in_rest'  => true,
+            'auth_callback' => function ($allowed, $meta_key, $post_id) {
+                return current_user_can('edit_post', $post_id);
+            },
+        ]);
+    }
+});